@@ -1,9 +1,23 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
 import App from './App';
 
-test('renders learn react link', () => {
+// react-leaflet only ships ES modules, which jest does not load
+jest.mock('./components/MapVisualization', () => () => null);
+
+// A worker that never answers, so the run stays in progress until cancelled
+jest.mock('./workers/createSimulationWorker', () => ({
+  createSimulationWorker: () => ({ postMessage: () => {}, terminate: () => {}, onmessage: null, onerror: null })
+}));
+
+test('renders the control panel and cancels a running simulation', async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('button', { name: /run simulation/i }));
+  fireEvent.click(await screen.findByRole('button', { name: /cancel/i }));
+
+  expect(await screen.findByRole('button', { name: /run simulation/i })).toBeEnabled();
+  expect(screen.queryByRole('button', { name: /cancel/i })).not.toBeInTheDocument();
+  jest.restoreAllMocks();
 });
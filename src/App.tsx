@@ -2,34 +2,34 @@ import React, { useState } from 'react';
 import { Container, CssBaseline, ThemeProvider, createTheme, Box, Typography, Paper, useMediaQuery, alpha } from '@mui/material';
 import MapVisualization from './components/MapVisualization';
 import ControlPanel from './components/ControlPanel';
-import { RideRequest, Vehicle, Cluster, Assignment, SimulationParams } from './models/types';
-import { RandomDataGenerator } from './data/RandomDataGenerator';
-import { DBSCANClustering } from './services/clustering/DBSCANClustering';
-import { GeneticMatcher } from './services/matching/GeneticMatcher';
-import { StraightLineRouter } from './services/routing/StraightLineRouter';
-import { SimulationService } from './services/SimulationService';
+import TripFileDropZone, { TLCSlice } from './components/TripFileDropZone';
+import ReachabilityPlot from './components/ReachabilityPlot';
+import ConvergencePlot from './components/ConvergencePlot';
+import ParetoFrontPlot from './components/ParetoFrontPlot';
+import UnassignedRequestsPanel from './components/UnassignedRequestsPanel';
+import { RideRequest, Vehicle, Cluster, Assignment, SimulationParams, ReachabilityOrdering, ClusterQualityMetrics, FilteredRequest, RouteSequencingReport, PassengerServiceReport, MatchingProgress, ParetoSolution, UnassignedRequest } from './models/types';
+import { parseDataFile } from './data/TripFileDataAdapter';
+import { TLCImportResult, detectTLCServiceType, importTLCTrips } from './data/TLCTripDataAdapter';
+import { DEFAULT_SIMULATION_CONFIG } from './config/simulationConfig';
+import { parseCsv } from './utils/csv';
+import { OPTICSClustering } from './services/clustering/OPTICSClustering';
+import { CapacityClusterSplitter } from './services/clustering/CapacityClusterSplitter';
+import { SimulationDataSource, createSimulationService } from './services/simulationFactory';
+import { SimulationWorkerClient, SimulationCancelledError } from './workers/SimulationWorkerClient';
+import { createSimulationWorker } from './workers/createSimulationWorker';
 import './App.css';
 
-// Create services
-const dataAdapter = new RandomDataGenerator();
+// Re-extracts OPTICS clusters at other epsilons and splits them to fit the fleet, as the simulation does
+const opticsClustering = new OPTICSClustering();
+const clusterSplitter = new CapacityClusterSplitter();
 
-// Advanced algorithms (upgraded version)
-const dbscanClustering = new DBSCANClustering();
-const geneticMatcher = new GeneticMatcher();
+// Legacy GreedyMatcher is no longer used
 
-// Legacy algorithms are disabled to use only advanced algorithms
-// KMeansClustering and GreedyMatcher are no longer used
+// Runs clustering and matching in a Web Worker so the UI stays responsive, where workers exist
+const simulationWorker = new SimulationWorkerClient(createSimulationWorker);
 
-// Routing engine
-const routingEngine = new StraightLineRouter();
-
-// Create simulation service with the advanced algorithms
-const simulationService = new SimulationService(
-  dataAdapter,
-  dbscanClustering,  // Using the improved DBSCAN clustering
-  geneticMatcher,    // Using the improved Genetic Algorithm matcher
-  routingEngine
-);
+// Only used for metrics, which don't depend on the data source or algorithms
+const simulationService = createSimulationService();
 
 // Create theme
 const theme = createTheme({
@@ -180,45 +180,170 @@ function App() {
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [clusters, setClusters] = useState<Cluster[]>([]);
   const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [reachability, setReachability] = useState<ReachabilityOrdering | null>(null);
+  const [reachabilityThreshold, setReachabilityThreshold] = useState<number>(0);
   const [metrics, setMetrics] = useState<{
     percentageMatched: number;
     averageDetourDistance: number;
     totalDistanceSaved: number;
+    clusterQuality?: ClusterQualityMetrics;
+    filteredRequests?: FilteredRequest[];
+    routeSequencing?: RouteSequencingReport;
+    passengerService?: PassengerServiceReport[];
   } | null>(null);
   
   // UI state
   const [simulationRunning, setSimulationRunning] = useState<boolean>(false);
+  const [matchingProgress, setMatchingProgress] = useState<MatchingProgress[]>([]);
+  const [paretoFront, setParetoFront] = useState<ParetoSolution[]>([]);
+  const [selectedTradeOff, setSelectedTradeOff] = useState<number>(0);
+  const [unassignedRequests, setUnassignedRequests] = useState<UnassignedRequest[]>([]);
+  const [highlightedRequestId, setHighlightedRequestId] = useState<string | null>(null);
   const [showClusters, setShowClusters] = useState<boolean>(true);
   const [showRoutes, setShowRoutes] = useState<boolean>(true);
+  
+  // Trip data loaded from dropped files (random data when null)
+  const [tripData, setTripData] = useState<{
+    tripFiles: string[];
+    vehicleFiles: string[];
+    requests: RideRequest[];
+    vehicles: Vehicle[];
+    tlcSlice?: TLCImportResult; // set when trips come from a TLC trip record file
+  } | null>(null);
+  const [tripDataError, setTripDataError] = useState<string | null>(null);
+  const [tlcSlice, setTlcSlice] = useState<TLCSlice>(DEFAULT_SIMULATION_CONFIG.DEFAULT_TLC_SLICE);
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
 
+  // Parse dropped trip and vehicle files
+  const handleTripFiles = async (files: File[]) => {
+    try {
+      let requests: RideRequest[] | null = null;
+      let vehicles: Vehicle[] | null = null;
+      let tlcResult: TLCImportResult | undefined;
+      const tripFiles: string[] = [];
+      const vehicleFiles: string[] = [];
+      
+      for (const file of files) {
+        // TLC files are large, so stream them and keep only the selected time slice
+        const [header] = parseCsv((await file.slice(0, 4096).text()).split('\n', 1)[0]);
+        if (header && detectTLCServiceType(header)) {
+          tlcResult = await importTLCTrips(file, tlcSlice);
+          requests = [...(requests ?? []), ...tlcResult.requests];
+          tripFiles.push(file.name);
+          continue;
+        }
+        
+        const parsed = parseDataFile(file.name, await file.text());
+        if (parsed.kind === 'trips') {
+          requests = [...(requests ?? []), ...parsed.requests];
+          tripFiles.push(file.name);
+        } else {
+          vehicles = [...(vehicles ?? []), ...parsed.vehicles];
+          vehicleFiles.push(file.name);
+        }
+      }
+      
+      // Dropping only a vehicle snapshot keeps previously loaded trips, and vice versa
+      if (!requests && !tripData) {
+        throw new Error('No trips loaded yet - drop a trip file first');
+      }
+      
+      setTripData({
+        tripFiles: requests ? tripFiles : tripData?.tripFiles ?? [],
+        vehicleFiles: vehicles ? vehicleFiles : tripData?.vehicleFiles ?? [],
+        requests: requests ?? tripData?.requests ?? [],
+        vehicles: vehicles ?? tripData?.vehicles ?? [],
+        tlcSlice: requests ? tlcResult && { ...tlcResult, requests } : tripData?.tlcSlice
+      });
+      setTripDataError(null);
+    } catch (error) {
+      setTripDataError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // Re-extract OPTICS clusters at a new epsilon without rerunning the simulation
+  const handleReachabilityThreshold = (threshold: number) => {
+    if (!reachability) return;
+    
+    setReachabilityThreshold(threshold);
+    setClusters(clusterSplitter.split(opticsClustering.extractClusters(reachability, threshold), vehicles));
+  };
+
   // Run the simulation
   const handleRunSimulation = async (params: SimulationParams) => {
     try {
       setSimulationRunning(true);
+      setMatchingProgress([]);
+      setParetoFront([]);
+      setHighlightedRequestId(null);
       
-      // Run the simulation
-      const result = await simulationService.runSimulation(params);
+      // Use loaded trip files when present, otherwise synthetic data
+      let source: SimulationDataSource = { kind: 'random' };
+      if (tripData?.tlcSlice) {
+        source = { kind: 'tlc', slice: tripData.tlcSlice, vehicles: tripData.vehicles };
+      } else if (tripData) {
+        source = { kind: 'trips', requests: tripData.requests, vehicles: tripData.vehicles };
+      }
+      
+      // Run the simulation in the worker, drawing matching progress as it arrives
+      const result = await simulationWorker.run(params, source, progress => {
+        setMatchingProgress(previous => [...previous, progress]);
+      });
       
       // Update state with results
       setRequests(result.requests);
       setVehicles(result.vehicles);
       setClusters(result.clusters);
+      setReachability(result.reachability ?? null);
+      if (result.reachability) {
+        setReachabilityThreshold(result.reachability.epsilon);
+      }
       setAssignments(result.assignments);
+      setParetoFront(result.paretoFront ?? []);
+      setSelectedTradeOff(0);
+      setUnassignedRequests(result.unassignedRequests);
       
       // Calculate metrics
       const simulationMetrics = simulationService.calculateMetrics(
         result.requests,
         result.assignments
       );
-      setMetrics(simulationMetrics);
+      setMetrics({
+        ...simulationMetrics,
+        clusterQuality: result.clusterQuality,
+        filteredRequests: result.filteredRequests,
+        routeSequencing: result.routeSequencing,
+        passengerService: result.passengerService
+      });
     } catch (error) {
+      if (error instanceof SimulationCancelledError) {
+        console.log('Simulation cancelled');
+        return;
+      }
       console.error('Simulation error:', error);
+      if (tripData) {
+        setTripDataError(error instanceof Error ? error.message : String(error));
+      }
     } finally {
       setSimulationRunning(false);
     }
   };
 
+  // Show another trade-off from the Pareto front on the map and in the metrics
+  const handleSelectTradeOff = (index: number) => {
+    const solution = paretoFront[index];
+    setSelectedTradeOff(index);
+    setAssignments(solution.assignments);
+    setUnassignedRequests(solution.unassignedRequests);
+    setHighlightedRequestId(null);
+    setMetrics(previous => previous && {
+      ...previous,
+      ...simulationService.calculateMetrics(requests, solution.assignments),
+      routeSequencing: solution.routeSequencing,
+      passengerService: solution.passengerService
+    });
+  };
+
   return (
     <ThemeProvider theme={theme}>
       <CssBaseline />
@@ -258,14 +383,55 @@ function App() {
           
           <ControlPanel 
             onRunSimulation={handleRunSimulation}
+            onCancelSimulation={() => simulationWorker.cancel()}
             simulationRunning={simulationRunning}
             showClusters={showClusters}
             showRoutes={showRoutes}
             onToggleClusters={() => setShowClusters(!showClusters)}
             onToggleRoutes={() => setShowRoutes(!showRoutes)}
+            requests={requests}
             metrics={metrics}
           />
           
+          {(simulationRunning || matchingProgress.length > 0) && (
+            <Paper elevation={0} sx={{ p: 2, mb: 3, borderRadius: 3 }}>
+              <ConvergencePlot progress={matchingProgress} running={simulationRunning} />
+            </Paper>
+          )}
+          
+          {paretoFront.length > 0 && (
+            <Paper elevation={0} sx={{ p: 2, mb: 3, borderRadius: 3 }}>
+              <ParetoFrontPlot front={paretoFront} selected={selectedTradeOff} onSelect={handleSelectTradeOff} />
+            </Paper>
+          )}
+          
+          <Paper elevation={0} sx={{ p: 2, mb: 3, borderRadius: 3 }}>
+            <TripFileDropZone
+              loaded={tripData && {
+                fileNames: [...tripData.tripFiles, ...tripData.vehicleFiles],
+                tripCount: tripData.requests.length,
+                vehicleCount: tripData.vehicles.length,
+                details: tripData.tlcSlice && (
+                  `${tripData.tlcSlice.serviceType} taxi, ${tripData.tlcSlice.rowsRead} rows read, ` +
+                  `${tripData.tlcSlice.skippedRows} skipped without coordinates` +
+                  (tripData.tlcSlice.invalidTimestamps > 0
+                    ? `, ${tripData.tlcSlice.invalidTimestamps} with unreadable pickup times (rows ${tripData.tlcSlice.invalidTimestampRows.join(', ')}` +
+                      `${tripData.tlcSlice.invalidTimestamps > tripData.tlcSlice.invalidTimestampRows.length ? ', ...' : ''})`
+                    : '')
+                )
+              }}
+              error={tripDataError}
+              disabled={simulationRunning}
+              tlcSlice={tlcSlice}
+              onTlcSliceChange={setTlcSlice}
+              onFiles={handleTripFiles}
+              onClear={() => {
+                setTripData(null);
+                setTripDataError(null);
+              }}
+            />
+          </Paper>
+          
           <Paper 
             elevation={3} 
             sx={{ 
@@ -285,9 +451,31 @@ function App() {
               assignments={assignments}
               showClusters={showClusters}
               showRoutes={showRoutes}
+              unassigned={unassignedRequests}
+              highlightedRequestId={highlightedRequestId}
             />
           </Paper>
           
+          {unassignedRequests.length > 0 && (
+            <Paper elevation={0} sx={{ p: 2, mt: 3, borderRadius: 3 }}>
+              <UnassignedRequestsPanel
+                unassigned={unassignedRequests}
+                highlightedRequestId={highlightedRequestId}
+                onHighlight={setHighlightedRequestId}
+              />
+            </Paper>
+          )}
+          
+          {reachability && (
+            <Paper elevation={0} sx={{ p: 2, mt: 3, borderRadius: 3 }}>
+              <ReachabilityPlot
+                ordering={reachability}
+                threshold={reachabilityThreshold}
+                onThresholdChange={handleReachabilityThreshold}
+              />
+            </Paper>
+          )}
+          
           <Box sx={{ mt: 4, textAlign: 'center' }}>
             <Typography variant="body2" color="textSecondary">
               © {new Date().getFullYear()} Dynamic Ride-Sharing Algorithm Simulator — Built with React & Material-UI
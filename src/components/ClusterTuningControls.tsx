@@ -0,0 +1,286 @@
+import React from 'react';
+import { Box, Typography, Slider, FormControlLabel, Switch, Alert, Button, ToggleButton, ToggleButtonGroup, useTheme } from '@mui/material';
+import TuneIcon from '@mui/icons-material/Tune';
+import RestartAltIcon from '@mui/icons-material/RestartAlt';
+import { ClusterTuning, ClusteringAlgorithm, KSelectionMethod, RideRequest } from '../models/types';
+import { suggestEpsilon } from '../services/clustering/kDistance';
+import KDistancePlot from './KDistancePlot';
+
+interface ClusterTuningControlsProps {
+  tuning: Required<ClusterTuning>;
+  requests: RideRequest[]; // requests of the last run, for the k-distance curve
+  timeWindowMinutes: number;
+  maxDistanceKm: number;
+  errors: string[];
+  disabled: boolean;
+  onChange: (tuning: Required<ClusterTuning>) => void;
+  onReset: () => void;
+}
+
+interface TuningSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  decimals?: number;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}
+
+export const TuningSlider: React.FC<TuningSliderProps> = ({ label, value, min, max, step, decimals = 2, disabled, onChange }) => (
+  <Box sx={{ flex: '1 1 220px', minWidth: 200 }}>
+    <Typography variant="body2" color="textSecondary">
+      {label}: <strong>{value.toFixed(decimals)}</strong>
+    </Typography>
+    <Slider
+      size="small"
+      value={value}
+      onChange={(_, newValue) => onChange(newValue as number)}
+      min={min}
+      max={max}
+      step={step}
+      valueLabelDisplay="auto"
+      disabled={disabled}
+    />
+  </Box>
+);
+
+/**
+ * Clustering algorithm choice plus sliders for its neighborhood and spatio-temporal distance knobs
+ */
+const ClusterTuningControls: React.FC<ClusterTuningControlsProps> = ({
+  tuning,
+  requests,
+  timeWindowMinutes,
+  maxDistanceKm,
+  errors,
+  disabled,
+  onChange,
+  onReset
+}) => {
+  const theme = useTheme();
+  const update = (changes: Partial<ClusterTuning>) => onChange({ ...tuning, ...changes });
+  // OPTICS shares DBSCAN's epsilon and min points
+  const dbscan = tuning.algorithm === 'dbscan' || tuning.algorithm === 'optics';
+
+  const suggestion = React.useMemo(
+    () => (dbscan && requests.length > 0 ? suggestEpsilon(requests, { ...tuning, timeWindowMinutes, maxDistanceKm }) : null),
+    [dbscan, requests, tuning, timeWindowMinutes, maxDistanceKm]
+  );
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="subtitle1" sx={{ display: 'flex', alignItems: 'center' }}>
+          <TuneIcon sx={{ mr: 1, color: theme.palette.primary.main }} />
+          Clustering
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={tuning.algorithm}
+          onChange={(_, algorithm: ClusteringAlgorithm | null) => algorithm && update({ algorithm })}
+          disabled={disabled}
+          sx={{ ml: 2, mr: 'auto' }}
+        >
+          <ToggleButton value="dbscan">DBSCAN</ToggleButton>
+          <ToggleButton value="hdbscan">HDBSCAN</ToggleButton>
+          <ToggleButton value="optics">OPTICS</ToggleButton>
+          <ToggleButton value="kmeans">K-Means</ToggleButton>
+        </ToggleButtonGroup>
+        <Button size="small" startIcon={<RestartAltIcon />} onClick={onReset} disabled={disabled}>
+          Defaults
+        </Button>
+      </Box>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', columnGap: 3 }}>
+        {dbscan ? (
+          <>
+            <TuningSlider
+              label="Epsilon"
+              value={tuning.epsilon}
+              min={0.01}
+              max={0.99}
+              step={0.01}
+              disabled={disabled || tuning.autoEpsilon}
+              onChange={(epsilon) => update({ epsilon })}
+            />
+            <TuningSlider
+              label="Max Epsilon"
+              value={tuning.maxEpsilon}
+              min={0.01}
+              max={0.99}
+              step={0.01}
+              disabled={disabled || !tuning.adaptiveEpsilon || tuning.autoEpsilon}
+              onChange={(maxEpsilon) => update({ maxEpsilon })}
+            />
+            <TuningSlider
+              label="Min Points"
+              value={tuning.minPoints}
+              min={1}
+              max={10}
+              step={1}
+              decimals={0}
+              disabled={disabled}
+              onChange={(minPoints) => update({ minPoints })}
+            />
+          </>
+        ) : tuning.algorithm === 'kmeans' ? (
+          <TuningSlider
+            label="Max k"
+            value={tuning.maxK}
+            min={2}
+            max={50}
+            step={1}
+            decimals={0}
+            disabled={disabled}
+            onChange={(maxK) => update({ maxK })}
+          />
+        ) : (
+          <TuningSlider
+            label="Min Cluster Size"
+            value={tuning.minClusterSize}
+            min={2}
+            max={10}
+            step={1}
+            decimals={0}
+            disabled={disabled}
+            onChange={(minClusterSize) => update({ minClusterSize })}
+          />
+        )}
+        <TuningSlider
+          label="Spatial Weight"
+          value={tuning.spatialWeight}
+          min={0}
+          max={1}
+          step={0.05}
+          disabled={disabled}
+          onChange={(spatialWeight) => update({ spatialWeight })}
+        />
+        <TuningSlider
+          label="Temporal Weight"
+          value={tuning.temporalWeight}
+          min={0}
+          max={1}
+          step={0.05}
+          disabled={disabled}
+          onChange={(temporalWeight) => update({ temporalWeight })}
+        />
+        <TuningSlider
+          label="Spatial Normalizer (km)"
+          value={tuning.maxSpatialDistanceKm}
+          min={0.5}
+          max={10}
+          step={0.5}
+          decimals={1}
+          disabled={disabled}
+          onChange={(maxSpatialDistanceKm) => update({ maxSpatialDistanceKm })}
+        />
+        <TuningSlider
+          label="Temporal Normalizer (min)"
+          value={tuning.maxTemporalDistanceMin}
+          min={1}
+          max={60}
+          step={1}
+          decimals={0}
+          disabled={disabled}
+          onChange={(maxTemporalDistanceMin) => update({ maxTemporalDistanceMin })}
+        />
+        {tuning.distanceMode === 'trip' && (
+          <>
+            <TuningSlider
+              label="Dropoff Weight"
+              value={tuning.dropoffWeight}
+              min={0}
+              max={1}
+              step={0.05}
+              disabled={disabled}
+              onChange={(dropoffWeight) => update({ dropoffWeight })}
+            />
+            <TuningSlider
+              label="Heading Weight"
+              value={tuning.bearingWeight}
+              min={0}
+              max={1}
+              step={0.05}
+              disabled={disabled}
+              onChange={(bearingWeight) => update({ bearingWeight })}
+            />
+          </>
+        )}
+      </Box>
+
+      {dbscan && (
+        <>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={tuning.autoEpsilon}
+                onChange={(event) => update({ autoEpsilon: event.target.checked })}
+                disabled={disabled}
+              />
+            }
+            label="Auto epsilon (k-distance knee)"
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={tuning.adaptiveEpsilon}
+                onChange={(event) => update({ adaptiveEpsilon: event.target.checked })}
+                disabled={disabled || tuning.autoEpsilon}
+              />
+            }
+            label="Grow epsilon with request count"
+          />
+        </>
+      )}
+      {tuning.algorithm === 'kmeans' && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          <Typography variant="body2" color="textSecondary">
+            Choose k by
+          </Typography>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={tuning.kSelection}
+            onChange={(_, kSelection: KSelectionMethod | null) => kSelection && update({ kSelection })}
+            disabled={disabled}
+          >
+            <ToggleButton value="silhouette">Silhouette</ToggleButton>
+            <ToggleButton value="elbow">Elbow</ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
+      )}
+      <FormControlLabel
+        control={
+          <Switch
+            checked={tuning.distanceMode === 'trip'}
+            onChange={(event) => update({ distanceMode: event.target.checked ? 'trip' : 'pickup' })}
+            disabled={disabled}
+          />
+        }
+        label="Destination-aware (compare dropoffs and headings)"
+      />
+
+      {suggestion && (
+        <Box sx={{ mt: 1, maxWidth: 480 }}>
+          <KDistancePlot
+            suggestion={suggestion}
+            epsilon={tuning.autoEpsilon ? suggestion.epsilon : tuning.epsilon}
+            onUseSuggestion={() => update({ epsilon: Number(suggestion.epsilon.toFixed(2)), adaptiveEpsilon: false, autoEpsilon: false })}
+            disabled={disabled}
+          />
+        </Box>
+      )}
+
+      {errors.map(error => (
+        <Alert key={error} severity="warning" sx={{ mt: 1 }}>
+          {error}
+        </Alert>
+      ))}
+    </Box>
+  );
+};
+
+export default ClusterTuningControls;
@@ -13,10 +13,19 @@ import {
   Badge,
   useTheme,
   alpha,
-  Paper
+  Paper,
+  TextField,
+  Alert,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails
 } from '@mui/material';
-import { SimulationParams } from '../models/types';
+import { SimulationParams, RideRequest, ClusterQualityMetrics, FilteredRequest, RouteSequencingReport, PassengerServiceReport } from '../models/types';
 import { DEFAULT_SIMULATION_CONFIG } from '../config/simulationConfig';
+import { resolveClusterTuning, validateClusterTuning } from '../services/clustering/clusterTuning';
+import { resolveGeneticOptions, validateGeneticOptions } from '../services/matching/geneticOptions';
+import ClusterTuningControls from './ClusterTuningControls';
+import GeneticMatcherControls from './GeneticMatcherControls';
 import DirectionsCarIcon from '@mui/icons-material/DirectionsCar';
 import PersonIcon from '@mui/icons-material/Person';
 import RouteIcon from '@mui/icons-material/Route';
@@ -28,28 +37,41 @@ import GroupWorkIcon from '@mui/icons-material/GroupWork';
 import PeopleAltIcon from '@mui/icons-material/PeopleAlt';
 import TrendingDownIcon from '@mui/icons-material/TrendingDown';
 import TrendingUpIcon from '@mui/icons-material/TrendingUp';
+import CasinoIcon from '@mui/icons-material/Casino';
+import EventIcon from '@mui/icons-material/Event';
+import HourglassBottomIcon from '@mui/icons-material/HourglassBottom';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import StopIcon from '@mui/icons-material/Stop';
 
 interface ControlPanelProps {
   onRunSimulation: (params: SimulationParams) => void;
+  onCancelSimulation: () => void;
   simulationRunning: boolean;
   showClusters: boolean;
   showRoutes: boolean;
   onToggleClusters: () => void;
   onToggleRoutes: () => void;
+  requests: RideRequest[]; // requests of the last run
   metrics: {
     percentageMatched: number;
     averageDetourDistance: number;
     totalDistanceSaved: number;
+    clusterQuality?: ClusterQualityMetrics;
+    filteredRequests?: FilteredRequest[];
+    routeSequencing?: RouteSequencingReport;
+    passengerService?: PassengerServiceReport[];
   } | null;
 }
 
 const ControlPanel: React.FC<ControlPanelProps> = ({
   onRunSimulation,
+  onCancelSimulation,
   simulationRunning,
   showClusters,
   showRoutes,
   onToggleClusters,
   onToggleRoutes,
+  requests,
   metrics
 }) => {
   const theme = useTheme();
@@ -58,14 +80,33 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   const [vehicleCount, setVehicleCount] = React.useState(DEFAULT_SIMULATION_CONFIG.DEFAULT_VEHICLES);
   const [maxDetourDistance, setMaxDetourDistance] = React.useState(DEFAULT_SIMULATION_CONFIG.DEFAULT_MAX_DETOUR_KM);
   const [timeWindow, setTimeWindow] = React.useState(DEFAULT_SIMULATION_CONFIG.DEFAULT_TIME_WINDOW);
+  const [prebookHorizon, setPrebookHorizon] = React.useState(DEFAULT_SIMULATION_CONFIG.DEFAULT_PREBOOK_HORIZON);
+  const [maxWaitMinutes, setMaxWaitMinutes] = React.useState(DEFAULT_SIMULATION_CONFIG.DEFAULT_MAX_WAIT_MINUTES);
+  const [maxRideTimeRatio, setMaxRideTimeRatio] = React.useState(DEFAULT_SIMULATION_CONFIG.DEFAULT_MAX_RIDE_TIME_RATIO);
+  const [enforceTimeWindows, setEnforceTimeWindows] = React.useState(true);
+  const [seed, setSeed] = React.useState('');
+  const [clusterTuning, setClusterTuning] = React.useState(() => resolveClusterTuning());
+  const tuningErrors = validateClusterTuning(clusterTuning);
+  const [geneticOptions, setGeneticOptions] = React.useState(() => resolveGeneticOptions());
+  const geneticErrors = validateGeneticOptions(geneticOptions);
 
   // Handler for running the simulation
   const handleRunSimulation = () => {
+    const parsedSeed = parseInt(seed, 10);
+    
     onRunSimulation({
       passengerCount,
       vehicleCount,
       maxDetourDistance,
-      timeWindow
+      timeWindow,
+      prebookHorizon,
+      maxWaitMinutes,
+      maxRideTimeRatio,
+      enforceTimeWindows,
+      // An empty seed keeps runs random
+      seed: Number.isNaN(parsedSeed) ? undefined : parsedSeed,
+      clusterTuning,
+      geneticOptions
     });
   };
 
@@ -226,9 +267,137 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                 }}
               />
             </Box>
+            
+            <Box sx={{ my: 2 }}>
+              <Typography variant="subtitle1" gutterBottom sx={{ display: 'flex', alignItems: 'center' }}>
+                <EventIcon sx={{ mr: 1, color: theme.palette.info.main }} />
+                Pre-booking Horizon (minutes): <Badge 
+                  color="info" 
+                  badgeContent={prebookHorizon} 
+                  showZero
+                  sx={{ ml: 1 }}
+                  max={999}
+                />
+              </Typography>
+              <Slider
+                value={prebookHorizon}
+                onChange={(_, value) => setPrebookHorizon(value as number)}
+                min={0}
+                max={60}
+                step={5}
+                valueLabelDisplay="auto"
+                disabled={simulationRunning}
+                sx={{ 
+                  color: theme.palette.info.main,
+                  '& .MuiSlider-thumb': {
+                    '&:hover, &.Mui-focusVisible': {
+                      boxShadow: `0px 0px 0px 8px ${alpha(theme.palette.info.main, 0.16)}`
+                    }
+                  }
+                }}
+              />
+            </Box>
+            
+            <Box sx={{ my: 2 }}>
+              <Typography variant="subtitle1" gutterBottom sx={{ display: 'flex', alignItems: 'center' }}>
+                <HourglassBottomIcon sx={{ mr: 1, color: theme.palette.info.main }} />
+                Max Wait (minutes): <Badge 
+                  color="info" 
+                  badgeContent={maxWaitMinutes} 
+                  sx={{ ml: 1 }}
+                  max={999}
+                />
+              </Typography>
+              <Slider
+                value={maxWaitMinutes}
+                onChange={(_, value) => setMaxWaitMinutes(value as number)}
+                min={5}
+                max={60}
+                step={5}
+                valueLabelDisplay="auto"
+                disabled={simulationRunning}
+                sx={{ color: theme.palette.info.main }}
+              />
+            </Box>
+            
+            <Box sx={{ my: 2 }}>
+              <Typography variant="subtitle1" gutterBottom sx={{ display: 'flex', alignItems: 'center' }}>
+                <HourglassBottomIcon sx={{ mr: 1, color: theme.palette.info.main }} />
+                Max Ride Time vs Solo Trip: <Badge 
+                  color="info" 
+                  badgeContent={`${maxRideTimeRatio.toFixed(1)}×`} 
+                  sx={{ ml: 1 }}
+                />
+              </Typography>
+              <Slider
+                value={maxRideTimeRatio}
+                onChange={(_, value) => setMaxRideTimeRatio(value as number)}
+                min={1}
+                max={4}
+                step={0.1}
+                valueLabelDisplay="auto"
+                disabled={simulationRunning}
+                sx={{ color: theme.palette.info.main }}
+              />
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={enforceTimeWindows}
+                    onChange={(event) => setEnforceTimeWindows(event.target.checked)}
+                    disabled={simulationRunning}
+                    color="info"
+                  />
+                }
+                label="Enforce limits when matching (off only reports violations)"
+              />
+            </Box>
             </Box>
           </Box>
 
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <CasinoIcon sx={{ color: theme.palette.warning.main }} />
+            <TextField
+              label="Random Seed"
+              placeholder="Random"
+              helperText="Use the same seed to reproduce a run"
+              size="small"
+              type="number"
+              value={seed}
+              onChange={(event) => setSeed(event.target.value)}
+              disabled={simulationRunning}
+              sx={{ maxWidth: 260 }}
+            />
+          </Box>
+
+          <Box>
+            <Divider sx={{ mb: 2 }} />
+            <ClusterTuningControls
+              tuning={clusterTuning}
+              requests={requests}
+              timeWindowMinutes={timeWindow}
+              maxDistanceKm={maxDetourDistance}
+              errors={tuningErrors}
+              disabled={simulationRunning}
+              onChange={setClusterTuning}
+              onReset={() => setClusterTuning(resolveClusterTuning())}
+            />
+          </Box>
+
+          <Accordion disableGutters elevation={0} sx={{ '&:before': { display: 'none' }, background: 'transparent' }}>
+            <AccordionSummary expandIcon={<ExpandMoreIcon />} sx={{ px: 0 }}>
+              <Typography variant="subtitle1">Advanced</Typography>
+            </AccordionSummary>
+            <AccordionDetails sx={{ px: 0 }}>
+              <GeneticMatcherControls
+                options={geneticOptions}
+                errors={geneticErrors}
+                disabled={simulationRunning}
+                onChange={setGeneticOptions}
+                onReset={() => setGeneticOptions(resolveGeneticOptions())}
+              />
+            </AccordionDetails>
+          </Accordion>
+
           <Box>
             <Divider sx={{ my: 2 }} />
             
@@ -270,26 +439,34 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                 />
               </Stack>
               
-              <Button
-                variant="contained"
-                color="primary"
-                onClick={handleRunSimulation}
-                disabled={simulationRunning}
-                sx={{ 
-                  minWidth: 180,
-                  py: 1,
-                  fontSize: '1rem',
-                  boxShadow: '0 4px 12px rgba(63, 81, 181, 0.3)',
-                  transition: 'all 0.3s ease',
-                  '&:hover': {
-                    boxShadow: '0 6px 16px rgba(63, 81, 181, 0.4)',
-                    transform: 'translateY(-2px)'
-                  }
-                }}
-                startIcon={simulationRunning ? <SpeedIcon /> : <PlayArrowIcon />}
-              >
-                {simulationRunning ? 'Running...' : 'Run Simulation'}
-              </Button>
+              <Stack direction="row" spacing={1}>
+                <Button
+                  variant="contained"
+                  color="primary"
+                  onClick={handleRunSimulation}
+                  disabled={simulationRunning || tuningErrors.length > 0 || geneticErrors.length > 0}
+                  sx={{ 
+                    minWidth: 180,
+                    py: 1,
+                    fontSize: '1rem',
+                    boxShadow: '0 4px 12px rgba(63, 81, 181, 0.3)',
+                    transition: 'all 0.3s ease',
+                    '&:hover': {
+                      boxShadow: '0 6px 16px rgba(63, 81, 181, 0.4)',
+                      transform: 'translateY(-2px)'
+                    }
+                  }}
+                  startIcon={simulationRunning ? <SpeedIcon /> : <PlayArrowIcon />}
+                >
+                  {simulationRunning ? 'Running...' : 'Run Simulation'}
+                </Button>
+              
+                {simulationRunning && (
+                  <Button variant="outlined" color="error" onClick={onCancelSimulation} startIcon={<StopIcon />}>
+                    Cancel
+                  </Button>
+                )}
+              </Stack>
             </Stack>
           </Box>
           
@@ -370,6 +547,75 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                   </Box>
                 </Box>
               </Box>
+              
+              {metrics.clusterQuality && (
+                <Box sx={{ mt: 2 }}>
+                  <Typography variant="subtitle1" gutterBottom sx={{ display: 'flex', alignItems: 'center' }}>
+                    <GroupWorkIcon sx={{ mr: 1, color: theme.palette.info.main }} />
+                    Cluster Quality ({metrics.clusterQuality.clusterCount} clusters, {metrics.clusterQuality.noiseCount} single riders)
+                  </Typography>
+                  <Box sx={{ display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: 2 }}>
+                    {[
+                      { label: 'Silhouette (higher is better)', value: metrics.clusterQuality.silhouette?.toFixed(2) },
+                      { label: 'Davies–Bouldin (lower is better)', value: metrics.clusterQuality.daviesBouldin?.toFixed(2) },
+                      {
+                        label: 'Shareable Rider Pairs',
+                        value: metrics.clusterQuality.shareability !== null
+                          ? `${(metrics.clusterQuality.shareability * 100).toFixed(1)}%`
+                          : undefined
+                      }
+                    ].map(({ label, value }) => (
+                      <Box key={label} sx={{ flex: 1 }}>
+                        <Paper
+                          elevation={0}
+                          sx={{
+                            p: 2,
+                            border: `1px solid ${alpha(theme.palette.info.main, 0.2)}`,
+                            background: alpha(theme.palette.info.main, 0.05),
+                            borderRadius: 2
+                          }}
+                        >
+                          <Typography variant="h6" sx={{ color: theme.palette.info.main, fontWeight: 600 }}>
+                            {value ?? 'n/a'}
+                          </Typography>
+                          <Typography variant="body2" color="textSecondary">
+                            {label}
+                          </Typography>
+                        </Paper>
+                      </Box>
+                    ))}
+                  </Box>
+                </Box>
+              )}
+              
+              {metrics.routeSequencing && metrics.routeSequencing.resequencedAssignments > 0 && (
+                <Alert severity="success" sx={{ mt: 2 }}>
+                  Reordering pickups and dropoffs shortened {metrics.routeSequencing.resequencedAssignments} routes
+                  from {metrics.routeSequencing.distanceBeforeKm.toFixed(2)} km
+                  to {metrics.routeSequencing.distanceAfterKm.toFixed(2)} km
+                  ({(metrics.routeSequencing.distanceBeforeKm - metrics.routeSequencing.distanceAfterKm).toFixed(2)} km saved).
+                </Alert>
+              )}
+              
+              {metrics.passengerService && metrics.passengerService.some(report => report.latePickup || report.rideTooLong) && (
+                <Alert severity="warning" sx={{ mt: 2 }}>
+                  {metrics.passengerService.filter(report => report.latePickup).length} assigned riders would be picked up
+                  after their latest pickup time and{' '}
+                  {metrics.passengerService.filter(report => report.rideTooLong).length} would ride longer than allowed:{' '}
+                  {metrics.passengerService
+                    .filter(report => report.latePickup || report.rideTooLong)
+                    .map(report => report.requestId.slice(0, 8))
+                    .join(', ')}.
+                </Alert>
+              )}
+              
+              {metrics.filteredRequests && metrics.filteredRequests.length > 0 && (
+                <Alert severity="info" sx={{ mt: 2 }}>
+                  {metrics.filteredRequests.length} requests fell outside the time window and were not clustered or matched:{' '}
+                  {metrics.filteredRequests.filter(filtered => filtered.reason === 'expired').length} requested before the window,{' '}
+                  {metrics.filteredRequests.filter(filtered => filtered.reason === 'beyond-horizon').length} booked beyond the pre-booking horizon.
+                </Alert>
+              )}
             </Box>
           )}
         </Box>
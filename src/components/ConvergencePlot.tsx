@@ -0,0 +1,57 @@
+import React from 'react';
+import { Box, Typography, useTheme } from '@mui/material';
+import { MatchingProgress } from '../models/types';
+
+interface ConvergencePlotProps {
+  progress: MatchingProgress[]; // one entry per generation, in order
+  running: boolean;
+}
+
+// Plot size in SVG units; the SVG scales to the available width
+const WIDTH = 400;
+const HEIGHT = 120;
+
+/**
+ * Best and mean fitness of the genetic matcher per generation, drawn as it converges
+ */
+const ConvergencePlot: React.FC<ConvergencePlotProps> = ({ progress, running }) => {
+  const theme = useTheme();
+
+  if (progress.length === 0) {
+    return (
+      <Typography variant="caption" color="textSecondary">
+        {running ? 'Clustering requests…' : 'No matching progress was reported'}
+      </Typography>
+    );
+  }
+
+  const latest = progress[progress.length - 1];
+  const fitnesses = progress.flatMap(({ bestFitness, meanFitness }) => [bestFitness, meanFitness]);
+  const minValue = Math.min(...fitnesses);
+  const maxValue = Math.max(...fitnesses);
+  const range = maxValue - minValue || 1;
+
+  // The x axis spans every generation the matcher may run, so early stops show as a short curve
+  const toX = (iteration: number) => (iteration / Math.max(latest.maxIterations, 1)) * WIDTH;
+  const toY = (value: number) => HEIGHT - ((value - minValue) / range) * HEIGHT * 0.9 - HEIGHT * 0.05;
+  const path = (value: (entry: MatchingProgress) => number) =>
+    progress.map((entry, index) => `${index === 0 ? 'M' : 'L'}${toX(entry.iteration)},${toY(value(entry))}`).join(' ');
+
+  return (
+    <Box>
+      <Typography variant="body2" color="textSecondary">
+        Genetic matching — generation <strong>{latest.iteration}</strong> of {latest.maxIterations}
+        {running ? '' : ' (done)'}, best fitness <strong>{latest.bestFitness.toFixed(4)}</strong>
+      </Typography>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" style={{ width: '100%', height: 100 }}>
+        <path d={path(entry => entry.meanFitness)} fill="none" stroke={theme.palette.grey[500]} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        <path d={path(entry => entry.bestFitness)} fill="none" stroke={theme.palette.secondary.main} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <Typography variant="caption" color="textSecondary">
+        Pink: best fitness found so far. Grey: mean fitness of the population.
+      </Typography>
+    </Box>
+  );
+};
+
+export default ConvergencePlot;
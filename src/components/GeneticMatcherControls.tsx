@@ -0,0 +1,190 @@
+import React from 'react';
+import { Box, Typography, Alert, Button, FormControlLabel, Switch, ToggleButton, ToggleButtonGroup, useTheme } from '@mui/material';
+import PsychologyIcon from '@mui/icons-material/Psychology';
+import RestartAltIcon from '@mui/icons-material/RestartAlt';
+import { GeneticMatcherOptions, GeneticPreset } from '../models/types';
+import { GENETIC_PRESETS, findGeneticPreset, geneticPreset } from '../services/matching/geneticOptions';
+import { TuningSlider } from './ClusterTuningControls';
+
+interface GeneticMatcherControlsProps {
+  options: Required<GeneticMatcherOptions>;
+  errors: string[];
+  disabled: boolean;
+  onChange: (options: Required<GeneticMatcherOptions>) => void;
+  onReset: () => void;
+}
+
+const PRESET_LABELS: Record<GeneticPreset, string> = {
+  fast: 'Fast',
+  balanced: 'Balanced',
+  thorough: 'Thorough'
+};
+
+/**
+ * Preset choice plus sliders for the genetic matcher's hyperparameters and fitness weights
+ */
+const GeneticMatcherControls: React.FC<GeneticMatcherControlsProps> = ({
+  options,
+  errors,
+  disabled,
+  onChange,
+  onReset
+}) => {
+  const theme = useTheme();
+  const update = (changes: Partial<GeneticMatcherOptions>) => onChange({ ...options, ...changes });
+  const preset = findGeneticPreset(options);
+
+  // Presets only set hyperparameters, so tuned fitness weights survive switching presets
+  const applyPreset = (selected: GeneticPreset) => {
+    const { populationSize, maxGenerations, mutationRate, elitismRate, crossoverRate, stallGenerations } = geneticPreset(selected);
+    update({ populationSize, maxGenerations, mutationRate, elitismRate, crossoverRate, stallGenerations });
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="subtitle1" sx={{ display: 'flex', alignItems: 'center' }}>
+          <PsychologyIcon sx={{ mr: 1, color: theme.palette.secondary.main }} />
+          Genetic Matcher
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={preset}
+          onChange={(_, selected: GeneticPreset | null) => selected && applyPreset(selected)}
+          disabled={disabled}
+          sx={{ ml: 2, mr: 'auto' }}
+        >
+          {GENETIC_PRESETS.map(value => (
+            <ToggleButton key={value} value={value}>{PRESET_LABELS[value]}</ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <Button size="small" startIcon={<RestartAltIcon />} onClick={onReset} disabled={disabled}>
+          Defaults
+        </Button>
+      </Box>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', columnGap: 3 }}>
+        <TuningSlider
+          label="Population Size"
+          value={options.populationSize}
+          min={10}
+          max={200}
+          step={10}
+          decimals={0}
+          disabled={disabled}
+          onChange={(populationSize) => update({ populationSize })}
+        />
+        <TuningSlider
+          label="Max Generations"
+          value={options.maxGenerations}
+          min={10}
+          max={500}
+          step={10}
+          decimals={0}
+          disabled={disabled}
+          onChange={(maxGenerations) => update({ maxGenerations })}
+        />
+        <TuningSlider
+          label="Stall Generations"
+          value={options.stallGenerations}
+          min={1}
+          max={100}
+          step={1}
+          decimals={0}
+          disabled={disabled}
+          onChange={(stallGenerations) => update({ stallGenerations })}
+        />
+        <TuningSlider
+          label="Mutation Rate"
+          value={options.mutationRate}
+          min={0}
+          max={1}
+          step={0.05}
+          disabled={disabled}
+          onChange={(mutationRate) => update({ mutationRate })}
+        />
+        <TuningSlider
+          label="Crossover Rate"
+          value={options.crossoverRate}
+          min={0}
+          max={1}
+          step={0.05}
+          disabled={disabled}
+          onChange={(crossoverRate) => update({ crossoverRate })}
+        />
+        <TuningSlider
+          label="Elitism Rate"
+          value={options.elitismRate}
+          min={0}
+          max={0.9}
+          step={0.05}
+          disabled={disabled}
+          onChange={(elitismRate) => update({ elitismRate })}
+        />
+      </Box>
+
+      <Typography variant="body2" color="textSecondary" sx={{ mt: 1 }}>
+        Fitness weights
+      </Typography>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', columnGap: 3 }}>
+        <TuningSlider
+          label="Assigned Riders"
+          value={options.assignedWeight}
+          min={0}
+          max={1}
+          step={0.05}
+          disabled={disabled}
+          onChange={(assignedWeight) => update({ assignedWeight })}
+        />
+        <TuningSlider
+          label="Detour"
+          value={options.detourWeight}
+          min={0}
+          max={1}
+          step={0.05}
+          disabled={disabled}
+          onChange={(detourWeight) => update({ detourWeight })}
+        />
+        <TuningSlider
+          label="Vehicle Utilization"
+          value={options.utilizationWeight}
+          min={0}
+          max={1}
+          step={0.05}
+          disabled={disabled}
+          onChange={(utilizationWeight) => update({ utilizationWeight })}
+        />
+        <TuningSlider
+          label="Unused Vehicle Penalty"
+          value={options.unusedVehiclePenalty}
+          min={0}
+          max={0.5}
+          step={0.01}
+          disabled={disabled}
+          onChange={(unusedVehiclePenalty) => update({ unusedVehiclePenalty })}
+        />
+      </Box>
+
+      <FormControlLabel
+        control={
+          <Switch
+            checked={options.objective === 'pareto'}
+            onChange={(event) => update({ objective: event.target.checked ? 'pareto' : 'weighted' })}
+            disabled={disabled}
+            color="secondary"
+          />
+        }
+        label="Explore the Pareto front of riders matched vs distance (NSGA-II); the weights pick the trade-off shown first"
+      />
+
+      {errors.map(error => (
+        <Alert key={error} severity="warning" sx={{ mt: 1 }}>
+          {error}
+        </Alert>
+      ))}
+    </Box>
+  );
+};
+
+export default GeneticMatcherControls;
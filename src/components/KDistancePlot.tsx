@@ -0,0 +1,69 @@
+import React from 'react';
+import { Box, Typography, Button, useTheme } from '@mui/material';
+import { EpsilonSuggestion } from '../services/clustering/kDistance';
+
+interface KDistancePlotProps {
+  suggestion: EpsilonSuggestion;
+  epsilon: number; // epsilon currently set on the slider
+  onUseSuggestion: () => void;
+  disabled: boolean;
+}
+
+// Plot size in SVG units; the SVG scales to the available width
+const WIDTH = 400;
+const HEIGHT = 120;
+
+/**
+ * Sorted k-nearest-neighbor distance curve with its knee (the suggested epsilon)
+ * and the currently chosen epsilon
+ */
+const KDistancePlot: React.FC<KDistancePlotProps> = ({ suggestion, epsilon, onUseSuggestion, disabled }) => {
+  const theme = useTheme();
+  const { distances, kneeIndex, k } = suggestion;
+
+  if (distances.length < 2) {
+    return (
+      <Typography variant="caption" color="textSecondary">
+        Not enough requests for a {k}-distance curve
+      </Typography>
+    );
+  }
+
+  const maxValue = Math.max(distances[distances.length - 1], epsilon, suggestion.epsilon) * 1.1;
+  const toX = (index: number) => (index / (distances.length - 1)) * WIDTH;
+  const toY = (value: number) => HEIGHT - (value / maxValue) * HEIGHT;
+  const path = distances.map((distance, index) => `${index === 0 ? 'M' : 'L'}${toX(index)},${toY(distance)}`).join(' ');
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="body2" color="textSecondary">
+          {k}-distance curve — suggested epsilon <strong>{suggestion.epsilon.toFixed(3)}</strong>
+        </Typography>
+        <Button size="small" onClick={onUseSuggestion} disabled={disabled}>
+          Use Suggestion
+        </Button>
+      </Box>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" style={{ width: '100%', height: 100 }}>
+        <path d={path} fill="none" stroke={theme.palette.primary.main} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        <line
+          x1={0}
+          x2={WIDTH}
+          y1={toY(epsilon)}
+          y2={toY(epsilon)}
+          stroke={theme.palette.error.main}
+          strokeDasharray="6 4"
+          vectorEffect="non-scaling-stroke"
+        />
+        {kneeIndex >= 0 && (
+          <circle cx={toX(kneeIndex)} cy={toY(distances[kneeIndex])} r={4} fill={theme.palette.success.main} />
+        )}
+      </svg>
+      <Typography variant="caption" color="textSecondary">
+        Green: knee of the curve from the last run's requests. Red: current epsilon.
+      </Typography>
+    </Box>
+  );
+};
+
+export default KDistancePlot;
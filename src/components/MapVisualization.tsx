@@ -1,9 +1,10 @@
 import React, { useEffect } from 'react';
 import { MapContainer, TileLayer, Marker, Popup, Polyline, Circle, useMap } from 'react-leaflet';
 import { DivIcon, Icon } from 'leaflet';
-import { Cluster, RideRequest, Vehicle, Assignment } from '../models/types';
+import { Cluster, RideRequest, Vehicle, Assignment, UnassignedRequest } from '../models/types';
 import { DEFAULT_SIMULATION_CONFIG } from '../config/simulationConfig';
 import { toLatLng } from '../models/types';
+import { shortId } from '../utils/random';
 import 'leaflet/dist/leaflet.css';
 import { Box, Typography, useTheme, Paper, Chip, alpha } from '@mui/material';
 import DirectionsCarIcon from '@mui/icons-material/DirectionsCar';
@@ -12,6 +13,8 @@ import MyLocationIcon from '@mui/icons-material/MyLocation';
 import PlaceIcon from '@mui/icons-material/Place';
 import GroupWorkIcon from '@mui/icons-material/GroupWork';
 import RouteIcon from '@mui/icons-material/Route';
+import PersonOffIcon from '@mui/icons-material/PersonOff';
+import { UNASSIGNED_REASON_LABELS } from './UnassignedRequestsPanel';
 
 interface MapVisualizationProps {
   requests: RideRequest[];
@@ -20,6 +23,8 @@ interface MapVisualizationProps {
   assignments: Assignment[];
   showClusters: boolean;
   showRoutes: boolean;
+  unassigned?: UnassignedRequest[]; // riders left without a vehicle, ringed on the map
+  highlightedRequestId?: string | null; // rider to ring more boldly and fly to
 }
 
 // Component that automatically centers and zooms the map after data changes
@@ -45,6 +50,19 @@ function MapController({ requests, vehicles }: { requests: RideRequest[], vehicl
   return null;
 }
 
+// Component that flies to the highlighted rider's pickup
+function HighlightController({ location }: { location: RideRequest['pickupLocation'] | undefined }) {
+  const map = useMap();
+  
+  useEffect(() => {
+    if (location) {
+      map.flyTo(toLatLng(location), Math.max(map.getZoom(), 15));
+    }
+  }, [map, location]);
+  
+  return null;
+}
+
 // Custom animated marker component for vehicles with pulsing effect
 function VehicleMarker({ vehicle, color }: { vehicle: Vehicle, color: string }) {
   const theme = useTheme();
@@ -108,7 +126,7 @@ function VehicleMarker({ vehicle, color }: { vehicle: Vehicle, color: string })
           <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
             <DirectionsCarIcon sx={{ color, mr: 1 }} />
             <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
-              Vehicle {vehicle.id.substring(0, 6)}
+              Vehicle {shortId(vehicle.id)}
             </Typography>
           </Box>
           
@@ -160,7 +178,7 @@ function PassengerMarker({ request, assignment, color }: { request: RideRequest,
           <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
             <PersonPinCircleIcon sx={{ color: assignment ? color : 'gray', mr: 1 }} />
             <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
-              Passenger {request.id.substring(0, 6)}
+              Passenger {shortId(request.id)}
             </Typography>
           </Box>
           
@@ -183,7 +201,7 @@ function PassengerMarker({ request, assignment, color }: { request: RideRequest,
             <Chip 
               size="small" 
               icon={<DirectionsCarIcon />}
-              label={`Vehicle: ${assignment.vehicleId.substring(0, 6)}`} 
+              label={`Vehicle: ${shortId(assignment.vehicleId)}`} 
               sx={{ mt: 1, backgroundColor: alpha(color, 0.1), color: 'text.primary' }} 
             />
           )}
@@ -199,7 +217,9 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({
   clusters,
   assignments,
   showClusters,
-  showRoutes
+  showRoutes,
+  unassigned = [],
+  highlightedRequestId = null
 }) => {
   const theme = useTheme();
   
@@ -247,6 +267,9 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({
         />
         
         <MapController requests={requests} vehicles={vehicles} />
+        <HighlightController
+          location={unassigned.find(({ request }) => request.id === highlightedRequestId)?.request.pickupLocation}
+        />
 
         {/* Render clusters if enabled */}
         {showClusters && clusters.map(cluster => {
@@ -268,7 +291,7 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({
                     <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
                       <GroupWorkIcon sx={{ color, mr: 1 }} />
                       <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
-                        Cluster {cluster.id.substring(0, 6)}
+                        Cluster {shortId(cluster.id)}
                       </Typography>
                     </Box>
                     
@@ -277,6 +300,18 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({
                       label={`Requests: ${cluster.requests.length}`}
                       sx={{ backgroundColor: alpha(color, 0.1), color: 'text.primary' }} 
                     />
+                    {cluster.stability !== undefined && (
+                      <Chip 
+                        size="small" 
+                        label={`Stability: ${cluster.stability.toFixed(1)}`}
+                        sx={{ ml: 1, backgroundColor: alpha(color, 0.1), color: 'text.primary' }} 
+                      />
+                    )}
+                    {cluster.split && (
+                      <Typography variant="caption" color="textSecondary" sx={{ display: 'block', mt: 1 }}>
+                        Part {cluster.split.part} of {cluster.split.parts} split from cluster {shortId(cluster.split.parentClusterId)} to fit vehicle capacity
+                      </Typography>
+                    )}
                   </Box>
                 </Popup>
               </Circle>
@@ -317,7 +352,7 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({
                     <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
                       <PlaceIcon sx={{ color, mr: 1 }} />
                       <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
-                        Dropoff {request.id.substring(0, 6)}
+                        Dropoff {shortId(request.id)}
                       </Typography>
                     </Box>
                   </Box>
@@ -327,6 +362,37 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({
           );
         })}
 
+        {/* Ring riders left without a vehicle */}
+        {unassigned.map(({ request, reason }) => {
+          const highlighted = request.id === highlightedRequestId;
+          
+          return (
+            <Circle
+              key={`unassigned-${request.id}`}
+              center={toLatLng(request.pickupLocation)}
+              radius={highlighted ? 250 : 120}
+              pathOptions={{
+                color: theme.palette.error.main,
+                fillOpacity: highlighted ? 0.25 : 0.05,
+                weight: highlighted ? 3 : 1.5,
+                dashArray: highlighted ? undefined : '4, 4'
+              }}
+            >
+              <Popup>
+                <Box sx={{ width: 220, padding: 1 }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+                    <PersonOffIcon sx={{ color: theme.palette.error.main, mr: 1 }} />
+                    <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+                      Unassigned {shortId(request.id)}
+                    </Typography>
+                  </Box>
+                  <Typography variant="body2">{UNASSIGNED_REASON_LABELS[reason]}</Typography>
+                </Box>
+              </Popup>
+            </Circle>
+          );
+        })}
+
         {/* Render routes if enabled */}
         {showRoutes && assignments.map(assignment => {
           const color = vehicleColors.get(assignment.vehicleId) || '#333333';
@@ -348,7 +414,7 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({
                   <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
                     <RouteIcon sx={{ color, mr: 1 }} />
                     <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
-                      Route for Vehicle {assignment.vehicleId.substring(0, 6)}
+                      Route for Vehicle {shortId(assignment.vehicleId)}
                     </Typography>
                   </Box>
                   
@@ -415,6 +481,13 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({
             <Typography variant="body2">Vehicle Routes</Typography>
           </Box>
         )}
+        
+        {unassigned.length > 0 && (
+          <Box sx={{ display: 'flex', alignItems: 'center', mt: 1 }}>
+            <PersonOffIcon sx={{ mr: 1, fontSize: '1rem', color: theme.palette.error.main }} />
+            <Typography variant="body2">Unassigned Riders</Typography>
+          </Box>
+        )}
       </Paper>
     </Box>
   );
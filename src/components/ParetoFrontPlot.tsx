@@ -0,0 +1,96 @@
+import React from 'react';
+import { Box, Typography, Chip, useTheme } from '@mui/material';
+import ScatterPlotIcon from '@mui/icons-material/ScatterPlot';
+import { ParetoSolution } from '../models/types';
+
+interface ParetoFrontPlotProps {
+  front: ParetoSolution[];
+  selected: number; // index into front of the assignments on the map
+  onSelect: (index: number) => void;
+}
+
+// Plot size in SVG units; the SVG scales to the available width
+const WIDTH = 400;
+const HEIGHT = 160;
+const MARGIN = 12;
+
+/**
+ * Scatter plot of the non-dominated assignment sets from multi-objective matching:
+ * share of riders matched against total kilometres driven. Clicking a point selects its set.
+ */
+const ParetoFrontPlot: React.FC<ParetoFrontPlotProps> = ({ front, selected, onSelect }) => {
+  const theme = useTheme();
+
+  const distances = front.map(solution => solution.totalDistanceKm);
+  const percentages = front.map(solution => solution.matchedPercent);
+  const minDistance = Math.min(...distances);
+  const maxDistance = Math.max(...distances);
+  const minPercent = Math.min(...percentages);
+  const maxPercent = Math.max(...percentages);
+
+  // A single point, or points sharing a value, sit in the middle of that axis
+  const scale = (value: number, min: number, max: number, size: number) =>
+    max > min ? MARGIN + ((value - min) / (max - min)) * (size - 2 * MARGIN) : size / 2;
+  const toX = (solution: ParetoSolution) => scale(solution.totalDistanceKm, minDistance, maxDistance, WIDTH);
+  const toY = (solution: ParetoSolution) => HEIGHT - scale(solution.matchedPercent, minPercent, maxPercent, HEIGHT);
+
+  // The front as a staircase from the shortest to the longest distance
+  const ordered = [...front].sort((a, b) => a.totalDistanceKm - b.totalDistanceKm);
+  const staircase = ordered
+    .map((solution, index) => {
+      const x = toX(solution);
+      const y = toY(solution);
+      return index === 0 ? `M${x},${y}` : `H${x} V${y}`;
+    })
+    .join(' ');
+
+  const current = front[selected];
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="subtitle1" sx={{ display: 'flex', alignItems: 'center' }}>
+          <ScatterPlotIcon sx={{ mr: 1, color: theme.palette.secondary.main }} />
+          Pareto Front
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Chip size="small" label={`${front.length} trade-offs`} />
+          {current && (
+            <Chip
+              size="small"
+              color="secondary"
+              label={`${current.matchedPercent.toFixed(1)}% matched, ${current.totalDistanceKm.toFixed(1)} km`}
+            />
+          )}
+        </Box>
+      </Box>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} style={{ width: '100%', height: 'auto' }}>
+        <path d={staircase} fill="none" stroke={theme.palette.grey[400]} strokeWidth={1} strokeDasharray="4 3" />
+        {front.map((solution, index) => (
+          <circle
+            key={index}
+            cx={toX(solution)}
+            cy={toY(solution)}
+            r={index === selected ? 7 : 5}
+            fill={index === selected ? theme.palette.secondary.main : theme.palette.primary.main}
+            stroke={theme.palette.background.paper}
+            strokeWidth={1.5}
+            style={{ cursor: 'pointer' }}
+            onClick={() => onSelect(index)}
+          >
+            <title>{`${solution.matchedPercent.toFixed(1)}% matched, ${solution.totalDistanceKm.toFixed(1)} km`}</title>
+          </circle>
+        ))}
+      </svg>
+
+      <Typography variant="caption" color="textSecondary">
+        Up: more riders matched ({minPercent.toFixed(0)}–{maxPercent.toFixed(0)}%). Right: more kilometres driven
+        ({minDistance.toFixed(1)}–{maxDistance.toFixed(1)} km). No point is better on both; click one to show its
+        assignments on the map.
+      </Typography>
+    </Box>
+  );
+};
+
+export default ParetoFrontPlot;
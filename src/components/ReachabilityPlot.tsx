@@ -0,0 +1,116 @@
+import React from 'react';
+import { Box, Typography, Chip, useTheme, alpha } from '@mui/material';
+import TimelineIcon from '@mui/icons-material/Timeline';
+import { ReachabilityOrdering } from '../models/types';
+import { DEFAULT_SIMULATION_CONFIG } from '../config/simulationConfig';
+import { labelOrdering, NOISE_LABEL } from '../services/clustering/OPTICSClustering';
+
+interface ReachabilityPlotProps {
+  ordering: ReachabilityOrdering;
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+}
+
+// Plot size in SVG units; the SVG scales to the available width
+const WIDTH = 1000;
+const HEIGHT = 200;
+
+/**
+ * Bar chart of OPTICS reachability distances in processing order.
+ * Valleys are clusters; dragging the horizontal threshold line picks the epsilon
+ * at which clusters are extracted.
+ */
+const ReachabilityPlot: React.FC<ReachabilityPlotProps> = ({ ordering, threshold, onThresholdChange }) => {
+  const theme = useTheme();
+  const svgRef = React.useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = React.useState(false);
+
+  // Scale to the largest finite distance so a few unreachable points do not flatten the plot
+  const maxValue = React.useMemo(() => {
+    const finite = ordering.points
+      .flatMap(point => [point.reachability, point.coreDistance])
+      .filter(value => Number.isFinite(value));
+    return Math.max(...finite, threshold, 0.01) * 1.1;
+  }, [ordering, threshold]);
+
+  const labels = React.useMemo(() => labelOrdering(ordering, threshold), [ordering, threshold]);
+  const clusterCount = labels.reduce((max, label) => Math.max(max, label + 1), 0);
+  const noiseCount = labels.filter(label => label === NOISE_LABEL).length;
+
+  const toY = (value: number) => HEIGHT - (Math.min(value, maxValue) / maxValue) * HEIGHT;
+  const barWidth = WIDTH / Math.max(ordering.points.length, 1);
+
+  const updateThreshold = (clientY: number) => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const rect = svg.getBoundingClientRect();
+    const fraction = 1 - (clientY - rect.top) / rect.height;
+    onThresholdChange(Math.max(0.001, Math.min(fraction, 1) * maxValue));
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="subtitle1" sx={{ display: 'flex', alignItems: 'center' }}>
+          <TimelineIcon sx={{ mr: 1, color: theme.palette.primary.main }} />
+          OPTICS Reachability Plot
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Chip size="small" color="primary" label={`Epsilon ${threshold.toFixed(3)}`} />
+          <Chip size="small" label={`${clusterCount} clusters`} />
+          <Chip size="small" label={`${noiseCount} noise`} />
+        </Box>
+      </Box>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        style={{ width: '100%', height: 160, cursor: 'ns-resize', touchAction: 'none' }}
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          setDragging(true);
+          updateThreshold(event.clientY);
+        }}
+        onPointerMove={(event) => dragging && updateThreshold(event.clientY)}
+        onPointerUp={() => setDragging(false)}
+      >
+        {ordering.points.map((point, index) => {
+          const label = labels[index];
+          const color = label === NOISE_LABEL
+            ? alpha(theme.palette.text.secondary, 0.4)
+            : DEFAULT_SIMULATION_CONFIG.CLUSTER_COLORS[label % DEFAULT_SIMULATION_CONFIG.CLUSTER_COLORS.length];
+          const y = toY(point.reachability);
+
+          return (
+            <rect
+              key={point.request.id}
+              x={index * barWidth}
+              y={y}
+              width={Math.max(barWidth - 1, 1)}
+              height={HEIGHT - y}
+              fill={color}
+            />
+          );
+        })}
+        <line
+          x1={0}
+          x2={WIDTH}
+          y1={toY(threshold)}
+          y2={toY(threshold)}
+          stroke={theme.palette.error.main}
+          strokeWidth={3}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+
+      <Typography variant="caption" color="textSecondary">
+        Drag the red line to re-extract clusters at a different epsilon. Vehicle assignments keep the epsilon of the last run
+        ({ordering.epsilon.toFixed(3)}); use the chosen value as DBSCAN's epsilon and run again to re-match.
+      </Typography>
+    </Box>
+  );
+};
+
+export default ReachabilityPlot;
@@ -0,0 +1,189 @@
+import React from 'react';
+import { Box, Typography, Button, Alert, Chip, Stack, TextField, useTheme, alpha } from '@mui/material';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import ClearIcon from '@mui/icons-material/Clear';
+import LocalTaxiIcon from '@mui/icons-material/LocalTaxi';
+
+export interface TLCSlice {
+  date: string;
+  startTime: string;
+  durationMinutes: number;
+}
+
+interface TripFileDropZoneProps {
+  loaded: {
+    fileNames: string[];
+    tripCount: number;
+    vehicleCount: number;
+    details?: string;
+  } | null;
+  error: string | null;
+  disabled: boolean;
+  tlcSlice: TLCSlice;
+  onTlcSliceChange: (slice: TLCSlice) => void;
+  onFiles: (files: File[]) => void;
+  onClear: () => void;
+}
+
+const TripFileDropZone: React.FC<TripFileDropZoneProps> = ({
+  loaded,
+  error,
+  disabled,
+  tlcSlice,
+  onTlcSliceChange,
+  onFiles,
+  onClear
+}) => {
+  const theme = useTheme();
+  const [dragging, setDragging] = React.useState(false);
+  const inputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    if (disabled) return;
+
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length > 0) {
+      onFiles(files);
+    }
+  };
+
+  const handleSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length > 0) {
+      onFiles(files);
+    }
+    // Allow selecting the same file again
+    event.target.value = '';
+  };
+
+  return (
+    <Box>
+      <Box
+        onDragOver={(event) => {
+          event.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        sx={{
+          p: 2,
+          border: `2px dashed ${dragging ? theme.palette.primary.main : alpha(theme.palette.text.secondary, 0.3)}`,
+          borderRadius: 2,
+          backgroundColor: dragging ? alpha(theme.palette.primary.main, 0.05) : 'transparent',
+          display: 'flex',
+          flexDirection: { xs: 'column', sm: 'row' },
+          alignItems: { xs: 'flex-start', sm: 'center' },
+          justifyContent: 'space-between',
+          gap: 2,
+          transition: 'all 0.2s ease'
+        }}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <UploadFileIcon sx={{ mr: 1, color: theme.palette.primary.main }} />
+          <Box>
+            <Typography variant="subtitle1">
+              Trip Data
+            </Typography>
+            <Typography variant="body2" color="textSecondary">
+              Drop CSV/GeoJSON trip files or NYC TLC trip records (and optional vehicle snapshots) to simulate historical demand
+            </Typography>
+          </Box>
+        </Box>
+
+        <Stack direction="row" spacing={1} alignItems="center">
+          {loaded && (
+            <>
+              <Chip
+                size="small"
+                color="primary"
+                label={`${loaded.tripCount} trips`}
+              />
+              {loaded.vehicleCount > 0 && (
+                <Chip
+                  size="small"
+                  color="secondary"
+                  label={`${loaded.vehicleCount} vehicles`}
+                />
+              )}
+              <Button
+                size="small"
+                startIcon={<ClearIcon />}
+                onClick={onClear}
+                disabled={disabled}
+              >
+                Use Random Data
+              </Button>
+            </>
+          )}
+          <Button
+            size="small"
+            variant="outlined"
+            onClick={() => inputRef.current?.click()}
+            disabled={disabled}
+          >
+            Browse...
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".csv,.geojson,.json"
+            multiple
+            hidden
+            onChange={handleSelect}
+          />
+        </Stack>
+      </Box>
+
+      {loaded && (
+        <Typography variant="caption" color="textSecondary" sx={{ display: 'block', mt: 0.5 }}>
+          Loaded: {loaded.fileNames.join(', ')}{loaded.details ? ` — ${loaded.details}` : ''}
+        </Typography>
+      )}
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mt: 2 }}>
+        <Typography variant="body2" color="textSecondary" sx={{ display: 'flex', alignItems: 'center' }}>
+          <LocalTaxiIcon sx={{ mr: 1, color: theme.palette.warning.main }} />
+          NYC TLC time slice:
+        </Typography>
+        <TextField
+          label="Date"
+          type="date"
+          size="small"
+          value={tlcSlice.date}
+          onChange={(event) => onTlcSliceChange({ ...tlcSlice, date: event.target.value })}
+          disabled={disabled}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          label="Start"
+          type="time"
+          size="small"
+          value={tlcSlice.startTime}
+          onChange={(event) => onTlcSliceChange({ ...tlcSlice, startTime: event.target.value })}
+          disabled={disabled}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          label="Minutes"
+          type="number"
+          size="small"
+          value={tlcSlice.durationMinutes}
+          onChange={(event) => onTlcSliceChange({ ...tlcSlice, durationMinutes: Number(event.target.value) })}
+          disabled={disabled}
+          inputProps={{ min: 1 }}
+          sx={{ width: 100 }}
+        />
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mt: 1 }}>
+          {error}
+        </Alert>
+      )}
+    </Box>
+  );
+};
+
+export default TripFileDropZone;
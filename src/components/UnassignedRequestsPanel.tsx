@@ -0,0 +1,71 @@
+import React from 'react';
+import { Box, Typography, Chip, List, ListItemButton, ListItemText, useTheme } from '@mui/material';
+import PersonOffIcon from '@mui/icons-material/PersonOff';
+import { UnassignedRequest } from '../models/types';
+import { shortId } from '../utils/random';
+
+interface UnassignedRequestsPanelProps {
+  unassigned: UnassignedRequest[];
+  highlightedRequestId: string | null; // rider highlighted on the map
+  onHighlight: (requestId: string | null) => void;
+}
+
+export const UNASSIGNED_REASON_LABELS: Record<UnassignedRequest['reason'], string> = {
+  'no-vehicle-in-reach': 'No vehicle within the max detour',
+  'exceeds-capacity': 'Group larger than every vehicle in reach',
+  'outside-time-window': 'No vehicle in reach can serve it in time',
+  'lost-in-optimization': 'Lost in optimization: the vehicles that could serve it went to other riders',
+  'expired': 'Requested before the time window',
+  'beyond-horizon': 'Booked beyond the pre-booking horizon'
+};
+
+/**
+ * Riders left without a vehicle and why; clicking one highlights it on the map
+ */
+const UnassignedRequestsPanel: React.FC<UnassignedRequestsPanelProps> = ({ unassigned, highlightedRequestId, onHighlight }) => {
+  const theme = useTheme();
+
+  // Reasons in label order, with how many riders each covers
+  const counts = (Object.keys(UNASSIGNED_REASON_LABELS) as UnassignedRequest['reason'][])
+    .map(reason => ({ reason, count: unassigned.filter(entry => entry.reason === reason).length }))
+    .filter(({ count }) => count > 0);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="subtitle1" sx={{ display: 'flex', alignItems: 'center' }}>
+          <PersonOffIcon sx={{ mr: 1, color: theme.palette.error.main }} />
+          Unassigned Riders
+        </Typography>
+        <Chip size="small" color="error" variant="outlined" label={`${unassigned.length} without a vehicle`} />
+      </Box>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+        {counts.map(({ reason, count }) => (
+          <Chip key={reason} size="small" label={`${count} × ${UNASSIGNED_REASON_LABELS[reason]}`} />
+        ))}
+      </Box>
+
+      <List dense sx={{ maxHeight: 240, overflow: 'auto' }}>
+        {unassigned.map(({ request, reason }) => (
+          <ListItemButton
+            key={request.id}
+            selected={request.id === highlightedRequestId}
+            onClick={() => onHighlight(request.id === highlightedRequestId ? null : request.id)}
+          >
+            <ListItemText
+              primary={`Passenger ${shortId(request.id)} — requested ${request.timestamp.toLocaleTimeString()}`}
+              secondary={UNASSIGNED_REASON_LABELS[reason]}
+            />
+          </ListItemButton>
+        ))}
+      </List>
+
+      <Typography variant="caption" color="textSecondary">
+        Reasons check each vehicle as if it served only that rider's group. Click a rider to highlight their pickup on the map.
+      </Typography>
+    </Box>
+  );
+};
+
+export default UnassignedRequestsPanel;
@@ -1,3 +1,5 @@
+import { ClusterDistanceMode, ClusteringAlgorithm, KSelectionMethod, GeneticPreset, MatchingObjective } from '../models/types';
+
 /**
  * Default configuration for the simulation
  */
@@ -15,9 +17,134 @@ export const DEFAULT_SIMULATION_CONFIG = {
   // Default time window in minutes
   DEFAULT_TIME_WINDOW: 15,
   
+  // Simulation start ("now") of seeded runs without their own start time, so they do not follow the wall clock
+  SEEDED_START_TIME: '2024-03-04T08:00:00Z',
+  
+  // How far past the reference time pre-booked requests are still clustered, in minutes
+  DEFAULT_PREBOOK_HORIZON: 30,
+  
   // Default max detour distance in kilometers
   DEFAULT_MAX_DETOUR_KM: 2.0,
   
+  // Passenger time limits for requests that don't set their own
+  DEFAULT_MAX_WAIT_MINUTES: 30,
+  DEFAULT_MAX_RIDE_TIME_RATIO: 2.5,
+  
+  DEFAULT_CLUSTERING_ALGORITHM: 'dbscan' as ClusteringAlgorithm,
+  
+  // DBSCAN clustering defaults (distance settings are shared with HDBSCAN)
+  DBSCAN: {
+    EPSILON: 0.22,
+    ADAPTIVE_EPSILON: true,
+    AUTO_EPSILON: false,
+    MAX_EPSILON: 0.35,
+    MIN_POINTS: 2,
+    SPATIAL_WEIGHT: 0.8,
+    TEMPORAL_WEIGHT: 0.2,
+    MAX_SPATIAL_DISTANCE_KM: 4, // more flexible spatial normalization for ride-sharing
+    MAX_TEMPORAL_DISTANCE_MIN: 12,
+    DISTANCE_MODE: 'pickup' as ClusterDistanceMode,
+    DROPOFF_WEIGHT: 0.4,
+    BEARING_WEIGHT: 0.2
+  },
+  
+  // HDBSCAN clustering defaults
+  HDBSCAN: {
+    MIN_CLUSTER_SIZE: 3
+  },
+
+  // K-Means clustering defaults
+  KMEANS: {
+    K_SELECTION: 'silhouette' as KSelectionMethod,
+    MAX_K: 25,
+    MAX_ITERATIONS: 100,
+    RESTARTS: 3 // k-means++ runs per k, keeping the lowest inertia
+  },
+
+  // Genetic matcher hyperparameter presets
+  GENETIC: {
+    DEFAULT_PRESET: 'balanced' as GeneticPreset,
+    DEFAULT_OBJECTIVE: 'weighted' as MatchingObjective,
+    PRESETS: {
+      fast: {
+        POPULATION_SIZE: 20,
+        MAX_GENERATIONS: 30,
+        MUTATION_RATE: 0.25,
+        ELITISM_RATE: 0.2,
+        CROSSOVER_RATE: 0.7,
+        STALL_GENERATIONS: 8 // generations without improvement before stopping early
+      },
+      balanced: {
+        POPULATION_SIZE: 50,
+        MAX_GENERATIONS: 100,
+        MUTATION_RATE: 0.2,
+        ELITISM_RATE: 0.2,
+        CROSSOVER_RATE: 0.7,
+        STALL_GENERATIONS: 20
+      },
+      thorough: {
+        POPULATION_SIZE: 120,
+        MAX_GENERATIONS: 300,
+        MUTATION_RATE: 0.15,
+        ELITISM_RATE: 0.1,
+        CROSSOVER_RATE: 0.8,
+        STALL_GENERATIONS: 50
+      }
+    }
+  },
+
+  // Simulated annealing matcher
+  ANNEALING: {
+    MAX_ITERATIONS: 5000,
+    INITIAL_TEMPERATURE: 0.05, // in fitness units: a move this much worse is accepted with probability 1/e at the start
+    COOLING_RATE: 0.999, // temperature multiplier per iteration
+    SWAP_RATE: 0.3 // share of moves that swap the vehicles of two clusters instead of moving one cluster
+  },
+
+  // Adaptive large neighbourhood search matcher
+  ALNS: {
+    MAX_ITERATIONS: 500,
+    REMOVAL_SHARE: 0.2, // share of the clusters each destroy step removes (at least one)
+    INITIAL_TEMPERATURE: 0.02,
+    COOLING_RATE: 0.99,
+    SEGMENT_LENGTH: 25, // iterations between operator weight updates
+    REACTION_FACTOR: 0.3, // how far operator weights move towards their scores in the last segment
+    // Operator scores per iteration by outcome
+    SCORES: {
+      NEW_BEST: 33,
+      IMPROVED: 9,
+      ACCEPTED: 13
+    }
+  },
+
+  // Pickup/dropoff sequencing of assignment routes
+  STOP_SEQUENCING: {
+    EXACT_MAX_REQUESTS: 7, // solved exactly up to this many riders, by local search beyond
+    MAX_LOCAL_SEARCH_PASSES: 50
+  },
+  
+  // Time-stepped simulation defaults
+  DEFAULT_DURATION_MINUTES: 60,
+  DEFAULT_TICK_SECONDS: 10,
+  DEFAULT_DISPATCH_INTERVAL_SECONDS: 60,
+  DEFAULT_REQUESTS_PER_MINUTE: 2,
+  DEFAULT_VEHICLE_SPEED_KMH: 25,
+  
+  // Simulation area (approximately 10km x 10km, NYC-like coordinates)
+  MAP_BOUNDS: {
+    minLat: 40.7,
+    maxLat: 40.8,
+    minLng: -74.0,
+    maxLng: -73.9
+  },
+  
+  // Default time slice replayed from NYC TLC trip record files
+  DEFAULT_TLC_SLICE: {
+    date: '2015-01-15',
+    startTime: '08:00',
+    durationMinutes: 15
+  },
+  
   // Map defaults (NYC-like coordinates)
   MAP_CENTER: [40.75, -73.95] as [number, number],
   DEFAULT_ZOOM: 13,
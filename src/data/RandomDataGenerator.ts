@@ -1,7 +1,7 @@
-import { IDataAdapter } from '../services/interfaces';
+import { IDataAdapter, DataGenerationOptions } from '../services/interfaces';
 import { RideRequest, Vehicle } from '../models/types';
 import { randomLocation, calculateCentroid } from '../utils/geo';
-import { v4 as uuidv4 } from 'uuid';
+import { RandomSource, createId } from '../utils/random';
 
 /**
  * Cluster-aware data generator that creates realistic ride-sharing scenarios
@@ -12,27 +12,31 @@ export class RandomDataGenerator implements IDataAdapter {
   /**
    * Generate a specified number of ride requests in clusters within given bounds
    */
-  generateRequests(count: number, bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number }): RideRequest[] {
+  generateRequests(count: number, bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number }, options: DataGenerationOptions = {}): RideRequest[] {
+    const random = options.random ?? Math.random;
+    
     // Safety check for valid count
     if (count <= 0) {
       console.warn('Invalid passenger count, using default of 10');
       count = 10;
     }
     
-    const passengersPerCluster = 3 + Math.floor(Math.random() * 2); // 3-4 passengers per cluster
+    const passengersPerCluster = 3 + Math.floor(random() * 2); // 3-4 passengers per cluster
     const numClusters = Math.max(1, Math.floor(count * 0.8 / passengersPerCluster)); // Ensure at least 1 cluster
     const clusteredPassengers = numClusters * passengersPerCluster;
     const noisePassengers = Math.max(0, count - clusteredPassengers);
     
     console.log(`Generating ${numClusters} clusters with ${passengersPerCluster} passengers each, plus ${noisePassengers} noise passengers`);
     
-    return this.generatePassengerRequests(count, bounds);
+    return this.generatePassengerRequests(count, bounds, options);
   }
   
   /**
    * Generate a specified number of vehicles positioned near passenger clusters
    */
-  generateVehicles(count: number, bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number }): Vehicle[] {
+  generateVehicles(count: number, bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number }, options: DataGenerationOptions = {}): Vehicle[] {
+    const random = options.random ?? Math.random;
+    
     // Safety check for valid count
     if (count <= 0) {
       console.warn('Invalid vehicle count, using default of 3');
@@ -42,10 +46,10 @@ export class RandomDataGenerator implements IDataAdapter {
     const vehicles: Vehicle[] = [];
     
     // Generate passenger requests to determine actual cluster centers
-    const passengerRequests = this.generatePassengerRequests(Math.max(20, count * 3), bounds);
+    const passengerRequests = this.generatePassengerRequests(Math.max(20, count * 3), bounds, options);
     
     // Extract actual cluster centers from passenger locations
-    const clusterCenters = this.extractActualClusterCenters(passengerRequests, count);
+    const clusterCenters = this.extractActualClusterCenters(passengerRequests, count, random);
     
     console.log(`Extracted ${clusterCenters.length} actual cluster centers for vehicle positioning`);
     
@@ -63,13 +67,13 @@ export class RandomDataGenerator implements IDataAdapter {
       const clusterCenter = clusterCenters[clusterIndex];
       
       // Position vehicle near this cluster center
-      const location = this.generateLocationNearCenter(clusterCenter, 0.4); // 400m radius
+      const location = this.generateLocationNearCenter(clusterCenter, 0.4, random); // 400m radius
       
       // Each vehicle has a capacity between 4-6 passengers
-      const capacity = 4 + Math.floor(Math.random() * 3);
+      const capacity = 4 + Math.floor(random() * 3);
       
       vehicles.push({
-        id: uuidv4(),
+        id: createId(options.random),
         location,
         capacity,
         availableSeats: capacity,
@@ -84,12 +88,12 @@ export class RandomDataGenerator implements IDataAdapter {
       const clusterCenter = clusterCenters[clusterIndex];
       
       for (let extraVehicle = 1; extraVehicle < vehiclesPerCluster && vehicleIndex < count; extraVehicle++) {
-        const location = this.generateLocationNearCenter(clusterCenter, 0.6); // 600m radius for additional vehicles
+        const location = this.generateLocationNearCenter(clusterCenter, 0.6, random); // 600m radius for additional vehicles
         
-        const capacity = 4 + Math.floor(Math.random() * 3);
+        const capacity = 4 + Math.floor(random() * 3);
         
         vehicles.push({
-          id: uuidv4(),
+          id: createId(options.random),
           location,
           capacity,
           availableSeats: capacity,
@@ -105,17 +109,17 @@ export class RandomDataGenerator implements IDataAdapter {
       let location: { lat: number; lng: number };
       
       if (clusterCenters.length > 0) {
-        const randomCenter = clusterCenters[Math.floor(Math.random() * clusterCenters.length)];
-        location = this.generateLocationNearCenter(randomCenter, 0.8); // 800m radius for remaining vehicles
+        const randomCenter = clusterCenters[Math.floor(random() * clusterCenters.length)];
+        location = this.generateLocationNearCenter(randomCenter, 0.8, random); // 800m radius for remaining vehicles
       } else {
         // Fallback to random location if no cluster centers found
-        location = randomLocation(bounds);
+        location = randomLocation(bounds, random);
       }
       
-      const capacity = 4 + Math.floor(Math.random() * 3);
+      const capacity = 4 + Math.floor(random() * 3);
       
       vehicles.push({
-        id: uuidv4(),
+        id: createId(options.random),
         location,
         capacity,
         availableSeats: capacity,
@@ -131,7 +135,9 @@ export class RandomDataGenerator implements IDataAdapter {
   /**
    * Generate vehicles positioned near actual passenger clusters
    */
-  generateVehiclesNearPassengers(count: number, requests: RideRequest[], bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number }): Vehicle[] {
+  generateVehiclesNearPassengers(count: number, requests: RideRequest[], bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number }, options: DataGenerationOptions = {}): Vehicle[] {
+    const random = options.random ?? Math.random;
+    
     // Safety check for valid count
     if (count <= 0) {
       console.warn('Invalid vehicle count, using default of 3');
@@ -141,7 +147,7 @@ export class RandomDataGenerator implements IDataAdapter {
     const vehicles: Vehicle[] = [];
     
     // Extract actual cluster centers from the provided passenger requests
-    const clusterCenters = this.extractActualClusterCenters(requests, count);
+    const clusterCenters = this.extractActualClusterCenters(requests, count, random);
     
     console.log(`Extracted ${clusterCenters.length} actual cluster centers from ${requests.length} passengers for vehicle positioning`);
     
@@ -159,13 +165,13 @@ export class RandomDataGenerator implements IDataAdapter {
       const clusterCenter = clusterCenters[clusterIndex];
       
       // Position vehicle near this cluster center
-      const location = this.generateLocationNearCenter(clusterCenter, 0.4); // 400m radius
+      const location = this.generateLocationNearCenter(clusterCenter, 0.4, random); // 400m radius
       
       // Each vehicle has a capacity between 4-6 passengers
-      const capacity = 4 + Math.floor(Math.random() * 3);
+      const capacity = 4 + Math.floor(random() * 3);
       
       vehicles.push({
-        id: uuidv4(),
+        id: createId(options.random),
         location,
         capacity,
         availableSeats: capacity,
@@ -180,12 +186,12 @@ export class RandomDataGenerator implements IDataAdapter {
       const clusterCenter = clusterCenters[clusterIndex];
       
       for (let extraVehicle = 1; extraVehicle < vehiclesPerCluster && vehicleIndex < count; extraVehicle++) {
-        const location = this.generateLocationNearCenter(clusterCenter, 0.6); // 600m radius for additional vehicles
+        const location = this.generateLocationNearCenter(clusterCenter, 0.6, random); // 600m radius for additional vehicles
         
-        const capacity = 4 + Math.floor(Math.random() * 3);
+        const capacity = 4 + Math.floor(random() * 3);
         
         vehicles.push({
-          id: uuidv4(),
+          id: createId(options.random),
           location,
           capacity,
           availableSeats: capacity,
@@ -201,17 +207,17 @@ export class RandomDataGenerator implements IDataAdapter {
       let location: { lat: number; lng: number };
       
       if (clusterCenters.length > 0) {
-        const randomCenter = clusterCenters[Math.floor(Math.random() * clusterCenters.length)];
-        location = this.generateLocationNearCenter(randomCenter, 0.8); // 800m radius for remaining vehicles
+        const randomCenter = clusterCenters[Math.floor(random() * clusterCenters.length)];
+        location = this.generateLocationNearCenter(randomCenter, 0.8, random); // 800m radius for remaining vehicles
       } else {
         // Fallback to random location if no cluster centers found
-        location = randomLocation(bounds);
+        location = randomLocation(bounds, random);
       }
       
-      const capacity = 4 + Math.floor(Math.random() * 3);
+      const capacity = 4 + Math.floor(random() * 3);
       
       vehicles.push({
-        id: uuidv4(),
+        id: createId(options.random),
         location,
         capacity,
         availableSeats: capacity,
@@ -227,18 +233,20 @@ export class RandomDataGenerator implements IDataAdapter {
   /**
    * Generate passenger requests (internal method to avoid duplication)
    */
-  private generatePassengerRequests(count: number, bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number }): RideRequest[] {
+  private generatePassengerRequests(count: number, bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number }, options: DataGenerationOptions): RideRequest[] {
+    const random = options.random ?? Math.random;
+    const referenceTime = options.referenceTime ?? new Date();
     const requests: RideRequest[] = [];
     
     // Determine number of clusters based on passenger count
     // Create more clusters with 3-4 passengers each
-    const passengersPerCluster = 3 + Math.floor(Math.random() * 2); // 3-4 passengers per cluster
+    const passengersPerCluster = 3 + Math.floor(random() * 2); // 3-4 passengers per cluster
     const numClusters = Math.floor(count * 0.8 / passengersPerCluster); // 80% of passengers in clusters
     const clusteredPassengers = numClusters * passengersPerCluster;
     const noisePassengers = count - clusteredPassengers;
     
     // Generate cluster centers
-    const clusterCenters = this.generateClusterCenters(numClusters, bounds);
+    const clusterCenters = this.generateClusterCenters(numClusters, bounds, random);
     
     // Generate passengers for each cluster
     for (let clusterIndex = 0; clusterIndex < numClusters; clusterIndex++) {
@@ -246,16 +254,16 @@ export class RandomDataGenerator implements IDataAdapter {
       
       // Generate passengers around this cluster center
       for (let i = 0; i < passengersPerCluster; i++) {
-        const pickupLocation = this.generateLocationNearCenter(center, 0.4); // 400m radius for more realistic spacing
-        const dropoffLocation = this.generateLocationNearCenter(center, 1.2); // 1.2km radius for destination
+        const pickupLocation = this.generateLocationNearCenter(center, 0.4, random); // 400m radius for more realistic spacing
+        const dropoffLocation = this.generateLocationNearCenter(center, 1.2, random); // 1.2km radius for destination
         
         // Create timestamp within a smaller time window for clustering
-        const timestamp = new Date();
-        const timeOffset = Math.floor(Math.random() * 15) - 7; // ±7 minutes for more realistic temporal clustering
+        const timestamp = new Date(referenceTime.getTime());
+        const timeOffset = Math.floor(random() * 15) - 7; // ±7 minutes for more realistic temporal clustering
         timestamp.setMinutes(timestamp.getMinutes() + timeOffset);
         
         requests.push({
-          id: uuidv4(),
+          id: createId(options.random),
           pickupLocation,
           dropoffLocation,
           timestamp
@@ -265,16 +273,16 @@ export class RandomDataGenerator implements IDataAdapter {
     
     // Generate noise passengers (randomly distributed)
     for (let i = 0; i < noisePassengers; i++) {
-      const pickupLocation = randomLocation(bounds);
-      const dropoffLocation = randomLocation(bounds);
+      const pickupLocation = randomLocation(bounds, random);
+      const dropoffLocation = randomLocation(bounds, random);
       
       // Create timestamp with more variation for noise passengers
-      const timestamp = new Date();
-      const timeOffset = Math.floor(Math.random() * 40) - 20; // ±20 minutes for noise
+      const timestamp = new Date(referenceTime.getTime());
+      const timeOffset = Math.floor(random() * 40) - 20; // ±20 minutes for noise
       timestamp.setMinutes(timestamp.getMinutes() + timeOffset);
       
       requests.push({
-        id: uuidv4(),
+        id: createId(options.random),
         pickupLocation,
         dropoffLocation,
         timestamp
@@ -287,7 +295,7 @@ export class RandomDataGenerator implements IDataAdapter {
   /**
    * Generate cluster centers within the given bounds
    */
-  private generateClusterCenters(numClusters: number, bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number }): { lat: number; lng: number }[] {
+  private generateClusterCenters(numClusters: number, bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number }, random: RandomSource): { lat: number; lng: number }[] {
     const centers: { lat: number; lng: number }[] = [];
     
     for (let i = 0; i < numClusters; i++) {
@@ -296,7 +304,7 @@ export class RandomDataGenerator implements IDataAdapter {
       const maxAttempts = 50;
       
       do {
-        center = randomLocation(bounds);
+        center = randomLocation(bounds, random);
         attempts++;
       } while (
         attempts < maxAttempts && 
@@ -314,14 +322,14 @@ export class RandomDataGenerator implements IDataAdapter {
   /**
    * Generate a location near a center point within a specified radius
    */
-  private generateLocationNearCenter(center: { lat: number; lng: number }, radiusKm: number): { lat: number; lng: number } {
+  private generateLocationNearCenter(center: { lat: number; lng: number }, radiusKm: number, random: RandomSource): { lat: number; lng: number } {
     // Convert radius from km to degrees (approximate)
     const latRadius = radiusKm / 111; // 1 degree ≈ 111 km
     const lngRadius = radiusKm / (111 * Math.cos(center.lat * Math.PI / 180));
     
     // Generate random angle and distance
-    const angle = Math.random() * 2 * Math.PI;
-    const distance = Math.random() * radiusKm;
+    const angle = random() * 2 * Math.PI;
+    const distance = random() * radiusKm;
     
     // Convert to lat/lng offset
     const latOffset = (distance * Math.cos(angle)) / 111;
@@ -337,7 +345,7 @@ export class RandomDataGenerator implements IDataAdapter {
    * Extract actual cluster centers from passenger locations using a simple clustering approach
    * This ensures vehicles are positioned near actual passenger clusters, not theoretical ones
    */
-  private extractActualClusterCenters(requests: RideRequest[], numCenters: number): { lat: number; lng: number }[] {
+  private extractActualClusterCenters(requests: RideRequest[], numCenters: number, random: RandomSource): { lat: number; lng: number }[] {
     if (requests.length === 0) {
       return [];
     }
@@ -381,7 +389,7 @@ export class RandomDataGenerator implements IDataAdapter {
     const maxAttempts = 100;
     
     while (centers.length < numCenters && centers.length < pickupLocations.length && attempts < maxAttempts) {
-      const randomIndex = Math.floor(Math.random() * pickupLocations.length);
+      const randomIndex = Math.floor(random() * pickupLocations.length);
       const randomLocation = pickupLocations[randomIndex];
       
       // Check if this location is far enough from existing centers
@@ -399,7 +407,7 @@ export class RandomDataGenerator implements IDataAdapter {
     
     // If we still don't have enough centers, just add random locations
     while (centers.length < numCenters && centers.length < pickupLocations.length) {
-      const randomIndex = Math.floor(Math.random() * pickupLocations.length);
+      const randomIndex = Math.floor(random() * pickupLocations.length);
       centers.push(pickupLocations[randomIndex]);
     }
     
@@ -0,0 +1,85 @@
+import { TLCTripDataAdapter, TLCTripParser, parseTLCTrips } from './TLCTripDataAdapter';
+import { TAXI_ZONE_CENTROIDS } from './taxiZoneCentroids';
+
+const YELLOW_CSV = [
+  'VendorID,tpep_pickup_datetime,tpep_dropoff_datetime,passenger_count,trip_distance,pickup_longitude,pickup_latitude,RateCodeID,store_and_fwd_flag,dropoff_longitude,dropoff_latitude',
+  '2,2015-01-15 07:59:00,2015-01-15 08:10:00,1,1.5,-73.98,40.75,1,N,-73.97,40.76',
+  '2,2015-01-15 08:00:00,2015-01-15 08:10:00,1,1.5,-73.98,40.75,1,N,-73.97,40.76',
+  '1,2015-01-15 08:04:30,2015-01-15 08:20:00,2,3.1,0,0,1,N,-73.95,40.77',
+  '1,2015-01-15 08:05:00,2015-01-15 08:20:00,2,3.1,-73.99,40.72,1,N,-73.95,40.77',
+  '1,2015-01-15 08:15:00,2015-01-15 08:30:00,1,2.0,-73.99,40.72,1,N,-73.95,40.77'
+].join('\r\n');
+
+const SLICE = { date: '2015-01-15', startTime: '08:00', durationMinutes: 15 };
+
+describe('TLCTripDataAdapter', () => {
+  test('keeps trips inside the time slice and skips rows without coordinates', () => {
+    const result = parseTLCTrips(YELLOW_CSV, SLICE);
+
+    expect(result.serviceType).toBe('yellow');
+    expect(result.rowsRead).toBe(5);
+    expect(result.skippedRows).toBe(1);
+    expect(result.requests.map(r => r.id)).toEqual(['tlc-yellow-3', 'tlc-yellow-5']);
+  });
+
+  test('zone-only files use the bundled taxi zone centroids unless given others', () => {
+    const zoneCsv = [
+      'VendorID,lpep_pickup_datetime,PULocationID,DOLocationID',
+      '2,2019-01-01 08:01:00,161,236',
+      '2,2019-01-01 08:02:00,264,236'
+    ].join('\n');
+    const slice = { ...SLICE, date: '2019-01-01' };
+
+    // Zone 264 is "unknown" and has no centroid
+    const bundled = parseTLCTrips(zoneCsv, slice);
+    expect(bundled.requests.map(r => r.id)).toEqual(['tlc-green-2']);
+    expect(bundled.skippedRows).toBe(1);
+    expect(bundled.requests[0].pickupLocation).toEqual(TAXI_ZONE_CENTROIDS[161]);
+
+    const result = parseTLCTrips(zoneCsv, {
+      ...slice,
+      zoneCentroids: { 161: { lat: 40.758, lng: -73.977 }, 236: { lat: 40.781, lng: -73.957 } }
+    });
+    expect(result.serviceType).toBe('green');
+    expect(result.requests[0].dropoffLocation).toEqual({ lat: 40.781, lng: -73.957 });
+  });
+
+  test('collects rows with unreadable pickup times instead of stopping at the first', () => {
+    const lines = YELLOW_CSV.split('\r\n');
+    const badRows = Array.from({ length: 12 }, () => '1,not a time,2015-01-15 08:20:00,1,1.0,-73.99,40.72,1,N,-73.95,40.77');
+
+    const result = parseTLCTrips([...lines, ...badRows].join('\n'), SLICE);
+
+    expect(result.requests.map(r => r.id)).toEqual(['tlc-yellow-3', 'tlc-yellow-5']);
+    expect(result.invalidTimestamps).toBe(12);
+    // Only the first ten are listed; the header is row 1
+    expect(result.invalidTimestampRows).toEqual([7, 8, 9, 10, 11, 12, 13, 14, 15, 16]);
+  });
+
+  test('numbers rows by file line, counting blank lines and line breaks in quoted cells', () => {
+    const [header, early, first, noCoordinates, second] = YELLOW_CSV.split('\r\n');
+    const quoted = first.replace(',N,', ',"N\nY",');
+    const csv = [header, '', early, quoted, '', '1,not a time,2015-01-15 08:20:00,1,1.0,-73.99,40.72,1,N,-73.95,40.77', noCoordinates, second].join('\n');
+
+    const result = parseTLCTrips(csv, SLICE);
+    expect(result.invalidTimestampRows).toEqual([7]);
+    expect(result.requests.map(r => r.id)).toEqual(['tlc-yellow-4', 'tlc-yellow-9']);
+
+    // Chunk boundaries, even inside a quoted cell, don't change the numbering
+    const parser = new TLCTripParser(SLICE);
+    for (let i = 0; i < csv.length; i += 7) parser.push(csv.slice(i, i + 7));
+    expect(parser.finish()).toEqual(result);
+  });
+
+  test('replays trips on the simulation clock', () => {
+    const adapter = new TLCTripDataAdapter(parseTLCTrips(YELLOW_CSV, SLICE));
+    const start = new Date('2030-06-01T12:00:00Z');
+    const minutes = (n: number) => new Date(start.getTime() + n * 60 * 1000);
+
+    expect(adapter.requestsBetween(start, minutes(5), start).map(r => r.id)).toEqual(['tlc-yellow-3']);
+
+    const [later] = adapter.requestsBetween(minutes(5), minutes(10), start);
+    expect(later.id).toBe('tlc-yellow-5');
+    expect(later.timestamp).toEqual(minutes(5));
+  });
+});
@@ -0,0 +1,309 @@
+import { IRequestFeed } from '../services/interfaces';
+import { RideRequest, Vehicle, Coordinates } from '../models/types';
+import { TripFileDataAdapter, TripFileParseError, parseTimestamp } from './TripFileDataAdapter';
+import { TAXI_ZONE_CENTROIDS } from './taxiZoneCentroids';
+import { parseCsv } from '../utils/csv';
+
+export type TLCServiceType = 'yellow' | 'green';
+
+/**
+ * Time slice of a TLC trip record file to import.
+ * Times are NYC local time, matching the naive timestamps in TLC files.
+ */
+export interface TLCImportOptions {
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  durationMinutes: number;
+  // Centroids for taxi zone IDs, used by files from mid-2016 onwards that only record PULocationID/DOLocationID.
+  // Defaults to the bundled approximate TAXI_ZONE_CENTROIDS.
+  zoneCentroids?: Record<string, Coordinates>;
+  maxTrips?: number;
+}
+
+export interface TLCImportResult {
+  serviceType: TLCServiceType;
+  requests: RideRequest[];
+  sliceStart: Date;
+  sliceEnd: Date;
+  rowsRead: number;
+  skippedRows: number; // rows in the slice with missing or zero coordinates, or an unknown taxi zone
+  invalidTimestamps: number; // rows skipped because their pickup time could not be read
+  invalidTimestampRows: number[]; // file lines of the first MAX_LISTED_INVALID_ROWS of them (the header is line 1)
+}
+
+// Bad rows in a multi-gigabyte file are counted, but only the first few are listed
+const MAX_LISTED_INVALID_ROWS = 10;
+
+// Pickup datetime column per service type
+const PICKUP_DATETIME_COLUMNS: Record<TLCServiceType, string> = {
+  yellow: 'tpep_pickup_datetime',
+  green: 'lpep_pickup_datetime'
+};
+
+// Coordinate columns used by pre-2016 TLC files (matched case-insensitively)
+const COORDINATE_COLUMNS = {
+  pickupLat: 'pickup_latitude',
+  pickupLng: 'pickup_longitude',
+  dropoffLat: 'dropoff_latitude',
+  dropoffLng: 'dropoff_longitude'
+};
+
+// Taxi zone columns used by newer TLC files
+const ZONE_COLUMNS = {
+  pickupZone: 'pulocationid',
+  dropoffZone: 'dolocationid'
+};
+
+/**
+ * Detect whether a CSV header belongs to a yellow or green TLC trip record file
+ */
+export function detectTLCServiceType(header: string[]): TLCServiceType | null {
+  const lower = header.map(column => column.trim().toLowerCase());
+  if (lower.includes(PICKUP_DATETIME_COLUMNS.yellow)) return 'yellow';
+  if (lower.includes(PICKUP_DATETIME_COLUMNS.green)) return 'green';
+  return null;
+}
+
+/**
+ * Incremental parser for TLC trip record CSVs.
+ * Text can be pushed in arbitrary chunks so that multi-gigabyte monthly files
+ * can be streamed from disk while only the requested time slice is kept in memory.
+ */
+export class TLCTripParser {
+  private buffer = '';
+  private record = ''; // lines of a record whose quoted cell spans line breaks, until the quote closes
+  private inQuotes = false;
+  private line = 0; // physical lines read, blank ones included
+  private recordLine = 0; // line the current record starts on
+  private columns: Record<string, number> | null = null;
+  private serviceType: TLCServiceType | null = null;
+  private rowsRead = 0;
+  private skippedRows = 0;
+  private invalidTimestamps = 0;
+  private invalidTimestampRows: number[] = [];
+  private requests: RideRequest[] = [];
+  private readonly sliceStart: Date;
+  private readonly sliceEnd: Date;
+
+  constructor(private readonly options: TLCImportOptions) {
+    const start = parseTimestamp(`${options.date} ${options.startTime}:00`);
+    if (!start) {
+      throw new Error(`Invalid time slice start "${options.date} ${options.startTime}"`);
+    }
+    if (options.durationMinutes <= 0) {
+      throw new Error('Time slice duration must be greater than zero');
+    }
+
+    this.sliceStart = start;
+    this.sliceEnd = new Date(start.getTime() + options.durationMinutes * 60 * 1000);
+  }
+
+  /**
+   * Parse the next chunk of file content
+   */
+  push(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    // Keep the (possibly partial) last line for the next chunk
+    this.buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      this.addLine(line);
+    }
+  }
+
+  /**
+   * Parse any remaining content and return the imported slice
+   */
+  finish(): TLCImportResult {
+    if (this.buffer !== '') {
+      this.addLine(this.buffer);
+      this.buffer = '';
+    }
+    // A quote left open at the end of the file
+    if (this.inQuotes) {
+      this.parseRecord(this.record, this.recordLine);
+      this.inQuotes = false;
+    }
+
+    if (!this.serviceType) {
+      throw new TripFileParseError('not a TLC yellow or green trip record file', 1);
+    }
+
+    return {
+      serviceType: this.serviceType,
+      requests: [...this.requests].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()),
+      sliceStart: this.sliceStart,
+      sliceEnd: this.sliceEnd,
+      rowsRead: this.rowsRead,
+      skippedRows: this.skippedRows,
+      invalidTimestamps: this.invalidTimestamps,
+      invalidTimestampRows: this.invalidTimestampRows
+    };
+  }
+
+  /**
+   * Take the next physical line, joining lines while a quoted cell is open
+   */
+  private addLine(line: string): void {
+    this.line++;
+    if (this.inQuotes) {
+      this.record += `\n${line}`;
+    } else {
+      this.record = line;
+      this.recordLine = this.line;
+    }
+
+    // Escaped quotes come in pairs, so an odd count opens or closes a quoted cell
+    if ((line.split('"').length - 1) % 2 === 1) this.inQuotes = !this.inQuotes;
+    if (!this.inQuotes) this.parseRecord(this.record, this.recordLine);
+  }
+
+  /**
+   * Parse one CSV record
+   * @param row Line of the file the record starts on
+   */
+  private parseRecord(record: string, row: number): void {
+    if (record.trim() === '') return;
+
+    const [cells] = parseCsv(record);
+    if (!cells) return;
+
+    if (!this.columns) {
+      this.parseHeader(cells);
+      return;
+    }
+
+    this.rowsRead++;
+    if (this.options.maxTrips !== undefined && this.requests.length >= this.options.maxTrips) return;
+
+    const cell = (name: string) => (this.columns && this.columns[name] !== undefined ? cells[this.columns[name]] : undefined);
+    const pickupColumn = PICKUP_DATETIME_COLUMNS[this.serviceType as TLCServiceType];
+    const timestamp = parseTimestamp(cell(pickupColumn));
+
+    if (!timestamp) {
+      this.invalidTimestamps++;
+      if (this.invalidTimestampRows.length < MAX_LISTED_INVALID_ROWS) this.invalidTimestampRows.push(row);
+      return;
+    }
+
+    // Only keep trips inside the time slice
+    if (timestamp < this.sliceStart || timestamp >= this.sliceEnd) return;
+
+    const locations = this.readLocations(cell);
+    if (!locations) {
+      this.skippedRows++;
+      return;
+    }
+
+    this.requests.push({
+      id: `tlc-${this.serviceType}-${row}`,
+      pickupLocation: locations.pickup,
+      dropoffLocation: locations.dropoff,
+      timestamp
+    });
+  }
+
+  private parseHeader(cells: string[]): void {
+    this.serviceType = detectTLCServiceType(cells);
+    if (!this.serviceType) {
+      throw new TripFileParseError(
+        `missing ${PICKUP_DATETIME_COLUMNS.yellow} or ${PICKUP_DATETIME_COLUMNS.green} column - not a TLC yellow or green trip record file`,
+        1
+      );
+    }
+
+    const columns: Record<string, number> = {};
+    cells.forEach((name, index) => {
+      columns[name.trim().toLowerCase()] = index;
+    });
+
+    const hasCoordinates = Object.values(COORDINATE_COLUMNS).every(name => columns[name] !== undefined);
+    const hasZones = Object.values(ZONE_COLUMNS).every(name => columns[name] !== undefined);
+
+    if (!hasCoordinates && !hasZones) {
+      throw new TripFileParseError('file has neither pickup/dropoff coordinates nor PULocationID/DOLocationID columns', 1);
+    }
+
+    this.columns = columns;
+  }
+
+  private readLocations(cell: (name: string) => string | undefined): { pickup: Coordinates; dropoff: Coordinates } | null {
+    if (this.columns && this.columns[COORDINATE_COLUMNS.pickupLat] !== undefined) {
+      const pickup = { lat: parseFloat(cell(COORDINATE_COLUMNS.pickupLat) ?? ''), lng: parseFloat(cell(COORDINATE_COLUMNS.pickupLng) ?? '') };
+      const dropoff = { lat: parseFloat(cell(COORDINATE_COLUMNS.dropoffLat) ?? ''), lng: parseFloat(cell(COORDINATE_COLUMNS.dropoffLng) ?? '') };
+      return isValidLocation(pickup) && isValidLocation(dropoff) ? { pickup, dropoff } : null;
+    }
+
+    const centroids = this.options.zoneCentroids ?? TAXI_ZONE_CENTROIDS;
+    const pickup = centroids[(cell(ZONE_COLUMNS.pickupZone) ?? '').trim()];
+    const dropoff = centroids[(cell(ZONE_COLUMNS.dropoffZone) ?? '').trim()];
+    return pickup && dropoff ? { pickup: { ...pickup }, dropoff: { ...dropoff } } : null;
+  }
+}
+
+/**
+ * Parse a TLC trip record CSV held in memory
+ */
+export function parseTLCTrips(text: string, options: TLCImportOptions): TLCImportResult {
+  const parser = new TLCTripParser(options);
+  parser.push(text);
+  return parser.finish();
+}
+
+/**
+ * Stream a TLC trip record file from local disk, keeping only the requested time slice
+ */
+export async function importTLCTrips(file: Blob, options: TLCImportOptions): Promise<TLCImportResult> {
+  const parser = new TLCTripParser(options);
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(decoder.decode(value, { stream: true }));
+  }
+  parser.push(decoder.decode());
+
+  return parser.finish();
+}
+
+/**
+ * Data adapter replaying a time slice of NYC TLC taxi trips.
+ *
+ * As an IDataAdapter it serves the slice like any other trip file.
+ * As an IRequestFeed it releases each trip when the simulation clock reaches
+ * its offset from the slice start, so demand keeps its real arrival pattern.
+ */
+export class TLCTripDataAdapter extends TripFileDataAdapter implements IRequestFeed {
+  private readonly sliceStart: Date;
+
+  constructor(slice: TLCImportResult, vehicles: Vehicle[] = []) {
+    super(slice.requests, vehicles);
+    this.sliceStart = slice.sliceStart;
+  }
+
+  requestsBetween(from: Date, to: Date, start: Date): RideRequest[] {
+    const offset = start.getTime() - this.sliceStart.getTime();
+
+    return this.trips
+      .filter(trip => {
+        const replayTime = trip.timestamp.getTime() + offset;
+        return replayTime >= from.getTime() && replayTime < to.getTime();
+      })
+      .map(trip => ({
+        ...trip,
+        pickupLocation: { ...trip.pickupLocation },
+        dropoffLocation: { ...trip.dropoffLocation },
+        timestamp: new Date(trip.timestamp.getTime() + offset)
+      }));
+  }
+}
+
+// TLC files use 0 for unknown coordinates
+function isValidLocation(location: Coordinates): boolean {
+  return Number.isFinite(location.lat) && Number.isFinite(location.lng) &&
+    location.lat !== 0 && location.lng !== 0 &&
+    Math.abs(location.lat) <= 90 && Math.abs(location.lng) <= 180;
+}
@@ -0,0 +1,121 @@
+import {
+  TripFileDataAdapter,
+  TripFileParseError,
+  parseDataFile,
+  parseTripsCsv,
+  parseTripsGeoJson
+} from './TripFileDataAdapter';
+import { DEFAULT_SIMULATION_CONFIG } from '../config/simulationConfig';
+
+const TRIPS_CSV = [
+  'id,pickup_lat,pickup_lng,dropoff_lat,dropoff_lng,timestamp',
+  'a,40.75,-73.98,40.76,-73.97,2024-03-01 08:05:00Z',
+  'b,40.71,-73.95,40.78,-73.96,2024-03-01T08:00:00Z',
+  'c,41.90,-87.62,41.88,-87.63,2024-03-01T08:10:00Z'
+].join('\n');
+
+describe('TripFileDataAdapter', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('parses CSV trips with a custom column mapping', () => {
+    const csv = 'PU_LAT,PU_LNG,DO_LAT,DO_LNG,TIME\n40.75,-73.98,40.76,-73.97,1709280000';
+    const [trip] = parseTripsCsv(csv, {
+      pickupLat: 'pu_lat',
+      pickupLng: 'pu_lng',
+      dropoffLat: 'do_lat',
+      dropoffLng: 'do_lng',
+      timestamp: 'time'
+    });
+
+    expect(trip.pickupLocation).toEqual({ lat: 40.75, lng: -73.98 });
+    expect(trip.timestamp.toISOString()).toBe('2024-03-01T08:00:00.000Z');
+  });
+
+  test('parses optional per-trip time limits', () => {
+    const csv = [
+      'id,pickup_lat,pickup_lng,dropoff_lat,dropoff_lng,timestamp,latest_pickup,max_ride_time_ratio',
+      'a,40.75,-73.98,40.76,-73.97,2024-03-01T08:00:00Z,2024-03-01T08:10:00Z,1.5',
+      'b,40.75,-73.98,40.76,-73.97,2024-03-01T08:00:00Z,,'
+    ].join('\n');
+
+    const [limited, unlimited] = parseTripsCsv(csv);
+
+    expect(limited.latestPickupTime?.toISOString()).toBe('2024-03-01T08:10:00.000Z');
+    expect(limited.maxRideTimeRatio).toBe(1.5);
+    expect(unlimited).not.toHaveProperty('latestPickupTime');
+    expect(unlimited).not.toHaveProperty('maxRideTimeRatio');
+    expect(() => parseTripsCsv(csv.replace(',1.5', ',0.5'))).toThrow('Row 2 (max_ride_time_ratio)');
+  });
+
+  test('reports the offending row and column', () => {
+    const csv = TRIPS_CSV + '\nd,40.75,abc,40.76,-73.97,2024-03-01T08:00:00Z';
+
+    expect(() => parseTripsCsv(csv)).toThrow(TripFileParseError);
+    expect(() => parseTripsCsv(csv)).toThrow('Row 5 (pickup_lng): "abc" is not a number');
+    expect(() => parseTripsCsv('pickup_lat,pickup_lng\n1,2')).toThrow('missing required column "dropoff_lat"');
+  });
+
+  test('reports the line a row starts on, counting blank lines and line breaks in quoted cells', () => {
+    const csv = [
+      'id,pickup_lat,pickup_lng,dropoff_lat,dropoff_lng,timestamp',
+      '',
+      '"a',
+      'b",40.75,-73.98,40.76,-73.97,2024-03-01T08:00:00Z',
+      '',
+      'c,40.75,abc,40.76,-73.97,2024-03-01T08:00:00Z'
+    ].join('\n');
+
+    expect(() => parseTripsCsv(csv)).toThrow('Row 6 (pickup_lng): "abc" is not a number');
+  });
+
+  test('parses GeoJSON trips and vehicle snapshots', () => {
+    const trips = parseTripsGeoJson(JSON.stringify({
+      type: 'FeatureCollection',
+      features: [{
+        type: 'Feature',
+        properties: { id: 't1', timestamp: '2024-03-01T08:00:00Z' },
+        geometry: { type: 'LineString', coordinates: [[-73.98, 40.75], [-73.97, 40.755], [-73.96, 40.76]] }
+      }]
+    }));
+    expect(trips[0].dropoffLocation).toEqual({ lat: 40.76, lng: -73.96 });
+
+    const parsed = parseDataFile('fleet.geojson', JSON.stringify({
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', properties: { capacity: 6 }, geometry: { type: 'Point', coordinates: [-73.98, 40.75] } }]
+    }));
+    expect(parsed.kind).toBe('vehicles');
+    expect(parsed.kind === 'vehicles' && parsed.vehicles[0].availableSeats).toBe(6);
+  });
+
+  test('reports malformed GeoJSON features by position', () => {
+    const collection = (...features: unknown[]) => JSON.stringify({ type: 'FeatureCollection', features });
+    const trip = {
+      type: 'Feature',
+      properties: { timestamp: '2024-03-01T08:00:00Z' },
+      geometry: { type: 'LineString', coordinates: [[-73.98, 40.75], [-73.96, 40.76]] }
+    };
+
+    expect(() => parseTripsGeoJson(collection(trip, 'not a feature'))).toThrow('Row 2: expected a GeoJSON Feature');
+    expect(() => parseTripsGeoJson(collection({ ...trip, geometry: null }))).toThrow('Row 1 (geometry)');
+    expect(() => parseTripsGeoJson(collection({ ...trip, geometry: { type: 'LineString', coordinates: [['x', 40.75], [-73.96, 40.76]] } })))
+      .toThrow('Row 1 (pickup_lng): "x" is not a number');
+    expect(() => parseTripsGeoJson('[]')).toThrow('expected a GeoJSON FeatureCollection');
+  });
+
+  test('serves in-bounds trips in time order, anchored at the reference time', () => {
+    const adapter = new TripFileDataAdapter(parseTripsCsv(TRIPS_CSV));
+    const referenceTime = new Date('2030-01-01T00:00:00Z');
+
+    const requests = adapter.generateRequests(10, DEFAULT_SIMULATION_CONFIG.MAP_BOUNDS, { referenceTime });
+
+    expect(requests.map(r => r.id)).toEqual(['b', 'a']);
+    expect(requests[0].timestamp).toEqual(referenceTime);
+    expect(requests[1].timestamp.getTime() - requests[0].timestamp.getTime()).toBe(5 * 60 * 1000);
+  });
+});
@@ -0,0 +1,487 @@
+import { IDataAdapter, DataGenerationOptions } from '../services/interfaces';
+import { RideRequest, Vehicle, Coordinates } from '../models/types';
+import { RandomDataGenerator } from './RandomDataGenerator';
+import { parseCsvRecords } from '../utils/csv';
+import { createId } from '../utils/random';
+
+type Bounds = { minLat: number; maxLat: number; minLng: number; maxLng: number };
+
+export type TripFileFormat = 'csv' | 'geojson';
+
+/**
+ * Column (CSV) or property (GeoJSON) names holding trip fields
+ */
+export interface TripColumnMapping {
+  id?: string;
+  pickupLat: string;
+  pickupLng: string;
+  dropoffLat: string;
+  dropoffLng: string;
+  timestamp: string;
+  latestPickupTime?: string;
+  maxRideTimeRatio?: string;
+}
+
+/**
+ * Column (CSV) or property (GeoJSON) names holding vehicle snapshot fields
+ */
+export interface VehicleColumnMapping {
+  id?: string;
+  lat: string;
+  lng: string;
+  capacity?: string;
+  availableSeats?: string;
+}
+
+export const DEFAULT_TRIP_COLUMNS: TripColumnMapping = {
+  id: 'id',
+  pickupLat: 'pickup_lat',
+  pickupLng: 'pickup_lng',
+  dropoffLat: 'dropoff_lat',
+  dropoffLng: 'dropoff_lng',
+  timestamp: 'timestamp',
+  latestPickupTime: 'latest_pickup',
+  maxRideTimeRatio: 'max_ride_time_ratio'
+};
+
+export const DEFAULT_VEHICLE_COLUMNS: VehicleColumnMapping = {
+  id: 'id',
+  lat: 'lat',
+  lng: 'lng',
+  capacity: 'capacity',
+  availableSeats: 'available_seats'
+};
+
+// Capacity used for vehicle snapshots that don't record one
+const DEFAULT_VEHICLE_CAPACITY = 4;
+
+/**
+ * Error raised when a trip or vehicle file contains invalid data.
+ * `row` is the 1-based line a CSV record starts on (the header is line 1) or the GeoJSON feature number.
+ */
+export class TripFileParseError extends Error {
+  constructor(message: string, public readonly row: number, public readonly column?: string) {
+    super(`Row ${row}${column ? ` (${column})` : ''}: ${message}`);
+    this.name = 'TripFileParseError';
+  }
+}
+
+/**
+ * Detect the file format from a file name
+ */
+export function detectTripFileFormat(fileName: string): TripFileFormat {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.geojson') || lower.endsWith('.json')) {
+    return 'geojson';
+  }
+  return 'csv';
+}
+
+/**
+ * Parse a timestamp given as ISO 8601, "YYYY-MM-DD HH:MM:SS" or epoch seconds/milliseconds
+ */
+export function parseTimestamp(value: unknown): Date | null {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim()))) {
+    const numeric = Number(value);
+    // Treat small values as epoch seconds
+    const date = new Date(numeric < 1e12 ? numeric * 1000 : numeric);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+
+  // "2019-01-01 00:46:40" is not valid ISO 8601 in every browser
+  const normalized = value.trim().replace(/^(\d{4}-\d{2}-\d{2}) (\d)/, '$1T$2');
+  const date = new Date(normalized);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse trip records from CSV text
+ */
+export function parseTripsCsv(text: string, mapping: TripColumnMapping = DEFAULT_TRIP_COLUMNS): RideRequest[] {
+  const { header, records } = parseCsvRecords(text);
+  const columns = resolveColumns(header, mapping, ['pickupLat', 'pickupLng', 'dropoffLat', 'dropoffLng', 'timestamp']);
+
+  return records.map(({ row, values }) => {
+    const field = (key: keyof TripColumnMapping) => (columns[key] ? values[columns[key] as string] : undefined);
+    return buildRequest(row, {
+      id: field('id'),
+      pickupLat: field('pickupLat'),
+      pickupLng: field('pickupLng'),
+      dropoffLat: field('dropoffLat'),
+      dropoffLng: field('dropoffLng'),
+      timestamp: field('timestamp'),
+      latestPickupTime: field('latestPickupTime'),
+      maxRideTimeRatio: field('maxRideTimeRatio')
+    }, mapping);
+  });
+}
+
+/**
+ * Parse vehicle snapshots from CSV text
+ */
+export function parseVehiclesCsv(text: string, mapping: VehicleColumnMapping = DEFAULT_VEHICLE_COLUMNS): Vehicle[] {
+  const { header, records } = parseCsvRecords(text);
+  const columns = resolveColumns(header, mapping, ['lat', 'lng']);
+
+  return records.map(({ row, values }) => {
+    const field = (key: keyof VehicleColumnMapping) => (columns[key] ? values[columns[key] as string] : undefined);
+    return buildVehicle(row, {
+      id: field('id'),
+      lat: field('lat'),
+      lng: field('lng'),
+      capacity: field('capacity'),
+      availableSeats: field('availableSeats')
+    }, mapping);
+  });
+}
+
+/**
+ * Parse trips from a GeoJSON FeatureCollection.
+ * Each trip is a LineString or MultiPoint whose first point is the pickup and last point is the dropoff.
+ */
+export function parseTripsGeoJson(text: string, mapping: TripColumnMapping = DEFAULT_TRIP_COLUMNS): RideRequest[] {
+  return parseFeatures(text).map((feature, index) => {
+    const row = index + 1;
+    const { type, coordinates } = feature.geometry;
+
+    if ((type !== 'LineString' && type !== 'MultiPoint') || coordinates.length < 2) {
+      throw new TripFileParseError('trip features must be a LineString or MultiPoint with at least two points', row, 'geometry');
+    }
+
+    const [pickupLng, pickupLat] = position(coordinates[0]);
+    const [dropoffLng, dropoffLat] = position(coordinates[coordinates.length - 1]);
+    const { properties } = feature;
+
+    return buildRequest(row, {
+      id: mapping.id ? properties[mapping.id] ?? feature.id : feature.id,
+      pickupLat,
+      pickupLng,
+      dropoffLat,
+      dropoffLng,
+      timestamp: properties[mapping.timestamp],
+      latestPickupTime: mapping.latestPickupTime ? properties[mapping.latestPickupTime] : undefined,
+      maxRideTimeRatio: mapping.maxRideTimeRatio ? properties[mapping.maxRideTimeRatio] : undefined
+    }, mapping);
+  });
+}
+
+/**
+ * Parse vehicle snapshots from a GeoJSON FeatureCollection of Points
+ */
+export function parseVehiclesGeoJson(text: string, mapping: VehicleColumnMapping = DEFAULT_VEHICLE_COLUMNS): Vehicle[] {
+  return parseFeatures(text).map((feature, index) => {
+    const row = index + 1;
+
+    const { type, coordinates } = feature.geometry;
+
+    if (type !== 'Point' || coordinates.length < 2) {
+      throw new TripFileParseError('vehicle features must be Points', row, 'geometry');
+    }
+
+    const [lng, lat] = coordinates;
+    const { properties } = feature;
+
+    return buildVehicle(row, {
+      id: mapping.id ? properties[mapping.id] ?? feature.id : feature.id,
+      lat,
+      lng,
+      capacity: mapping.capacity ? properties[mapping.capacity] : undefined,
+      availableSeats: mapping.availableSeats ? properties[mapping.availableSeats] : undefined
+    }, mapping);
+  });
+}
+
+/**
+ * Parse a dropped data file, deciding from its contents whether it holds trips or vehicle snapshots
+ */
+export function parseDataFile(
+  fileName: string,
+  text: string,
+  tripMapping: TripColumnMapping = DEFAULT_TRIP_COLUMNS,
+  vehicleMapping: VehicleColumnMapping = DEFAULT_VEHICLE_COLUMNS
+): { kind: 'trips'; requests: RideRequest[] } | { kind: 'vehicles'; vehicles: Vehicle[] } {
+  if (detectTripFileFormat(fileName) === 'geojson') {
+    const features = parseFeatures(text);
+    const isVehicleFile = features.length > 0 && features.every(feature => feature.geometry.type === 'Point');
+    return isVehicleFile
+      ? { kind: 'vehicles', vehicles: parseVehiclesGeoJson(text, vehicleMapping) }
+      : { kind: 'trips', requests: parseTripsGeoJson(text, tripMapping) };
+  }
+
+  const { header } = parseCsvRecords(text.split('\n', 1)[0]);
+  const hasColumn = (name: string) => header.some(column => column.toLowerCase() === name.toLowerCase());
+  const isVehicleFile = !hasColumn(tripMapping.pickupLat) && hasColumn(vehicleMapping.lat);
+
+  return isVehicleFile
+    ? { kind: 'vehicles', vehicles: parseVehiclesCsv(text, vehicleMapping) }
+    : { kind: 'trips', requests: parseTripsCsv(text, tripMapping) };
+}
+
+/**
+ * File-backed data adapter serving historical trips and vehicle snapshots
+ * instead of synthetic data.
+ *
+ * Trips are filtered to the simulation bounds and served in timestamp order.
+ * Their timestamps (and latest pickup times) are shifted so the earliest served trip happens
+ * at the reference time while keeping the original spacing between requests.
+ * When no vehicle snapshot is loaded, vehicles are generated near the passengers.
+ */
+export class TripFileDataAdapter implements IDataAdapter {
+  protected readonly trips: RideRequest[];
+
+  constructor(
+    trips: RideRequest[],
+    private readonly vehicles: Vehicle[] = [],
+    private readonly fallback: IDataAdapter = new RandomDataGenerator()
+  ) {
+    this.trips = [...trips].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  /**
+   * Number of trips loaded from file
+   */
+  get tripCount(): number {
+    return this.trips.length;
+  }
+
+  /**
+   * Number of vehicle snapshots loaded from file
+   */
+  get vehicleCount(): number {
+    return this.vehicles.length;
+  }
+
+  generateRequests(count: number, bounds: Bounds, options: DataGenerationOptions = {}): RideRequest[] {
+    const inBounds = this.trips.filter(trip =>
+      isWithinBounds(trip.pickupLocation, bounds) && isWithinBounds(trip.dropoffLocation, bounds)
+    );
+
+    if (inBounds.length === 0) {
+      throw new Error(`None of the ${this.trips.length} loaded trips lie within the simulation bounds`);
+    }
+
+    const selected = inBounds.slice(0, Math.max(0, count));
+    console.log(`Serving ${selected.length} of ${inBounds.length} trips inside the simulation bounds (${this.trips.length} loaded)`);
+
+    const referenceTime = options.referenceTime ?? new Date();
+    const offset = selected.length > 0 ? referenceTime.getTime() - selected[0].timestamp.getTime() : 0;
+
+    return selected.map(trip => ({
+      ...trip,
+      pickupLocation: { ...trip.pickupLocation },
+      dropoffLocation: { ...trip.dropoffLocation },
+      timestamp: new Date(trip.timestamp.getTime() + offset),
+      latestPickupTime: trip.latestPickupTime && new Date(trip.latestPickupTime.getTime() + offset)
+    }));
+  }
+
+  generateVehicles(count: number, bounds: Bounds, options: DataGenerationOptions = {}): Vehicle[] {
+    const snapshot = this.selectVehicles(count, bounds);
+    return snapshot.length > 0 ? snapshot : this.fallback.generateVehicles(count, bounds, options);
+  }
+
+  generateVehiclesNearPassengers(count: number, requests: RideRequest[], bounds: Bounds, options: DataGenerationOptions = {}): Vehicle[] {
+    const snapshot = this.selectVehicles(count, bounds);
+    return snapshot.length > 0 ? snapshot : this.fallback.generateVehiclesNearPassengers(count, requests, bounds, options);
+  }
+
+  private selectVehicles(count: number, bounds: Bounds): Vehicle[] {
+    return this.vehicles
+      .filter(vehicle => isWithinBounds(vehicle.location, bounds))
+      .slice(0, Math.max(0, count))
+      .map(vehicle => ({ ...vehicle, location: { ...vehicle.location }, currentRoute: [] }));
+  }
+}
+
+function isWithinBounds(location: Coordinates, bounds: Bounds): boolean {
+  return location.lat >= bounds.minLat && location.lat <= bounds.maxLat &&
+    location.lng >= bounds.minLng && location.lng <= bounds.maxLng;
+}
+
+/**
+ * Map each mapping key to the matching header column (case-insensitive), failing on missing required columns
+ */
+function resolveColumns<T extends object>(header: string[], mapping: T, required: (keyof T)[]): Partial<Record<keyof T, string>> {
+  const resolved: Partial<Record<keyof T, string>> = {};
+
+  (Object.keys(mapping) as (keyof T)[]).forEach(key => {
+    const name = mapping[key];
+    if (typeof name !== 'string') return;
+
+    const column = header.find(candidate => candidate.toLowerCase() === name.toLowerCase());
+    if (column !== undefined) {
+      resolved[key] = column;
+    } else if (required.includes(key)) {
+      throw new TripFileParseError(`missing required column "${name}"`, 1, name);
+    }
+  });
+
+  return resolved;
+}
+
+/**
+ * The parts of a GeoJSON Feature the parsers read. Coordinates and property values are
+ * left unknown and checked where they are used.
+ */
+interface GeoJsonFeature {
+  id: unknown;
+  geometry: {
+    type: unknown;
+    coordinates: unknown[];
+  };
+  properties: Record<string, unknown>;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseFeatures(text: string): GeoJsonFeature[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new TripFileParseError(`invalid JSON (${(error as Error).message})`, 1);
+  }
+
+  let features: unknown[];
+  if (isObject(json) && json.type === 'FeatureCollection' && Array.isArray(json.features)) {
+    features = json.features;
+  } else if (isObject(json) && json.type === 'Feature') {
+    features = [json];
+  } else {
+    throw new TripFileParseError('expected a GeoJSON FeatureCollection', 1);
+  }
+
+  return features.map((feature, index) => {
+    if (!isObject(feature)) {
+      throw new TripFileParseError('expected a GeoJSON Feature', index + 1);
+    }
+
+    // Missing geometry or properties read as empty, so the parsers report what they need
+    const geometry = isObject(feature.geometry) ? feature.geometry : {};
+    return {
+      id: feature.id,
+      geometry: {
+        type: geometry.type,
+        coordinates: Array.isArray(geometry.coordinates) ? geometry.coordinates : []
+      },
+      properties: isObject(feature.properties) ? feature.properties : {}
+    };
+  });
+}
+
+/**
+ * Longitude and latitude of a GeoJSON position, undefined when it is not one
+ */
+function position(value: unknown): [unknown, unknown] {
+  return Array.isArray(value) ? [value[0], value[1]] : [undefined, undefined];
+}
+
+function parseCoordinate(value: unknown, row: number, column: string, min: number, max: number): number {
+  const number = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+
+  if (!Number.isFinite(number)) {
+    throw new TripFileParseError(`"${value ?? ''}" is not a number`, row, column);
+  }
+  if (number < min || number > max) {
+    throw new TripFileParseError(`${number} is outside the valid range [${min}, ${max}]`, row, column);
+  }
+
+  return number;
+}
+
+function buildRequest(
+  row: number,
+  fields: {
+    id: unknown;
+    pickupLat: unknown;
+    pickupLng: unknown;
+    dropoffLat: unknown;
+    dropoffLng: unknown;
+    timestamp: unknown;
+    latestPickupTime?: unknown;
+    maxRideTimeRatio?: unknown;
+  },
+  mapping: TripColumnMapping
+): RideRequest {
+  const timestamp = parseTimestamp(fields.timestamp);
+  if (!timestamp) {
+    throw new TripFileParseError(`"${fields.timestamp ?? ''}" is not a valid timestamp`, row, mapping.timestamp);
+  }
+
+  const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+  // Per-trip time limits are optional; blank cells fall back to the simulation's defaults
+  let latestPickupTime: Date | undefined;
+  if (!isBlank(fields.latestPickupTime)) {
+    const parsed = parseTimestamp(fields.latestPickupTime);
+    if (!parsed) {
+      throw new TripFileParseError(`"${fields.latestPickupTime}" is not a valid timestamp`, row, mapping.latestPickupTime);
+    }
+    if (parsed < timestamp) {
+      throw new TripFileParseError('latest pickup is before the request time', row, mapping.latestPickupTime);
+    }
+    latestPickupTime = parsed;
+  }
+
+  let maxRideTimeRatio: number | undefined;
+  if (!isBlank(fields.maxRideTimeRatio)) {
+    maxRideTimeRatio = Number(fields.maxRideTimeRatio);
+    if (!Number.isFinite(maxRideTimeRatio) || maxRideTimeRatio < 1) {
+      throw new TripFileParseError(`"${fields.maxRideTimeRatio}" is not a ride time ratio of at least 1`, row, mapping.maxRideTimeRatio);
+    }
+  }
+
+  return {
+    id: fields.id !== undefined && fields.id !== null && String(fields.id) !== '' ? String(fields.id) : createId(),
+    pickupLocation: {
+      lat: parseCoordinate(fields.pickupLat, row, mapping.pickupLat, -90, 90),
+      lng: parseCoordinate(fields.pickupLng, row, mapping.pickupLng, -180, 180)
+    },
+    dropoffLocation: {
+      lat: parseCoordinate(fields.dropoffLat, row, mapping.dropoffLat, -90, 90),
+      lng: parseCoordinate(fields.dropoffLng, row, mapping.dropoffLng, -180, 180)
+    },
+    timestamp,
+    ...(latestPickupTime && { latestPickupTime }),
+    ...(maxRideTimeRatio !== undefined && { maxRideTimeRatio })
+  };
+}
+
+function buildVehicle(
+  row: number,
+  fields: { id: unknown; lat: unknown; lng: unknown; capacity: unknown; availableSeats: unknown },
+  mapping: VehicleColumnMapping
+): Vehicle {
+  const parseSeats = (value: unknown, column: string | undefined, fallback: number) => {
+    if (value === undefined || value === null || value === '') return fallback;
+    const seats = Number(value);
+    if (!Number.isInteger(seats) || seats < 0) {
+      throw new TripFileParseError(`"${value}" is not a valid seat count`, row, column);
+    }
+    return seats;
+  };
+
+  const capacity = parseSeats(fields.capacity, mapping.capacity, DEFAULT_VEHICLE_CAPACITY);
+  const availableSeats = parseSeats(fields.availableSeats, mapping.availableSeats, capacity);
+
+  if (availableSeats > capacity) {
+    throw new TripFileParseError(`available seats (${availableSeats}) exceed capacity (${capacity})`, row, mapping.availableSeats);
+  }
+
+  return {
+    id: fields.id !== undefined && fields.id !== null && String(fields.id) !== '' ? String(fields.id) : createId(),
+    location: {
+      lat: parseCoordinate(fields.lat, row, mapping.lat, -90, 90),
+      lng: parseCoordinate(fields.lng, row, mapping.lng, -180, 180)
+    },
+    capacity,
+    availableSeats,
+    currentRoute: []
+  };
+}
@@ -0,0 +1,276 @@
+import { Coordinates } from '../models/types';
+
+/**
+ * Approximate centre of each NYC TLC taxi zone, keyed by LocationID (1-263).
+ *
+ * Positions are neighbourhood centres to within about a kilometre - close enough to place
+ * and route trips from zone-only TLC files (mid-2016 onwards), not to measure short trips.
+ * Pass TLCImportOptions.zoneCentroids with centroids computed from the TLC taxi zone
+ * shapefile where that matters. Zones 264 and 265 (unknown / outside NYC) have no centre,
+ * so their trips are skipped.
+ */
+export const TAXI_ZONE_CENTROIDS: Record<string, Coordinates> = {
+  1: { lat: 40.6895, lng: -74.1745 }, // Newark Airport
+  2: { lat: 40.6190, lng: -73.8460 }, // Jamaica Bay
+  3: { lat: 40.8655, lng: -73.8475 }, // Allerton/Pelham Gardens
+  4: { lat: 40.7258, lng: -73.9776 }, // Alphabet City
+  5: { lat: 40.5560, lng: -74.1740 }, // Arden Heights
+  6: { lat: 40.5980, lng: -74.0710 }, // Arrochar/Fort Wadsworth
+  7: { lat: 40.7640, lng: -73.9210 }, // Astoria
+  8: { lat: 40.7790, lng: -73.9230 }, // Astoria Park
+  9: { lat: 40.7530, lng: -73.7880 }, // Auburndale
+  10: { lat: 40.6780, lng: -73.7900 }, // Baisley Park
+  11: { lat: 40.6020, lng: -74.0050 }, // Bath Beach
+  12: { lat: 40.7030, lng: -74.0160 }, // Battery Park
+  13: { lat: 40.7115, lng: -74.0160 }, // Battery Park City
+  14: { lat: 40.6255, lng: -74.0300 }, // Bay Ridge
+  15: { lat: 40.7850, lng: -73.7800 }, // Bay Terrace/Fort Totten
+  16: { lat: 40.7630, lng: -73.7710 }, // Bayside
+  17: { lat: 40.6910, lng: -73.9530 }, // Bedford
+  18: { lat: 40.8700, lng: -73.8870 }, // Bedford Park
+  19: { lat: 40.7310, lng: -73.7270 }, // Bellerose
+  20: { lat: 40.8560, lng: -73.8880 }, // Belmont
+  21: { lat: 40.6060, lng: -73.9900 }, // Bensonhurst East
+  22: { lat: 40.6090, lng: -74.0030 }, // Bensonhurst West
+  23: { lat: 40.6080, lng: -74.1650 }, // Bloomfield/Emerson Hill
+  24: { lat: 40.8000, lng: -73.9660 }, // Bloomingdale
+  25: { lat: 40.6860, lng: -73.9840 }, // Boerum Hill
+  26: { lat: 40.6340, lng: -73.9920 }, // Borough Park
+  27: { lat: 40.5590, lng: -73.9060 }, // Breezy Point/Fort Tilden/Riis Beach
+  28: { lat: 40.7110, lng: -73.8150 }, // Briarwood/Jamaica Hills
+  29: { lat: 40.5780, lng: -73.9600 }, // Brighton Beach
+  30: { lat: 40.6040, lng: -73.8190 }, // Broad Channel
+  31: { lat: 40.8560, lng: -73.8770 }, // Bronx Park
+  32: { lat: 40.8530, lng: -73.8660 }, // Bronxdale
+  33: { lat: 40.6960, lng: -73.9950 }, // Brooklyn Heights
+  34: { lat: 40.7020, lng: -73.9700 }, // Brooklyn Navy Yard
+  35: { lat: 40.6630, lng: -73.9100 }, // Brownsville
+  36: { lat: 40.6975, lng: -73.9130 }, // Bushwick North
+  37: { lat: 40.7020, lng: -73.9270 }, // Bushwick South
+  38: { lat: 40.6920, lng: -73.7370 }, // Cambria Heights
+  39: { lat: 40.6400, lng: -73.9000 }, // Canarsie
+  40: { lat: 40.6790, lng: -73.9990 }, // Carroll Gardens
+  41: { lat: 40.8080, lng: -73.9480 }, // Central Harlem
+  42: { lat: 40.8210, lng: -73.9420 }, // Central Harlem North
+  43: { lat: 40.7820, lng: -73.9650 }, // Central Park
+  44: { lat: 40.5200, lng: -74.2300 }, // Charleston/Tottenville
+  45: { lat: 40.7160, lng: -73.9970 }, // Chinatown
+  46: { lat: 40.8470, lng: -73.7870 }, // City Island
+  47: { lat: 40.8420, lng: -73.9000 }, // Claremont/Bathgate
+  48: { lat: 40.7620, lng: -73.9890 }, // Clinton East
+  49: { lat: 40.6890, lng: -73.9650 }, // Clinton Hill
+  50: { lat: 40.7660, lng: -73.9950 }, // Clinton West
+  51: { lat: 40.8750, lng: -73.8290 }, // Co-Op City
+  52: { lat: 40.6870, lng: -73.9960 }, // Cobble Hill
+  53: { lat: 40.7850, lng: -73.8430 }, // College Point
+  54: { lat: 40.6860, lng: -74.0030 }, // Columbia Street
+  55: { lat: 40.5760, lng: -73.9870 }, // Coney Island
+  56: { lat: 40.7450, lng: -73.8610 }, // Corona
+  57: { lat: 40.7510, lng: -73.8550 }, // Corona
+  58: { lat: 40.8380, lng: -73.8150 }, // Country Club
+  59: { lat: 40.8390, lng: -73.8960 }, // Crotona Park
+  60: { lat: 40.8330, lng: -73.8870 }, // Crotona Park East
+  61: { lat: 40.6740, lng: -73.9420 }, // Crown Heights North
+  62: { lat: 40.6670, lng: -73.9390 }, // Crown Heights South
+  63: { lat: 40.6830, lng: -73.8770 }, // Cypress Hills
+  64: { lat: 40.7580, lng: -73.7420 }, // Douglaston
+  65: { lat: 40.6930, lng: -73.9860 }, // Downtown Brooklyn/MetroTech
+  66: { lat: 40.7030, lng: -73.9860 }, // DUMBO/Vinegar Hill
+  67: { lat: 40.6200, lng: -74.0120 }, // Dyker Heights
+  68: { lat: 40.7450, lng: -73.9990 }, // East Chelsea
+  69: { lat: 40.8290, lng: -73.9180 }, // East Concourse/Concourse Village
+  70: { lat: 40.7620, lng: -73.8680 }, // East Elmhurst
+  71: { lat: 40.6400, lng: -73.9380 }, // East Flatbush/Farragut
+  72: { lat: 40.6520, lng: -73.9220 }, // East Flatbush/Remsen Village
+  73: { lat: 40.7560, lng: -73.8090 }, // East Flushing
+  74: { lat: 40.8010, lng: -73.9370 }, // East Harlem North
+  75: { lat: 40.7900, lng: -73.9450 }, // East Harlem South
+  76: { lat: 40.6640, lng: -73.8830 }, // East New York
+  77: { lat: 40.6670, lng: -73.8970 }, // East New York/Pennsylvania Avenue
+  78: { lat: 40.8470, lng: -73.8890 }, // East Tremont
+  79: { lat: 40.7270, lng: -73.9850 }, // East Village
+  80: { lat: 40.7150, lng: -73.9340 }, // East Williamsburg
+  81: { lat: 40.8850, lng: -73.8290 }, // Eastchester
+  82: { lat: 40.7380, lng: -73.8790 }, // Elmhurst
+  83: { lat: 40.7310, lng: -73.8960 }, // Elmhurst/Maspeth
+  84: { lat: 40.5380, lng: -74.1820 }, // Eltingville/Annadale/Prince's Bay
+  85: { lat: 40.6490, lng: -73.9510 }, // Erasmus
+  86: { lat: 40.6000, lng: -73.7560 }, // Far Rockaway
+  87: { lat: 40.7080, lng: -74.0070 }, // Financial District North
+  88: { lat: 40.7040, lng: -74.0120 }, // Financial District South
+  89: { lat: 40.6410, lng: -73.9620 }, // Flatbush/Ditmas Park
+  90: { lat: 40.7400, lng: -73.9920 }, // Flatiron
+  91: { lat: 40.6260, lng: -73.9280 }, // Flatlands
+  92: { lat: 40.7610, lng: -73.8300 }, // Flushing
+  93: { lat: 40.7400, lng: -73.8410 }, // Flushing Meadows-Corona Park
+  94: { lat: 40.8580, lng: -73.8990 }, // Fordham South
+  95: { lat: 40.7200, lng: -73.8450 }, // Forest Hills
+  96: { lat: 40.6970, lng: -73.8580 }, // Forest Park/Highland Park
+  97: { lat: 40.6900, lng: -73.9750 }, // Fort Greene
+  98: { lat: 40.7340, lng: -73.7900 }, // Fresh Meadows
+  99: { lat: 40.5790, lng: -74.1870 }, // Freshkills Park
+  100: { lat: 40.7530, lng: -73.9900 }, // Garment District
+  101: { lat: 40.7450, lng: -73.7150 }, // Glen Oaks
+  102: { lat: 40.7040, lng: -73.8760 }, // Glendale
+  103: { lat: 40.6892, lng: -74.0445 }, // Liberty Island
+  104: { lat: 40.6995, lng: -74.0396 }, // Ellis Island
+  105: { lat: 40.6895, lng: -74.0168 }, // Governor's Island
+  106: { lat: 40.6750, lng: -73.9900 }, // Gowanus
+  107: { lat: 40.7370, lng: -73.9840 }, // Gramercy
+  108: { lat: 40.5950, lng: -73.9760 }, // Gravesend
+  109: { lat: 40.5500, lng: -74.1530 }, // Great Kills
+  110: { lat: 40.5460, lng: -74.1210 }, // Great Kills Park
+  111: { lat: 40.6530, lng: -73.9910 }, // Green-Wood Cemetery
+  112: { lat: 40.7290, lng: -73.9480 }, // Greenpoint
+  113: { lat: 40.7330, lng: -73.9960 }, // Greenwich Village North
+  114: { lat: 40.7280, lng: -73.9990 }, // Greenwich Village South
+  115: { lat: 40.6190, lng: -74.0830 }, // Grymes Hill/Clifton
+  116: { lat: 40.8240, lng: -73.9490 }, // Hamilton Heights
+  117: { lat: 40.5930, lng: -73.7950 }, // Hammels/Arverne
+  118: { lat: 40.5940, lng: -74.1250 }, // Heartland Village/Todt Hill
+  119: { lat: 40.8380, lng: -73.9260 }, // Highbridge
+  120: { lat: 40.8380, lng: -73.9320 }, // Highbridge Park
+  121: { lat: 40.7300, lng: -73.8050 }, // Hillcrest/Pomonok
+  122: { lat: 40.7100, lng: -73.7650 }, // Hollis
+  123: { lat: 40.6010, lng: -73.9600 }, // Homecrest
+  124: { lat: 40.6570, lng: -73.8380 }, // Howard Beach
+  125: { lat: 40.7260, lng: -74.0070 }, // Hudson Sq
+  126: { lat: 40.8140, lng: -73.8840 }, // Hunts Point
+  127: { lat: 40.8670, lng: -73.9210 }, // Inwood
+  128: { lat: 40.8720, lng: -73.9270 }, // Inwood Hill Park
+  129: { lat: 40.7560, lng: -73.8830 }, // Jackson Heights
+  130: { lat: 40.7030, lng: -73.7950 }, // Jamaica
+  131: { lat: 40.7170, lng: -73.7820 }, // Jamaica Estates
+  132: { lat: 40.6430, lng: -73.7830 }, // JFK Airport
+  133: { lat: 40.6380, lng: -73.9760 }, // Kensington
+  134: { lat: 40.7090, lng: -73.8300 }, // Kew Gardens
+  135: { lat: 40.7290, lng: -73.8220 }, // Kew Gardens Hills
+  136: { lat: 40.8700, lng: -73.9020 }, // Kingsbridge Heights
+  137: { lat: 40.7410, lng: -73.9780 }, // Kips Bay
+  138: { lat: 40.7760, lng: -73.8740 }, // LaGuardia Airport
+  139: { lat: 40.6710, lng: -73.7450 }, // Laurelton
+  140: { lat: 40.7650, lng: -73.9550 }, // Lenox Hill East
+  141: { lat: 40.7680, lng: -73.9590 }, // Lenox Hill West
+  142: { lat: 40.7740, lng: -73.9810 }, // Lincoln Square East
+  143: { lat: 40.7760, lng: -73.9880 }, // Lincoln Square West
+  144: { lat: 40.7210, lng: -73.9960 }, // Little Italy/NoLiTa
+  145: { lat: 40.7440, lng: -73.9510 }, // Long Island City/Hunters Point
+  146: { lat: 40.7500, lng: -73.9400 }, // Long Island City/Queens Plaza
+  147: { lat: 40.8200, lng: -73.8960 }, // Longwood
+  148: { lat: 40.7180, lng: -73.9870 }, // Lower East Side
+  149: { lat: 40.6080, lng: -73.9460 }, // Madison
+  150: { lat: 40.5790, lng: -73.9420 }, // Manhattan Beach
+  151: { lat: 40.7970, lng: -73.9680 }, // Manhattan Valley
+  152: { lat: 40.8170, lng: -73.9560 }, // Manhattanville
+  153: { lat: 40.8760, lng: -73.9110 }, // Marble Hill
+  154: { lat: 40.5920, lng: -73.8920 }, // Marine Park/Floyd Bennett Field
+  155: { lat: 40.6130, lng: -73.9200 }, // Marine Park/Mill Basin
+  156: { lat: 40.6330, lng: -74.1580 }, // Mariners Harbor
+  157: { lat: 40.7230, lng: -73.9100 }, // Maspeth
+  158: { lat: 40.7380, lng: -74.0080 }, // Meatpacking/West Village West
+  159: { lat: 40.8240, lng: -73.9130 }, // Melrose South
+  160: { lat: 40.7150, lng: -73.8800 }, // Middle Village
+  161: { lat: 40.7580, lng: -73.9780 }, // Midtown Center
+  162: { lat: 40.7560, lng: -73.9720 }, // Midtown East
+  163: { lat: 40.7640, lng: -73.9780 }, // Midtown North
+  164: { lat: 40.7480, lng: -73.9850 }, // Midtown South
+  165: { lat: 40.6210, lng: -73.9590 }, // Midwood
+  166: { lat: 40.8100, lng: -73.9620 }, // Morningside Heights
+  167: { lat: 40.8290, lng: -73.9050 }, // Morrisania/Melrose
+  168: { lat: 40.8060, lng: -73.9190 }, // Mott Haven/Port Morris
+  169: { lat: 40.8490, lng: -73.9050 }, // Mount Hope
+  170: { lat: 40.7480, lng: -73.9780 }, // Murray Hill
+  171: { lat: 40.7640, lng: -73.8100 }, // Murray Hill-Queens
+  172: { lat: 40.5740, lng: -74.1050 }, // New Dorp/Midland Beach
+  173: { lat: 40.7540, lng: -73.8600 }, // North Corona
+  174: { lat: 40.8780, lng: -73.8800 }, // Norwood
+  175: { lat: 40.7420, lng: -73.7590 }, // Oakland Gardens
+  176: { lat: 40.5620, lng: -74.1220 }, // Oakwood
+  177: { lat: 40.6780, lng: -73.9080 }, // Ocean Hill
+  178: { lat: 40.6140, lng: -73.9700 }, // Ocean Parkway South
+  179: { lat: 40.7740, lng: -73.9290 }, // Old Astoria
+  180: { lat: 40.6800, lng: -73.8440 }, // Ozone Park
+  181: { lat: 40.6720, lng: -73.9810 }, // Park Slope
+  182: { lat: 40.8370, lng: -73.8600 }, // Parkchester
+  183: { lat: 40.8510, lng: -73.8300 }, // Pelham Bay
+  184: { lat: 40.8650, lng: -73.8050 }, // Pelham Bay Park
+  185: { lat: 40.8580, lng: -73.8560 }, // Pelham Parkway
+  186: { lat: 40.7490, lng: -73.9930 }, // Penn Station/Madison Sq West
+  187: { lat: 40.6320, lng: -74.1350 }, // Port Richmond
+  188: { lat: 40.6590, lng: -73.9500 }, // Prospect-Lefferts Gardens
+  189: { lat: 40.6770, lng: -73.9680 }, // Prospect Heights
+  190: { lat: 40.6600, lng: -73.9690 }, // Prospect Park
+  191: { lat: 40.7180, lng: -73.7420 }, // Queens Village
+  192: { lat: 40.7450, lng: -73.8190 }, // Queensboro Hill
+  193: { lat: 40.7580, lng: -73.9420 }, // Queensbridge/Ravenswood
+  194: { lat: 40.7930, lng: -73.9220 }, // Randalls Island
+  195: { lat: 40.6760, lng: -74.0110 }, // Red Hook
+  196: { lat: 40.7260, lng: -73.8590 }, // Rego Park
+  197: { lat: 40.6960, lng: -73.8310 }, // Richmond Hill
+  198: { lat: 40.7030, lng: -73.9030 }, // Ridgewood
+  199: { lat: 40.7920, lng: -73.8850 }, // Rikers Island
+  200: { lat: 40.8990, lng: -73.9090 }, // Riverdale/North Riverdale/Fieldston
+  201: { lat: 40.5790, lng: -73.8400 }, // Rockaway Park
+  202: { lat: 40.7610, lng: -73.9500 }, // Roosevelt Island
+  203: { lat: 40.6610, lng: -73.7360 }, // Rosedale
+  204: { lat: 40.5450, lng: -74.2110 }, // Rossville/Woodrow
+  205: { lat: 40.6940, lng: -73.7600 }, // Saint Albans
+  206: { lat: 40.6400, lng: -74.0850 }, // Saint George/New Brighton
+  207: { lat: 40.7610, lng: -73.8990 }, // Saint Michaels Cemetery/Woodside
+  208: { lat: 40.8270, lng: -73.8230 }, // Schuylerville/Edgewater Park
+  209: { lat: 40.7070, lng: -74.0030 }, // Seaport
+  210: { lat: 40.5900, lng: -73.9460 }, // Sheepshead Bay
+  211: { lat: 40.7230, lng: -74.0010 }, // SoHo
+  212: { lat: 40.8270, lng: -73.8700 }, // Soundview/Bruckner
+  213: { lat: 40.8160, lng: -73.8550 }, // Soundview/Castle Hill
+  214: { lat: 40.5880, lng: -74.0850 }, // South Beach/Dongan Hills
+  215: { lat: 40.6870, lng: -73.7960 }, // South Jamaica
+  216: { lat: 40.6720, lng: -73.8140 }, // South Ozone Park
+  217: { lat: 40.7040, lng: -73.9580 }, // South Williamsburg
+  218: { lat: 40.6700, lng: -73.7640 }, // Springfield Gardens North
+  219: { lat: 40.6590, lng: -73.7630 }, // Springfield Gardens South
+  220: { lat: 40.8800, lng: -73.9100 }, // Spuyten Duyvil/Kingsbridge
+  221: { lat: 40.6270, lng: -74.0790 }, // Stapleton
+  222: { lat: 40.6480, lng: -73.8800 }, // Starrett City
+  223: { lat: 40.7730, lng: -73.9060 }, // Steinway
+  224: { lat: 40.7320, lng: -73.9770 }, // Stuy Town/Peter Cooper Village
+  225: { lat: 40.6850, lng: -73.9310 }, // Stuyvesant Heights
+  226: { lat: 40.7420, lng: -73.9270 }, // Sunnyside
+  227: { lat: 40.6420, lng: -74.0010 }, // Sunset Park East
+  228: { lat: 40.6500, lng: -74.0150 }, // Sunset Park West
+  229: { lat: 40.7570, lng: -73.9650 }, // Sutton Place/Turtle Bay North
+  230: { lat: 40.7590, lng: -73.9860 }, // Times Sq/Theatre District
+  231: { lat: 40.7170, lng: -74.0070 }, // TriBeCa/Civic Center
+  232: { lat: 40.7130, lng: -73.9870 }, // Two Bridges/Seward Park
+  233: { lat: 40.7500, lng: -73.9700 }, // UN/Turtle Bay South
+  234: { lat: 40.7360, lng: -73.9900 }, // Union Sq
+  235: { lat: 40.8550, lng: -73.9140 }, // University Heights/Morris Heights
+  236: { lat: 40.7790, lng: -73.9570 }, // Upper East Side North
+  237: { lat: 40.7680, lng: -73.9640 }, // Upper East Side South
+  238: { lat: 40.7920, lng: -73.9720 }, // Upper West Side North
+  239: { lat: 40.7820, lng: -73.9780 }, // Upper West Side South
+  240: { lat: 40.8970, lng: -73.8870 }, // Van Cortlandt Park
+  241: { lat: 40.8820, lng: -73.8940 }, // Van Cortlandt Village
+  242: { lat: 40.8470, lng: -73.8560 }, // Van Nest/Morris Park
+  243: { lat: 40.8580, lng: -73.9310 }, // Washington Heights North
+  244: { lat: 40.8420, lng: -73.9400 }, // Washington Heights South
+  245: { lat: 40.6290, lng: -74.1110 }, // West Brighton
+  246: { lat: 40.7530, lng: -74.0040 }, // West Chelsea/Hudson Yards
+  247: { lat: 40.8330, lng: -73.9240 }, // West Concourse
+  248: { lat: 40.8400, lng: -73.8760 }, // West Farms/Bronx River
+  249: { lat: 40.7340, lng: -74.0030 }, // West Village
+  250: { lat: 40.8360, lng: -73.8480 }, // Westchester Village/Unionport
+  251: { lat: 40.6160, lng: -74.1330 }, // Westerleigh
+  252: { lat: 40.7900, lng: -73.8150 }, // Whitestone
+  253: { lat: 40.7570, lng: -73.8440 }, // Willets Point
+  254: { lat: 40.8800, lng: -73.8590 }, // Williamsbridge/Olinville
+  255: { lat: 40.7180, lng: -73.9570 }, // Williamsburg (North Side)
+  256: { lat: 40.7100, lng: -73.9600 }, // Williamsburg (South Side)
+  257: { lat: 40.6530, lng: -73.9780 }, // Windsor Terrace
+  258: { lat: 40.6900, lng: -73.8560 }, // Woodhaven
+  259: { lat: 40.8980, lng: -73.8560 }, // Woodlawn/Wakefield
+  260: { lat: 40.7450, lng: -73.9040 }, // Woodside
+  261: { lat: 40.7110, lng: -74.0130 }, // World Trade Center
+  262: { lat: 40.7770, lng: -73.9460 }, // Yorkville East
+  263: { lat: 40.7790, lng: -73.9510 } // Yorkville West
+};
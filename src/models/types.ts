@@ -10,6 +10,8 @@ export interface RideRequest {
   pickupLocation: Coordinates;
   dropoffLocation: Coordinates;
   timestamp: Date;
+  latestPickupTime?: Date; // latest acceptable pickup, defaults to the request time plus the max wait
+  maxRideTimeRatio?: number; // longest acceptable ride relative to riding alone, e.g. 1.5
 }
 
 export interface Vehicle {
@@ -20,10 +22,33 @@ export interface Vehicle {
   currentRoute: Coordinates[];
 }
 
+// Where a sub-cluster came from when an oversized cluster was split to fit the fleet
+export interface ClusterSplit {
+  parentClusterId: string;
+  part: number; // 1-based
+  parts: number;
+}
+
 export interface Cluster {
   id: string;
   centroid: Coordinates;
   requests: RideRequest[];
+  split?: ClusterSplit;
+  stability?: number; // HDBSCAN cluster stability, higher means the group persists over more densities
+}
+
+// A request in OPTICS processing order with its reachability from the requests before it
+export interface ReachabilityPoint {
+  request: RideRequest;
+  reachability: number; // Infinity for the first request of each density-connected region
+  coreDistance: number; // smallest epsilon at which the request is a core point, Infinity if never
+}
+
+// OPTICS output from which clusters can be extracted at any epsilon
+export interface ReachabilityOrdering {
+  points: ReachabilityPoint[];
+  minPoints: number;
+  epsilon: number; // epsilon used for the clusters returned with the ordering
 }
 
 export interface Assignment {
@@ -32,16 +57,150 @@ export interface Assignment {
   route: Coordinates[];
 }
 
+// What the clustering distance compares: pickups only, or whole trips (pickup, dropoff and heading)
+export type ClusterDistanceMode = 'pickup' | 'trip';
+
+export type ClusteringAlgorithm = 'dbscan' | 'hdbscan' | 'optics' | 'kmeans';
+
+// How K-Means picks the number of clusters
+export type KSelectionMethod = 'elbow' | 'silhouette';
+
+// Clustering knobs; omitted fields fall back to DEFAULT_SIMULATION_CONFIG.DBSCAN / .HDBSCAN / .KMEANS
+export interface ClusterTuning {
+  algorithm?: ClusteringAlgorithm;
+  epsilon?: number; // neighborhood radius in normalized spatio-temporal distance [0, 1]
+  adaptiveEpsilon?: boolean; // grow epsilon with the number of requests
+  autoEpsilon?: boolean; // pick epsilon from the knee of the k-distance curve, overrides adaptiveEpsilon
+  maxEpsilon?: number; // upper bound for the adaptive epsilon
+  minPoints?: number; // neighbors needed for a core point
+  spatialWeight?: number; // weights are normalized to sum to 1
+  temporalWeight?: number;
+  maxSpatialDistanceKm?: number; // spatial distance normalizer
+  maxTemporalDistanceMin?: number; // temporal distance normalizer
+  distanceMode?: ClusterDistanceMode;
+  dropoffWeight?: number; // only used in 'trip' mode
+  bearingWeight?: number; // only used in 'trip' mode
+  minClusterSize?: number; // HDBSCAN: smallest group that counts as a cluster
+  kSelection?: KSelectionMethod; // K-Means: how k is chosen
+  maxK?: number; // K-Means: largest k tried, starting from 2
+}
+
+export type GeneticPreset = 'fast' | 'balanced' | 'thorough';
+
+// 'weighted' optimizes the single fitness score; 'pareto' keeps every trade-off between riders matched and distance
+export type MatchingObjective = 'weighted' | 'pareto';
+
+// Genetic matcher knobs; omitted fields fall back to the balanced preset and the default fitness weights
+export interface GeneticMatcherOptions {
+  populationSize?: number;
+  maxGenerations?: number;
+  mutationRate?: number; // chance per cluster of being reassigned in each offspring
+  elitismRate?: number; // share of the population carried over unchanged
+  crossoverRate?: number; // chance that two parents are crossed over
+  stallGenerations?: number; // stop after this many generations without improvement
+  assignedWeight?: number; // fitness reward for the share of requests assigned
+  detourWeight?: number; // fitness cost of the average detour relative to the max detour
+  utilizationWeight?: number; // fitness reward for the share of vehicles in use
+  unusedVehiclePenalty?: number; // subtracted from the fitness per idle vehicle
+  objective?: MatchingObjective;
+}
+
 export interface SimulationParams {
   passengerCount: number;
   vehicleCount: number;
   maxDetourDistance: number; // in km
   timeWindow: number; // in minutes
+  seed?: number; // seed for reproducible runs, random when omitted
+  startTime?: Date; // simulation start ("now"), defaults to a fixed time for seeded runs and the current time otherwise
+  prebookHorizon?: number; // in minutes; how far ahead pre-booked requests are clustered
+  maxWaitMinutes?: number; // default latest pickup after the request time
+  maxRideTimeRatio?: number; // default longest ride relative to riding alone
+  enforceTimeWindows?: boolean; // false only reports violations instead of rejecting them, defaults to true
+  clusterTuning?: ClusterTuning;
+  geneticOptions?: GeneticMatcherOptions;
+}
+
+// Why a request was left out of clustering
+export type TimeWindowFilterReason = 'expired' | 'beyond-horizon';
+
+// A request outside the clustering time window, reported instead of silently dropped
+export interface FilteredRequest {
+  request: RideRequest;
+  reason: TimeWindowFilterReason;
+  minutesFromReference: number; // negative for past requests
+}
+
+// Why a matcher left a clustered request without a vehicle
+export type MatchingRejectionReason =
+  | 'no-vehicle-in-reach' // no vehicle within the max detour
+  | 'exceeds-capacity' // the riders that must share a vehicle outnumber the seats of every vehicle in reach
+  | 'outside-time-window' // no vehicle in reach with the seats can pick up and drop off the riders in time
+  | 'lost-in-optimization'; // a vehicle could serve the riders, but the matcher gave it to others
+
+// A request that ends a run without a vehicle, and why
+export interface UnassignedRequest {
+  request: RideRequest;
+  reason: MatchingRejectionReason | TimeWindowFilterReason;
+}
+
+// One stop of a vehicle schedule: picking up or dropping off a request
+export type StopType = 'pickup' | 'dropoff';
+
+export interface Stop {
+  request: RideRequest;
+  type: StopType;
+}
+
+// Route length before and after reordering pickups and dropoffs, summed over assignments
+export interface RouteSequencingReport {
+  distanceBeforeKm: number;
+  distanceAfterKm: number;
+  resequencedAssignments: number; // assignments whose stop order changed
+}
+
+// When an assigned passenger is picked up and dropped off, checked against their time limits
+export interface PassengerServiceReport {
+  requestId: string;
+  vehicleId: string;
+  pickupTime: Date;
+  dropoffTime: Date;
+  waitMinutes: number; // request time to pickup
+  rideMinutes: number; // pickup to dropoff
+  soloRideMinutes: number; // driving straight from pickup to dropoff
+  latePickup: boolean; // picked up after the latest pickup time
+  rideTooLong: boolean; // ride time above the max ratio to the solo ride
+}
+
+// Quality of a clustering; indices are null when there are too few clusters to compute them
+export interface ClusterQualityMetrics {
+  clusterCount: number; // multi-passenger clusters
+  noiseCount: number; // single-passenger clusters
+  silhouette: number | null; // [-1, 1], higher is better
+  daviesBouldin: number | null; // >= 0, lower is better
+  shareability: number | null; // [0, 1], fraction of rider pairs in a cluster that benefit from sharing
+}
+
+// Convergence of an iterative matcher after one iteration (a generation of the genetic matcher)
+export interface MatchingProgress {
+  iteration: number; // 0 for the initial solutions
+  maxIterations: number;
+  bestFitness: number; // best fitness found so far
+  meanFitness: number; // mean fitness of the current solutions
+}
+
+// One non-dominated trade-off from multi-objective matching, sequenced and routed like the main assignments
+export interface ParetoSolution {
+  assignments: Assignment[];
+  matchedPercent: number; // share of all requests assigned
+  totalDistanceKm: number; // length of every vehicle route
+  routeSequencing: RouteSequencingReport;
+  passengerService: PassengerServiceReport[];
+  unassignedRequests: UnassignedRequest[];
 }
 
 export interface SimulationResult {
   assignments: Assignment[];
-  unassignedRequests: RideRequest[];
+  unassignedRequests: UnassignedRequest[];
   metrics: {
     percentageMatched: number;
     averageDetourDistance: number;
@@ -49,5 +208,39 @@ export interface SimulationResult {
   };
 }
 
+export interface TimeSteppedSimulationParams extends SimulationParams {
+  durationMinutes: number;
+  tickSeconds: number;
+  dispatchIntervalSeconds: number; // how often clustering and matching re-run
+  requestsPerMinute: number; // arrival rate of new ride requests
+  vehicleSpeedKmh: number;
+}
+
+export type PassengerStatus = 'waiting' | 'assigned' | 'onboard' | 'completed' | 'expired';
+
+export interface PassengerState {
+  request: RideRequest;
+  status: PassengerStatus;
+  vehicleId?: string;
+  pickupTime?: Date;
+  dropoffTime?: Date;
+}
+
+export interface SimulationSnapshot {
+  time: Date;
+  vehicles: Vehicle[];
+  passengers: PassengerState[];
+}
+
+export interface TimeSteppedMetrics {
+  totalRequests: number;
+  completedTrips: number;
+  expiredRequests: number;
+  averageWaitMinutes: number; // request timestamp to pickup
+  averageRideMinutes: number; // pickup to dropoff
+  fleetUtilization: number; // fraction of vehicle-ticks spent serving passengers (0-1)
+  dispatchRounds: number;
+}
+
 // Convert from our Coordinates to Leaflet's LatLngTuple
 export const toLatLng = (coord: Coordinates): LatLngTuple => [coord.lat, coord.lng]; 
\ No newline at end of file
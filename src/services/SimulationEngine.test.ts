@@ -0,0 +1,194 @@
+import { SimulationEngine } from './SimulationEngine';
+import { createSimulationEngine } from './simulationFactory';
+import { IClusterStrategy, IDataAdapter } from './interfaces';
+import { GreedyMatcher } from './matching/GreedyMatcher';
+import { IncrementalDBSCANClustering } from './clustering/IncrementalDBSCANClustering';
+import { StraightLineRouter } from './routing/StraightLineRouter';
+import { haversineDistance } from '../utils/geo';
+import { Cluster, RideRequest, TimeSteppedSimulationParams, Vehicle } from '../models/types';
+
+const KM = 1 / 111.195; // degrees of latitude per kilometre
+const startTime = new Date('2024-03-04T08:00:00Z');
+
+const makeRequest = (id: string, pickupKm: number, dropoffKm: number): RideRequest => ({
+  id,
+  pickupLocation: { lat: pickupKm * KM, lng: 0 },
+  dropoffLocation: { lat: dropoffKm * KM, lng: 0 },
+  timestamp: startTime
+});
+
+/**
+ * Serves the given vehicles, and the given requests in order as the engine asks for arrivals
+ */
+const fixedData = (vehicles: Vehicle[], requests: RideRequest[]): IDataAdapter => {
+  const queue = [...requests];
+  return {
+    generateRequests: count => queue.splice(0, count),
+    generateVehicles: () => vehicles.map(vehicle => ({ ...vehicle, location: { ...vehicle.location } })),
+    generateVehiclesNearPassengers: () => vehicles
+  };
+};
+
+// Every waiting request is its own cluster
+const singletonClustering: IClusterStrategy = {
+  cluster: requests => requests.map(request => ({ id: request.id, centroid: request.pickupLocation, requests: [request] }))
+};
+
+const vehicleAt = (id: string, km: number): Vehicle => ({
+  id,
+  location: { lat: km * KM, lng: 0 },
+  capacity: 4,
+  availableSeats: 4,
+  currentRoute: []
+});
+
+// One request arrives per 30 s tick while the data adapter has any; vehicles drive 0.5 km per tick
+const params: TimeSteppedSimulationParams = {
+  passengerCount: 0,
+  vehicleCount: 1,
+  maxDetourDistance: 2,
+  timeWindow: 5,
+  startTime,
+  durationMinutes: 5,
+  tickSeconds: 30,
+  dispatchIntervalSeconds: 30,
+  requestsPerMinute: 2,
+  vehicleSpeedKmh: 60,
+  enforceTimeWindows: false
+};
+
+const createEngine = (vehicles: Vehicle[], requests: RideRequest[]) => new SimulationEngine(
+  fixedData(vehicles, requests),
+  singletonClustering,
+  new GreedyMatcher(),
+  new StraightLineRouter()
+);
+
+describe('SimulationEngine', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('advances the clock and moves dispatched vehicles by their speed each tick', () => {
+    const engine = createEngine([vehicleAt('v', 0)], [makeRequest('r', 1.2, 3)]);
+    engine.start(params);
+
+    const snapshot = engine.step();
+
+    expect(snapshot.time.getTime() - startTime.getTime()).toBe(30 * 1000);
+    expect(snapshot.passengers.map(({ request, status }) => [request.id, status])).toEqual([['r', 'assigned']]);
+    expect(haversineDistance({ lat: 0, lng: 0 }, snapshot.vehicles[0].location)).toBeCloseTo(0.5, 6);
+  });
+
+  test('boards passengers at their pickup and drops them off at their destination', () => {
+    const engine = createEngine([vehicleAt('v', 0)], [makeRequest('r', 0.75, 1.75)]);
+    engine.start(params);
+
+    // 0.5 km per tick: the pickup is reached in the second tick, the dropoff in the fourth
+    const statuses = [1, 2, 3, 4].map(() => engine.step().passengers[0]);
+
+    expect(statuses.map(passenger => passenger.status)).toEqual(['assigned', 'onboard', 'onboard', 'completed']);
+    const [, boarded, , completed] = statuses;
+    expect(boarded.vehicleId).toBe('v');
+    expect(boarded.pickupTime?.getTime()).toBe(startTime.getTime() + 60 * 1000);
+    expect(completed.dropoffTime?.getTime()).toBe(startTime.getTime() + 120 * 1000);
+  });
+
+  test('gives a busy vehicle its next group after the stops it already has queued', () => {
+    const engine = createEngine([vehicleAt('v', 0)], [makeRequest('first', 0.75, 2.25), makeRequest('second', 2.5, 3.5)]);
+    // Too far from where the vehicle is when the second request arrives, but close to where its queue ends
+    engine.start({ ...params, maxDetourDistance: 1.5, enforceTimeWindows: true, maxWaitMinutes: 5 });
+
+    const snapshots = Array.from({ length: 8 }, () => engine.step());
+    const second = snapshots[1].passengers.find(({ request }) => request.id === 'second');
+    expect(second?.status).toBe('assigned');
+    expect(second?.vehicleId).toBe('v');
+
+    const [first, last] = snapshots[7].passengers;
+    expect([first.status, last.status]).toEqual(['completed', 'completed']);
+    expect((first.dropoffTime as Date).getTime()).toBeLessThanOrEqual((last.pickupTime as Date).getTime());
+    // Asked at one minute in, picked up once the vehicle has dropped off the first rider
+    expect(((last.pickupTime as Date).getTime() - last.request.timestamp.getTime()) / (60 * 1000)).toBeLessThanOrEqual(5);
+  });
+
+  test('leaves a rider waiting when a busy vehicle could not reach them in time after its queued stops', () => {
+    const engine = createEngine([vehicleAt('v', 0)], [makeRequest('first', 0.75, 4.75), makeRequest('second', 0.6, 1)]);
+    // The second pickup is next to the vehicle, but only reached after a 4 km detour to drop off the first rider
+    engine.start({ ...params, maxDetourDistance: 10, enforceTimeWindows: true, maxWaitMinutes: 3 });
+
+    engine.step();
+    const { passengers } = engine.step();
+
+    expect(passengers.map(({ request, status }) => [request.id, status])).toEqual([['first', 'onboard'], ['second', 'waiting']]);
+  });
+
+  test('expires requests that wait longer than the time window without a vehicle', () => {
+    // No vehicle within the max detour of the pickup
+    const engine = createEngine([vehicleAt('v', 0)], [makeRequest('r', 10, 11)]);
+    engine.start(params);
+
+    const statuses = Array.from({ length: 12 }, () => engine.step().passengers[0].status);
+
+    // Arrived at the first tick, 30 s after the start, and expires once it is older than 5 minutes
+    expect(statuses.slice(0, 11)).toEqual(Array(11).fill('waiting'));
+    expect(statuses[11]).toBe('expired');
+  });
+
+  test('reports trips, wait and ride times and fleet utilization', () => {
+    const vehicles = [vehicleAt('busy', 0), vehicleAt('idle', -20)];
+    const requests = [makeRequest('near', 0.75, 1.75), makeRequest('far', 15, 16)];
+
+    const { metrics } = createEngine(vehicles, requests).run({ ...params, vehicleCount: 2 });
+
+    expect(metrics.totalRequests).toBe(2);
+    expect(metrics.completedTrips).toBe(1);
+    expect(metrics.expiredRequests).toBe(0); // the far request arrives a minute in and has waited 4 minutes at the end
+    expect(metrics.averageWaitMinutes).toBeCloseTo(0.5, 9);
+    expect(metrics.averageRideMinutes).toBeCloseTo(1, 9);
+    // The busy vehicle serves the near request for 4 of the 10 ticks, the idle one never moves
+    expect(metrics.fleetUtilization).toBeCloseTo(4 / 20, 9);
+    expect(metrics.dispatchRounds).toBe(10);
+  });
+
+  test('the factory replays TLC slices as the request feed', () => {
+    const sliceStart = new Date('2023-01-02T09:00:00Z');
+    const trip = { ...makeRequest('tlc-yellow-1', 0.75, 1.75), timestamp: new Date(sliceStart.getTime() + 45 * 1000) };
+    const engine = createSimulationEngine({
+      kind: 'tlc',
+      slice: { requests: [trip], serviceType: 'yellow', sliceStart, sliceEnd: new Date(sliceStart.getTime() + 60 * 60 * 1000), rowsRead: 1, skippedRows: 0, invalidTimestamps: 0, invalidTimestampRows: [] },
+      vehicles: []
+    });
+
+    engine.start({ ...params, vehicleCount: 0 });
+
+    expect(engine.step().passengers).toEqual([]);
+    expect(engine.step().passengers.map(({ request }) => request.id)).toEqual(['tlc-yellow-1']);
+  });
+
+  test('the factory engine keeps DBSCAN cluster IDs from one dispatch round to the next', () => {
+    const sliceStart = new Date('2023-01-02T09:00:00Z');
+    // Pickups 10 m and a few seconds apart; the fleet is far away, so every request keeps waiting
+    const trips = [5, 10, 15, 45, 75].map((seconds, i) => ({
+      ...makeRequest(`tlc-yellow-${i + 1}`, i * 0.01, 1),
+      timestamp: new Date(sliceStart.getTime() + seconds * 1000)
+    }));
+    const engine = createSimulationEngine({
+      kind: 'tlc',
+      slice: { requests: trips, serviceType: 'yellow', sliceStart, sliceEnd: new Date(sliceStart.getTime() + 60 * 60 * 1000), rowsRead: 5, skippedRows: 0, invalidTimestamps: 0, invalidTimestampRows: [] },
+      vehicles: []
+    });
+    const update = jest.spyOn(IncrementalDBSCANClustering.prototype, 'update');
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    engine.start({ ...params, vehicleCount: 0 });
+    [1, 2, 3].forEach(() => engine.step());
+
+    const rounds = update.mock.results.map(result => result.value as Cluster[]);
+    expect(rounds.map(clusters => clusters.map(cluster => cluster.requests.length))).toEqual([[3], [4], [5]]);
+    expect(new Set(rounds.map(([cluster]) => cluster.id)).size).toBe(1);
+  });
+});
@@ -0,0 +1,453 @@
+import { ISimulationEngine, IDataAdapter, IClusterStrategy, IIncrementalClusterStrategy, IMatchingStrategy, IRoutingEngine, IRequestFeed, IClusterSplitter } from './interfaces';
+import {
+  TimeSteppedSimulationParams,
+  SimulationSnapshot,
+  TimeSteppedMetrics,
+  PassengerState,
+  RideRequest,
+  Vehicle,
+  Assignment,
+  Coordinates
+} from '../models/types';
+import { haversineDistance } from '../utils/geo';
+import { DEFAULT_SIMULATION_CONFIG } from '../config/simulationConfig';
+import { RandomSource, createSeededRandom } from '../utils/random';
+import { CapacityClusterSplitter } from './clustering/CapacityClusterSplitter';
+
+/**
+ * A single stop on a vehicle's schedule
+ */
+interface ScheduledStop {
+  type: 'pickup' | 'dropoff' | 'waypoint';
+  requestId?: string;
+  location: Coordinates;
+}
+
+/**
+ * Per-vehicle bookkeeping that is not part of the public Vehicle model
+ */
+interface VehicleSchedule {
+  vehicle: Vehicle;
+  stops: ScheduledStop[];
+  onboard: Set<string>;
+  reserved: Set<string>; // assigned but not yet picked up
+  busyTicks: number;
+}
+
+/**
+ * Discrete-event, time-stepped simulation built on the same pluggable
+ * data adapter, clustering, matching and routing components as SimulationService.
+ *
+ * Each tick:
+ * 1. New ride requests arrive according to the configured arrival rate,
+ *    or are replayed from a request feed when one is provided
+ * 2. Every dispatch interval, waiting requests are clustered and matched to vehicles
+ * 3. Vehicles move along their assigned routes, boarding and dropping off passengers
+ */
+export class SimulationEngine implements ISimulationEngine {
+  private params: TimeSteppedSimulationParams | null = null;
+  private random: RandomSource | undefined = undefined;
+  private clock = new Date();
+  private startTime = new Date();
+  private endTime = new Date();
+  private lastDispatch = new Date(0);
+  private schedules: VehicleSchedule[] = [];
+  private passengers = new Map<string, PassengerState>();
+  private pendingArrivals = 0;
+  private totalTicks = 0;
+  private dispatchRounds = 0;
+
+  constructor(
+    private dataAdapter: IDataAdapter,
+    private clusteringStrategy: IClusterStrategy,
+    private matchingStrategy: IMatchingStrategy,
+    private routingEngine: IRoutingEngine,
+    private requestFeed?: IRequestFeed,
+    private clusterSplitter: IClusterSplitter = new CapacityClusterSplitter()
+  ) {}
+
+  /**
+   * Reset the simulation state and position the fleet
+   */
+  start(params: TimeSteppedSimulationParams): SimulationSnapshot {
+    if (params.tickSeconds <= 0) {
+      throw new Error('tickSeconds must be greater than zero');
+    }
+
+    this.params = params;
+    this.random = params.seed !== undefined ? createSeededRandom(params.seed) : undefined;
+    // Seeded runs start at a fixed time so they are identical whenever they run
+    const startTime = params.startTime ??
+      (params.seed !== undefined ? new Date(DEFAULT_SIMULATION_CONFIG.SEEDED_START_TIME) : new Date());
+    this.clock = new Date(startTime.getTime());
+    this.startTime = this.clock;
+    this.endTime = new Date(this.clock.getTime() + params.durationMinutes * 60 * 1000);
+    this.lastDispatch = new Date(this.clock.getTime() - params.dispatchIntervalSeconds * 1000);
+    this.passengers = new Map();
+    this.pendingArrivals = 0;
+    this.totalTicks = 0;
+    this.dispatchRounds = 0;
+
+    // Incremental strategies would otherwise carry requests over from the previous run
+    if (this.isIncrementalStrategy(this.clusteringStrategy)) {
+      this.clusteringStrategy.reset();
+    }
+
+    const vehicles = this.dataAdapter.generateVehicles(params.vehicleCount, DEFAULT_SIMULATION_CONFIG.MAP_BOUNDS, {
+      random: this.random,
+      referenceTime: this.clock
+    });
+    this.schedules = vehicles.map(vehicle => ({
+      vehicle: { ...vehicle, availableSeats: vehicle.capacity, currentRoute: [] },
+      stops: [],
+      onboard: new Set<string>(),
+      reserved: new Set<string>(),
+      busyTicks: 0
+    }));
+
+    console.log(`Time-stepped simulation started with ${this.schedules.length} vehicles for ${params.durationMinutes} minutes`);
+
+    return this.getSnapshot();
+  }
+
+  /**
+   * Advance the simulation clock by one tick
+   */
+  step(): SimulationSnapshot {
+    const params = this.params;
+    if (!params) {
+      throw new Error('Simulation has not been started');
+    }
+
+    const previousTick = this.clock;
+    this.clock = new Date(this.clock.getTime() + params.tickSeconds * 1000);
+    this.totalTicks++;
+
+    if (this.requestFeed) {
+      this.replayRequests(this.requestFeed, previousTick);
+    } else {
+      this.spawnRequests(params);
+    }
+    this.expireStaleRequests(params);
+
+    if (this.clock.getTime() - this.lastDispatch.getTime() >= params.dispatchIntervalSeconds * 1000) {
+      this.dispatch(params);
+      this.lastDispatch = this.clock;
+    }
+
+    const distanceBudgetKm = params.vehicleSpeedKmh * params.tickSeconds / 3600;
+    for (const schedule of this.schedules) {
+      if (schedule.stops.length > 0 || schedule.onboard.size > 0) {
+        schedule.busyTicks++;
+      }
+      this.moveVehicle(schedule, distanceBudgetKm);
+    }
+
+    return this.getSnapshot();
+  }
+
+  /**
+   * Run a complete simulation from start to the configured duration
+   */
+  run(params: TimeSteppedSimulationParams): {
+    snapshot: SimulationSnapshot;
+    metrics: TimeSteppedMetrics;
+  } {
+    this.start(params);
+
+    while (this.clock < this.endTime) {
+      this.step();
+    }
+
+    return {
+      snapshot: this.getSnapshot(),
+      metrics: this.calculateMetrics()
+    };
+  }
+
+  /**
+   * Calculate time-dependent metrics for the simulation so far
+   */
+  calculateMetrics(): TimeSteppedMetrics {
+    const passengers = Array.from(this.passengers.values());
+    const completed = passengers.filter(p => p.status === 'completed');
+    const pickedUp = passengers.filter(p => p.pickupTime !== undefined);
+
+    const totalWaitMinutes = pickedUp.reduce(
+      (sum, p) => sum + ((p.pickupTime as Date).getTime() - p.request.timestamp.getTime()) / (60 * 1000),
+      0
+    );
+    const totalRideMinutes = completed.reduce(
+      (sum, p) => sum + ((p.dropoffTime as Date).getTime() - (p.pickupTime as Date).getTime()) / (60 * 1000),
+      0
+    );
+    const busyTicks = this.schedules.reduce((sum, s) => sum + s.busyTicks, 0);
+    const vehicleTicks = this.totalTicks * this.schedules.length;
+
+    return {
+      totalRequests: passengers.length,
+      completedTrips: completed.length,
+      expiredRequests: passengers.filter(p => p.status === 'expired').length,
+      averageWaitMinutes: pickedUp.length > 0 ? totalWaitMinutes / pickedUp.length : 0,
+      averageRideMinutes: completed.length > 0 ? totalRideMinutes / completed.length : 0,
+      fleetUtilization: vehicleTicks > 0 ? busyTicks / vehicleTicks : 0,
+      dispatchRounds: this.dispatchRounds
+    };
+  }
+
+  /**
+   * Generate the requests that arrive during the current tick
+   */
+  private spawnRequests(params: TimeSteppedSimulationParams): void {
+    this.pendingArrivals += params.requestsPerMinute * params.tickSeconds / 60;
+    const arrivals = Math.floor(this.pendingArrivals);
+
+    if (arrivals < 1) return;
+    this.pendingArrivals -= arrivals;
+
+    const requests = this.dataAdapter.generateRequests(arrivals, DEFAULT_SIMULATION_CONFIG.MAP_BOUNDS, {
+      random: this.random,
+      referenceTime: this.clock
+    });
+
+    // Requests arrive now on the simulation clock
+    for (const request of requests.slice(0, arrivals)) {
+      const arrived: RideRequest = { ...request, timestamp: new Date(this.clock.getTime()) };
+      this.passengers.set(arrived.id, { request: arrived, status: 'waiting' });
+    }
+  }
+
+  /**
+   * Release the historical requests whose replay time falls within the current tick
+   */
+  private replayRequests(feed: IRequestFeed, previousTick: Date): void {
+    for (const request of feed.requestsBetween(previousTick, this.clock, this.startTime)) {
+      this.passengers.set(request.id, { request, status: 'waiting' });
+    }
+  }
+
+  /**
+   * Give up on requests that have waited longer than the time window without a vehicle
+   */
+  private expireStaleRequests(params: TimeSteppedSimulationParams): void {
+    const cutoff = this.clock.getTime() - params.timeWindow * 60 * 1000;
+
+    this.passengers.forEach(passenger => {
+      if (passenger.status === 'waiting' && passenger.request.timestamp.getTime() < cutoff) {
+        passenger.status = 'expired';
+      }
+    });
+  }
+
+  /**
+   * Cluster waiting requests and match them to vehicles with free seats
+   */
+  private dispatch(params: TimeSteppedSimulationParams): void {
+    const waiting = Array.from(this.passengers.values())
+      .filter(p => p.status === 'waiting')
+      .map(p => p.request);
+
+    if (waiting.length === 0) return;
+    this.dispatchRounds++;
+
+    const densityClusters = this.clusteringStrategy.cluster(waiting, {
+      timeWindowMinutes: params.timeWindow,
+      maxDistanceKm: params.maxDetourDistance,
+      referenceTime: this.clock,
+      prebookHorizonMinutes: params.prebookHorizon,
+      ...params.clusterTuning,
+      random: this.random
+    });
+
+    // New stops go after the ones already queued, so vehicles are planned from the end of their queue,
+    // where every rider they already carry or have promised a seat to has been dropped off
+    const candidateVehicles = this.schedules.map(schedule => this.queueEnd(schedule));
+    const vehicleDepartureTimes: Record<string, Date> = {};
+    this.schedules.forEach(schedule => {
+      const queueKm = this.queueDistance(schedule);
+      if (queueKm === 0) return;
+      vehicleDepartureTimes[schedule.vehicle.id] = new Date(this.clock.getTime() + queueKm / params.vehicleSpeedKmh * 3600 * 1000);
+    });
+
+    const clusters = this.clusterSplitter.split(densityClusters, candidateVehicles, this.random);
+
+    const timeWindows = params.enforceTimeWindows === false ? undefined : {
+      departureTime: this.clock,
+      vehicleDepartureTimes,
+      vehicleSpeedKmh: params.vehicleSpeedKmh,
+      maxWaitMinutes: params.maxWaitMinutes ?? DEFAULT_SIMULATION_CONFIG.DEFAULT_MAX_WAIT_MINUTES,
+      maxRideTimeRatio: params.maxRideTimeRatio ?? DEFAULT_SIMULATION_CONFIG.DEFAULT_MAX_RIDE_TIME_RATIO
+    };
+
+    const assignments = this.matchingStrategy.match(clusters, candidateVehicles, {
+      maxDetourKm: params.maxDetourDistance,
+      timeWindows,
+      random: this.random
+    });
+
+    for (const assignment of assignments) {
+      this.applyAssignment(assignment);
+    }
+  }
+
+  /**
+   * The vehicle as it will be once it has made every queued stop
+   */
+  private queueEnd(schedule: VehicleSchedule): Vehicle {
+    const lastStop = schedule.stops[schedule.stops.length - 1];
+    return {
+      ...schedule.vehicle,
+      location: lastStop ? { ...lastStop.location } : schedule.vehicle.location,
+      availableSeats: schedule.vehicle.capacity
+    };
+  }
+
+  /**
+   * Distance left to drive through the queued stops
+   */
+  private queueDistance(schedule: VehicleSchedule): number {
+    let previous = schedule.vehicle.location;
+    return schedule.stops.reduce((sum, stop) => {
+      const distance = haversineDistance(previous, stop.location);
+      previous = stop.location;
+      return sum + distance;
+    }, 0);
+  }
+
+  private isIncrementalStrategy(strategy: IClusterStrategy): strategy is IIncrementalClusterStrategy {
+    return 'update' in strategy && 'reset' in strategy;
+  }
+
+  /**
+   * Append an assignment's stops to the matching vehicle's schedule
+   */
+  private applyAssignment(assignment: Assignment): void {
+    const schedule = this.schedules.find(s => s.vehicle.id === assignment.vehicleId);
+    if (!schedule) return;
+
+    const requests = assignment.requestIds
+      .map(id => this.passengers.get(id))
+      .filter((p): p is PassengerState => p !== undefined && p.status === 'waiting');
+
+    if (requests.length === 0) return;
+
+    const route = this.routingEngine.calculateRoute(assignment.route);
+    schedule.stops.push(...this.routeToStops(route, requests.map(p => p.request)));
+
+    for (const passenger of requests) {
+      passenger.status = 'assigned';
+      passenger.vehicleId = schedule.vehicle.id;
+      schedule.reserved.add(passenger.request.id);
+    }
+
+    schedule.vehicle.currentRoute = schedule.stops.map(stop => stop.location);
+  }
+
+  /**
+   * Label each route point as a pickup, dropoff or plain waypoint.
+   * The first route point is the vehicle's position when the route was planned and is skipped.
+   */
+  private routeToStops(route: Coordinates[], requests: RideRequest[]): ScheduledStop[] {
+    const pickedUp = new Set<string>();
+    const droppedOff = new Set<string>();
+    const sameLocation = (a: Coordinates, b: Coordinates) => a.lat === b.lat && a.lng === b.lng;
+
+    const stops: ScheduledStop[] = route.slice(1).map(location => {
+      const pickup = requests.find(r => !pickedUp.has(r.id) && sameLocation(r.pickupLocation, location));
+      if (pickup) {
+        pickedUp.add(pickup.id);
+        return { type: 'pickup', requestId: pickup.id, location };
+      }
+
+      const dropoff = requests.find(r => pickedUp.has(r.id) && !droppedOff.has(r.id) && sameLocation(r.dropoffLocation, location));
+      if (dropoff) {
+        droppedOff.add(dropoff.id);
+        return { type: 'dropoff', requestId: dropoff.id, location };
+      }
+
+      return { type: 'waypoint', location };
+    });
+
+    // Make sure every passenger is served even if the router dropped their points
+    for (const request of requests) {
+      if (!pickedUp.has(request.id)) {
+        stops.push({ type: 'pickup', requestId: request.id, location: request.pickupLocation });
+      }
+    }
+    for (const request of requests) {
+      if (!droppedOff.has(request.id)) {
+        stops.push({ type: 'dropoff', requestId: request.id, location: request.dropoffLocation });
+      }
+    }
+
+    return stops;
+  }
+
+  /**
+   * Move a vehicle along its schedule, handling every stop reached within the distance budget
+   */
+  private moveVehicle(schedule: VehicleSchedule, distanceBudgetKm: number): void {
+    const vehicle = schedule.vehicle;
+    let budget = distanceBudgetKm;
+
+    while (budget > 0 && schedule.stops.length > 0) {
+      const nextStop = schedule.stops[0];
+      const distance = haversineDistance(vehicle.location, nextStop.location);
+
+      if (distance <= budget) {
+        vehicle.location = { ...nextStop.location };
+        budget -= distance;
+        schedule.stops.shift();
+        this.handleStop(schedule, nextStop);
+      } else {
+        // Interpolate towards the next stop
+        const fraction = budget / distance;
+        vehicle.location = {
+          lat: vehicle.location.lat + (nextStop.location.lat - vehicle.location.lat) * fraction,
+          lng: vehicle.location.lng + (nextStop.location.lng - vehicle.location.lng) * fraction
+        };
+        budget = 0;
+      }
+    }
+
+    vehicle.currentRoute = schedule.stops.map(stop => stop.location);
+  }
+
+  /**
+   * Board or drop off the passenger at a reached stop
+   */
+  private handleStop(schedule: VehicleSchedule, stop: ScheduledStop): void {
+    if (!stop.requestId) return;
+
+    const passenger = this.passengers.get(stop.requestId);
+    if (!passenger) return;
+
+    if (stop.type === 'pickup') {
+      schedule.reserved.delete(stop.requestId);
+      schedule.onboard.add(stop.requestId);
+      passenger.status = 'onboard';
+      passenger.pickupTime = new Date(this.clock.getTime());
+    } else if (stop.type === 'dropoff') {
+      schedule.onboard.delete(stop.requestId);
+      passenger.status = 'completed';
+      passenger.dropoffTime = new Date(this.clock.getTime());
+    }
+
+    schedule.vehicle.availableSeats = schedule.vehicle.capacity - schedule.onboard.size;
+  }
+
+  /**
+   * Copy of the current simulation state
+   */
+  private getSnapshot(): SimulationSnapshot {
+    return {
+      time: new Date(this.clock.getTime()),
+      vehicles: this.schedules.map(s => ({
+        ...s.vehicle,
+        location: { ...s.vehicle.location },
+        currentRoute: [...s.vehicle.currentRoute]
+      })),
+      passengers: Array.from(this.passengers.values()).map(p => ({ ...p }))
+    };
+  }
+}
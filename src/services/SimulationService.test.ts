@@ -0,0 +1,161 @@
+import { SimulationService } from './SimulationService';
+import { RandomDataGenerator } from '../data/RandomDataGenerator';
+import { DBSCANClustering } from './clustering/DBSCANClustering';
+import { GeneticMatcher } from './matching/GeneticMatcher';
+import { StraightLineRouter } from './routing/StraightLineRouter';
+import { routeLength } from './matching/matchingCost';
+import { RideRequest } from '../models/types';
+
+const createService = () => new SimulationService(
+  new RandomDataGenerator(),
+  new DBSCANClustering(),
+  new GeneticMatcher(),
+  new StraightLineRouter()
+);
+
+describe('SimulationService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('the same seed reproduces identical runs', async () => {
+    const params = {
+      passengerCount: 30,
+      vehicleCount: 6,
+      maxDetourDistance: 2,
+      timeWindow: 15,
+      seed: 42,
+      startTime: new Date()
+    };
+
+    const first = await createService().runSimulation(params);
+    const second = await createService().runSimulation(params);
+
+    expect(JSON.stringify(second)).toEqual(JSON.stringify(first));
+    expect(first.assignments.length).toBeGreaterThan(0);
+  });
+
+  test('seeded runs without a start time do not depend on the wall clock', async () => {
+    // What the control panel sends: a seed, but no start time
+    const params = { passengerCount: 20, vehicleCount: 5, maxDetourDistance: 2, timeWindow: 15, seed: 42 };
+
+    jest.useFakeTimers('modern');
+    try {
+      jest.setSystemTime(new Date('2025-01-01T08:00:00Z'));
+      const first = await createService().runSimulation(params);
+      jest.setSystemTime(new Date('2025-06-01T17:30:00Z'));
+      const second = await createService().runSimulation(params);
+
+      expect(JSON.stringify(second)).toEqual(JSON.stringify(first));
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('different seeds produce different requests', async () => {
+    const params = { passengerCount: 20, vehicleCount: 5, maxDetourDistance: 2, timeWindow: 15, startTime: new Date() };
+
+    const first = await createService().runSimulation({ ...params, seed: 1 });
+    const second = await createService().runSimulation({ ...params, seed: 2 });
+
+    expect(second.requests.map(r => r.id)).not.toEqual(first.requests.map(r => r.id));
+  });
+
+  test('reports requests outside the time window instead of matching them', async () => {
+    const params = { passengerCount: 30, vehicleCount: 6, maxDetourDistance: 2, timeWindow: 5, prebookHorizon: 0, seed: 7, startTime: new Date() };
+
+    const result = await createService().runSimulation(params);
+
+    const clusteredIds = new Set(result.clusters.flatMap(cluster => cluster.requests.map(request => request.id)));
+    expect(result.filteredRequests.length).toBeGreaterThan(0);
+    expect(clusteredIds.size + result.filteredRequests.length).toBe(result.requests.length);
+    result.filteredRequests.forEach(({ request, reason, minutesFromReference }) => {
+      expect(clusteredIds.has(request.id)).toBe(false);
+      expect(reason === 'expired' ? minutesFromReference < -5 : minutesFromReference > 0).toBe(true);
+    });
+  });
+
+  test('reorders stops into shorter routes and reports the improvement', async () => {
+    const params = { passengerCount: 40, vehicleCount: 8, maxDetourDistance: 2, timeWindow: 15, seed: 11, startTime: new Date() };
+
+    const result = await createService().runSimulation(params);
+
+    const totalLength = result.assignments.reduce((sum, assignment) => sum + routeLength(assignment.route), 0);
+    expect(result.routeSequencing.distanceAfterKm).toBeCloseTo(totalLength, 9);
+    expect(result.routeSequencing.resequencedAssignments).toBeGreaterThan(0);
+    expect(result.routeSequencing.distanceAfterKm).toBeLessThan(result.routeSequencing.distanceBeforeKm);
+
+    // Every rider is still picked up before being dropped off
+    const requestsById = new Map(result.requests.map(request => [request.id, request]));
+    result.assignments.forEach(assignment => {
+      assignment.requestIds.forEach(id => {
+        const request = requestsById.get(id) as RideRequest;
+        expect(assignment.route.indexOf(request.dropoffLocation)).toBeGreaterThan(assignment.route.indexOf(request.pickupLocation));
+      });
+    });
+  });
+
+  test('reports pickup and ride times and only enforces time windows when asked', async () => {
+    const params = {
+      passengerCount: 40,
+      vehicleCount: 8,
+      maxDetourDistance: 2,
+      timeWindow: 15,
+      maxWaitMinutes: 10,
+      maxRideTimeRatio: 1.2,
+      seed: 5,
+      startTime: new Date()
+    };
+
+    const enforced = await createService().runSimulation(params);
+    const reportOnly = await createService().runSimulation({ ...params, enforceTimeWindows: false });
+
+    const assignedIds = enforced.assignments.flatMap(assignment => assignment.requestIds);
+    expect(enforced.passengerService.map(report => report.requestId).sort()).toEqual([...assignedIds].sort());
+    expect(enforced.passengerService.every(report => !report.latePickup && !report.rideTooLong)).toBe(true);
+    expect(reportOnly.passengerService.some(report => report.latePickup || report.rideTooLong)).toBe(true);
+  });
+
+  test('returns the Pareto front with the assigned set first when matching multi-objective', async () => {
+    const params = { passengerCount: 30, vehicleCount: 6, maxDetourDistance: 2, timeWindow: 15, seed: 3, startTime: new Date() };
+    const service = new SimulationService(
+      new RandomDataGenerator(),
+      new DBSCANClustering(),
+      new GeneticMatcher({ objective: 'pareto', maxGenerations: 30 }),
+      new StraightLineRouter()
+    );
+
+    const result = await service.runSimulation(params);
+
+    const front = result.paretoFront ?? [];
+    expect(front.length).toBeGreaterThan(0);
+    expect(front[0].assignments).toEqual(result.assignments);
+    expect(front[0].totalDistanceKm).toBeCloseTo(result.routeSequencing.distanceAfterKm, 9);
+    expect(front[0].unassignedRequests).toEqual(result.unassignedRequests);
+    front.forEach(solution => {
+      const matched = solution.assignments.reduce((sum, assignment) => sum + assignment.requestIds.length, 0);
+      expect(solution.matchedPercent).toBeCloseTo((matched / result.requests.length) * 100, 9);
+    });
+    expect((await createService().runSimulation(params)).paretoFront).toBeUndefined();
+  });
+
+  test('explains every request left without a vehicle', async () => {
+    const params = { passengerCount: 40, vehicleCount: 4, maxDetourDistance: 1, timeWindow: 5, prebookHorizon: 0, seed: 9, startTime: new Date() };
+
+    const result = await createService().runSimulation(params);
+
+    const assignedIds = result.assignments.flatMap(assignment => assignment.requestIds);
+    const unassignedIds = result.unassignedRequests.map(({ request }) => request.id);
+    expect([...assignedIds, ...unassignedIds].sort()).toEqual(result.requests.map(request => request.id).sort());
+
+    // Requests filtered by the time window come first with their filter reason, then the matcher's rejections
+    const filtered = result.filteredRequests.map(({ request, reason }) => ({ request, reason }));
+    expect(filtered.length).toBeGreaterThan(0);
+    expect(result.unassignedRequests.slice(0, filtered.length)).toEqual(filtered);
+    expect(result.unassignedRequests.length).toBeGreaterThan(filtered.length);
+  });
+});
@@ -1,46 +1,84 @@
 import { ISimulationService } from './interfaces';
-import { IDataAdapter, IClusterStrategy, IMatchingStrategy, IRoutingEngine } from './interfaces';
-import { SimulationParams, RideRequest, Vehicle, Cluster, Assignment, Coordinates } from '../models/types';
+import { IDataAdapter, IClusterStrategy, IMatchingStrategy, IRoutingEngine, IClusterSplitter, IReachabilityClusterStrategy, IStopSequencer, TimeWindowConstraints, SimulationRunResult, SimulationObserver, MatchingConstraints } from './interfaces';
+import { SimulationParams, RideRequest, Vehicle, Cluster, Assignment, Coordinates, ReachabilityOrdering, RouteSequencingReport, PassengerServiceReport, Stop, ParetoSolution, UnassignedRequest } from '../models/types';
 import { haversineDistance } from '../utils/geo';
+import { DEFAULT_SIMULATION_CONFIG } from '../config/simulationConfig';
+import { createSeededRandom } from '../utils/random';
+import { CapacityClusterSplitter } from './clustering/CapacityClusterSplitter';
+import { evaluateClusters } from './clustering/clusterEvaluation';
+import { filterByTimeWindow } from './clustering/timeWindow';
+import { StopSequencer } from './routing/StopSequencer';
+import { scheduleRoute, stopsFromRoute } from './routing/stopSchedule';
+import { meetsTimeWindows, serviceTimes } from './routing/serviceTimes';
+import { routeLength } from './matching/matchingCost';
+import { explainUnassigned } from './matching/unassignedRequests';
+
+// Resequenced routes must be shorter by more than this (km) to replace the matcher's route
+const SEQUENCING_EPSILON = 1e-9;
 
 export class SimulationService implements ISimulationService {
   constructor(
     private dataAdapter: IDataAdapter,
     private clusteringStrategy: IClusterStrategy,
     private matchingStrategy: IMatchingStrategy,
-    private routingEngine: IRoutingEngine
+    private routingEngine: IRoutingEngine,
+    private clusterSplitter: IClusterSplitter = new CapacityClusterSplitter(),
+    private stopSequencer: IStopSequencer = new StopSequencer()
   ) {}
 
-  async runSimulation(params: SimulationParams): Promise<{
-    requests: RideRequest[];
-    vehicles: Vehicle[];
-    clusters: Cluster[];
-    assignments: Assignment[];
-  }> {
+  async runSimulation(params: SimulationParams, observer: SimulationObserver = {}): Promise<SimulationRunResult> {
     // Define the map bounds (approximately 10km x 10km)
-    // Using NYC-like coordinates as a base
-    const bounds = {
-      minLat: 40.7,
-      maxLat: 40.8,
-      minLng: -74.0,
-      maxLng: -73.9
-    };
+    const bounds = DEFAULT_SIMULATION_CONFIG.MAP_BOUNDS;
+    
+    // A single seeded generator shared by every stage makes the whole run reproducible
+    const random = params.seed !== undefined ? createSeededRandom(params.seed) : undefined;
+    // Generation and clustering share one "now", so the time window matches the generated timestamps;
+    // seeded runs start at a fixed time so they are identical whenever they run
+    const referenceTime = params.startTime ??
+      (params.seed !== undefined ? new Date(DEFAULT_SIMULATION_CONFIG.SEEDED_START_TIME) : new Date());
+    const generationOptions = { random, referenceTime };
     
     // Generate random requests first
-    const requests = this.dataAdapter.generateRequests(params.passengerCount, bounds);
+    const requests = this.dataAdapter.generateRequests(params.passengerCount, bounds, generationOptions);
     
     console.log(`Generated ${requests.length} passengers`);
     
     // Generate vehicles positioned near the actual passenger clusters
-    const vehicles = this.dataAdapter.generateVehiclesNearPassengers(params.vehicleCount, requests, bounds);
+    const vehicles = this.dataAdapter.generateVehiclesNearPassengers(params.vehicleCount, requests, bounds, generationOptions);
     
     console.log(`Generated ${vehicles.length} vehicles near passenger clusters`);
     
     // Apply clustering to requests
-    const clusters = this.clusteringStrategy.cluster(requests, {
+    const clusterParams = {
       timeWindowMinutes: params.timeWindow,
-      maxDistanceKm: params.maxDetourDistance
-    });
+      maxDistanceKm: params.maxDetourDistance,
+      referenceTime,
+      prebookHorizonMinutes: params.prebookHorizon,
+      ...params.clusterTuning,
+      random
+    };
+    
+    // Requests outside the time window are not clustered; report them rather than dropping them silently
+    const { filtered: filteredRequests } = filterByTimeWindow(requests, clusterParams);
+    if (filteredRequests.length > 0) {
+      console.log(`${filteredRequests.length} requests outside the time window will not be clustered or matched`);
+    }
+    
+    // Keep the reachability ordering when available so clusters can be re-extracted at other epsilons
+    let reachability: ReachabilityOrdering | undefined;
+    let densityClusters: Cluster[];
+    if (this.isReachabilityStrategy(this.clusteringStrategy)) {
+      reachability = this.clusteringStrategy.computeOrdering(requests, clusterParams);
+      densityClusters = this.clusteringStrategy.extractClusters(reachability, reachability.epsilon, random);
+    } else {
+      densityClusters = this.clusteringStrategy.cluster(requests, clusterParams);
+    }
+    
+    // Score the strategy's own clusters, before they are reshaped to fit the fleet
+    const clusterQuality = evaluateClusters(densityClusters, clusterParams);
+    
+    // Split clusters too large for any vehicle so they can still be served
+    const clusters = this.clusterSplitter.split(densityClusters, vehicles, random);
     
     // Log clustering results
     const multiPassengerClusters = clusters.filter(c => c.requests.length > 1);
@@ -52,26 +90,174 @@ export class SimulationService implements ISimulationService {
     console.log(`- Multi-passenger clusters: ${multiPassengerClusters.length}`);
     console.log(`- Single-passenger clusters (noise): ${singlePassengerClusters.length}`);
     console.log(`- Passengers in clusters: ${totalClusteredPassengers}/${requests.length} (${(totalClusteredPassengers/requests.length*100).toFixed(1)}%)`);
+    console.log(`- Silhouette: ${clusterQuality.silhouette?.toFixed(3) ?? 'n/a'}, Davies-Bouldin: ${clusterQuality.daviesBouldin?.toFixed(3) ?? 'n/a'}, shareability: ${clusterQuality.shareability?.toFixed(3) ?? 'n/a'}`);
     
-    // Match clusters to vehicles
-    const assignments = this.matchingStrategy.match(clusters, vehicles, {
-      maxDetourKm: params.maxDetourDistance
-    });
+    // Vehicles leave at the reference time; riders without their own limits get the run's defaults
+    const timeWindows: TimeWindowConstraints = {
+      departureTime: referenceTime,
+      vehicleSpeedKmh: DEFAULT_SIMULATION_CONFIG.DEFAULT_VEHICLE_SPEED_KMH,
+      maxWaitMinutes: params.maxWaitMinutes ?? DEFAULT_SIMULATION_CONFIG.DEFAULT_MAX_WAIT_MINUTES,
+      maxRideTimeRatio: params.maxRideTimeRatio ?? DEFAULT_SIMULATION_CONFIG.DEFAULT_MAX_RIDE_TIME_RATIO
+    };
+    
+    // Match clusters to vehicles, keeping the alternatives of multi-objective matchers
+    // and why requests were left without a vehicle
+    let candidateFront: Assignment[][] | undefined;
+    let rejectedRequests: UnassignedRequest[] = [];
+    const matchingConstraints: MatchingConstraints = {
+      maxDetourKm: params.maxDetourDistance,
+      timeWindows: params.enforceTimeWindows === false ? undefined : timeWindows,
+      random,
+      onProgress: observer.onMatchingProgress,
+      onParetoFront: front => {
+        candidateFront = front;
+      },
+      onUnassigned: unassigned => {
+        rejectedRequests = unassigned;
+      }
+    };
+    const assignments = this.matchingStrategy.match(clusters, vehicles, matchingConstraints);
+    
+    // Requests filtered by the time window never reached the matcher
+    const filteredUnassigned = filteredRequests.map(({ request, reason }): UnassignedRequest => ({ request, reason }));
+    const unassignedRequests = [...filteredUnassigned, ...rejectedRequests];
+    console.log(`Unassigned: ${unassignedRequests.length}/${requests.length} requests without a vehicle`);
+    
+    // Reorder each vehicle's pickups and dropoffs before routing
+    const { assignments: sequencedAssignments, report: routeSequencing } = this.sequenceStops(assignments, vehicles, requests, timeWindows, params.maxDetourDistance);
+    console.log(
+      `Stop sequencing: ${routeSequencing.resequencedAssignments}/${assignments.length} routes reordered, ` +
+      `${routeSequencing.distanceBeforeKm.toFixed(2)} km -> ${routeSequencing.distanceAfterKm.toFixed(2)} km`
+    );
+    
+    // Pickup and ride times of every assigned rider, whether or not the matcher enforced their limits
+    const passengerService = this.reportPassengerService(sequencedAssignments, vehicles, requests, timeWindows);
+    const violated = passengerService.filter(report => report.latePickup || report.rideTooLong).length;
+    console.log(`Time windows: ${violated}/${passengerService.length} assigned riders picked up late or riding too long`);
     
     // Calculate routes for assignments
-    const assignmentsWithRoutes = assignments.map(assignment => {
-      const route = this.routingEngine.calculateRoute(assignment.route);
-      return { ...assignment, route };
+    const assignmentsWithRoutes = this.routeAssignments(sequencedAssignments);
+    
+    // Every trade-off gets the same sequencing, service report and routing as the returned assignments
+    const paretoFront = candidateFront?.map((candidate): ParetoSolution => {
+      const sequenced = this.sequenceStops(candidate, vehicles, requests, timeWindows, params.maxDetourDistance);
+      const matched = new Set(candidate.flatMap(assignment => assignment.requestIds)).size;
+      return {
+        assignments: this.routeAssignments(sequenced.assignments),
+        matchedPercent: requests.length > 0 ? (matched / requests.length) * 100 : 0,
+        totalDistanceKm: sequenced.report.distanceAfterKm,
+        routeSequencing: sequenced.report,
+        passengerService: this.reportPassengerService(sequenced.assignments, vehicles, requests, timeWindows),
+        unassignedRequests: [...filteredUnassigned, ...explainUnassigned(clusters, vehicles, candidate, matchingConstraints)]
+      };
     });
     
     return {
       requests,
       vehicles,
       clusters,
-      assignments: assignmentsWithRoutes
+      assignments: assignmentsWithRoutes,
+      reachability,
+      clusterQuality,
+      filteredRequests,
+      routeSequencing,
+      passengerService,
+      paretoFront,
+      unassignedRequests
     };
   }
 
+  /**
+   * Replace each assignment's stops with the routing engine's route through them
+   */
+  private routeAssignments(assignments: Assignment[]): Assignment[] {
+    return assignments.map(assignment => ({ ...assignment, route: this.routingEngine.calculateRoute(assignment.route) }));
+  }
+
+  /**
+   * Replace each assignment's route with the sequencer's order when that is shorter and
+   * keeps every rider within their time limits, if they were before. The sequencer keeps
+   * every rider within the max detour.
+   * Routes that are not made of the assigned riders' stops are left as they are.
+   */
+  private sequenceStops(
+    assignments: Assignment[],
+    vehicles: Vehicle[],
+    requests: RideRequest[],
+    timeWindows: TimeWindowConstraints,
+    maxDetourKm: number
+  ): { assignments: Assignment[]; report: RouteSequencingReport } {
+    const vehiclesById = new Map(vehicles.map(vehicle => [vehicle.id, vehicle]));
+    const requestsById = new Map(requests.map(request => [request.id, request]));
+    const report: RouteSequencingReport = { distanceBeforeKm: 0, distanceAfterKm: 0, resequencedAssignments: 0 };
+
+    const sequenced = assignments.map(assignment => {
+      const before = routeLength(assignment.route);
+      report.distanceBeforeKm += before;
+
+      const vehicle = vehiclesById.get(assignment.vehicleId);
+      const stops = this.assignmentStops(assignment, vehiclesById, requestsById);
+
+      if (vehicle && stops) {
+        const sequence = this.stopSequencer.sequence(vehicle, stops, maxDetourKm);
+        const route = scheduleRoute(vehicle, sequence);
+        const after = routeLength(route);
+        const keepsTimeWindows = meetsTimeWindows(vehicle, sequence, timeWindows) || !meetsTimeWindows(vehicle, stops, timeWindows);
+        if (after < before - SEQUENCING_EPSILON && keepsTimeWindows) {
+          report.distanceAfterKm += after;
+          report.resequencedAssignments++;
+          return { ...assignment, route };
+        }
+      }
+
+      report.distanceAfterKm += before;
+      return assignment;
+    });
+
+    return { assignments: sequenced, report };
+  }
+
+  /**
+   * Pickup and ride times of the riders of every assignment whose route is made of their stops
+   */
+  private reportPassengerService(
+    assignments: Assignment[],
+    vehicles: Vehicle[],
+    requests: RideRequest[],
+    timeWindows: TimeWindowConstraints
+  ): PassengerServiceReport[] {
+    const vehiclesById = new Map(vehicles.map(vehicle => [vehicle.id, vehicle]));
+    const requestsById = new Map(requests.map(request => [request.id, request]));
+
+    return assignments.flatMap(assignment => {
+      const vehicle = vehiclesById.get(assignment.vehicleId);
+      const stops = this.assignmentStops(assignment, vehiclesById, requestsById);
+      return vehicle && stops ? serviceTimes(vehicle, stops, timeWindows) : [];
+    });
+  }
+
+  /**
+   * Stops behind an assignment's route, or null when its vehicle or riders are unknown
+   * or the route is not made of their pickups and dropoffs
+   */
+  private assignmentStops(
+    assignment: Assignment,
+    vehiclesById: Map<string, Vehicle>,
+    requestsById: Map<string, RideRequest>
+  ): Stop[] | null {
+    const assigned = assignment.requestIds
+      .map(id => requestsById.get(id))
+      .filter((request): request is RideRequest => request !== undefined);
+
+    return vehiclesById.has(assignment.vehicleId) && assigned.length === assignment.requestIds.length
+      ? stopsFromRoute(assignment.route, assigned)
+      : null;
+  }
+
+  private isReachabilityStrategy(strategy: IClusterStrategy): strategy is IReachabilityClusterStrategy {
+    return 'computeOrdering' in strategy && 'extractClusters' in strategy;
+  }
+
   /**
    * Calculate metrics for the simulation results
    */
@@ -0,0 +1,58 @@
+import { CapacityClusterSplitter } from './CapacityClusterSplitter';
+import { Cluster, RideRequest, Vehicle } from '../../models/types';
+
+const rider = (id: string, lat: number, lng: number, dropoffLng: number): RideRequest => ({
+  id,
+  pickupLocation: { lat, lng },
+  dropoffLocation: { lat, lng: dropoffLng },
+  timestamp: new Date()
+});
+
+const vehicle = (id: string, seats: number): Vehicle => ({
+  id,
+  location: { lat: 40.75, lng: -73.95 },
+  capacity: seats,
+  availableSeats: seats,
+  currentRoute: []
+});
+
+describe('CapacityClusterSplitter', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('splits an oversized cluster into groups of riders travelling together', () => {
+    // Interleave eastbound and westbound riders so the split has to regroup them
+    const requests = [0, 1, 2, 3].flatMap(i => [
+      rider(`east-${i}`, 40.75 + i * 0.001, -73.95, -73.9),
+      rider(`west-${i}`, 40.75 + i * 0.001, -73.95, -74.0)
+    ]);
+    const cluster: Cluster = { id: 'dense', centroid: { lat: 40.75, lng: -73.95 }, requests };
+
+    const result = new CapacityClusterSplitter().split([cluster], [vehicle('a', 4), vehicle('b', 4), vehicle('c', 2)]);
+
+    expect(result).toHaveLength(2);
+    const groups = result.map(c => c.requests.map(r => r.id.split('-')[0]));
+    expect(groups.map(group => new Set(group).size)).toEqual([1, 1]);
+    expect(result.map(c => c.split)).toEqual([
+      { parentClusterId: 'dense', part: 1, parts: 2 },
+      { parentClusterId: 'dense', part: 2, parts: 2 }
+    ]);
+  });
+
+  test('uses the fleet seat distribution and keeps every rider', () => {
+    const requests = Array.from({ length: 9 }, (_, i) => rider(`r-${i}`, 40.75 + i * 0.001, -73.95, -73.9));
+    const small: Cluster = { id: 'small', centroid: { lat: 40.7, lng: -73.9 }, requests: [rider('solo', 40.7, -73.9, -73.95)] };
+    const dense: Cluster = { id: 'dense', centroid: { lat: 40.75, lng: -73.95 }, requests };
+
+    const result = new CapacityClusterSplitter().split([small, dense], [vehicle('a', 6), vehicle('b', 4)]);
+
+    expect(result[0]).toBe(small);
+    expect(result.slice(1).map(c => c.requests.length)).toEqual([5, 4]);
+    expect(result.flatMap(c => c.requests.map(r => r.id)).sort()).toEqual([...requests.map(r => r.id), 'solo'].sort());
+  });
+});
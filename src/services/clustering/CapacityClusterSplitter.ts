@@ -0,0 +1,177 @@
+import { IClusterSplitter } from '../interfaces';
+import { Cluster, RideRequest, Vehicle, Coordinates } from '../../models/types';
+import { haversineDistance, calculateCentroid } from '../../utils/geo';
+import { RandomSource, createId } from '../../utils/random';
+
+/**
+ * Splits clusters that no single vehicle can carry into vehicle-sized sub-clusters.
+ *
+ * Group sizes follow the fleet's actual seat distribution: the largest oversized
+ * clusters claim the largest vehicles first. Riders are grouped so that pickups
+ * and dropoffs within each group are as close together as possible, which keeps
+ * the detour of each shared ride small.
+ */
+export class CapacityClusterSplitter implements IClusterSplitter {
+  // Maximum number of swap passes when refining the groups
+  private readonly MAX_REFINEMENT_PASSES = 10;
+
+  split(clusters: Cluster[], vehicles: Vehicle[], random?: RandomSource): Cluster[] {
+    // Seat pool, largest vehicles first
+    const seatPool = vehicles
+      .map(vehicle => vehicle.availableSeats)
+      .filter(seats => seats > 0)
+      .sort((a, b) => b - a);
+
+    if (seatPool.length === 0) {
+      return clusters;
+    }
+
+    const maxSeats = seatPool[0];
+    const oversized = clusters
+      .filter(cluster => cluster.requests.length > maxSeats)
+      .sort((a, b) => b.requests.length - a.requests.length);
+
+    if (oversized.length === 0) {
+      return clusters;
+    }
+
+    // Sub-clusters for each oversized cluster, keyed by the original cluster id
+    const replacements = new Map<string, Cluster[]>();
+
+    for (const cluster of oversized) {
+      const sizes = this.groupSizes(cluster.requests.length, seatPool, maxSeats);
+      const groups = this.refineGroups(this.buildGroups(cluster.requests, sizes));
+
+      replacements.set(cluster.id, groups.map((requests, index) => ({
+        id: createId(random),
+        centroid: calculateCentroid(requests.map(request => request.pickupLocation)),
+        requests,
+        split: {
+          parentClusterId: cluster.id,
+          part: index + 1,
+          parts: groups.length
+        }
+      })));
+
+      console.log(`Split cluster of ${cluster.requests.length} riders into groups of ${sizes.join(', ')} seats`);
+    }
+
+    return clusters.flatMap(cluster => replacements.get(cluster.id) ?? [cluster]);
+  }
+
+  /**
+   * Choose group sizes for a cluster by claiming vehicles from the seat pool.
+   * Once the pool runs out, the largest vehicle size is used. Surplus seats
+   * are taken away from the largest groups so group sizes stay balanced.
+   */
+  private groupSizes(riderCount: number, seatPool: number[], maxSeats: number): number[] {
+    const sizes: number[] = [];
+    let seats = 0;
+
+    while (seats < riderCount) {
+      const claimed = seatPool.length > 0 ? (seatPool.shift() as number) : maxSeats;
+      sizes.push(claimed);
+      seats += claimed;
+    }
+
+    for (let surplus = seats - riderCount; surplus > 0; surplus--) {
+      const largest = sizes.lastIndexOf(Math.max(...sizes));
+      sizes[largest]--;
+    }
+
+    return sizes.filter(size => size > 0).sort((a, b) => b - a);
+  }
+
+  /**
+   * Greedily build groups: each group starts from the rider furthest from the
+   * rest and grows with the riders whose trips are most similar to the group.
+   */
+  private buildGroups(requests: RideRequest[], sizes: number[]): RideRequest[][] {
+    const remaining = [...requests];
+    const groups: RideRequest[][] = [];
+
+    for (const size of sizes) {
+      const pickupCenter = calculateCentroid(remaining.map(request => request.pickupLocation));
+      const dropoffCenter = calculateCentroid(remaining.map(request => request.dropoffLocation));
+
+      // Outliers go first so they are grouped with their nearest riders instead of left over
+      const seedIndex = this.indexOfMax(remaining, request => this.tripDistance(request, pickupCenter, dropoffCenter));
+      const group = remaining.splice(seedIndex, 1);
+
+      while (group.length < size && remaining.length > 0) {
+        const groupPickup = calculateCentroid(group.map(request => request.pickupLocation));
+        const groupDropoff = calculateCentroid(group.map(request => request.dropoffLocation));
+        const nextIndex = this.indexOfMax(remaining, request => -this.tripDistance(request, groupPickup, groupDropoff));
+        group.push(...remaining.splice(nextIndex, 1));
+      }
+
+      groups.push(group);
+    }
+
+    return groups;
+  }
+
+  /**
+   * Swap riders between groups while doing so lowers the total spread of the groups
+   */
+  private refineGroups(groups: RideRequest[][]): RideRequest[][] {
+    for (let pass = 0; pass < this.MAX_REFINEMENT_PASSES; pass++) {
+      let improved = false;
+
+      for (let a = 0; a < groups.length; a++) {
+        for (let b = a + 1; b < groups.length; b++) {
+          for (let i = 0; i < groups[a].length; i++) {
+            for (let j = 0; j < groups[b].length; j++) {
+              const before = this.groupCost(groups[a]) + this.groupCost(groups[b]);
+
+              const swappedA = [...groups[a]];
+              const swappedB = [...groups[b]];
+              [swappedA[i], swappedB[j]] = [groups[b][j], groups[a][i]];
+
+              // Require a meaningful gain so floating-point noise cannot cause endless swapping
+              if (this.groupCost(swappedA) + this.groupCost(swappedB) < before - 1e-9) {
+                groups[a] = swappedA;
+                groups[b] = swappedB;
+                improved = true;
+              }
+            }
+          }
+        }
+      }
+
+      if (!improved) break;
+    }
+
+    return groups;
+  }
+
+  /**
+   * Total distance of the group's pickups and dropoffs from their centroids,
+   * a cheap proxy for the detour a shared ride would need
+   */
+  private groupCost(group: RideRequest[]): number {
+    const pickupCenter = calculateCentroid(group.map(request => request.pickupLocation));
+    const dropoffCenter = calculateCentroid(group.map(request => request.dropoffLocation));
+
+    return group.reduce((sum, request) => sum + this.tripDistance(request, pickupCenter, dropoffCenter), 0);
+  }
+
+  private tripDistance(request: RideRequest, pickup: Coordinates, dropoff: Coordinates): number {
+    return haversineDistance(request.pickupLocation, pickup) + haversineDistance(request.dropoffLocation, dropoff);
+  }
+
+  private indexOfMax(requests: RideRequest[], score: (request: RideRequest) => number): number {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+
+    requests.forEach((request, index) => {
+      const value = score(request);
+      if (value > bestScore) {
+        bestScore = value;
+        bestIndex = index;
+      }
+    });
+
+    return bestIndex;
+  }
+}
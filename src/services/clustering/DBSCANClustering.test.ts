@@ -0,0 +1,141 @@
+import { DBSCANClustering } from './DBSCANClustering';
+import { RideRequest } from '../../models/types';
+import { createSeededRandom } from '../../utils/random';
+
+// Benchmarks on large inputs only run on request: npm run benchmark (which sets RUN_BENCHMARKS)
+const benchmark = process.env.RUN_BENCHMARKS ? test : test.skip;
+
+/**
+ * Requests spread over a city-sized area within the last half hour.
+ * Built directly rather than through RandomDataGenerator to keep large inputs cheap.
+ */
+const createRequests = (count: number, seed: number): RideRequest[] => {
+  const random = createSeededRandom(seed);
+  const now = Date.now();
+
+  return Array.from({ length: count }, (_, i) => ({
+    id: `request-${i}`,
+    pickupLocation: { lat: 40.5 + random() * 0.4, lng: -74.25 + random() * 0.55 },
+    dropoffLocation: { lat: 40.5 + random() * 0.4, lng: -74.25 + random() * 0.55 },
+    timestamp: new Date(now - random() * 25 * 60 * 1000)
+  }));
+};
+
+const params = { timeWindowMinutes: 30, maxDistanceKm: 2 };
+
+const clusterMembers = (clustering: DBSCANClustering, requests: RideRequest[]) =>
+  clustering.cluster(requests, params).map(cluster => cluster.requests.map(request => request.id));
+
+describe('DBSCANClustering', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('spatial index produces the same clusters as brute force', () => {
+    const requests = createRequests(2000, 7);
+
+    const indexed = clusterMembers(new DBSCANClustering(), requests);
+    const bruteForce = clusterMembers(new DBSCANClustering(false), requests);
+
+    expect(indexed).toEqual(bruteForce);
+    expect(indexed.some(members => members.length > 1)).toBe(true);
+  });
+
+  test('tighter epsilon and higher min points produce fewer multi-passenger clusters', () => {
+    const requests = createRequests(2000, 5);
+    const multiPassenger = (tuning: object) => new DBSCANClustering()
+      .cluster(requests, { ...params, ...tuning })
+      .filter(cluster => cluster.requests.length > 1)
+      .reduce((sum, cluster) => sum + cluster.requests.length, 0);
+
+    const defaults = multiPassenger({});
+    const strict = multiPassenger({ epsilon: 0.05, adaptiveEpsilon: false, minPoints: 4 });
+
+    expect(strict).toBeLessThan(defaults);
+  });
+
+  test('trip mode separates riders heading in opposite directions', () => {
+    const now = new Date();
+    const pickup = { lat: 40.75, lng: -73.95 };
+    const rider = (id: string, dropoffLng: number): RideRequest => ({
+      id,
+      pickupLocation: { ...pickup },
+      dropoffLocation: { lat: 40.75, lng: dropoffLng },
+      timestamp: now
+    });
+    const requests = [
+      rider('east-1', -73.9), rider('east-2', -73.9), rider('east-3', -73.9),
+      rider('west-1', -74.0), rider('west-2', -74.0), rider('west-3', -74.0)
+    ];
+    const groups = (distanceMode: 'pickup' | 'trip') => new DBSCANClustering()
+      .cluster(requests, { ...params, distanceMode })
+      .map(cluster => cluster.requests.map(request => request.id).sort());
+
+    expect(groups('pickup')).toEqual([['east-1', 'east-2', 'east-3', 'west-1', 'west-2', 'west-3']]);
+    expect(groups('trip')).toEqual([['east-1', 'east-2', 'east-3'], ['west-1', 'west-2', 'west-3']]);
+  });
+
+  test('clusters historical requests relative to the reference time', () => {
+    const referenceTime = new Date('2015-01-15T08:00:00Z');
+    const rider = (id: string, minutesFromReference: number): RideRequest => ({
+      id,
+      pickupLocation: { lat: 40.75, lng: -73.95 },
+      dropoffLocation: { lat: 40.78, lng: -73.96 },
+      timestamp: new Date(referenceTime.getTime() + minutesFromReference * 60 * 1000)
+    });
+    const requests = [rider('a', -2), rider('b', -1), rider('c', 3), rider('stale', -45), rider('far-future', 60)];
+
+    const clusters = new DBSCANClustering().cluster(requests, { ...params, referenceTime });
+
+    expect(clusters.map(cluster => cluster.requests.map(request => request.id).sort())).toEqual([['a', 'b', 'c']]);
+  });
+
+  test('rejects nonsensical tuning', () => {
+    const requests = createRequests(10, 3);
+
+    expect(() => new DBSCANClustering().cluster(requests, { ...params, epsilon: 1.2 })).toThrow(/Epsilon/);
+    expect(() => new DBSCANClustering().cluster(requests, { ...params, epsilon: 0.3, maxEpsilon: 0.2 })).toThrow(/Max epsilon/);
+    expect(() => new DBSCANClustering().cluster(requests, { ...params, spatialWeight: 0 })).toThrow(/any distance apart/);
+    expect(() => new DBSCANClustering().cluster(requests, { ...params, minPoints: 0 })).toThrow(/Min points/);
+  });
+
+  test('clusters 10k requests with the spatial index', () => {
+    const requests = createRequests(10000, 11);
+
+    const clusters = new DBSCANClustering().cluster(requests, params);
+
+    const clustered = clusters.reduce((sum, cluster) => sum + cluster.requests.length, 0);
+    expect(clustered).toBe(requests.length);
+  }, 30000);
+
+  benchmark('matches brute force on 10k requests', () => {
+    const requests = createRequests(10000, 13);
+
+    let start = performance.now();
+    const indexed = clusterMembers(new DBSCANClustering(), requests);
+    const indexedMs = performance.now() - start;
+
+    start = performance.now();
+    const bruteForce = clusterMembers(new DBSCANClustering(false), requests);
+    const bruteForceMs = performance.now() - start;
+
+    process.stdout.write(`DBSCAN 10k requests: indexed ${indexedMs.toFixed(0)}ms, brute force ${bruteForceMs.toFixed(0)}ms\n`);
+    expect(indexed).toEqual(bruteForce);
+  }, 600000);
+
+  benchmark('clusters 50k requests in reasonable time', () => {
+    const requests = createRequests(50000, 17);
+
+    const start = performance.now();
+    const clusters = new DBSCANClustering().cluster(requests, params);
+    const elapsedMs = performance.now() - start;
+
+    process.stdout.write(`DBSCAN 50k requests: indexed ${elapsedMs.toFixed(0)}ms\n`);
+    expect(clusters.reduce((sum, cluster) => sum + cluster.requests.length, 0)).toBe(requests.length);
+    expect(elapsedMs).toBeLessThan(60000);
+  }, 600000);
+});
@@ -1,8 +1,20 @@
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import { IClusterStrategy, ClusterParams } from '../interfaces';
 import { Cluster, RideRequest } from '../../models/types';
-import { v4 as uuidv4 } from 'uuid';
-import { haversineDistance } from '../../utils/geo';
+import { createId } from '../../utils/random';
+import { SpatialGridIndex } from '../../utils/spatialIndex';
+import { resolveClusterTuning, resolveEpsilon, validateClusterTuning } from './clusterTuning';
+import { suggestEpsilon } from './kDistance';
+import {
+  SpatioTemporalDistanceSettings,
+  resolveDistanceSettings,
+  spatioTemporalDistance,
+  neighborhoodRadius
+} from './spatioTemporalDistance';
+import { filterByTimeWindow } from './timeWindow';
+
+// Grid index over the requests along with the query radii derived from epsilon
+type RegionIndex = { grid: SpatialGridIndex<RideRequest>; radiusKm: number; radiusMinutes: number };
 
 /**
  * DBSCAN (Density-Based Spatial Clustering of Applications with Noise) implementation
@@ -13,43 +25,59 @@ import { haversineDistance } from '../../utils/geo';
  * 2. Can find arbitrarily shaped clusters
  * 3. Has a notion of noise (outliers)
  * 4. Works well with varying density clusters
+ * 
+ * Neighborhood lookups go through a spatio-temporal grid index, so only nearby
+ * requests are compared instead of every pair.
  */
 export class DBSCANClustering implements IClusterStrategy {
   // Classification constants
   private readonly UNCLASSIFIED = -1;
   private readonly NOISE = -2;
   
-  // Distance normalization (for combining spatial and temporal distances)
-  private readonly MAX_SPATIAL_DISTANCE_KM = 4; // Normalize to max 4km (adjusted for more realistic clusters)
-  private readonly MAX_TEMPORAL_DISTANCE_MIN = 12; // Normalize to max 12 minutes (adjusted for more realistic temporal clustering)
+  /**
+   * @param useSpatialIndex Use the grid index for region queries (disable to compare against brute force)
+   */
+  constructor(private readonly useSpatialIndex = true) {}
 
   /**
    * Cluster ride requests using DBSCAN algorithm
    * 
    * @param requests Array of ride requests to cluster
-   * @param params Clustering parameters (time window, max distance)
+   * @param params Clustering parameters (time window, max distance, DBSCAN tuning)
    * @returns Array of clusters
    */
   cluster(requests: RideRequest[], params: ClusterParams): Cluster[] {
-    // Filter requests to the specified time window
-    const now = new Date();
-    const cutoff = new Date(now.getTime() - params.timeWindowMinutes * 60 * 1000);
+    const errors = validateClusterTuning({ ...params, algorithm: 'dbscan' });
+    if (errors.length > 0) {
+      throw new Error(`Invalid clustering parameters: ${errors.join('; ')}`);
+    }
     
-    const filteredRequests = requests.filter(request => request.timestamp >= cutoff);
+
+    // Filter requests to the time window around the reference time
+    const { inWindow: filteredRequests, filtered } = filterByTimeWindow(requests, params);
+    if (filtered.length > 0) {
+      console.log(`DBSCAN: ${filtered.length} requests outside the time window were not clustered`);
+    }
     
     if (filteredRequests.length === 0) {
       return [];
     }
     
-    // DBSCAN parameters - adjusted for more realistic clustering
-    // Make epsilon more flexible based on the number of requests
-    const baseEpsilon = 0.22;
-    const adaptiveEpsilon = Math.min(baseEpsilon * (1 + filteredRequests.length / 100), 0.35);
-    const epsilon = adaptiveEpsilon; // Epsilon defines the radius of the neighborhood
-    const minPoints = 2; // Minimum points in a neighborhood to form a cluster
+    // DBSCAN parameters
+    const tuning = resolveClusterTuning(params);
+    const epsilon = tuning.autoEpsilon
+      ? suggestEpsilon(filteredRequests, params).epsilon
+      : resolveEpsilon(tuning, filteredRequests.length); // Epsilon defines the radius of the neighborhood
+    const minPoints = tuning.minPoints; // Minimum points in a neighborhood to form a cluster
+    const settings = resolveDistanceSettings(params);
     
     console.log(`DBSCAN Parameters: epsilon=${epsilon.toFixed(3)}, minPoints=${minPoints}, requests=${filteredRequests.length}`);
     
+    // Index requests for fast neighborhood lookups
+    const index = this.useSpatialIndex
+      ? this.buildIndex(filteredRequests, epsilon, settings)
+      : null;
+    
     // Initialize clusters and classification array
     const clusters: Cluster[] = [];
     const classifications: number[] = new Array(filteredRequests.length).fill(this.UNCLASSIFIED);
@@ -67,32 +95,33 @@ export class DBSCANClustering implements IClusterStrategy {
       }
       
       // Find all points in the neighborhood
-      const neighborIndices = this.regionQuery(i, filteredRequests, epsilon, params);
+      const neighborIndices = this.regionQuery(i, filteredRequests, epsilon, settings, index);
       
       // Check if point is a core point (has enough neighbors)
       if (neighborIndices.length < minPoints) {
         classifications[i] = this.NOISE;
-        console.log(`Point ${i} marked as NOISE (${neighborIndices.length} neighbors)`);
         continue;
       }
       
       // Start a new cluster
       clusterId++;
       classifications[i] = clusterId;
-      console.log(`Starting cluster ${clusterId} from point ${i} with ${neighborIndices.length} neighbors`);
       
       // Expand the cluster
-      this.expandCluster(i, neighborIndices, clusterId, classifications, filteredRequests, epsilon, minPoints, params, absorbedNoisePoints);
+      this.expandCluster(i, neighborIndices, clusterId, classifications, filteredRequests, epsilon, minPoints, settings, absorbedNoisePoints, index);
     }
     
+    // Group requests by cluster in a single pass
+    const requestsByCluster: RideRequest[][] = Array.from({ length: clusterId + 1 }, () => []);
+    classifications.forEach((cId, idx) => {
+      if (cId > 0) {
+        requestsByCluster[cId].push(filteredRequests[idx]);
+      }
+    });
+    
     // Convert classification results to cluster objects
     for (let cId = 1; cId <= clusterId; cId++) {
-      const clusterRequestIndices = classifications
-        .map((val, idx) => ({ val, idx }))
-        .filter(item => item.val === cId)
-        .map(item => item.idx);
-      
-      const clusterRequests = clusterRequestIndices.map(idx => filteredRequests[idx]);
+      const clusterRequests = requestsByCluster[cId];
       
       // Skip empty clusters
       if (clusterRequests.length === 0) continue;
@@ -104,7 +133,7 @@ export class DBSCANClustering implements IClusterStrategy {
       };
       
       clusters.push({
-        id: uuidv4(),
+        id: createId(params.random),
         centroid,
         requests: clusterRequests
       });
@@ -121,9 +150,8 @@ export class DBSCANClustering implements IClusterStrategy {
     
     for (const idx of noiseIndices) {
       const request = filteredRequests[idx];
-      console.log(`Creating single-passenger cluster for noise point ${idx}`);
       clusters.push({
-        id: uuidv4(),
+        id: createId(params.random),
         centroid: { ...request.pickupLocation },
         requests: [request]
       });
@@ -150,7 +178,7 @@ export class DBSCANClustering implements IClusterStrategy {
         const request = filteredRequests[idx];
         console.log(`Creating emergency single-passenger cluster for unaccounted request ${idx}`);
         clusters.push({
-          id: uuidv4(),
+          id: createId(params.random),
           centroid: { ...request.pickupLocation },
           requests: [request]
         });
@@ -163,6 +191,35 @@ export class DBSCANClustering implements IClusterStrategy {
     return clusters;
   }
   
+  /**
+   * Build a grid index whose cells match the largest spatial and temporal gaps
+   * that can still fall within epsilon. Returns null when epsilon is so large that
+   * any pair could be neighbors, in which case a full scan is needed anyway.
+   */
+  private buildIndex(
+    requests: RideRequest[],
+    epsilon: number,
+    settings: SpatioTemporalDistanceSettings
+  ): RegionIndex | null {
+    const { radiusKm, radiusMinutes } = neighborhoodRadius(epsilon, settings);
+    
+    if (!Number.isFinite(radiusKm) || radiusKm <= 0) {
+      return null;
+    }
+    
+    const grid = new SpatialGridIndex(
+      requests,
+      request => request.pickupLocation,
+      {
+        cellSizeKm: radiusKm,
+        timeBucketMinutes: Number.isFinite(radiusMinutes) && radiusMinutes > 0 ? radiusMinutes : undefined
+      },
+      request => request.timestamp
+    );
+    
+    return { grid, radiusKm, radiusMinutes };
+  }
+  
   /**
    * Find all points in the epsilon-neighborhood of the point at pointIndex
    */
@@ -170,18 +227,27 @@ export class DBSCANClustering implements IClusterStrategy {
     pointIndex: number, 
     requests: RideRequest[], 
     epsilon: number, 
-    params: ClusterParams
+    settings: SpatioTemporalDistanceSettings,
+    index: RegionIndex | null
   ): number[] {
     const neighbors: number[] = [];
     
-    for (let i = 0; i < requests.length; i++) {
+    // Only candidates from nearby grid cells can be within epsilon
+    const candidates = index
+      ? index.grid.queryCandidates(
+          requests[pointIndex].pickupLocation,
+          index.radiusKm,
+          requests[pointIndex].timestamp,
+          index.radiusMinutes
+        )
+      : null;
+    const count = candidates ? candidates.length : requests.length;
+    
+    for (let c = 0; c < count; c++) {
+      const i = candidates ? candidates[c] : c;
       if (i === pointIndex) continue;
       
-      const distance = this.calculateSpatioTemporalDistance(
-        requests[pointIndex], 
-        requests[i], 
-        params.maxDistanceKm
-      );
+      const distance = spatioTemporalDistance(requests[pointIndex], requests[i], settings);
       
       if (distance <= epsilon) {
         neighbors.push(i);
@@ -202,11 +268,13 @@ export class DBSCANClustering implements IClusterStrategy {
     requests: RideRequest[],
     epsilon: number,
     minPoints: number,
-    params: ClusterParams,
-    absorbedNoisePoints: number[]
+    settings: SpatioTemporalDistanceSettings,
+    absorbedNoisePoints: number[],
+    index: RegionIndex | null
   ): void {
     // Process all seeds (neighbors of the core point)
-    let seeds = [...neighborIndices];
+    const seeds = [...neighborIndices];
+    const seedSet = new Set(seeds);
     let seedIndex = 0;
     
     while (seedIndex < seeds.length) {
@@ -216,26 +284,24 @@ export class DBSCANClustering implements IClusterStrategy {
       if (classifications[currentPointIndex] === this.NOISE) {
         classifications[currentPointIndex] = clusterId;
         absorbedNoisePoints.push(currentPointIndex);
-        console.log(`Noise point ${currentPointIndex} absorbed into cluster ${clusterId}`);
       }
       
       // If point is not yet classified, add it to the current cluster
       if (classifications[currentPointIndex] === this.UNCLASSIFIED) {
         classifications[currentPointIndex] = clusterId;
-        console.log(`Unclassified point ${currentPointIndex} added to cluster ${clusterId}`);
         
         // Find all neighbors of the current point
         const currentNeighbors = this.regionQuery(
           currentPointIndex, 
           requests, 
           epsilon, 
-          params
+          settings,
+          index
         );
         
         // If current point is a core point, add its neighbors to the seeds list
         if (currentNeighbors.length >= minPoints) {
-          console.log(`Point ${currentPointIndex} is a core point with ${currentNeighbors.length} neighbors, expanding cluster`);
-          seeds = this.mergeArrays(seeds, currentNeighbors);
+          this.mergeInto(seeds, seedSet, currentNeighbors);
         }
       }
       
@@ -244,61 +310,14 @@ export class DBSCANClustering implements IClusterStrategy {
   }
   
   /**
-   * Merge arrays without duplicates
+   * Append values to the target array, skipping any already present
    */
-  private mergeArrays(arr1: number[], arr2: number[]): number[] {
-    const result = [...arr1];
-    
-    for (const value of arr2) {
-      if (!result.includes(value)) {
-        result.push(value);
+  private mergeInto(target: number[], targetSet: Set<number>, values: number[]): void {
+    for (const value of values) {
+      if (!targetSet.has(value)) {
+        targetSet.add(value);
+        target.push(value);
       }
     }
-    
-    return result;
-  }
-  
-  /**
-   * Calculate a normalized distance that combines both spatial and temporal components
-   * Returns a value between 0 and 1, where:
-   * - 0 means requests are identical in space and time
-   * - 1 means requests are at max distance in space and/or time
-   */
-  private calculateSpatioTemporalDistance(
-    request1: RideRequest, 
-    request2: RideRequest, 
-    maxDistanceKm: number
-  ): number {
-    // Calculate spatial distance (in km)
-    const spatialDistance = haversineDistance(
-      request1.pickupLocation, 
-      request2.pickupLocation
-    );
-    
-    // Calculate temporal distance (in minutes)
-    const temporalDistance = Math.abs(
-      (request1.timestamp.getTime() - request2.timestamp.getTime()) / (60 * 1000)
-    );
-    
-    // Normalize distances to [0, 1] range
-    // Use a more flexible spatial normalization for ride-sharing
-    const spatialThreshold = Math.min(this.MAX_SPATIAL_DISTANCE_KM, maxDistanceKm);
-    const normalizedSpatialDistance = Math.min(spatialDistance / spatialThreshold, 1);
-    
-    const normalizedTemporalDistance = Math.min(
-      temporalDistance / this.MAX_TEMPORAL_DISTANCE_MIN, 
-      1
-    );
-    
-    // Combine spatial and temporal distances (with spatial having more weight)
-    // Weight distribution: 80% spatial, 20% temporal
-    const combinedDistance = (normalizedSpatialDistance * 0.8) + (normalizedTemporalDistance * 0.2);
-    
-    // Debug logging for distance calculation
-    if (spatialDistance < 0.5 && temporalDistance < 5) {
-      console.log(`Distance calculation: spatial=${spatialDistance.toFixed(3)}km, temporal=${temporalDistance.toFixed(1)}min, combined=${combinedDistance.toFixed(3)}`);
-    }
-    
-    return combinedDistance;
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
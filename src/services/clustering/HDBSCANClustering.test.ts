@@ -0,0 +1,60 @@
+import { HDBSCANClustering } from './HDBSCANClustering';
+import { RideRequest } from '../../models/types';
+import { createSeededRandom } from '../../utils/random';
+
+const params = { timeWindowMinutes: 30, maxDistanceKm: 2 };
+
+/**
+ * A dense blob of riders around a point, all requesting within a couple of minutes
+ */
+const blob = (prefix: string, lat: number, lng: number, count: number, spread: number, seed: number): RideRequest[] => {
+  const random = createSeededRandom(seed);
+  const now = Date.now();
+
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${prefix}-${i}`,
+    pickupLocation: { lat: lat + (random() - 0.5) * spread, lng: lng + (random() - 0.5) * spread },
+    dropoffLocation: { lat: 40.78, lng: -73.96 },
+    timestamp: new Date(now - random() * 2 * 60 * 1000)
+  }));
+};
+
+describe('HDBSCANClustering', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('finds dense and sparse groups and turns outliers into single-passenger clusters', () => {
+    const requests = [
+      ...blob('midtown', 40.755, -73.985, 12, 0.002, 1),
+      ...blob('uptown', 40.8, -73.95, 6, 0.008, 2),
+      { id: 'outlier', pickupLocation: { lat: 40.7, lng: -73.9 }, dropoffLocation: { lat: 40.78, lng: -73.96 }, timestamp: new Date() }
+    ];
+
+    const clusters = new HDBSCANClustering().cluster(requests, { ...params, minClusterSize: 4 });
+
+    const groups = clusters
+      .filter(cluster => cluster.requests.length > 1)
+      .map(cluster => Array.from(new Set(cluster.requests.map(request => request.id.split('-')[0]))));
+    expect(groups.sort()).toEqual([['midtown'], ['uptown']]);
+
+    clusters
+      .filter(cluster => cluster.requests.length > 1)
+      .forEach(cluster => expect(cluster.stability).toBeGreaterThan(0));
+
+    const outlier = clusters.find(cluster => cluster.requests.some(request => request.id === 'outlier'));
+    expect(outlier?.requests).toHaveLength(1);
+    expect(outlier?.stability).toBeUndefined();
+
+    expect(clusters.reduce((sum, cluster) => sum + cluster.requests.length, 0)).toBe(requests.length);
+  });
+
+  test('rejects a minimum cluster size below two', () => {
+    expect(() => new HDBSCANClustering().cluster(blob('a', 40.75, -73.98, 5, 0.002, 3), { ...params, minClusterSize: 1 }))
+      .toThrow(/Min cluster size/);
+  });
+});
@@ -0,0 +1,357 @@
+import { IClusterStrategy, ClusterParams } from '../interfaces';
+import { Cluster, RideRequest } from '../../models/types';
+import { createId } from '../../utils/random';
+import { resolveClusterTuning, validateClusterTuning } from './clusterTuning';
+import { SpatioTemporalDistanceSettings, resolveDistanceSettings, spatioTemporalDistance } from './spatioTemporalDistance';
+import { filterByTimeWindow } from './timeWindow';
+
+// Node of the single-linkage dendrogram; indices below the point count are points
+interface LinkageNode {
+  left: number;
+  right: number;
+  distance: number;
+  size: number;
+}
+
+// Edge of the condensed cluster tree: a point or child cluster leaving a cluster at lambda = 1 / distance
+interface CondensedEntry {
+  parent: number;
+  point?: number;
+  childCluster?: number;
+  lambda: number;
+  size: number;
+}
+
+// Smallest distance used when converting to lambda, so identical requests do not produce infinite density
+const MIN_DISTANCE = 1e-9;
+
+/**
+ * HDBSCAN (Hierarchical DBSCAN) implementation for clustering ride requests
+ * using the same spatio-temporal distance as DBSCAN.
+ *
+ * Instead of one global epsilon, HDBSCAN builds the full density hierarchy
+ * (a minimum spanning tree over mutual reachability distances), condenses it
+ * using the minimum cluster size and keeps the clusters that persist over the
+ * widest range of densities. This copes with dense downtown blobs and sparse
+ * outlying demand in the same run.
+ *
+ * Each resulting cluster carries its stability score; noise points become
+ * single-passenger clusters as in DBSCAN.
+ */
+export class HDBSCANClustering implements IClusterStrategy {
+  cluster(requests: RideRequest[], params: ClusterParams): Cluster[] {
+    const errors = validateClusterTuning({ ...params, algorithm: 'hdbscan' });
+    if (errors.length > 0) {
+      throw new Error(`Invalid clustering parameters: ${errors.join('; ')}`);
+    }
+
+    // Filter requests to the time window around the reference time
+    const { inWindow: filteredRequests, filtered } = filterByTimeWindow(requests, params);
+    if (filtered.length > 0) {
+      console.log(`HDBSCAN: ${filtered.length} requests outside the time window were not clustered`);
+    }
+
+    if (filteredRequests.length === 0) {
+      return [];
+    }
+
+    const { minClusterSize } = resolveClusterTuning(params);
+    const settings = resolveDistanceSettings(params);
+
+    console.log(`HDBSCAN Parameters: minClusterSize=${minClusterSize}, requests=${filteredRequests.length}`);
+
+    const selected = filteredRequests.length >= minClusterSize
+      ? this.extractClusters(filteredRequests, minClusterSize, settings)
+      : [];
+
+    const clusters: Cluster[] = selected.map(({ members, stability }) => {
+      const clusterRequests = members.map(idx => filteredRequests[idx]);
+      return {
+        id: createId(params.random),
+        centroid: {
+          lat: clusterRequests.reduce((sum, req) => sum + req.pickupLocation.lat, 0) / clusterRequests.length,
+          lng: clusterRequests.reduce((sum, req) => sum + req.pickupLocation.lng, 0) / clusterRequests.length
+        },
+        requests: clusterRequests,
+        stability
+      };
+    });
+
+    // Handle noise points as individual clusters
+    const clustered = new Set(selected.flatMap(({ members }) => members));
+    const noise = filteredRequests.filter((_, idx) => !clustered.has(idx));
+
+    for (const request of noise) {
+      clusters.push({
+        id: createId(params.random),
+        centroid: { ...request.pickupLocation },
+        requests: [request]
+      });
+    }
+
+    console.log(`HDBSCAN Results: ${selected.length} clusters, ${noise.length} noise points out of ${filteredRequests.length} total requests`);
+
+    return clusters;
+  }
+
+  /**
+   * Run the HDBSCAN pipeline and return the member indices and stability of each selected cluster
+   */
+  private extractClusters(
+    requests: RideRequest[],
+    minClusterSize: number,
+    settings: SpatioTemporalDistanceSettings
+  ): { members: number[]; stability: number }[] {
+    const coreDistances = this.coreDistances(requests, minClusterSize, settings);
+    const linkage = this.singleLinkage(this.minimumSpanningTree(requests, coreDistances, settings), requests.length);
+    const { entries, clusterCount } = this.condenseTree(linkage, requests.length, minClusterSize);
+    const stabilities = this.computeStabilities(entries, clusterCount);
+    const selectedClusters = this.selectClusters(entries, stabilities, clusterCount);
+
+    return selectedClusters.map(clusterId => ({
+      members: this.clusterMembers(entries, clusterId),
+      stability: stabilities[clusterId]
+    }));
+  }
+
+  /**
+   * Distance from each request to its k-th nearest neighbor (the request itself counts as the first),
+   * which measures how dense its surroundings are
+   */
+  private coreDistances(requests: RideRequest[], k: number, settings: SpatioTemporalDistanceSettings): number[] {
+    return requests.map((request, i) => {
+      const distances = requests
+        .filter((_, j) => j !== i)
+        .map(other => spatioTemporalDistance(request, other, settings))
+        .sort((a, b) => a - b);
+      return distances[Math.min(k - 2, distances.length - 1)] ?? 0;
+    });
+  }
+
+  /**
+   * Prim's algorithm over the mutual reachability distance
+   * max(core(a), core(b), distance(a, b)), computed on the fly to keep memory linear
+   */
+  private minimumSpanningTree(
+    requests: RideRequest[],
+    coreDistances: number[],
+    settings: SpatioTemporalDistanceSettings
+  ): { from: number; to: number; distance: number }[] {
+    const n = requests.length;
+    const inTree = new Array(n).fill(false);
+    const bestDistance = new Array(n).fill(Infinity);
+    const bestFrom = new Array(n).fill(-1);
+    const edges: { from: number; to: number; distance: number }[] = [];
+
+    let current = 0;
+    inTree[current] = true;
+
+    for (let added = 1; added < n; added++) {
+      let next = -1;
+
+      for (let j = 0; j < n; j++) {
+        if (inTree[j]) continue;
+
+        const reachability = Math.max(
+          coreDistances[current],
+          coreDistances[j],
+          spatioTemporalDistance(requests[current], requests[j], settings)
+        );
+        if (reachability < bestDistance[j]) {
+          bestDistance[j] = reachability;
+          bestFrom[j] = current;
+        }
+        if (next === -1 || bestDistance[j] < bestDistance[next]) {
+          next = j;
+        }
+      }
+
+      inTree[next] = true;
+      edges.push({ from: bestFrom[next], to: next, distance: bestDistance[next] });
+      current = next;
+    }
+
+    return edges;
+  }
+
+  /**
+   * Merge points along MST edges in order of increasing distance into a dendrogram.
+   * Node n + i is created by the i-th merge; the last node is the root.
+   */
+  private singleLinkage(edges: { from: number; to: number; distance: number }[], n: number): LinkageNode[] {
+    const parent = Array.from({ length: 2 * n - 1 }, (_, i) => i);
+    const find = (x: number): number => {
+      while (parent[x] !== x) {
+        parent[x] = parent[parent[x]];
+        x = parent[x];
+      }
+      return x;
+    };
+
+    const sizes = new Array(2 * n - 1).fill(1);
+    const nodes: LinkageNode[] = [];
+
+    [...edges]
+      .sort((a, b) => a.distance - b.distance)
+      .forEach((edge, i) => {
+        const left = find(edge.from);
+        const right = find(edge.to);
+        const node = n + i;
+
+        sizes[node] = sizes[left] + sizes[right];
+        parent[left] = node;
+        parent[right] = node;
+        nodes.push({ left, right, distance: edge.distance, size: sizes[node] });
+      });
+
+    return nodes;
+  }
+
+  /**
+   * Walk the dendrogram from the root, treating splits that shed fewer than
+   * minClusterSize points as points falling out of the cluster rather than new clusters.
+   * Cluster 0 is the root; child clusters always get higher ids than their parent.
+   */
+  private condenseTree(
+    linkage: LinkageNode[],
+    n: number,
+    minClusterSize: number
+  ): { entries: CondensedEntry[]; clusterCount: number } {
+    const entries: CondensedEntry[] = [];
+    const sizeOf = (node: number) => (node < n ? 1 : linkage[node - n].size);
+    let clusterCount = 1;
+
+    if (n === 1) {
+      entries.push({ parent: 0, point: 0, lambda: 1 / MIN_DISTANCE, size: 1 });
+      return { entries, clusterCount };
+    }
+
+    // Every point below a node leaves the given cluster at the given lambda
+    const dropPoints = (node: number, clusterId: number, lambda: number) => {
+      const stack = [node];
+      while (stack.length > 0) {
+        const current = stack.pop() as number;
+        if (current < n) {
+          entries.push({ parent: clusterId, point: current, lambda, size: 1 });
+        } else {
+          stack.push(linkage[current - n].left, linkage[current - n].right);
+        }
+      }
+    };
+
+    // Iterative to avoid deep recursion on chain-like hierarchies
+    const stack: { node: number; clusterId: number }[] = [{ node: 2 * n - 2, clusterId: 0 }];
+
+    while (stack.length > 0) {
+      const { node, clusterId } = stack.pop() as { node: number; clusterId: number };
+      const { left, right, distance } = linkage[node - n];
+      const lambda = 1 / Math.max(distance, MIN_DISTANCE);
+      const leftBig = sizeOf(left) >= minClusterSize;
+      const rightBig = sizeOf(right) >= minClusterSize;
+
+      if (leftBig && rightBig) {
+        // A true split: both sides become new clusters
+        for (const child of [left, right]) {
+          const childCluster = clusterCount++;
+          entries.push({ parent: clusterId, childCluster, lambda, size: sizeOf(child) });
+          stack.push({ node: child, clusterId: childCluster });
+        }
+      } else {
+        // Small sides shed their points; a large side carries on as the same cluster
+        for (const [child, big] of [[left, leftBig], [right, rightBig]] as [number, boolean][]) {
+          if (big && child >= n) {
+            stack.push({ node: child, clusterId });
+          } else {
+            dropPoints(child, clusterId, lambda);
+          }
+        }
+      }
+    }
+
+    return { entries, clusterCount };
+  }
+
+  /**
+   * Stability of a cluster: the sum over its points of how long (in lambda) they stayed in it
+   */
+  private computeStabilities(entries: CondensedEntry[], clusterCount: number): number[] {
+    const birth = new Array(clusterCount).fill(0);
+    entries.forEach(entry => {
+      if (entry.childCluster !== undefined) {
+        birth[entry.childCluster] = entry.lambda;
+      }
+    });
+
+    const stabilities = new Array(clusterCount).fill(0);
+    entries.forEach(entry => {
+      stabilities[entry.parent] += (entry.lambda - birth[entry.parent]) * entry.size;
+    });
+
+    return stabilities;
+  }
+
+  /**
+   * Excess-of-mass selection: keep a cluster when it is more stable than its selected
+   * descendants combined. The root is never selected, matching standard HDBSCAN.
+   */
+  private selectClusters(entries: CondensedEntry[], stabilities: number[], clusterCount: number): number[] {
+    const children: number[][] = Array.from({ length: clusterCount }, () => []);
+    entries.forEach(entry => {
+      if (entry.childCluster !== undefined) {
+        children[entry.parent].push(entry.childCluster);
+      }
+    });
+
+    const subtreeStability = [...stabilities];
+    const selected = new Array(clusterCount).fill(false);
+
+    // Children have higher ids than their parents, so walk ids downwards
+    for (let clusterId = clusterCount - 1; clusterId > 0; clusterId--) {
+      const childStability = children[clusterId].reduce((sum, child) => sum + subtreeStability[child], 0);
+
+      if (children[clusterId].length === 0 || stabilities[clusterId] >= childStability) {
+        selected[clusterId] = true;
+        this.forEachDescendant(children, clusterId, descendant => {
+          selected[descendant] = false;
+        });
+      } else {
+        subtreeStability[clusterId] = childStability;
+      }
+    }
+
+    return selected
+      .map((isSelected, clusterId) => (isSelected ? clusterId : -1))
+      .filter(clusterId => clusterId > 0);
+  }
+
+  /**
+   * All points that belong to a cluster or any of its descendants
+   */
+  private clusterMembers(entries: CondensedEntry[], clusterId: number): number[] {
+    const children: number[][] = [];
+    const points: number[][] = [];
+    entries.forEach(entry => {
+      if (entry.childCluster !== undefined) {
+        (children[entry.parent] = children[entry.parent] ?? []).push(entry.childCluster);
+      } else if (entry.point !== undefined) {
+        (points[entry.parent] = points[entry.parent] ?? []).push(entry.point);
+      }
+    });
+
+    const members = [...(points[clusterId] ?? [])];
+    this.forEachDescendant(children, clusterId, descendant => {
+      members.push(...(points[descendant] ?? []));
+    });
+
+    return members.sort((a, b) => a - b);
+  }
+
+  private forEachDescendant(children: number[][], clusterId: number, visit: (descendant: number) => void): void {
+    const stack = [...(children[clusterId] ?? [])];
+    while (stack.length > 0) {
+      const descendant = stack.pop() as number;
+      visit(descendant);
+      stack.push(...(children[descendant] ?? []));
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { IncrementalDBSCANClustering } from './IncrementalDBSCANClustering';
+import { DBSCANClustering } from './DBSCANClustering';
+import { Cluster, RideRequest } from '../../models/types';
+import { createSeededRandom } from '../../utils/random';
+import { resolveDistanceSettings, spatioTemporalDistance } from './spatioTemporalDistance';
+
+const params = { timeWindowMinutes: 30, maxDistanceKm: 2, epsilon: 0.15, adaptiveEpsilon: false, minPoints: 2 };
+
+const request = (id: string, lat: number, lng: number, minutesAgo = 1): RideRequest => ({
+  id,
+  pickupLocation: { lat, lng },
+  dropoffLocation: { lat: 40.78, lng: -73.96 },
+  timestamp: new Date(Date.now() - minutesAgo * 60 * 1000)
+});
+
+const createRequests = (count: number, seed: number): RideRequest[] => {
+  const random = createSeededRandom(seed);
+  return Array.from({ length: count }, (_, i) =>
+    request(`request-${i}`, 40.7 + random() * 0.1, -74 + random() * 0.1, random() * 20));
+};
+
+/**
+ * Core requests grouped by cluster, which DBSCAN determines independently of processing order
+ */
+const coreGroups = (clusters: Cluster[], requests: RideRequest[]) => {
+  const settings = resolveDistanceSettings(params);
+  const isCore = (candidate: RideRequest) => requests.filter(other =>
+    other !== candidate && spatioTemporalDistance(candidate, other, settings) <= params.epsilon).length >= params.minPoints;
+
+  return clusters
+    .map(cluster => cluster.requests.filter(isCore).map(member => member.id).sort().join(','))
+    .filter(group => group.length > 0)
+    .sort();
+};
+
+const clusterOf = (clusters: Cluster[], requestId: string) =>
+  clusters.find(cluster => cluster.requests.some(member => member.id === requestId));
+
+describe('IncrementalDBSCANClustering', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('matches batch DBSCAN while requests arrive and expire', () => {
+    const requests = createRequests(300, 3);
+    const random = createSeededRandom(9);
+    const clustering = new IncrementalDBSCANClustering();
+    let live: RideRequest[] = [];
+
+    for (let start = 0; start < requests.length; start += 30) {
+      const added = requests.slice(start, start + 30);
+      const expired = live.filter(() => random() < 0.2);
+      live = [...live.filter(candidate => !expired.includes(candidate)), ...added];
+
+      const clusters = clustering.update(added, expired.map(candidate => candidate.id), params);
+
+      expect(clusters.reduce((sum, cluster) => sum + cluster.requests.length, 0)).toBe(live.length);
+      expect(coreGroups(clusters, live)).toEqual(coreGroups(new DBSCANClustering().cluster(live, params), live));
+    }
+  });
+
+  test('a new request can turn an existing neighbor into a core', () => {
+    const chainParams = { ...params, epsilon: 0.22 };
+    const chain = [request('A', 40.75, -73.98), request('B', 40.75, -73.975), request('X', 40.75, -73.97)];
+    const groups = (clusters: Cluster[]) => clusters.map(cluster => cluster.requests.map(member => member.id).sort()).sort();
+    const clustering = new IncrementalDBSCANClustering();
+
+    clustering.update(chain.slice(0, 2), [], chainParams);
+    const clusters = clustering.update(chain.slice(2), [], chainParams);
+
+    // X is only a neighbor of B, which now has two neighbors and pulls A and X into its cluster
+    expect(groups(clusters)).toEqual([['A', 'B', 'X']]);
+    expect(groups(clusters)).toEqual(groups(new DBSCANClustering().cluster(chain, chainParams)));
+  });
+
+  test('keeps cluster IDs of untouched clusters and of clusters that grow', () => {
+    const clustering = new IncrementalDBSCANClustering();
+    const first = clustering.cluster([
+      request('a1', 40.75, -73.98), request('a2', 40.7501, -73.98), request('a3', 40.75, -73.9801),
+      request('b1', 40.8, -73.95), request('b2', 40.8001, -73.95), request('b3', 40.8, -73.9501)
+    ], params);
+
+    const second = clustering.update([request('a4', 40.7502, -73.9801)], [], params);
+
+    expect(clusterOf(second, 'a4')?.id).toBe(clusterOf(first, 'a1')?.id);
+    expect(clusterOf(second, 'b1')?.id).toBe(clusterOf(first, 'b1')?.id);
+    expect(clusterOf(second, 'a4')?.requests).toHaveLength(4);
+  });
+
+  test('dissolves a cluster into noise when its requests expire and keeps noise IDs stable', () => {
+    const clustering = new IncrementalDBSCANClustering();
+    clustering.update([request('a1', 40.75, -73.98), request('a2', 40.7501, -73.98), request('a3', 40.75, -73.9801)], [], params);
+
+    const afterExpiry = clustering.update([], ['a3'], params);
+    expect(afterExpiry).toHaveLength(2);
+    afterExpiry.forEach(cluster => expect(cluster.requests).toHaveLength(1));
+
+    const later = clustering.update([request('far', 40.6, -74.1)], [], params);
+    expect(clusterOf(later, 'a1')?.id).toBe(clusterOf(afterExpiry, 'a1')?.id);
+  });
+
+  test('bridging requests merge clusters under the larger cluster ID', () => {
+    const clustering = new IncrementalDBSCANClustering();
+    const before = clustering.cluster([
+      request('a1', 40.75, -73.98), request('a2', 40.7501, -73.98), request('a3', 40.75, -73.9801), request('a4', 40.7499, -73.98),
+      request('b1', 40.75, -73.96), request('b2', 40.7501, -73.96), request('b3', 40.75, -73.9601)
+    ], params);
+
+    const bridge = Array.from({ length: 7 }, (_, i) => request(`bridge${i}`, 40.75, -73.9775 + i * 0.0025));
+    const after = clustering.update(bridge, [], params);
+
+    expect(clusterOf(after, 'b1')?.id).toBe(clusterOf(after, 'a1')?.id);
+    expect(clusterOf(after, 'a1')?.id).toBe(clusterOf(before, 'a1')?.id);
+  });
+
+  test('rejects invalid tuning', () => {
+    expect(() => new IncrementalDBSCANClustering().update([], [], { ...params, epsilon: 1.5 })).toThrow(/Epsilon/);
+  });
+});
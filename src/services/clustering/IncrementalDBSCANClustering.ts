@@ -0,0 +1,365 @@
+import { IIncrementalClusterStrategy, ClusterParams } from '../interfaces';
+import { Cluster, RideRequest } from '../../models/types';
+import { RandomSource, createId } from '../../utils/random';
+import { SpatialGridIndex } from '../../utils/spatialIndex';
+import { resolveClusterTuning, validateClusterTuning } from './clusterTuning';
+import {
+  SpatioTemporalDistanceSettings,
+  resolveDistanceSettings,
+  spatioTemporalDistance,
+  neighborhoodRadius
+} from './spatioTemporalDistance';
+
+// Extra latitude covered when the grid has to be rebuilt for a request further from the equator
+const LATITUDE_MARGIN = 1;
+
+/**
+ * Live request along with its epsilon-neighborhood and current label
+ */
+interface PointState {
+  request: RideRequest;
+  slot: number; // index of the request in the grid
+  neighbors: Set<string>; // ids of requests within epsilon, not counting itself
+  clusterId?: string; // unset for noise
+  noiseId?: string; // id of the single-passenger cluster while this request is noise
+}
+
+interface IncrementalSettings {
+  key: string; // identifies the settings, to detect when neighborhoods must be recomputed
+  epsilon: number;
+  minPoints: number;
+  distance: SpatioTemporalDistanceSettings;
+}
+
+/**
+ * DBSCAN that is kept up to date as requests arrive and expire, instead of
+ * re-clustering every live request on each call.
+ *
+ * Each update only recomputes neighborhoods around the added and expired requests and
+ * relabels the clusters they touch (plus any cluster they merge with). Relabeled clusters
+ * keep the ID of the previous cluster they share most requests with, so IDs stay stable
+ * across updates; noise requests keep the ID of their single-passenger cluster too.
+ *
+ * Epsilon is the configured epsilon: adaptive and automatic epsilon would change the
+ * neighborhood of every request whenever the request count changes.
+ * Requests are not filtered by time; callers expire them.
+ */
+export class IncrementalDBSCANClustering implements IIncrementalClusterStrategy {
+  private points = new Map<string, PointState>(); // in arrival order
+  private clusters = new Map<string, Set<string>>(); // cluster id -> member request ids, in creation order
+  private slots = new Map<number, string>(); // grid index -> request id
+  private nextSlot = 0;
+  private grid: SpatialGridIndex<RideRequest> | null = null;
+  private settings: IncrementalSettings | null = null;
+
+  /**
+   * Treat the given requests as the complete live set: requests not seen before are added
+   * and live requests missing from the list are expired
+   */
+  cluster(requests: RideRequest[], params: ClusterParams): Cluster[] {
+    const live = new Set(requests.map(request => request.id));
+    const added = requests.filter(request => !this.points.has(request.id));
+    const expiredIds = Array.from(this.points.keys()).filter(id => !live.has(id));
+
+    return this.update(added, expiredIds, params);
+  }
+
+  /**
+   * Add newly arrived requests and remove expired ones, relabeling only the affected clusters
+   *
+   * @param added Requests that arrived since the last update
+   * @param expiredIds IDs of requests that left the live set (served, cancelled or timed out)
+   * @param params Clustering parameters; changing the tuning recomputes every neighborhood
+   * @returns All live clusters, noise as single-passenger clusters
+   */
+  update(added: RideRequest[], expiredIds: string[], params: ClusterParams): Cluster[] {
+    const touched = this.configure(params);
+    const dirty = new Set<string>();
+
+    for (const id of expiredIds) {
+      const point = this.points.get(id);
+      if (!point) continue;
+
+      point.neighbors.forEach(neighborId => {
+        this.points.get(neighborId)?.neighbors.delete(id);
+        touched.add(neighborId);
+      });
+      if (point.clusterId) {
+        this.clusters.get(point.clusterId)?.delete(id);
+        dirty.add(point.clusterId);
+      }
+
+      this.grid?.remove(point.request, point.slot);
+      this.slots.delete(point.slot);
+      this.points.delete(id);
+      touched.delete(id);
+    }
+
+    for (const request of added) {
+      if (this.points.has(request.id)) continue;
+      // Neighbors may become core, so their labels can change just as when a request expires
+      this.insert(request).neighbors.forEach(neighborId => touched.add(neighborId));
+      touched.add(request.id);
+    }
+
+    this.relabel(touched, dirty, params.random);
+
+    const clusters = this.getClusters();
+    console.log(
+      `Incremental DBSCAN: +${added.length} -${expiredIds.length} requests, relabeled ${touched.size} around ` +
+      `${dirty.size} changed clusters; ${this.points.size} live requests in ${clusters.length} clusters`
+    );
+
+    return clusters;
+  }
+
+  /**
+   * Current clusters without changing anything, noise as single-passenger clusters
+   */
+  getClusters(): Cluster[] {
+    const clusters: Cluster[] = [];
+
+    this.clusters.forEach((memberIds, id) => {
+      const requests = Array.from(memberIds).map(memberId => (this.points.get(memberId) as PointState).request);
+      clusters.push({
+        id,
+        centroid: {
+          lat: requests.reduce((sum, request) => sum + request.pickupLocation.lat, 0) / requests.length,
+          lng: requests.reduce((sum, request) => sum + request.pickupLocation.lng, 0) / requests.length
+        },
+        requests
+      });
+    });
+
+    this.points.forEach(point => {
+      if (!point.clusterId) {
+        clusters.push({
+          id: point.noiseId as string,
+          centroid: { ...point.request.pickupLocation },
+          requests: [point.request]
+        });
+      }
+    });
+
+    return clusters;
+  }
+
+  /**
+   * Forget every live request and cluster
+   */
+  reset(): void {
+    this.points = new Map();
+    this.clusters = new Map();
+    this.slots = new Map();
+    this.nextSlot = 0;
+    this.grid = null;
+    this.settings = null;
+  }
+
+  /**
+   * Apply the clustering parameters. When they differ from the previous update, every
+   * neighborhood is recomputed and all live requests are returned for relabeling.
+   */
+  private configure(params: ClusterParams): Set<string> {
+    const errors = validateClusterTuning({ ...params, algorithm: 'dbscan', adaptiveEpsilon: false });
+    if (errors.length > 0) {
+      throw new Error(`Invalid clustering parameters: ${errors.join('; ')}`);
+    }
+
+    const tuning = resolveClusterTuning(params);
+    const distance = resolveDistanceSettings(params);
+    const key = JSON.stringify({ epsilon: tuning.epsilon, minPoints: tuning.minPoints, distance });
+
+    if (this.settings?.key === key) {
+      return new Set();
+    }
+
+    this.settings = { key, epsilon: tuning.epsilon, minPoints: tuning.minPoints, distance };
+
+    const live = Array.from(this.points.values());
+    live.forEach(point => point.neighbors.clear());
+    this.rebuildGrid(live.reduce((max, point) => Math.max(max, Math.abs(point.request.pickupLocation.lat)), 0));
+    live.forEach(point => this.linkNeighbors(point));
+
+    return new Set(this.points.keys());
+  }
+
+  /**
+   * Index a new request and link it with its neighbors
+   */
+  private insert(request: RideRequest): PointState {
+    if (this.grid && Math.abs(request.pickupLocation.lat) > this.grid.maxAbsLatitude) {
+      this.rebuildGrid(Math.abs(request.pickupLocation.lat));
+    }
+
+    const point: PointState = { request, slot: this.nextSlot++, neighbors: new Set() };
+    this.linkNeighbors(point);
+
+    this.points.set(request.id, point);
+    this.slots.set(point.slot, request.id);
+    this.grid?.insert(request, point.slot);
+    return point;
+  }
+
+  /**
+   * Add the point to the neighborhoods of the indexed requests within epsilon, and vice versa
+   */
+  private linkNeighbors(point: PointState): void {
+    const { epsilon, distance } = this.settings as IncrementalSettings;
+    const { radiusKm, radiusMinutes } = neighborhoodRadius(epsilon, distance);
+
+    const candidates = this.grid
+      ? this.grid
+          .queryCandidates(point.request.pickupLocation, radiusKm, point.request.timestamp, radiusMinutes)
+          .map(slot => this.slots.get(slot) as string)
+      : Array.from(this.points.keys());
+
+    for (const id of candidates) {
+      const other = this.points.get(id);
+      if (!other || other === point) continue;
+
+      if (spatioTemporalDistance(point.request, other.request, distance) <= epsilon) {
+        point.neighbors.add(id);
+        other.neighbors.add(point.request.id);
+      }
+    }
+  }
+
+  /**
+   * Re-create the grid so it covers requests up to the given latitude.
+   * Without a finite neighborhood radius every pair must be compared, so no grid is kept.
+   */
+  private rebuildGrid(maxAbsLatitude: number): void {
+    const { epsilon, distance } = this.settings as IncrementalSettings;
+    const { radiusKm, radiusMinutes } = neighborhoodRadius(epsilon, distance);
+
+    if (!Number.isFinite(radiusKm) || radiusKm <= 0) {
+      this.grid = null;
+      return;
+    }
+
+    const grid = new SpatialGridIndex<RideRequest>(
+      [],
+      request => request.pickupLocation,
+      {
+        cellSizeKm: radiusKm,
+        timeBucketMinutes: Number.isFinite(radiusMinutes) && radiusMinutes > 0 ? radiusMinutes : undefined,
+        maxAbsLatitude: Math.min(maxAbsLatitude + LATITUDE_MARGIN, 90)
+      },
+      request => request.timestamp
+    );
+    this.points.forEach(point => grid.insert(point.request, point.slot));
+    this.grid = grid;
+  }
+
+  /**
+   * Relabel the touched requests and every member of the clusters they belong to.
+   * Clusters outside that region keep their labels unless a relabeled core reaches
+   * one of their cores, in which case they are merged in.
+   */
+  private relabel(touched: Set<string>, dirty: Set<string>, random?: RandomSource): void {
+    const { minPoints } = this.settings as IncrementalSettings;
+    const isCore = (point: PointState) => point.neighbors.size >= minPoints;
+
+    touched.forEach(id => {
+      const clusterId = this.points.get(id)?.clusterId;
+      if (clusterId) dirty.add(clusterId);
+    });
+
+    // Labels before relabeling, to carry cluster IDs over
+    const previous = new Map<string, string>();
+    const region = new Set<string>(touched);
+    const release = (clusterId: string) => {
+      this.clusters.get(clusterId)?.forEach(memberId => {
+        region.add(memberId);
+        previous.set(memberId, clusterId);
+        (this.points.get(memberId) as PointState).clusterId = undefined;
+      });
+      this.clusters.get(clusterId)?.clear();
+      dirty.add(clusterId);
+    };
+    Array.from(dirty).forEach(release);
+
+    // Grow components through core points, in arrival order so results are deterministic
+    const ordered = Array.from(this.points.values()).filter(point => region.has(point.request.id));
+    const assigned = new Set<string>();
+    const components: PointState[][] = [];
+
+    for (const start of ordered) {
+      if (assigned.has(start.request.id) || !isCore(start)) continue;
+
+      const component: PointState[] = [start];
+      assigned.add(start.request.id);
+
+      for (let i = 0; i < component.length; i++) {
+        const current = component[i];
+        if (!isCore(current)) continue;
+
+        current.neighbors.forEach(neighborId => {
+          if (assigned.has(neighborId)) return;
+          const neighbor = this.points.get(neighborId) as PointState;
+
+          if (neighbor.clusterId) {
+            // Border points of untouched clusters stay put; reaching a core merges the cluster
+            if (!isCore(neighbor)) return;
+            release(neighbor.clusterId);
+          }
+
+          assigned.add(neighborId);
+          component.push(neighbor);
+        });
+      }
+
+      components.push(component);
+    }
+
+    // Largest components claim their previous IDs first
+    components.sort((a, b) => b.length - a.length);
+    const reused = new Set<string>();
+
+    for (const component of components) {
+      const overlap = new Map<string, number>();
+      component.forEach(point => {
+        const clusterId = previous.get(point.request.id);
+        if (clusterId && !reused.has(clusterId)) overlap.set(clusterId, (overlap.get(clusterId) ?? 0) + 1);
+      });
+
+      let clusterId = '';
+      let best = 0;
+      overlap.forEach((count, candidate) => {
+        if (count > best) {
+          best = count;
+          clusterId = candidate;
+        }
+      });
+      if (!clusterId) clusterId = createId(random);
+      reused.add(clusterId);
+
+      this.clusters.set(clusterId, new Set(component.map(point => point.request.id)));
+      component.forEach(point => {
+        point.clusterId = clusterId;
+      });
+    }
+
+    dirty.forEach(clusterId => {
+      if (!reused.has(clusterId)) this.clusters.delete(clusterId);
+    });
+
+    // Leftover requests are borders of a neighboring core's cluster, or noise
+    for (const point of Array.from(this.points.values())) {
+      if (!region.has(point.request.id) || assigned.has(point.request.id)) continue;
+
+      const coreId = Array.from(point.neighbors).find(neighborId => {
+        const neighbor = this.points.get(neighborId) as PointState;
+        return neighbor.clusterId !== undefined && isCore(neighbor);
+      });
+
+      if (coreId) {
+        point.clusterId = (this.points.get(coreId) as PointState).clusterId;
+        this.clusters.get(point.clusterId as string)?.add(point.request.id);
+      } else if (!point.noiseId) {
+        point.noiseId = createId(random);
+      }
+    }
+  }
+}
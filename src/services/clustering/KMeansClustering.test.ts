@@ -0,0 +1,66 @@
+import { KMeansClustering } from './KMeansClustering';
+import { RideRequest } from '../../models/types';
+import { createSeededRandom } from '../../utils/random';
+
+const params = { timeWindowMinutes: 30, maxDistanceKm: 2 };
+
+/**
+ * A blob of riders around a point, all requesting around the given number of minutes ago
+ */
+const blob = (prefix: string, lat: number, lng: number, count: number, minutesAgo: number, seed: number): RideRequest[] => {
+  const random = createSeededRandom(seed);
+  const now = Date.now();
+
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${prefix}-${i}`,
+    pickupLocation: { lat: lat + (random() - 0.5) * 0.002, lng: lng + (random() - 0.5) * 0.002 },
+    dropoffLocation: { lat: 40.78, lng: -73.96 },
+    timestamp: new Date(now - (minutesAgo + random()) * 60 * 1000)
+  }));
+};
+
+const groupsOf = (clusters: { requests: RideRequest[] }[]) =>
+  clusters.map(cluster => Array.from(new Set(cluster.requests.map(request => request.id.split('-')[0])))).sort();
+
+describe('KMeansClustering', () => {
+  const requests = [
+    ...blob('midtown', 40.755, -73.985, 8, 1, 1),
+    ...blob('uptown', 40.8, -73.95, 8, 1, 2),
+    ...blob('downtown', 40.71, -74.01, 8, 1, 3)
+  ];
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test.each(['silhouette', 'elbow'] as const)('selects k for well-separated groups by %s', (kSelection) => {
+    const clusters = new KMeansClustering().cluster(requests, { ...params, kSelection, random: createSeededRandom(7) });
+
+    expect(groupsOf(clusters)).toEqual([['downtown'], ['midtown'], ['uptown']]);
+  });
+
+  test('separates riders at the same place who request far apart in time', () => {
+    const timed = [...blob('early', 40.755, -73.985, 6, 25, 4), ...blob('late', 40.755, -73.985, 6, 1, 5)];
+
+    const clusters = new KMeansClustering().cluster(timed, { ...params, temporalWeight: 0.5, random: createSeededRandom(7) });
+
+    expect(groupsOf(clusters)).toEqual([['early'], ['late']]);
+  });
+
+  test('is reproducible with a seeded random source', () => {
+    const run = () => new KMeansClustering()
+      .cluster(requests, { ...params, maxK: 6, random: createSeededRandom(11) })
+      .map(cluster => cluster.requests.map(request => request.id).sort().join(','))
+      .sort();
+
+    expect(run()).toEqual(run());
+  });
+
+  test('rejects a max k below two', () => {
+    expect(() => new KMeansClustering().cluster(requests, { ...params, maxK: 1 })).toThrow(/Max k/);
+  });
+});
@@ -1,120 +1,273 @@
 import { IClusterStrategy, ClusterParams } from '../interfaces';
-import { Cluster, RideRequest, Coordinates } from '../../models/types';
-import { haversineDistance, calculateCentroid } from '../../utils/geo';
-import { v4 as uuidv4 } from 'uuid';
+import { Cluster, RideRequest } from '../../models/types';
+import { calculateCentroid } from '../../utils/geo';
+import { RandomSource, createId } from '../../utils/random';
+import { DEFAULT_SIMULATION_CONFIG } from '../../config/simulationConfig';
+import { resolveClusterTuning, validateClusterTuning } from './clusterTuning';
+import { resolveDistanceSettings } from './spatioTemporalDistance';
+import { findKnee } from './kDistance';
+import { filterByTimeWindow } from './timeWindow';
+
+// Kilometres per degree of latitude, for projecting coordinates onto a local plane
+const KM_PER_DEGREE = 111.32;
+
+type FeatureVector = number[];
+
+interface KMeansRun {
+  k: number;
+  labels: number[];
+  inertia: number;
+}
 
 /**
- * Basic K-Means clustering implementation for MVP
- * TODO: Replace with DBSCAN algorithm for temporal-spatial clustering in future
+ * K-Means clustering baseline for comparison with the density-based strategies.
+ *
+ * Requests are embedded as feature vectors of pickup position and request time
+ * (plus dropoff position in trip mode), scaled by the same weights and normalizers
+ * as the spatio-temporal distance. Centroids are seeded with k-means++ and k is
+ * chosen over a range by the elbow of the inertia curve or the best silhouette.
  */
 export class KMeansClustering implements IClusterStrategy {
-  private maxIterations = 10;
+  private readonly maxIterations = DEFAULT_SIMULATION_CONFIG.KMEANS.MAX_ITERATIONS;
+  private readonly restarts = DEFAULT_SIMULATION_CONFIG.KMEANS.RESTARTS;
 
   cluster(requests: RideRequest[], params: ClusterParams): Cluster[] {
+    const errors = validateClusterTuning({ ...params, algorithm: 'kmeans' });
+    if (errors.length > 0) {
+      throw new Error(`Invalid clustering parameters: ${errors.join('; ')}`);
+    }
+
     if (requests.length === 0) {
       return [];
     }
-    
-    // Filter requests by time window
-    const now = new Date();
-    const filteredRequests = requests.filter(req => {
-      const diffMinutes = (now.getTime() - req.timestamp.getTime()) / (1000 * 60);
-      return diffMinutes <= params.timeWindowMinutes;
-    });
-    
+
+    // Filter requests to the time window around the reference time
+    const { inWindow: filteredRequests, filtered } = filterByTimeWindow(requests, params);
+    if (filtered.length > 0) {
+      console.log(`K-Means: ${filtered.length} requests outside the time window were not clustered`);
+    }
+
     if (filteredRequests.length === 0) {
       return [];
     }
 
-    // Determine number of clusters based on request count
-    // We aim for 2-3 requests per cluster on average
-    const k = Math.max(1, Math.ceil(filteredRequests.length / 3));
-    
-    // Initialize centroids randomly from the pickup locations
-    let centroids: Coordinates[] = this.initializeCentroids(filteredRequests, k);
-    
-    // Track cluster assignments
-    let clusters: Map<number, RideRequest[]> = new Map();
-    
-    // Iterative k-means
-    for (let iteration = 0; iteration < this.maxIterations; iteration++) {
-      // Reset clusters
-      clusters = new Map();
-      for (let i = 0; i < k; i++) {
-        clusters.set(i, []);
+    const random = params.random ?? Math.random;
+    const tuning = resolveClusterTuning(params);
+    const features = this.buildFeatures(filteredRequests, params);
+
+    // Candidate k values; k-means needs fewer clusters than points to be informative
+    const maxK = Math.min(tuning.maxK, filteredRequests.length - 1);
+    const runs: KMeansRun[] = [];
+    for (let k = 2; k <= maxK; k++) {
+      runs.push(this.bestOfRestarts(features, k, random));
+    }
+
+    const best = runs.length > 0
+      ? this.selectRun(runs, features, tuning.kSelection)
+      : { k: 1, labels: features.map(() => 0), inertia: 0 };
+
+    console.log(`K-Means: selected k=${best.k} by ${tuning.kSelection} from k=2..${Math.max(maxK, 1)} for ${filteredRequests.length} requests`);
+
+    // Convert to our Cluster interface, excluding empty clusters
+    const groups: RideRequest[][] = Array.from({ length: best.k }, () => []);
+    best.labels.forEach((label, index) => groups[label].push(filteredRequests[index]));
+
+    return groups
+      .filter(group => group.length > 0)
+      .map(group => ({
+        id: createId(params.random),
+        centroid: calculateCentroid(group.map(request => request.pickupLocation)),
+        requests: group
+      }));
+  }
+
+  /**
+   * Embed requests so that Euclidean distance between features mirrors
+   * the weighted spatio-temporal distance
+   */
+  private buildFeatures(requests: RideRequest[], params: ClusterParams): FeatureVector[] {
+    const settings = resolveDistanceSettings(params);
+    const meanLat = requests.reduce((sum, request) => sum + request.pickupLocation.lat, 0) / requests.length;
+    const kmPerDegreeLng = KM_PER_DEGREE * Math.cos(meanLat * Math.PI / 180);
+    const spatialScale = settings.spatialWeight / settings.spatialThresholdKm;
+    const temporalScale = settings.temporalWeight / settings.temporalThresholdMin;
+    const dropoffScale = settings.dropoffWeight / settings.spatialThresholdKm;
+    const firstTime = Math.min(...requests.map(request => request.timestamp.getTime()));
+
+    return requests.map(request => {
+      const feature = [
+        request.pickupLocation.lng * kmPerDegreeLng * spatialScale,
+        request.pickupLocation.lat * KM_PER_DEGREE * spatialScale,
+        (request.timestamp.getTime() - firstTime) / (60 * 1000) * temporalScale
+      ];
+
+      // Dropoffs only matter in trip mode
+      if (dropoffScale > 0) {
+        feature.push(
+          request.dropoffLocation.lng * kmPerDegreeLng * dropoffScale,
+          request.dropoffLocation.lat * KM_PER_DEGREE * dropoffScale
+        );
       }
-      
-      // Assign each request to the nearest centroid
-      for (const request of filteredRequests) {
-        const nearestCentroidIndex = this.findNearestCentroidIndex(request.pickupLocation, centroids);
-        const clusterRequests = clusters.get(nearestCentroidIndex) || [];
-        clusterRequests.push(request);
-        clusters.set(nearestCentroidIndex, clusterRequests);
+
+      return feature;
+    });
+  }
+
+  /**
+   * Run k-means several times from different seeds and keep the lowest inertia
+   */
+  private bestOfRestarts(features: FeatureVector[], k: number, random: RandomSource): KMeansRun {
+    let best: KMeansRun | null = null;
+
+    for (let restart = 0; restart < this.restarts; restart++) {
+      const run = this.runKMeans(features, k, random);
+      if (!best || run.inertia < best.inertia) {
+        best = run;
+      }
+    }
+
+    return best as KMeansRun;
+  }
+
+  private runKMeans(features: FeatureVector[], k: number, random: RandomSource): KMeansRun {
+    let centroids = this.initializeCentroids(features, k, random);
+    let labels: number[] = features.map(() => -1);
+
+    for (let iteration = 0; iteration < this.maxIterations; iteration++) {
+      const newLabels = this.assignLabels(features, centroids);
+      const converged = this.sameLabels(newLabels, labels);
+      labels = newLabels;
+
+      if (converged) break;
+
+      centroids = this.updateCentroids(features, labels, centroids);
+    }
+
+    const inertia = features.reduce((sum, feature, index) => sum + this.squaredDistance(feature, centroids[labels[index]]), 0);
+    return { k, labels, inertia };
+  }
+
+  /**
+   * Assign each request to the nearest centroid
+   */
+  private assignLabels(features: FeatureVector[], centroids: FeatureVector[]): number[] {
+    return features.map(feature => this.nearestCentroid(feature, centroids).index);
+  }
+
+  private sameLabels(a: number[], b: number[]): boolean {
+    return a.every((label, index) => label === b[index]);
+  }
+
+  /**
+   * Move each centroid to the mean of its members, keeping the old one if no points were assigned
+   */
+  private updateCentroids(features: FeatureVector[], labels: number[], centroids: FeatureVector[]): FeatureVector[] {
+    return centroids.map((centroid, c) => {
+      const members = features.filter((_, index) => labels[index] === c);
+      if (members.length === 0) return centroid;
+      return centroid.map((_, d) => members.reduce((sum, member) => sum + member[d], 0) / members.length);
+    });
+  }
+
+  /**
+   * k-means++ seeding: each further centroid is drawn with probability
+   * proportional to its squared distance from the nearest centroid chosen so far
+   */
+  private initializeCentroids(features: FeatureVector[], k: number, random: RandomSource): FeatureVector[] {
+    const centroids: FeatureVector[] = [features[Math.floor(random() * features.length)]];
+
+    while (centroids.length < k) {
+      const weights = features.map(feature => this.nearestCentroid(feature, centroids).squaredDistance);
+      const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+      // All remaining points coincide with a centroid
+      if (total === 0) {
+        centroids.push(features[Math.floor(random() * features.length)]);
+        continue;
       }
-      
-      // Update centroids
-      const newCentroids: Coordinates[] = [];
-      
-      for (let i = 0; i < k; i++) {
-        const clusterRequests = clusters.get(i) || [];
-        
-        if (clusterRequests.length > 0) {
-          const pickupLocations = clusterRequests.map(r => r.pickupLocation);
-          newCentroids[i] = calculateCentroid(pickupLocations);
-        } else {
-          // Keep the old centroid if no points assigned
-          newCentroids[i] = centroids[i];
+
+      let target = random() * total;
+      let chosen = weights.length - 1;
+      for (let i = 0; i < weights.length; i++) {
+        target -= weights[i];
+        if (target <= 0) {
+          chosen = i;
+          break;
         }
       }
-      
-      // Check for convergence
-      const centroidsChanged = this.haveCentroidsChanged(centroids, newCentroids, params.maxDistanceKm / 10);
-      
-      // Update centroids for next iteration
-      centroids = newCentroids;
-      
-      if (!centroidsChanged) {
-        break;
+      centroids.push(features[chosen]);
+    }
+
+    return centroids.map(centroid => [...centroid]);
+  }
+
+  /**
+   * Pick the run with the best silhouette, or the one at the elbow of the inertia curve
+   */
+  private selectRun(runs: KMeansRun[], features: FeatureVector[], kSelection: 'elbow' | 'silhouette'): KMeansRun {
+    if (kSelection === 'elbow') {
+      // Inertia falls steeply then flattens; reversed, it rises slowly then steeply, which findKnee expects
+      const reversed = runs.map(run => run.inertia).reverse();
+      const knee = findKnee(reversed);
+      return knee >= 0 ? runs[runs.length - 1 - knee] : runs[0];
+    }
+
+    let best = runs[0];
+    let bestScore = -Infinity;
+    for (const run of runs) {
+      const score = this.silhouette(features, run.labels, run.k);
+      if (score > bestScore) {
+        bestScore = score;
+        best = run;
       }
     }
-    
-    // Convert to our Cluster interface, excluding empty clusters
-    return Array.from(clusters.entries())
-      .filter(([_, requests]) => requests.length > 0)
-      .map(([index, requests]) => ({
-        id: uuidv4(),
-        centroid: centroids[index],
-        requests
-      }));
+    return best;
   }
-  
-  private initializeCentroids(requests: RideRequest[], k: number): Coordinates[] {
-    const pickupLocations = requests.map(r => r.pickupLocation);
-    
-    // Simple random initialization for MVP
-    // TODO: Use k-means++ for better initialization in future versions
-    const shuffled = [...pickupLocations].sort(() => 0.5 - Math.random());
-    return shuffled.slice(0, k);
+
+  /**
+   * Mean silhouette in feature space; singleton clusters score 0
+   */
+  private silhouette(features: FeatureVector[], labels: number[], k: number): number {
+    const sizes = new Array(k).fill(0);
+    labels.forEach(label => sizes[label]++);
+
+    const total = features.reduce((sum, feature, i) => {
+      if (sizes[labels[i]] <= 1) return sum;
+
+      const distanceSums = new Array(k).fill(0);
+      features.forEach((other, j) => {
+        if (i !== j) distanceSums[labels[j]] += Math.sqrt(this.squaredDistance(feature, other));
+      });
+
+      const a = distanceSums[labels[i]] / (sizes[labels[i]] - 1);
+      let b = Infinity;
+      distanceSums.forEach((distanceSum, c) => {
+        if (c !== labels[i] && sizes[c] > 0) b = Math.min(b, distanceSum / sizes[c]);
+      });
+
+      const denominator = Math.max(a, b);
+      return sum + (denominator > 0 && Number.isFinite(b) ? (b - a) / denominator : 0);
+    }, 0);
+
+    return total / features.length;
   }
-  
-  private findNearestCentroidIndex(location: Coordinates, centroids: Coordinates[]): number {
-    let minDistance = Infinity;
-    let nearestIndex = 0;
-    
-    centroids.forEach((centroid, index) => {
-      const distance = haversineDistance(location, centroid);
-      if (distance < minDistance) {
-        minDistance = distance;
-        nearestIndex = index;
+
+  private nearestCentroid(feature: FeatureVector, centroids: FeatureVector[]): { index: number; squaredDistance: number } {
+    let index = 0;
+    let squaredDistance = Infinity;
+
+    centroids.forEach((centroid, c) => {
+      const distance = this.squaredDistance(feature, centroid);
+      if (distance < squaredDistance) {
+        squaredDistance = distance;
+        index = c;
       }
     });
-    
-    return nearestIndex;
+
+    return { index, squaredDistance };
   }
-  
-  private haveCentroidsChanged(oldCentroids: Coordinates[], newCentroids: Coordinates[], threshold: number): boolean {
-    return oldCentroids.some((oldCentroid, index) => 
-      haversineDistance(oldCentroid, newCentroids[index]) > threshold
-    );
+
+  private squaredDistance(a: FeatureVector, b: FeatureVector): number {
+    return a.reduce((sum, value, d) => sum + (value - b[d]) ** 2, 0);
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,59 @@
+import { OPTICSClustering } from './OPTICSClustering';
+import { DBSCANClustering } from './DBSCANClustering';
+import { RideRequest } from '../../models/types';
+import { createSeededRandom } from '../../utils/random';
+
+const params = { timeWindowMinutes: 30, maxDistanceKm: 2, adaptiveEpsilon: false, epsilon: 0.1 };
+
+/**
+ * Tight groups of riders around the given pickup points, all requesting within a minute
+ */
+const groups = (centers: [number, number][], perGroup: number, seed: number): RideRequest[] => {
+  const random = createSeededRandom(seed);
+  const now = Date.now();
+
+  return centers.flatMap(([lat, lng], g) => Array.from({ length: perGroup }, (_, i) => ({
+    id: `g${g}-${i}`,
+    pickupLocation: { lat: lat + (random() - 0.5) * 0.002, lng: lng + (random() - 0.5) * 0.002 },
+    dropoffLocation: { lat: 40.78, lng: -73.96 },
+    timestamp: new Date(now - random() * 60 * 1000)
+  })));
+};
+
+const memberSets = (clusters: { requests: RideRequest[] }[]) =>
+  clusters.map(cluster => cluster.requests.map(request => request.id).sort().join(',')).sort();
+
+describe('OPTICSClustering', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('extracts the same clusters as DBSCAN at the same epsilon', () => {
+    const requests = groups([[40.75, -73.98], [40.76, -73.97], [40.72, -73.99]], 5, 1);
+
+    const optics = new OPTICSClustering().cluster(requests, params);
+    const dbscan = new DBSCANClustering().cluster(requests, params);
+
+    expect(memberSets(optics)).toEqual(memberSets(dbscan));
+  });
+
+  test('re-extracts clusters at any epsilon from one ordering', () => {
+    // Two nearby groups merge at a large epsilon, a distant one stays apart
+    const requests = groups([[40.75, -73.98], [40.756, -73.98], [40.72, -73.92]], 4, 2);
+    const optics = new OPTICSClustering();
+    const ordering = optics.computeOrdering(requests, params);
+
+    const multiPassenger = (epsilon: number) =>
+      optics.extractClusters(ordering, epsilon).filter(cluster => cluster.requests.length > 1).length;
+
+    expect(ordering.points).toHaveLength(requests.length);
+    expect(ordering.points[0].reachability).toBe(Infinity);
+    expect(multiPassenger(0.15)).toBe(3);
+    expect(multiPassenger(0.35)).toBe(2);
+    expect(multiPassenger(0.0001)).toBe(0);
+  });
+});
@@ -0,0 +1,162 @@
+import { IReachabilityClusterStrategy, ClusterParams } from '../interfaces';
+import { Cluster, RideRequest, ReachabilityOrdering } from '../../models/types';
+import { RandomSource, createId } from '../../utils/random';
+import { resolveClusterTuning, resolveEpsilon, validateClusterTuning } from './clusterTuning';
+import { resolveDistanceSettings, spatioTemporalDistance } from './spatioTemporalDistance';
+import { suggestEpsilon } from './kDistance';
+import { filterByTimeWindow } from './timeWindow';
+
+// Label for requests that belong to no cluster at a given epsilon
+export const NOISE_LABEL = -1;
+
+/**
+ * Cluster label of each point in a reachability ordering at the given epsilon,
+ * following the ExtractDBSCAN-Clustering procedure from the OPTICS paper.
+ * Labels count up from 0 in ordering order; noise is NOISE_LABEL.
+ */
+export function labelOrdering(ordering: ReachabilityOrdering, epsilon: number): number[] {
+  const labels: number[] = [];
+  let clusterId = NOISE_LABEL;
+  let inCluster = false;
+
+  for (const point of ordering.points) {
+    if (point.reachability > epsilon) {
+      // Not reachable from the previous cluster: starts a new one if dense enough
+      inCluster = point.coreDistance <= epsilon;
+      if (inCluster) clusterId++;
+    }
+    labels.push(inCluster ? clusterId : NOISE_LABEL);
+  }
+
+  return labels;
+}
+
+/**
+ * OPTICS (Ordering Points To Identify the Clustering Structure) implementation
+ * using the same spatio-temporal distance and min points as DBSCAN.
+ *
+ * OPTICS processes requests once to produce a reachability ordering. DBSCAN-like
+ * clusters for any epsilon can then be extracted from that ordering without
+ * recomputing distances, which makes exploring epsilon interactively cheap.
+ */
+export class OPTICSClustering implements IReachabilityClusterStrategy {
+  cluster(requests: RideRequest[], params: ClusterParams): Cluster[] {
+    const ordering = this.computeOrdering(requests, params);
+    return this.extractClusters(ordering, ordering.epsilon, params.random);
+  }
+
+  /**
+   * Compute the reachability ordering of the requests in the time window.
+   * The generating distance is unbounded, so the ordering covers every epsilon.
+   */
+  computeOrdering(requests: RideRequest[], params: ClusterParams): ReachabilityOrdering {
+    const errors = validateClusterTuning({ ...params, algorithm: 'optics' });
+    if (errors.length > 0) {
+      throw new Error(`Invalid clustering parameters: ${errors.join('; ')}`);
+    }
+
+    // Filter requests to the time window around the reference time
+    const { inWindow: filteredRequests, filtered } = filterByTimeWindow(requests, params);
+    if (filtered.length > 0) {
+      console.log(`OPTICS: ${filtered.length} requests outside the time window were not clustered`);
+    }
+
+    const tuning = resolveClusterTuning(params);
+    const settings = resolveDistanceSettings(params);
+    const n = filteredRequests.length;
+
+    const distance = (i: number, j: number) => spatioTemporalDistance(filteredRequests[i], filteredRequests[j], settings);
+
+    // Core distance: distance to the minPoints-th nearest neighbor, as DBSCAN counts neighbors excluding the point itself
+    const coreDistances = filteredRequests.map((_, i) => {
+      const distances: number[] = [];
+      for (let j = 0; j < n; j++) {
+        if (j !== i) distances.push(distance(i, j));
+      }
+      distances.sort((a, b) => a - b);
+      return distances.length >= tuning.minPoints ? distances[tuning.minPoints - 1] : Infinity;
+    });
+
+    const processed = new Array(n).fill(false);
+    const reachability = new Array(n).fill(Infinity);
+    const order: number[] = [];
+
+    while (order.length < n) {
+      // Continue from the closest reachable request, or start a new region
+      let next = -1;
+      for (let i = 0; i < n; i++) {
+        if (!processed[i] && (next === -1 || reachability[i] < reachability[next])) {
+          next = i;
+        }
+      }
+
+      processed[next] = true;
+      order.push(next);
+
+      // Only core points make their neighbors reachable
+      if (coreDistances[next] === Infinity) continue;
+
+      for (let j = 0; j < n; j++) {
+        if (processed[j]) continue;
+        const reach = Math.max(coreDistances[next], distance(next, j));
+        if (reach < reachability[j]) {
+          reachability[j] = reach;
+        }
+      }
+    }
+
+    console.log(`OPTICS ordering computed for ${n} requests (minPoints=${tuning.minPoints})`);
+
+    return {
+      points: order.map(i => ({
+        request: filteredRequests[i],
+        reachability: reachability[i],
+        coreDistance: coreDistances[i]
+      })),
+      minPoints: tuning.minPoints,
+      epsilon: tuning.autoEpsilon ? suggestEpsilon(filteredRequests, params).epsilon : resolveEpsilon(tuning, n)
+    };
+  }
+
+  /**
+   * Extract clusters from a reachability ordering at the given epsilon.
+   * Noise points become single-passenger clusters as in DBSCAN.
+   */
+  extractClusters(ordering: ReachabilityOrdering, epsilon: number, random?: RandomSource): Cluster[] {
+    const labels = labelOrdering(ordering, epsilon);
+    const groups = new Map<number, RideRequest[]>();
+    const noise: RideRequest[] = [];
+
+    ordering.points.forEach((point, index) => {
+      const label = labels[index];
+      if (label === NOISE_LABEL) {
+        noise.push(point.request);
+      } else if (groups.has(label)) {
+        (groups.get(label) as RideRequest[]).push(point.request);
+      } else {
+        groups.set(label, [point.request]);
+      }
+    });
+
+    const clusters: Cluster[] = Array.from(groups.values()).map(clusterRequests => ({
+      id: createId(random),
+      centroid: {
+        lat: clusterRequests.reduce((sum, req) => sum + req.pickupLocation.lat, 0) / clusterRequests.length,
+        lng: clusterRequests.reduce((sum, req) => sum + req.pickupLocation.lng, 0) / clusterRequests.length
+      },
+      requests: clusterRequests
+    }));
+
+    for (const request of noise) {
+      clusters.push({
+        id: createId(random),
+        centroid: { ...request.pickupLocation },
+        requests: [request]
+      });
+    }
+
+    console.log(`OPTICS Results at epsilon=${epsilon.toFixed(3)}: ${groups.size} clusters, ${noise.length} noise points`);
+
+    return clusters;
+  }
+}
@@ -0,0 +1,49 @@
+import { evaluateClusters } from './clusterEvaluation';
+import { Cluster, RideRequest } from '../../models/types';
+
+const params = { timeWindowMinutes: 30, maxDistanceKm: 2 };
+const now = new Date();
+
+const rider = (id: string, lat: number, lng: number, dropoffLat: number, dropoffLng: number): RideRequest => ({
+  id,
+  pickupLocation: { lat, lng },
+  dropoffLocation: { lat: dropoffLat, lng: dropoffLng },
+  timestamp: now
+});
+
+const cluster = (id: string, requests: RideRequest[]): Cluster => ({
+  id,
+  centroid: requests[0].pickupLocation,
+  requests
+});
+
+describe('evaluateClusters', () => {
+  test('scores compact, well separated clusters of shareable trips highly', () => {
+    const clusters = [
+      cluster('a', [rider('a1', 40.75, -73.98, 40.8, -73.95), rider('a2', 40.7505, -73.9805, 40.8005, -73.9505)]),
+      cluster('b', [rider('b1', 40.72, -73.99, 40.7, -74.0), rider('b2', 40.7205, -73.9905, 40.7005, -74.0005)]),
+      cluster('noise', [rider('n1', 40.6, -73.8, 40.65, -73.85)])
+    ];
+
+    const quality = evaluateClusters(clusters, params);
+
+    expect(quality.clusterCount).toBe(2);
+    expect(quality.noiseCount).toBe(1);
+    expect(quality.silhouette).toBeGreaterThan(0.8);
+    expect(quality.daviesBouldin).toBeLessThan(0.1);
+    expect(quality.shareability).toBe(1);
+  });
+
+  test('riders heading in opposite directions are not shareable', () => {
+    const clusters = [
+      cluster('a', [rider('east', 40.75, -73.98, 40.75, -73.9), rider('west', 40.75, -73.98, 40.75, -74.06)])
+    ];
+
+    const quality = evaluateClusters(clusters, params);
+
+    expect(quality.shareability).toBe(0);
+    // A single cluster has nothing to be separated from
+    expect(quality.silhouette).toBeNull();
+    expect(quality.daviesBouldin).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+import { ClusterParams } from '../interfaces';
+import { Cluster, RideRequest, ClusterQualityMetrics } from '../../models/types';
+import { haversineDistance } from '../../utils/geo';
+import { SpatioTemporalDistanceSettings, resolveDistanceSettings, spatioTemporalDistance } from './spatioTemporalDistance';
+
+/**
+ * Evaluate how good a clustering is, independent of the strategy that produced it.
+ * Single-passenger (noise) clusters are left out of every index.
+ *
+ * - Silhouette in [-1, 1]: how much closer riders are to their own cluster than to the next best one
+ * - Davies–Bouldin (>= 0, lower is better): cluster spread relative to the distance between clusters
+ * - Shareability in [0, 1]: fraction of rider pairs within a cluster whose shared route is shorter than two solo trips
+ *
+ * Indices that need at least two clusters (or one rider pair) are null otherwise.
+ */
+export function evaluateClusters(clusters: Cluster[], params: ClusterParams): ClusterQualityMetrics {
+  const groups = clusters.filter(cluster => cluster.requests.length > 1).map(cluster => cluster.requests);
+  const settings = resolveDistanceSettings(params);
+
+  return {
+    clusterCount: groups.length,
+    noiseCount: clusters.length - groups.length,
+    silhouette: silhouetteScore(groups, settings),
+    daviesBouldin: daviesBouldinIndex(groups, settings),
+    shareability: shareabilityScore(groups)
+  };
+}
+
+/**
+ * Mean silhouette over all riders in multi-passenger clusters
+ */
+export function silhouetteScore(groups: RideRequest[][], settings: SpatioTemporalDistanceSettings): number | null {
+  if (groups.length < 2) return null;
+
+  const meanDistance = (request: RideRequest, group: RideRequest[]) => {
+    const others = group.filter(other => other !== request);
+    return others.reduce((sum, other) => sum + spatioTemporalDistance(request, other, settings), 0) / others.length;
+  };
+
+  let total = 0;
+  let count = 0;
+
+  groups.forEach((group, g) => {
+    group.forEach(request => {
+      const a = meanDistance(request, group);
+      const b = Math.min(...groups.filter((_, o) => o !== g).map(other => meanDistance(request, other)));
+      const denominator = Math.max(a, b);
+      total += denominator > 0 ? (b - a) / denominator : 0;
+      count++;
+    });
+  });
+
+  return total / count;
+}
+
+/**
+ * Davies–Bouldin index using medoids, since the spatio-temporal distance has no meaningful mean point
+ */
+export function daviesBouldinIndex(groups: RideRequest[][], settings: SpatioTemporalDistanceSettings): number | null {
+  if (groups.length < 2) return null;
+
+  const medoids = groups.map(group => {
+    let best = group[0];
+    let bestTotal = Infinity;
+    for (const candidate of group) {
+      const total = group.reduce((sum, other) => sum + spatioTemporalDistance(candidate, other, settings), 0);
+      if (total < bestTotal) {
+        bestTotal = total;
+        best = candidate;
+      }
+    }
+    return best;
+  });
+
+  const spreads = groups.map((group, g) =>
+    group.reduce((sum, request) => sum + spatioTemporalDistance(request, medoids[g], settings), 0) / group.length);
+
+  const worstRatios = groups.map((_, i) => {
+    let worst = 0;
+    groups.forEach((__, j) => {
+      if (i === j) return;
+      const separation = spatioTemporalDistance(medoids[i], medoids[j], settings);
+      // Clusters sharing a medoid position are indistinguishable
+      const ratio = separation > 0 ? (spreads[i] + spreads[j]) / separation : Infinity;
+      worst = Math.max(worst, ratio);
+    });
+    return worst;
+  });
+
+  return worstRatios.reduce((sum, ratio) => sum + ratio, 0) / worstRatios.length;
+}
+
+/**
+ * Fraction of rider pairs within the same cluster for which the best shared route
+ * (both pickups, then both dropoffs, in any order) is shorter than the two solo trips
+ */
+export function shareabilityScore(groups: RideRequest[][]): number | null {
+  let pairs = 0;
+  let shareable = 0;
+
+  for (const group of groups) {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        pairs++;
+        if (sharedRouteDistance(group[i], group[j]) < soloDistance(group[i]) + soloDistance(group[j])) {
+          shareable++;
+        }
+      }
+    }
+  }
+
+  return pairs > 0 ? shareable / pairs : null;
+}
+
+function soloDistance(request: RideRequest): number {
+  return haversineDistance(request.pickupLocation, request.dropoffLocation);
+}
+
+/**
+ * Shortest route serving two riders that picks both up before dropping either off
+ */
+function sharedRouteDistance(first: RideRequest, second: RideRequest): number {
+  const orders = [
+    [first.pickupLocation, second.pickupLocation, first.dropoffLocation, second.dropoffLocation],
+    [first.pickupLocation, second.pickupLocation, second.dropoffLocation, first.dropoffLocation],
+    [second.pickupLocation, first.pickupLocation, first.dropoffLocation, second.dropoffLocation],
+    [second.pickupLocation, first.pickupLocation, second.dropoffLocation, first.dropoffLocation]
+  ];
+
+  return Math.min(...orders.map(stops =>
+    stops.slice(1).reduce((sum, stop, index) => sum + haversineDistance(stops[index], stop), 0)));
+}
@@ -0,0 +1,113 @@
+import { ClusterTuning } from '../../models/types';
+import { DEFAULT_SIMULATION_CONFIG } from '../../config/simulationConfig';
+
+/**
+ * Cluster tuning with every knob filled in from the defaults
+ */
+export function resolveClusterTuning(tuning: ClusterTuning = {}): Required<ClusterTuning> {
+  const defaults = DEFAULT_SIMULATION_CONFIG.DBSCAN;
+
+  return {
+    algorithm: tuning.algorithm ?? DEFAULT_SIMULATION_CONFIG.DEFAULT_CLUSTERING_ALGORITHM,
+    epsilon: tuning.epsilon ?? defaults.EPSILON,
+    adaptiveEpsilon: tuning.adaptiveEpsilon ?? defaults.ADAPTIVE_EPSILON,
+    autoEpsilon: tuning.autoEpsilon ?? defaults.AUTO_EPSILON,
+    maxEpsilon: tuning.maxEpsilon ?? defaults.MAX_EPSILON,
+    minPoints: tuning.minPoints ?? defaults.MIN_POINTS,
+    spatialWeight: tuning.spatialWeight ?? defaults.SPATIAL_WEIGHT,
+    temporalWeight: tuning.temporalWeight ?? defaults.TEMPORAL_WEIGHT,
+    maxSpatialDistanceKm: tuning.maxSpatialDistanceKm ?? defaults.MAX_SPATIAL_DISTANCE_KM,
+    maxTemporalDistanceMin: tuning.maxTemporalDistanceMin ?? defaults.MAX_TEMPORAL_DISTANCE_MIN,
+    distanceMode: tuning.distanceMode ?? defaults.DISTANCE_MODE,
+    dropoffWeight: tuning.dropoffWeight ?? defaults.DROPOFF_WEIGHT,
+    bearingWeight: tuning.bearingWeight ?? defaults.BEARING_WEIGHT,
+    minClusterSize: tuning.minClusterSize ?? DEFAULT_SIMULATION_CONFIG.HDBSCAN.MIN_CLUSTER_SIZE,
+    kSelection: tuning.kSelection ?? DEFAULT_SIMULATION_CONFIG.KMEANS.K_SELECTION,
+    maxK: tuning.maxK ?? DEFAULT_SIMULATION_CONFIG.KMEANS.MAX_K
+  };
+}
+
+/**
+ * Neighborhood radius for epsilon-based clustering of the given number of requests.
+ * When adaptive, epsilon grows with the number of requests up to maxEpsilon.
+ */
+export function resolveEpsilon(tuning: Required<ClusterTuning>, requestCount: number): number {
+  return tuning.adaptiveEpsilon
+    ? Math.min(tuning.epsilon * (1 + requestCount / 100), tuning.maxEpsilon)
+    : tuning.epsilon;
+}
+
+/**
+ * Raw (unnormalized) weight of each distance component.
+ * Dropoff and heading only count towards the distance in trip mode.
+ */
+export function distanceWeights(tuning: Required<ClusterTuning>): {
+  spatialWeight: number;
+  temporalWeight: number;
+  dropoffWeight: number;
+  bearingWeight: number;
+} {
+  const tripMode = tuning.distanceMode === 'trip';
+
+  return {
+    spatialWeight: tuning.spatialWeight,
+    temporalWeight: tuning.temporalWeight,
+    dropoffWeight: tripMode ? tuning.dropoffWeight : 0,
+    bearingWeight: tripMode ? tuning.bearingWeight : 0
+  };
+}
+
+/**
+ * Check cluster tuning for values and combinations that cannot produce meaningful clusters.
+ * @returns One message per problem, empty when the tuning is valid
+ */
+export function validateClusterTuning(tuning: ClusterTuning = {}): string[] {
+  const resolved = resolveClusterTuning(tuning);
+  const { algorithm, epsilon, adaptiveEpsilon, maxEpsilon, minPoints, minClusterSize, maxK, maxSpatialDistanceKm, maxTemporalDistanceMin } = resolved;
+  const { spatialWeight, temporalWeight, dropoffWeight, bearingWeight } = distanceWeights(resolved);
+  const errors: string[] = [];
+
+  // Epsilon and min points only apply to DBSCAN and OPTICS
+  const dbscan = algorithm === 'dbscan' || algorithm === 'optics';
+
+  // Combined distances lie in [0, 1], so epsilon outside (0, 1) is either empty or everything
+  if (dbscan && !(epsilon > 0 && epsilon < 1)) {
+    errors.push('Epsilon must be between 0 and 1 (exclusive)');
+  }
+  if (dbscan && adaptiveEpsilon && !(maxEpsilon >= epsilon && maxEpsilon < 1)) {
+    errors.push('Max epsilon must be at least epsilon and below 1');
+  }
+  if (dbscan && (!Number.isInteger(minPoints) || minPoints < 1)) {
+    errors.push('Min points must be a whole number of at least 1');
+  }
+  if (algorithm === 'hdbscan' && (!Number.isInteger(minClusterSize) || minClusterSize < 2)) {
+    errors.push('Min cluster size must be a whole number of at least 2');
+  }
+  if (algorithm === 'kmeans' && (!Number.isInteger(maxK) || maxK < 2)) {
+    errors.push('Max k must be a whole number of at least 2');
+  }
+  if (!(spatialWeight >= 0 && temporalWeight >= 0) || spatialWeight + temporalWeight <= 0) {
+    errors.push('Spatial and temporal weights must be non-negative and not both zero');
+  }
+  if (!(dropoffWeight >= 0 && bearingWeight >= 0)) {
+    errors.push('Dropoff and heading weights must be non-negative');
+  }
+  if (!(maxSpatialDistanceKm > 0)) {
+    errors.push('Max spatial distance must be greater than zero');
+  }
+  if (!(maxTemporalDistanceMin > 0)) {
+    errors.push('Max temporal distance must be greater than zero');
+  }
+
+  // If epsilon reaches the spatial share of the distance, requests any distance apart become neighbors
+  const totalWeight = spatialWeight + temporalWeight + dropoffWeight + bearingWeight;
+  const largestEpsilon = adaptiveEpsilon ? Math.max(epsilon, maxEpsilon) : epsilon;
+  if (dbscan && errors.length === 0 && largestEpsilon >= spatialWeight / totalWeight) {
+    errors.push(
+      `Epsilon ${largestEpsilon.toFixed(2)} is not below the normalized spatial weight ` +
+      `${(spatialWeight / totalWeight).toFixed(2)}, so requests any distance apart would cluster together`
+    );
+  }
+
+  return errors;
+}
@@ -0,0 +1,64 @@
+import { computeKDistances, findKnee, suggestEpsilon } from './kDistance';
+import { DBSCANClustering } from './DBSCANClustering';
+import { RideRequest } from '../../models/types';
+import { createSeededRandom } from '../../utils/random';
+
+const params = { timeWindowMinutes: 30, maxDistanceKm: 2 };
+
+/**
+ * Tight groups of riders plus scattered outliers across the city
+ */
+const createRequests = (seed: number): RideRequest[] => {
+  const random = createSeededRandom(seed);
+  const now = Date.now();
+  const request = (id: string, lat: number, lng: number): RideRequest => ({
+    id,
+    pickupLocation: { lat, lng },
+    dropoffLocation: { lat: 40.78, lng: -73.96 },
+    timestamp: new Date(now - random() * 60 * 1000)
+  });
+
+  const groups = [[40.75, -73.98], [40.72, -73.95], [40.79, -73.93]].flatMap(([lat, lng], g) =>
+    Array.from({ length: 8 }, (_, i) => request(`g${g}-${i}`, lat + (random() - 0.5) * 0.002, lng + (random() - 0.5) * 0.002)));
+  const outliers = Array.from({ length: 6 }, (_, i) => request(`outlier-${i}`, 40.6 + random() * 0.3, -74.1 + random() * 0.3));
+
+  return [...groups, ...outliers];
+};
+
+describe('k-distance epsilon suggestion', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('finds the knee of an ascending curve', () => {
+    expect(findKnee([0.1, 0.1, 0.11, 0.12, 0.12, 0.13, 0.9, 1])).toBe(5);
+    expect(findKnee([0.2, 0.2, 0.2])).toBe(-1);
+  });
+
+  test('computes sorted k-distances for every request', () => {
+    const requests = createRequests(1);
+    const distances = computeKDistances(requests, 2, params);
+
+    expect(distances).toHaveLength(requests.length);
+    expect([...distances].sort((a, b) => a - b)).toEqual(distances);
+  });
+
+  test('suggests an epsilon between the group and outlier distances that DBSCAN honours in auto mode', () => {
+    const requests = createRequests(2);
+    const suggestion = suggestEpsilon(requests, params);
+
+    expect(suggestion.k).toBe(2);
+    expect(suggestion.epsilon).toBeGreaterThanOrEqual(suggestion.distances[0]);
+    expect(suggestion.epsilon).toBeLessThan(suggestion.distances[suggestion.distances.length - 1]);
+
+    const clusters = new DBSCANClustering().cluster(requests, { ...params, autoEpsilon: true });
+    const groups = clusters
+      .filter(cluster => cluster.requests.length > 1)
+      .map(cluster => Array.from(new Set(cluster.requests.map(request => request.id.split('-')[0]))).join());
+    expect(groups.sort()).toEqual(['g0', 'g1', 'g2']);
+  });
+});
@@ -0,0 +1,84 @@
+import { ClusterParams } from '../interfaces';
+import { RideRequest } from '../../models/types';
+import { resolveClusterTuning } from './clusterTuning';
+import { resolveDistanceSettings, spatioTemporalDistance } from './spatioTemporalDistance';
+
+// Smallest epsilon ever suggested, so duplicate requests cannot produce an empty neighborhood
+const MIN_SUGGESTED_EPSILON = 0.01;
+
+// Keep suggestions just below the spatial share of the distance, which validation rejects
+const SPATIAL_SHARE_MARGIN = 0.99;
+
+export interface EpsilonSuggestion {
+  k: number;
+  distances: number[]; // k-distance of every request, sorted ascending
+  kneeIndex: number; // index into distances, -1 when there are too few requests
+  epsilon: number;
+}
+
+/**
+ * Spatio-temporal distance from each request to its k-th nearest neighbor
+ * (not counting itself), sorted ascending. Requests with fewer than k neighbors are left out.
+ */
+export function computeKDistances(requests: RideRequest[], k: number, params: ClusterParams): number[] {
+  const settings = resolveDistanceSettings(params);
+
+  return requests
+    .map((request, i) => {
+      const distances: number[] = [];
+      requests.forEach((other, j) => {
+        if (j !== i) distances.push(spatioTemporalDistance(request, other, settings));
+      });
+      distances.sort((a, b) => a - b);
+      return distances.length >= k ? distances[k - 1] : NaN;
+    })
+    .filter(distance => !Number.isNaN(distance))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Index of the knee of an ascending curve: the point furthest below the straight
+ * line joining its ends once both axes are scaled to [0, 1] (the Kneedle method).
+ */
+export function findKnee(values: number[]): number {
+  if (values.length < 3) return -1;
+
+  const first = values[0];
+  const range = values[values.length - 1] - first;
+  if (range <= 0) return -1;
+
+  let kneeIndex = -1;
+  let largestGap = 0;
+
+  values.forEach((value, index) => {
+    const x = index / (values.length - 1);
+    const y = (value - first) / range;
+    if (x - y > largestGap) {
+      largestGap = x - y;
+      kneeIndex = index;
+    }
+  });
+
+  return kneeIndex;
+}
+
+/**
+ * Suggest a DBSCAN epsilon from the knee of the k-distance curve, with k = minPoints.
+ * Falls back to the configured epsilon when the curve has no knee.
+ */
+export function suggestEpsilon(requests: RideRequest[], params: ClusterParams): EpsilonSuggestion {
+  const tuning = resolveClusterTuning(params);
+  const settings = resolveDistanceSettings(params);
+  const k = tuning.minPoints;
+
+  const distances = computeKDistances(requests, k, params);
+  const kneeIndex = findKnee(distances);
+  const knee = kneeIndex >= 0 ? distances[kneeIndex] : tuning.epsilon;
+
+  return {
+    k,
+    distances,
+    kneeIndex,
+    epsilon: Math.min(Math.max(knee, MIN_SUGGESTED_EPSILON), settings.spatialWeight * SPATIAL_SHARE_MARGIN)
+  };
+}
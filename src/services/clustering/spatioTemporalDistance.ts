@@ -0,0 +1,97 @@
+import { ClusterParams } from '../interfaces';
+import { RideRequest } from '../../models/types';
+import { haversineDistance, bearing, bearingDifference } from '../../utils/geo';
+import { resolveClusterTuning, distanceWeights } from './clusterTuning';
+
+/**
+ * Resolved settings for the combined spatio-temporal distance between ride requests
+ */
+export interface SpatioTemporalDistanceSettings {
+  spatialWeight: number; // weights sum to 1
+  temporalWeight: number;
+  dropoffWeight: number; // zero unless clustering whole trips
+  bearingWeight: number; // zero unless clustering whole trips
+  spatialThresholdKm: number; // spatial distance that counts as "maximally far"
+  temporalThresholdMin: number; // temporal distance that counts as "maximally far"
+}
+
+/**
+ * Fill in defaults for the distance knobs in the cluster params and normalize the weights
+ */
+export function resolveDistanceSettings(params: ClusterParams): SpatioTemporalDistanceSettings {
+  const tuning = resolveClusterTuning(params);
+  const { spatialWeight, temporalWeight, dropoffWeight, bearingWeight } = distanceWeights(tuning);
+  const totalWeight = spatialWeight + temporalWeight + dropoffWeight + bearingWeight;
+
+  return {
+    spatialWeight: spatialWeight / totalWeight,
+    temporalWeight: temporalWeight / totalWeight,
+    dropoffWeight: dropoffWeight / totalWeight,
+    bearingWeight: bearingWeight / totalWeight,
+    // Never treat requests further apart than the allowed detour as close
+    spatialThresholdKm: Math.min(tuning.maxSpatialDistanceKm, params.maxDistanceKm),
+    temporalThresholdMin: tuning.maxTemporalDistanceMin
+  };
+}
+
+/**
+ * Calculate a normalized distance that combines both spatial and temporal components
+ * Returns a value between 0 and 1, where:
+ * - 0 means requests are identical in space and time
+ * - 1 means requests are at max distance in space and/or time
+ * In trip mode dropoff proximity and heading similarity are scored as well,
+ * so riders picked up together but travelling in different directions stay apart.
+ */
+export function spatioTemporalDistance(
+  request1: RideRequest,
+  request2: RideRequest,
+  settings: SpatioTemporalDistanceSettings
+): number {
+  // Calculate spatial distance (in km)
+  const spatialDistance = haversineDistance(request1.pickupLocation, request2.pickupLocation);
+
+  // Calculate temporal distance (in minutes)
+  const temporalDistance = Math.abs(
+    (request1.timestamp.getTime() - request2.timestamp.getTime()) / (60 * 1000)
+  );
+
+  // Normalize distances to [0, 1] range
+  const normalizedSpatialDistance = Math.min(spatialDistance / settings.spatialThresholdKm, 1);
+  const normalizedTemporalDistance = Math.min(temporalDistance / settings.temporalThresholdMin, 1);
+
+  let distance = (normalizedSpatialDistance * settings.spatialWeight) + (normalizedTemporalDistance * settings.temporalWeight);
+
+  if (settings.dropoffWeight > 0) {
+    const dropoffDistance = haversineDistance(request1.dropoffLocation, request2.dropoffLocation);
+    distance += Math.min(dropoffDistance / settings.spatialThresholdKm, 1) * settings.dropoffWeight;
+  }
+
+  if (settings.bearingWeight > 0) {
+    // 0 for the same heading, 1 for opposite directions
+    const headingDifference = bearingDifference(
+      bearing(request1.pickupLocation, request1.dropoffLocation),
+      bearing(request2.pickupLocation, request2.dropoffLocation)
+    );
+    distance += (headingDifference / 180) * settings.bearingWeight;
+  }
+
+  return distance;
+}
+
+/**
+ * Largest spatial (km) and temporal (minutes) separation two requests can have
+ * while their combined distance is still within epsilon. Infinity means unbounded.
+ */
+export function neighborhoodRadius(
+  epsilon: number,
+  settings: SpatioTemporalDistanceSettings
+): { radiusKm: number; radiusMinutes: number } {
+  const maxNormalizedSpatial = settings.spatialWeight > 0 ? epsilon / settings.spatialWeight : Infinity;
+  const maxNormalizedTemporal = settings.temporalWeight > 0 ? epsilon / settings.temporalWeight : Infinity;
+
+  // Normalized distances are capped at 1, so a bound of 1 or more constrains nothing
+  return {
+    radiusKm: maxNormalizedSpatial < 1 ? maxNormalizedSpatial * settings.spatialThresholdKm : Infinity,
+    radiusMinutes: maxNormalizedTemporal < 1 ? maxNormalizedTemporal * settings.temporalThresholdMin : Infinity
+  };
+}
@@ -0,0 +1,49 @@
+import { filterByTimeWindow } from './timeWindow';
+import { RideRequest } from '../../models/types';
+
+const referenceTime = new Date('2015-01-15T08:00:00Z');
+
+const requestAt = (id: string, minutesFromReference: number): RideRequest => ({
+  id,
+  pickupLocation: { lat: 40.75, lng: -73.98 },
+  dropoffLocation: { lat: 40.78, lng: -73.96 },
+  timestamp: new Date(referenceTime.getTime() + minutesFromReference * 60 * 1000)
+});
+
+describe('filterByTimeWindow', () => {
+  const requests = [
+    requestAt('stale', -20),
+    requestAt('edge-past', -15),
+    requestAt('recent', -3),
+    requestAt('prebooked', 25),
+    requestAt('edge-future', 30),
+    requestAt('far-future', 45)
+  ];
+
+  test('keeps requests from the time window before the reference time up to the pre-booking horizon', () => {
+    const { inWindow, filtered } = filterByTimeWindow(requests, {
+      timeWindowMinutes: 15,
+      maxDistanceKm: 2,
+      referenceTime,
+      prebookHorizonMinutes: 30
+    });
+
+    expect(inWindow.map(request => request.id)).toEqual(['edge-past', 'recent', 'prebooked', 'edge-future']);
+    expect(filtered.map(({ request, reason, minutesFromReference }) => [request.id, reason, minutesFromReference])).toEqual([
+      ['stale', 'expired', -20],
+      ['far-future', 'beyond-horizon', 45]
+    ]);
+  });
+
+  test('a zero horizon filters every future request', () => {
+    const { inWindow } = filterByTimeWindow(requests, { timeWindowMinutes: 15, maxDistanceKm: 2, referenceTime, prebookHorizonMinutes: 0 });
+
+    expect(inWindow.map(request => request.id)).toEqual(['edge-past', 'recent']);
+  });
+
+  test('accounts for every request', () => {
+    const { inWindow, filtered } = filterByTimeWindow(requests, { timeWindowMinutes: 5, maxDistanceKm: 2, referenceTime });
+
+    expect(inWindow.length + filtered.length).toBe(requests.length);
+  });
+});
@@ -0,0 +1,35 @@
+import { ClusterParams } from '../interfaces';
+import { RideRequest, FilteredRequest } from '../../models/types';
+import { DEFAULT_SIMULATION_CONFIG } from '../../config/simulationConfig';
+
+/**
+ * Split requests into those inside the clustering time window and those outside it.
+ *
+ * The window runs from timeWindowMinutes before the reference time to prebookHorizonMinutes
+ * after it, both ends inclusive, so pre-booked requests in the near future are clustered too.
+ * The reference time defaults to the current time.
+ */
+export function filterByTimeWindow(
+  requests: RideRequest[],
+  params: ClusterParams
+): { inWindow: RideRequest[]; filtered: FilteredRequest[] } {
+  const reference = (params.referenceTime ?? new Date()).getTime();
+  const horizon = params.prebookHorizonMinutes ?? DEFAULT_SIMULATION_CONFIG.DEFAULT_PREBOOK_HORIZON;
+
+  const inWindow: RideRequest[] = [];
+  const filtered: FilteredRequest[] = [];
+
+  for (const request of requests) {
+    const minutesFromReference = (request.timestamp.getTime() - reference) / (60 * 1000);
+
+    if (minutesFromReference < -params.timeWindowMinutes) {
+      filtered.push({ request, reason: 'expired', minutesFromReference });
+    } else if (minutesFromReference > horizon) {
+      filtered.push({ request, reason: 'beyond-horizon', minutesFromReference });
+    } else {
+      inWindow.push(request);
+    }
+  }
+
+  return { inWindow, filtered };
+}
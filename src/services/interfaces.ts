@@ -1,16 +1,51 @@
-import { Cluster, RideRequest, Vehicle, Assignment, Coordinates, SimulationParams } from '../models/types';
+import { RandomSource } from '../utils/random';
+import { Cluster, RideRequest, Vehicle, Assignment, Coordinates, SimulationParams, ClusterTuning, TimeSteppedSimulationParams, SimulationSnapshot, TimeSteppedMetrics, ReachabilityOrdering, ClusterQualityMetrics, FilteredRequest, Stop, RouteSequencingReport, PassengerServiceReport, MatchingProgress, ParetoSolution, UnassignedRequest } from '../models/types';
+
+// Options for reproducible data generation
+export interface DataGenerationOptions {
+  random?: RandomSource; // defaults to Math.random
+  referenceTime?: Date; // "now" for generated timestamps, defaults to the current time
+}
 
 // Interface for data adapters (to allow for different data sources in the future)
 export interface IDataAdapter {
-  generateRequests(count: number, bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number }): RideRequest[];
-  generateVehicles(count: number, bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number }): Vehicle[];
-  generateVehiclesNearPassengers(count: number, requests: RideRequest[], bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number }): Vehicle[];
+  generateRequests(count: number, bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number }, options?: DataGenerationOptions): RideRequest[];
+  generateVehicles(count: number, bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number }, options?: DataGenerationOptions): Vehicle[];
+  generateVehiclesNearPassengers(count: number, requests: RideRequest[], bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number }, options?: DataGenerationOptions): Vehicle[];
+}
+
+// Interface for historical request sources that can be replayed on the simulation clock
+export interface IRequestFeed {
+  // Requests arriving in [from, to) on the simulation clock of a simulation that started at `start`
+  requestsBetween(from: Date, to: Date, start: Date): RideRequest[];
 }
 
 // Parameters for clustering
-export interface ClusterParams {
-  timeWindowMinutes: number;
+export interface ClusterParams extends ClusterTuning {
+  timeWindowMinutes: number; // requests older than this before the reference time are filtered
   maxDistanceKm: number;
+  referenceTime?: Date; // "now" for the time window, defaults to the current time
+  prebookHorizonMinutes?: number; // pre-booked requests up to this far after the reference time are kept
+  random?: RandomSource; // defaults to Math.random
+}
+
+// Passenger time limits; requests without their own latestPickupTime or maxRideTimeRatio use the defaults here
+export interface TimeWindowConstraints {
+  departureTime: Date; // when the vehicles start driving their new routes
+  vehicleDepartureTimes?: Record<string, Date>; // by vehicle ID, for vehicles that start later than departureTime
+  vehicleSpeedKmh: number;
+  maxWaitMinutes?: number; // latest pickup after the request time, unlimited when omitted
+  maxRideTimeRatio?: number; // longest ride relative to riding alone, unlimited when omitted
+}
+
+// Constraints for matching
+export interface MatchingConstraints {
+  maxDetourKm: number;
+  timeWindows?: TimeWindowConstraints; // pickup and ride times are not checked when omitted
+  random?: RandomSource; // defaults to Math.random
+  onProgress?: (progress: MatchingProgress) => void; // called as iterative matchers progress, at most once per iteration
+  onParetoFront?: (front: Assignment[][]) => void; // multi-objective matchers report every non-dominated assignment set, the returned one first
+  onUnassigned?: (unassigned: UnassignedRequest[]) => void; // matchers report every request they leave without a vehicle, and why
 }
 
 // Interface for clustering algorithms
@@ -18,9 +53,28 @@ export interface IClusterStrategy {
   cluster(requests: RideRequest[], params: ClusterParams): Cluster[];
 }
 
+// Interface for clustering algorithms whose clusters can be re-extracted at any epsilon from a reachability ordering
+export interface IReachabilityClusterStrategy extends IClusterStrategy {
+  computeOrdering(requests: RideRequest[], params: ClusterParams): ReachabilityOrdering;
+  extractClusters(ordering: ReachabilityOrdering, epsilon: number, random?: RandomSource): Cluster[];
+}
+
+// Interface for clustering algorithms that keep their clusters up to date as requests arrive and expire,
+// with cluster IDs that stay stable across updates
+export interface IIncrementalClusterStrategy extends IClusterStrategy {
+  update(added: RideRequest[], expiredIds: string[], params: ClusterParams): Cluster[];
+  getClusters(): Cluster[];
+  reset(): void;
+}
+
+// Interface for post-clustering stages that split clusters to fit the available vehicles
+export interface IClusterSplitter {
+  split(clusters: Cluster[], vehicles: Vehicle[], random?: RandomSource): Cluster[];
+}
+
 // Interface for matching algorithms
 export interface IMatchingStrategy {
-  match(clusters: Cluster[], vehicles: Vehicle[], constraints: { maxDetourKm: number }): Assignment[];
+  match(clusters: Cluster[], vehicles: Vehicle[], constraints: MatchingConstraints): Assignment[];
 }
 
 // Interface for routing engines
@@ -29,12 +83,44 @@ export interface IRoutingEngine {
   calculateDistance(from: Coordinates, to: Coordinates): number;
 }
 
+// Interface for ordering the pickups and dropoffs served by one vehicle
+export interface IStopSequencer {
+  // Returns a feasible order of the same stops, never longer than the given one when that is feasible.
+  // No rider may ride more than maxDetourKm (default unlimited) beyond their direct trip.
+  sequence(vehicle: Vehicle, stops: Stop[], maxDetourKm?: number): Stop[];
+}
+
+// Everything one simulation run produces
+export interface SimulationRunResult {
+  requests: RideRequest[];
+  vehicles: Vehicle[];
+  clusters: Cluster[];
+  assignments: Assignment[];
+  reachability?: ReachabilityOrdering; // present when the clustering strategy produces one
+  clusterQuality: ClusterQualityMetrics;
+  filteredRequests: FilteredRequest[]; // requests outside the time window, not clustered or matched
+  routeSequencing: RouteSequencingReport;
+  passengerService: PassengerServiceReport[]; // pickup and ride times of every assigned rider
+  paretoFront?: ParetoSolution[]; // multi-objective matching only; the first is the one in assignments
+  unassignedRequests: UnassignedRequest[]; // every request without a vehicle: filtered by the time window or rejected by the matcher
+}
+
+// Callbacks for following a simulation run as it happens
+export interface SimulationObserver {
+  onMatchingProgress?: (progress: MatchingProgress) => void;
+}
+
 // Interface for the simulation orchestrator
 export interface ISimulationService {
-  runSimulation(params: SimulationParams): Promise<{
-    requests: RideRequest[];
-    vehicles: Vehicle[];
-    clusters: Cluster[];
-    assignments: Assignment[];
-  }>;
-} 
\ No newline at end of file
+  runSimulation(params: SimulationParams, observer?: SimulationObserver): Promise<SimulationRunResult>;
+}
+
+// Interface for the time-stepped simulation engine
+export interface ISimulationEngine {
+  start(params: TimeSteppedSimulationParams): SimulationSnapshot;
+  step(): SimulationSnapshot;
+  run(params: TimeSteppedSimulationParams): {
+    snapshot: SimulationSnapshot;
+    metrics: TimeSteppedMetrics;
+  };
+}
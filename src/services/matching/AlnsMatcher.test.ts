@@ -0,0 +1,108 @@
+import { AlnsMatcher } from './AlnsMatcher';
+import { greedySolution, solutionFitness } from './clusterSolution';
+import { assignmentFitness } from './matchingCost';
+import { Assignment, Cluster, RideRequest, Vehicle } from '../../models/types';
+import { createSeededRandom, RandomSource } from '../../utils/random';
+import { haversineDistance } from '../../utils/geo';
+
+const KM = 1 / 111.195; // degrees of latitude per kilometre
+const constraints = { maxDetourKm: 3.5 };
+
+const makeCluster = (id: string, lat: number, lng: number, size: number, random?: RandomSource): Cluster => {
+  const jitter = () => (random ? (random() - 0.5) * 0.004 : 0);
+  const requests: RideRequest[] = Array.from({ length: size }, (_, i) => ({
+    id: `${id}-${i}`,
+    pickupLocation: { lat: lat + jitter(), lng: lng + jitter() },
+    dropoffLocation: { lat: lat + 0.01 + jitter(), lng: lng + jitter() },
+    timestamp: new Date()
+  }));
+  return { id, centroid: { lat, lng }, requests };
+};
+
+const makeVehicle = (id: string, lat: number, lng: number, seats: number): Vehicle => ({
+  id,
+  location: { lat, lng },
+  capacity: seats,
+  availableSeats: seats,
+  currentRoute: []
+});
+
+const randomInstance = (seed: number) => {
+  const random = createSeededRandom(seed);
+  const clusters = Array.from({ length: 12 }, (_, i) =>
+    makeCluster(`c${i}`, random() * 0.05, random() * 0.05, 1 + Math.floor(random() * 4), random));
+  const vehicles = Array.from({ length: 6 }, (_, i) => makeVehicle(`v${i}`, random() * 0.05, random() * 0.05, 4));
+  return { clusters, vehicles };
+};
+
+const fitnessOf = (assignments: Assignment[], clusters: Cluster[], vehicles: Vehicle[]) => {
+  const requestsById = new Map(clusters.flatMap(cluster => cluster.requests).map(request => [request.id, request]));
+  const groups = vehicles.map(vehicle => {
+    const assignment = assignments.find(a => a.vehicleId === vehicle.id);
+    return assignment ? assignment.requestIds.map(id => requestsById.get(id) as RideRequest) : [];
+  });
+  const totalRequests = clusters.reduce((sum, cluster) => sum + cluster.requests.length, 0);
+  return assignmentFitness(groups, vehicles, totalRequests, constraints.maxDetourKm);
+};
+
+describe('AlnsMatcher', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('rebuilds the greedy solution to serve every cluster', () => {
+    // Greedy gives the larger cluster to the vehicle between both, stranding the smaller one
+    const clusters = [makeCluster('small', 0, 0, 2), makeCluster('large', 3 * KM, 0, 3)];
+    const vehicles = [makeVehicle('between', 2 * KM, 0, 3), makeVehicle('far', 4.5 * KM, 0, 3)];
+    expect(greedySolution(clusters, vehicles, constraints)).toEqual([-1, 0]);
+
+    const assignments = new AlnsMatcher({ maxIterations: 50 })
+      .match(clusters, vehicles, { ...constraints, random: createSeededRandom(1) });
+
+    expect(assignments.find(a => a.vehicleId === 'between')?.requestIds).toEqual(['small-0', 'small-1']);
+    expect(assignments.find(a => a.vehicleId === 'far')?.requestIds).toEqual(['large-0', 'large-1', 'large-2']);
+  });
+
+  test('keeps whole clusters within capacity and detour and improves on greedy', () => {
+    const { clusters, vehicles } = randomInstance(7);
+
+    const assignments = new AlnsMatcher({ maxIterations: 100 })
+      .match(clusters, vehicles, { ...constraints, random: createSeededRandom(2) });
+
+    const assignedIds = assignments.flatMap(assignment => assignment.requestIds);
+    expect(new Set(assignedIds).size).toBe(assignedIds.length);
+    assignments.forEach(assignment => {
+      const vehicle = vehicles.find(v => v.id === assignment.vehicleId) as Vehicle;
+      const served = clusters.filter(cluster => assignment.requestIds.includes(cluster.requests[0].id));
+      expect(served.flatMap(cluster => cluster.requests.map(request => request.id))).toEqual(assignment.requestIds);
+      expect(assignment.requestIds.length).toBeLessThanOrEqual(vehicle.availableSeats);
+      served.forEach(cluster => {
+        expect(haversineDistance(vehicle.location, cluster.centroid)).toBeLessThanOrEqual(constraints.maxDetourKm);
+      });
+    });
+
+    const greedyFitness = solutionFitness(greedySolution(clusters, vehicles, constraints), clusters, vehicles, constraints.maxDetourKm);
+    expect(fitnessOf(assignments, clusters, vehicles)).toBeGreaterThanOrEqual(greedyFitness);
+  });
+
+  test('reports best fitness as it improves and is reproducible with a seeded random source', () => {
+    const { clusters, vehicles } = randomInstance(3);
+    const run = (progress: number[]) => new AlnsMatcher({ maxIterations: 50 }).match(clusters, vehicles, {
+      ...constraints,
+      random: createSeededRandom(4),
+      onProgress: ({ bestFitness }) => progress.push(bestFitness)
+    });
+
+    const progress: number[] = [];
+    const first = run(progress);
+
+    expect(progress).toHaveLength(51);
+    progress.slice(1).forEach((fitness, index) => expect(fitness).toBeGreaterThanOrEqual(progress[index]));
+    expect(fitnessOf(first, clusters, vehicles)).toBeCloseTo(progress[progress.length - 1], 10);
+    expect(run([])).toEqual(first);
+  });
+});
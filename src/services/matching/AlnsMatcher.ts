@@ -0,0 +1,369 @@
+import { IMatchingStrategy, MatchingConstraints } from '../interfaces';
+import { Cluster, Vehicle, Assignment } from '../../models/types';
+import { DEFAULT_SIMULATION_CONFIG } from '../../config/simulationConfig';
+import { haversineDistance } from '../../utils/geo';
+import { RandomSource } from '../../utils/random';
+import { routeDetour } from './matchingCost';
+import {
+  ClusterSolution,
+  greedySolution,
+  isVehicleFeasible,
+  solutionFitness,
+  solutionGroups,
+  solutionToAssignments
+} from './clusterSolution';
+import { reportUnassigned } from './unassignedRequests';
+
+export interface AlnsOptions {
+  maxIterations?: number;
+  removalShare?: number; // share of the clusters each destroy step removes (at least one)
+  initialTemperature?: number; // in fitness units
+  coolingRate?: number; // temperature multiplier per iteration
+  segmentLength?: number; // iterations between operator weight updates
+  reactionFactor?: number; // 0 keeps the initial weights, 1 uses only the last segment's scores
+  timeLimitMs?: number; // stop early once this much time has passed
+}
+
+/**
+ * Problem being solved, passed to the destroy and repair operators
+ */
+interface SearchContext {
+  clusters: Cluster[];
+  vehicles: Vehicle[];
+  constraints: MatchingConstraints;
+  random: RandomSource;
+}
+
+/**
+ * Destroy or repair operator with its adaptive selection weight
+ */
+interface AdaptiveOperator<Apply> {
+  name: string;
+  apply: Apply;
+  weight: number;
+  score: number; // earned in the current segment
+  uses: number; // in the current segment
+}
+
+// Unassigns up to count clusters of the solution
+type DestroyOperator = (solution: ClusterSolution, count: number, context: SearchContext) => void;
+// Reassigns unassigned clusters of the solution
+type RepairOperator = (solution: ClusterSolution, context: SearchContext) => void;
+
+/**
+ * Feasible vehicle for an unassigned cluster and the fitness of the solution with it
+ */
+interface Insertion {
+  vehicleIndex: number;
+  fitness: number;
+}
+
+// Randomizes ranked removals: higher values stick closer to the ranking
+const RANKED_REMOVAL_DETERMINISM = 3;
+
+/**
+ * Adaptive large neighbourhood search over cluster-to-vehicle assignments, starting from the
+ * greedy solution. Uses the genetic matcher's solution encoding and fitness.
+ *
+ * Each iteration unassigns part of the current solution with a destroy operator (random,
+ * worst-detour or related removal) and rebuilds it with a repair operator (greedy or regret
+ * reinsertion). Operators are picked by roulette wheel; their weights adapt every segment to
+ * how often they found new best, improving or accepted solutions. Worse solutions are accepted
+ * as in simulated annealing.
+ */
+export class AlnsMatcher implements IMatchingStrategy {
+  private readonly options: Required<AlnsOptions>;
+
+  constructor(options: AlnsOptions = {}) {
+    const { ALNS } = DEFAULT_SIMULATION_CONFIG;
+    this.options = {
+      maxIterations: options.maxIterations ?? ALNS.MAX_ITERATIONS,
+      removalShare: options.removalShare ?? ALNS.REMOVAL_SHARE,
+      initialTemperature: options.initialTemperature ?? ALNS.INITIAL_TEMPERATURE,
+      coolingRate: options.coolingRate ?? ALNS.COOLING_RATE,
+      segmentLength: options.segmentLength ?? ALNS.SEGMENT_LENGTH,
+      reactionFactor: options.reactionFactor ?? ALNS.REACTION_FACTOR,
+      timeLimitMs: options.timeLimitMs ?? Infinity
+    };
+  }
+
+  match(clusters: Cluster[], vehicles: Vehicle[], constraints: MatchingConstraints): Assignment[] {
+    if (clusters.length === 0 || vehicles.length === 0) {
+      reportUnassigned(clusters, vehicles, [], constraints);
+      return [];
+    }
+
+    const { SCORES } = DEFAULT_SIMULATION_CONFIG.ALNS;
+    const context: SearchContext = { clusters, vehicles, constraints, random: constraints.random ?? Math.random };
+    const destroyOperators: AdaptiveOperator<DestroyOperator>[] = [
+      this.operator('random removal', this.randomRemoval),
+      this.operator('worst-detour removal', this.worstDetourRemoval),
+      this.operator('related removal', this.relatedRemoval)
+    ];
+    const repairOperators: AdaptiveOperator<RepairOperator>[] = [
+      this.operator('greedy insertion', this.greedyInsertion),
+      this.operator('regret insertion', this.regretInsertion)
+    ];
+    const removalCount = Math.max(1, Math.round(clusters.length * this.options.removalShare));
+    const startTime = Date.now();
+    // About a hundred progress reports per run
+    const progressInterval = Math.max(1, Math.floor(this.options.maxIterations / 100));
+
+    let current = greedySolution(clusters, vehicles, constraints);
+    let currentFitness = this.fitness(current, context);
+    let best = current;
+    let bestFitness = currentFitness;
+    let temperature = this.options.initialTemperature;
+    let iteration = 0;
+    this.reportProgress(iteration, bestFitness, currentFitness, constraints);
+
+    while (iteration < this.options.maxIterations && Date.now() - startTime < this.options.timeLimitMs) {
+      iteration++;
+
+      const destroy = this.selectOperator(destroyOperators, context.random);
+      const repair = this.selectOperator(repairOperators, context.random);
+      const candidate = [...current];
+      destroy.apply(candidate, removalCount, context);
+      repair.apply(candidate, context);
+
+      const candidateFitness = this.fitness(candidate, context);
+      const delta = candidateFitness - currentFitness;
+      let score = 0;
+
+      if (candidateFitness > bestFitness) {
+        best = candidate;
+        bestFitness = candidateFitness;
+        score = SCORES.NEW_BEST;
+      } else if (delta > 0) {
+        score = SCORES.IMPROVED;
+      } else if (context.random() < Math.exp(delta / temperature)) {
+        score = SCORES.ACCEPTED;
+      }
+
+      if (score > 0) {
+        current = candidate;
+        currentFitness = candidateFitness;
+      }
+
+      for (const operator of [destroy, repair]) {
+        operator.score += score;
+        operator.uses++;
+      }
+
+      if (iteration % this.options.segmentLength === 0) {
+        this.updateWeights(destroyOperators);
+        this.updateWeights(repairOperators);
+      }
+
+      temperature *= this.options.coolingRate;
+      if (iteration % progressInterval === 0) {
+        this.reportProgress(iteration, bestFitness, currentFitness, constraints);
+      }
+    }
+
+    const weights = [...destroyOperators, ...repairOperators]
+      .map(({ name, weight }) => `${name} ${weight.toFixed(2)}`)
+      .join(', ');
+    console.log(
+      `ALNS matching: ${iteration} iterations in ${Date.now() - startTime} ms, ` +
+      `fitness ${bestFitness.toFixed(4)}, operator weights: ${weights}`
+    );
+
+    const assignments = solutionToAssignments(best, clusters, vehicles);
+    reportUnassigned(clusters, vehicles, assignments, constraints);
+    return assignments;
+  }
+
+  private operator<Apply>(name: string, apply: Apply): AdaptiveOperator<Apply> {
+    return { name, apply, weight: 1, score: 0, uses: 0 };
+  }
+
+  /**
+   * Roulette wheel selection by operator weight
+   */
+  private selectOperator<Apply>(operators: AdaptiveOperator<Apply>[], random: RandomSource): AdaptiveOperator<Apply> {
+    const totalWeight = operators.reduce((sum, operator) => sum + operator.weight, 0);
+    let pick = random() * totalWeight;
+
+    for (const operator of operators) {
+      pick -= operator.weight;
+      if (pick < 0) return operator;
+    }
+    return operators[operators.length - 1];
+  }
+
+  /**
+   * Move each operator's weight towards its average score in the segment and start a new segment.
+   * Unused operators keep their weight.
+   */
+  private updateWeights<Apply>(operators: AdaptiveOperator<Apply>[]): void {
+    const { reactionFactor } = this.options;
+
+    for (const operator of operators) {
+      if (operator.uses > 0) {
+        // Never drop to zero, so every operator keeps a chance to be picked
+        operator.weight = Math.max(
+          operator.weight * (1 - reactionFactor) + reactionFactor * operator.score / operator.uses,
+          0.1
+        );
+      }
+      operator.score = 0;
+      operator.uses = 0;
+    }
+  }
+
+  private reportProgress(
+    iteration: number,
+    bestFitness: number,
+    currentFitness: number,
+    constraints: MatchingConstraints
+  ): void {
+    constraints.onProgress?.({
+      iteration,
+      maxIterations: this.options.maxIterations,
+      bestFitness,
+      meanFitness: currentFitness
+    });
+  }
+
+  private fitness(solution: ClusterSolution, { clusters, vehicles, constraints }: SearchContext): number {
+    return solutionFitness(solution, clusters, vehicles, constraints.maxDetourKm);
+  }
+
+  /**
+   * Unassign count clusters of the ranking, picking clusters near the top more often
+   * so that repeated removals vary
+   */
+  private removeRanked(solution: ClusterSolution, ranking: number[], count: number, random: RandomSource): void {
+    const remaining = [...ranking];
+
+    for (let removed = 0; removed < count && remaining.length > 0; removed++) {
+      const position = Math.floor(Math.pow(random(), RANKED_REMOVAL_DETERMINISM) * remaining.length);
+      solution[remaining.splice(position, 1)[0]] = -1;
+    }
+  }
+
+  private assignedClusters(solution: ClusterSolution): number[] {
+    return solution.flatMap((vehicleIndex, clusterIndex) => (vehicleIndex >= 0 ? [clusterIndex] : []));
+  }
+
+  private randomRemoval = (solution: ClusterSolution, count: number, { random }: SearchContext): void => {
+    const assigned = this.assignedClusters(solution);
+
+    for (let removed = 0; removed < count && assigned.length > 0; removed++) {
+      const [clusterIndex] = assigned.splice(Math.floor(random() * assigned.length), 1);
+      solution[clusterIndex] = -1;
+    }
+  };
+
+  /**
+   * Remove the clusters that add the most detour per rider to their vehicle's route
+   */
+  private worstDetourRemoval = (solution: ClusterSolution, count: number, context: SearchContext): void => {
+    const { clusters, vehicles, random } = context;
+    const groups = solutionGroups(solution, clusters, vehicles);
+
+    const detourPerRider = new Map(this.assignedClusters(solution).map(clusterIndex => {
+      const vehicle = vehicles[solution[clusterIndex]];
+      const riders = groups[solution[clusterIndex]];
+      const withoutCluster = riders.filter(request => !clusters[clusterIndex].requests.includes(request));
+      const added = routeDetour(vehicle, riders) - routeDetour(vehicle, withoutCluster);
+      return [clusterIndex, added / clusters[clusterIndex].requests.length];
+    }));
+
+    const ranking = Array.from(detourPerRider.keys())
+      .sort((a, b) => (detourPerRider.get(b) as number) - (detourPerRider.get(a) as number));
+    this.removeRanked(solution, ranking, count, random);
+  };
+
+  /**
+   * Remove a random cluster and the assigned clusters closest to it, so nearby clusters
+   * can be redistributed among their vehicles
+   */
+  private relatedRemoval = (solution: ClusterSolution, count: number, context: SearchContext): void => {
+    const { clusters, random } = context;
+    const seed = clusters[Math.floor(random() * clusters.length)].centroid;
+
+    const ranking = this.assignedClusters(solution)
+      .map(clusterIndex => ({ clusterIndex, distance: haversineDistance(seed, clusters[clusterIndex].centroid) }))
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ clusterIndex }) => clusterIndex);
+    this.removeRanked(solution, ranking, count, random);
+  };
+
+  /**
+   * Feasible vehicles for an unassigned cluster, best resulting fitness first
+   */
+  private insertions(solution: ClusterSolution, clusterIndex: number, context: SearchContext): Insertion[] {
+    const { clusters, vehicles, constraints } = context;
+    const candidate = [...solution];
+    const insertions: Insertion[] = [];
+
+    vehicles.forEach((_, vehicleIndex) => {
+      candidate[clusterIndex] = vehicleIndex;
+      if (isVehicleFeasible(candidate, vehicleIndex, clusters, vehicles, constraints)) {
+        insertions.push({ vehicleIndex, fitness: this.fitness(candidate, context) });
+      }
+    });
+
+    return insertions.sort((a, b) => b.fitness - a.fitness);
+  }
+
+  /**
+   * Repeatedly insert the unassigned cluster whose best insertion raises the fitness most,
+   * until no insertion raises it
+   */
+  private greedyInsertion = (solution: ClusterSolution, context: SearchContext): void => {
+    let fitness = this.fitness(solution, context);
+
+    for (;;) {
+      let bestCluster = -1;
+      let bestInsertion: Insertion | undefined;
+
+      for (let clusterIndex = 0; clusterIndex < solution.length; clusterIndex++) {
+        if (solution[clusterIndex] >= 0) continue;
+        const [insertion] = this.insertions(solution, clusterIndex, context);
+        if (insertion && insertion.fitness > (bestInsertion?.fitness ?? fitness)) {
+          bestCluster = clusterIndex;
+          bestInsertion = insertion;
+        }
+      }
+
+      if (!bestInsertion) return;
+      solution[bestCluster] = bestInsertion.vehicleIndex;
+      fitness = bestInsertion.fitness;
+    }
+  };
+
+  /**
+   * Repeatedly insert the unassigned cluster that loses most by not getting its best vehicle:
+   * the largest gap between its best and second-best insertion (or leaving it unassigned).
+   * Clusters with few options are placed before their vehicles fill up.
+   */
+  private regretInsertion = (solution: ClusterSolution, context: SearchContext): void => {
+    let fitness = this.fitness(solution, context);
+
+    for (;;) {
+      let bestCluster = -1;
+      let bestInsertion: Insertion | undefined;
+      let bestRegret = -Infinity;
+
+      for (let clusterIndex = 0; clusterIndex < solution.length; clusterIndex++) {
+        if (solution[clusterIndex] >= 0) continue;
+        const [first, second] = this.insertions(solution, clusterIndex, context);
+        if (!first || first.fitness <= fitness) continue;
+
+        const regret = first.fitness - Math.max(second?.fitness ?? fitness, fitness);
+        if (regret > bestRegret) {
+          bestCluster = clusterIndex;
+          bestInsertion = first;
+          bestRegret = regret;
+        }
+      }
+
+      if (!bestInsertion) return;
+      solution[bestCluster] = bestInsertion.vehicleIndex;
+      fitness = bestInsertion.fitness;
+    }
+  };
+}
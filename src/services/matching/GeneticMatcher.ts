@@ -1,6 +1,13 @@
-import { IMatchingStrategy } from '../interfaces';
-import { Cluster, Vehicle, Assignment, Coordinates, RideRequest } from '../../models/types';
+import { IMatchingStrategy, MatchingConstraints } from '../interfaces';
+import { Cluster, Vehicle, Assignment, RideRequest, GeneticMatcherOptions } from '../../models/types';
 import { haversineDistance } from '../../utils/geo';
+import { RandomSource } from '../../utils/random';
+import { FITNESS_WEIGHTS, routeLength, serviceRoute } from './matchingCost';
+import { fitsTimeWindows, solutionFitness, solutionGroups, solutionToAssignments } from './clusterSolution';
+import { crowdedCompare, nonDominatedSort, paretoRanking } from './pareto';
+import { reportUnassigned } from './unassignedRequests';
+import { fitnessWeights, resolveGeneticOptions, validateGeneticOptions } from './geneticOptions';
+import { meetsTimeWindows, serviceStops } from '../routing/serviceTimes';
 
 /**
  * Genetic Algorithm for optimized ride-sharing matching
@@ -9,20 +16,36 @@ import { haversineDistance } from '../../utils/geo';
  * - Considering multiple routes and combinations
  * - Producing more efficient vehicle-to-cluster assignments
  * - Minimizing total system-wide detour distance
+ *
+ * Hyperparameters and fitness weights default to the balanced preset and FITNESS_WEIGHTS.
+ * With the 'pareto' objective it runs NSGA-II instead, keeping every trade-off between riders
+ * matched and distance driven (see matchPareto).
  */
 export class GeneticMatcher implements IMatchingStrategy {
   // Genetic algorithm parameters
-  private readonly POPULATION_SIZE = 50;
-  private readonly MAX_GENERATIONS = 100;
-  private readonly MUTATION_RATE = 0.2;
-  private readonly ELITISM_RATE = 0.2;
-  private readonly CROSSOVER_RATE = 0.7;
+  private readonly options: Required<GeneticMatcherOptions>;
+  private readonly weights: typeof FITNESS_WEIGHTS;
 
-  match(clusters: Cluster[], vehicles: Vehicle[], constraints: { maxDetourKm: number }): Assignment[] {
+  constructor(options: GeneticMatcherOptions = {}) {
+    const errors = validateGeneticOptions(options);
+    if (errors.length > 0) {
+      throw new Error(`Invalid genetic matcher options: ${errors.join('; ')}`);
+    }
+
+    this.options = resolveGeneticOptions(options);
+    this.weights = fitnessWeights(this.options);
+  }
+
+  match(clusters: Cluster[], vehicles: Vehicle[], constraints: MatchingConstraints): Assignment[] {
     if (clusters.length === 0 || vehicles.length === 0) {
+      reportUnassigned(clusters, vehicles, [], constraints);
       return [];
     }
 
+    if (this.options.objective === 'pareto') {
+      return this.matchPareto(clusters, vehicles, constraints);
+    }
+
     // Create initial population
     let population = this.initializePopulation(clusters, vehicles, constraints);
     
@@ -30,9 +53,10 @@ export class GeneticMatcher implements IMatchingStrategy {
     let bestSolution = this.findBestSolution(population, clusters, vehicles, constraints);
     let bestFitness = this.calculateFitness(bestSolution, clusters, vehicles, constraints);
     let generationsWithoutImprovement = 0;
+    this.reportProgress(0, population, bestFitness, clusters, vehicles, constraints);
     
     // Run for specified generations or until convergence
-    for (let generation = 0; generation < this.MAX_GENERATIONS; generation++) {
+    for (let generation = 0; generation < this.options.maxGenerations; generation++) {
       // Create next generation
       population = this.evolvePopulation(population, clusters, vehicles, constraints);
       
@@ -49,8 +73,10 @@ export class GeneticMatcher implements IMatchingStrategy {
         generationsWithoutImprovement++;
       }
       
-      // Early termination if no improvement for 20 generations
-      if (generationsWithoutImprovement >= 20) {
+      this.reportProgress(generation + 1, population, bestFitness, clusters, vehicles, constraints);
+      
+      // Early termination once the best solution has stalled
+      if (generationsWithoutImprovement >= this.options.stallGenerations) {
         break;
       }
     }
@@ -59,7 +85,134 @@ export class GeneticMatcher implements IMatchingStrategy {
     const improvedSolution = this.postProcessSolution(bestSolution, clusters, vehicles, constraints);
     
     // Convert the improved solution to assignments
-    return this.solutionToAssignments(improvedSolution, clusters, vehicles);
+    const assignments = solutionToAssignments(improvedSolution, clusters, vehicles);
+    reportUnassigned(clusters, vehicles, assignments, constraints);
+    return assignments;
+  }
+  
+  /**
+   * NSGA-II over two objectives: riders matched (maximized) and total route distance (minimized).
+   * Each generation breeds offspring from crowded-comparison tournaments, then keeps the best of
+   * parents and offspring by Pareto front and crowding distance, so elitism and stall generations
+   * do not apply.
+   *
+   * Reports the final non-dominated assignment sets through onParetoFront, best fitness first,
+   * and returns that first set.
+   */
+  private matchPareto(clusters: Cluster[], vehicles: Vehicle[], constraints: MatchingConstraints): Assignment[] {
+    const random = constraints.random ?? Math.random;
+    const { populationSize, maxGenerations, crossoverRate } = this.options;
+    
+    let population = this.initializePopulation(clusters, vehicles, constraints);
+    let objectives = population.map(solution => this.objectives(solution, clusters, vehicles));
+    let bestFitness = Math.max(...population.map(solution => this.calculateFitness(solution, clusters, vehicles, constraints)));
+    this.reportProgress(0, population, bestFitness, clusters, vehicles, constraints);
+    
+    for (let generation = 0; generation < maxGenerations; generation++) {
+      const { ranks, crowding } = paretoRanking(objectives);
+      
+      const offspring: number[][] = [];
+      while (offspring.length < populationSize) {
+        let children = [
+          this.crowdedTournament(population, ranks, crowding, random),
+          this.crowdedTournament(population, ranks, crowding, random)
+        ];
+        if (random() < crossoverRate) {
+          children = this.crossover(children[0], children[1], random);
+        }
+        for (const child of children) {
+          this.mutate(child, clusters, vehicles, constraints);
+          this.repairSolution(child, clusters, vehicles, constraints);
+        }
+        offspring.push(...children.slice(0, populationSize - offspring.length));
+      }
+      
+      // Survivors: the best populationSize of parents and offspring by crowded comparison
+      const combined = [...population, ...offspring];
+      const combinedObjectives = [...objectives, ...offspring.map(solution => this.objectives(solution, clusters, vehicles))];
+      const ranking = paretoRanking(combinedObjectives);
+      const survivors = combined
+        .map((_, index) => index)
+        .sort((a, b) => crowdedCompare(a, b, ranking.ranks, ranking.crowding))
+        .slice(0, populationSize);
+      
+      population = survivors.map(index => combined[index]);
+      objectives = survivors.map(index => combinedObjectives[index]);
+      bestFitness = Math.max(bestFitness, ...population.map(solution => this.calculateFitness(solution, clusters, vehicles, constraints)));
+      this.reportProgress(generation + 1, population, bestFitness, clusters, vehicles, constraints);
+    }
+    
+    // One solution per distinct trade-off, leaving out the empty one
+    const trades = new Map<string, number[]>();
+    for (const index of nonDominatedSort(objectives)[0]) {
+      const [matched, negatedDistance] = objectives[index];
+      const key = `${matched}:${negatedDistance.toFixed(6)}`;
+      if (matched > 0 && !trades.has(key)) {
+        trades.set(key, population[index]);
+      }
+    }
+    
+    const front = Array.from(trades.values())
+      .map(solution => ({ solution, fitness: this.calculateFitness(solution, clusters, vehicles, constraints) }))
+      .sort((a, b) => b.fitness - a.fitness)
+      .map(({ solution }) => solutionToAssignments(solution, clusters, vehicles));
+    
+    console.log(`NSGA-II matching: ${front.length} non-dominated assignment sets after ${maxGenerations} generations`);
+    constraints.onParetoFront?.(front);
+    
+    const assignments = front[0] ?? [];
+    reportUnassigned(clusters, vehicles, assignments, constraints);
+    return assignments;
+  }
+  
+  /**
+   * Binary tournament for NSGA-II: a copy of the parent on the better front,
+   * or of the less crowded one when both are on the same front
+   */
+  private crowdedTournament(population: number[][], ranks: number[], crowding: number[], random: RandomSource): number[] {
+    const a = Math.floor(random() * population.length);
+    const b = Math.floor(random() * population.length);
+    return [...population[crowdedCompare(a, b, ranks, crowding) <= 0 ? a : b]];
+  }
+  
+  /**
+   * Objectives of a solution, both maximized: riders matched and the negated total route distance
+   */
+  private objectives(solution: number[], clusters: Cluster[], vehicles: Vehicle[]): number[] {
+    const groups = solutionGroups(solution, clusters, vehicles);
+    const matched = groups.reduce((sum, requests) => sum + requests.length, 0);
+    const distance = groups.reduce(
+      (sum, requests, vehicleIndex) => sum + (requests.length > 0 ? routeLength(serviceRoute(vehicles[vehicleIndex], requests)) : 0),
+      0
+    );
+    
+    return [matched, -distance];
+  }
+  
+  /**
+   * Report the best and mean fitness of a generation to the progress callback, if any
+   */
+  private reportProgress(
+    generation: number,
+    population: number[][],
+    bestFitness: number,
+    clusters: Cluster[],
+    vehicles: Vehicle[],
+    constraints: MatchingConstraints
+  ): void {
+    if (!constraints.onProgress) return;
+    
+    const totalFitness = population.reduce(
+      (sum, solution) => sum + this.calculateFitness(solution, clusters, vehicles, constraints),
+      0
+    );
+    
+    constraints.onProgress({
+      iteration: generation,
+      maxIterations: this.options.maxGenerations,
+      bestFitness,
+      meanFitness: totalFitness / population.length
+    });
   }
   
   /**
@@ -68,12 +221,13 @@ export class GeneticMatcher implements IMatchingStrategy {
   private initializePopulation(
     clusters: Cluster[], 
     vehicles: Vehicle[], 
-    constraints: { maxDetourKm: number }
+    constraints: MatchingConstraints
   ): number[][] {
     const population: number[][] = [];
+    const random = constraints.random ?? Math.random;
     
     // Create random solutions
-    for (let i = 0; i < this.POPULATION_SIZE; i++) {
+    for (let i = 0; i < this.options.populationSize; i++) {
       // Each solution is an array where index = cluster index, value = vehicle index
       // -1 means unassigned cluster
       const solution = new Array(clusters.length).fill(-1);
@@ -85,7 +239,7 @@ export class GeneticMatcher implements IMatchingStrategy {
       }));
       
       // For some solutions, prioritize greedy assignment to maximize matching
-      const useGreedyAssignment = i < this.POPULATION_SIZE * 0.3; // 30% greedy solutions
+      const useGreedyAssignment = i < this.options.populationSize * 0.3; // 30% greedy solutions
       
       if (useGreedyAssignment) {
         // Greedy assignment: assign clusters to nearest available vehicle
@@ -108,7 +262,11 @@ export class GeneticMatcher implements IMatchingStrategy {
                 clusters[j].centroid
               );
               
-              if (distance <= constraints.maxDetourKm && distance < bestDistance) {
+              if (
+                distance <= constraints.maxDetourKm &&
+                distance < bestDistance &&
+                fitsTimeWindows(solution, j, index, clusters, vehicles, constraints)
+              ) {
                 bestVehicleIndex = index;
                 bestDistance = distance;
               }
@@ -133,7 +291,7 @@ export class GeneticMatcher implements IMatchingStrategy {
           
           if (eligibleVehicles.length > 0) {
             // Randomly select a vehicle
-            const randomIndex = Math.floor(Math.random() * eligibleVehicles.length);
+            const randomIndex = Math.floor(random() * eligibleVehicles.length);
             const selectedVehicle = eligibleVehicles[randomIndex];
             
             // Check distance constraint
@@ -142,7 +300,10 @@ export class GeneticMatcher implements IMatchingStrategy {
               clusters[j].centroid
             );
             
-            if (distance <= constraints.maxDetourKm) {
+            if (
+              distance <= constraints.maxDetourKm &&
+              fitsTimeWindows(solution, j, selectedVehicle.index, clusters, vehicles, constraints)
+            ) {
               // Assign cluster to vehicle
               solution[j] = selectedVehicle.index;
               // Update vehicle capacity
@@ -165,12 +326,13 @@ export class GeneticMatcher implements IMatchingStrategy {
     population: number[][], 
     clusters: Cluster[], 
     vehicles: Vehicle[], 
-    constraints: { maxDetourKm: number }
+    constraints: MatchingConstraints
   ): number[][] {
     const newPopulation: number[][] = [];
+    const random = constraints.random ?? Math.random;
     
     // Elitism: keep best solutions
-    const eliteCount = Math.floor(this.POPULATION_SIZE * this.ELITISM_RATE);
+    const eliteCount = Math.floor(this.options.populationSize * this.options.elitismRate);
     const sortedPopulation = [...population]
       .sort((a, b) => 
         this.calculateFitness(b, clusters, vehicles, constraints) - 
@@ -183,7 +345,7 @@ export class GeneticMatcher implements IMatchingStrategy {
     }
     
     // Fill the rest with offspring
-    while (newPopulation.length < this.POPULATION_SIZE) {
+    while (newPopulation.length < this.options.populationSize) {
       // Select parents using tournament selection
       const parent1 = this.tournamentSelection(population, clusters, vehicles, constraints);
       const parent2 = this.tournamentSelection(population, clusters, vehicles, constraints);
@@ -192,8 +354,8 @@ export class GeneticMatcher implements IMatchingStrategy {
       let offspring2 = [...parent2];
       
       // Crossover
-      if (Math.random() < this.CROSSOVER_RATE) {
-        [offspring1, offspring2] = this.crossover(offspring1, offspring2);
+      if (random() < this.options.crossoverRate) {
+        [offspring1, offspring2] = this.crossover(offspring1, offspring2, random);
       }
       
       // Mutation
@@ -206,7 +368,7 @@ export class GeneticMatcher implements IMatchingStrategy {
       
       // Add to new population
       newPopulation.push(offspring1);
-      if (newPopulation.length < this.POPULATION_SIZE) {
+      if (newPopulation.length < this.options.populationSize) {
         newPopulation.push(offspring2);
       }
     }
@@ -221,15 +383,16 @@ export class GeneticMatcher implements IMatchingStrategy {
     population: number[][], 
     clusters: Cluster[], 
     vehicles: Vehicle[], 
-    constraints: { maxDetourKm: number }
+    constraints: MatchingConstraints
   ): number[] {
     // Tournament size (typically 2-5)
     const tournamentSize = 3;
     const tournament: number[][] = [];
+    const random = constraints.random ?? Math.random;
     
     // Randomly select candidates
     for (let i = 0; i < tournamentSize; i++) {
-      const randomIndex = Math.floor(Math.random() * population.length);
+      const randomIndex = Math.floor(random() * population.length);
       tournament.push(population[randomIndex]);
     }
     
@@ -251,9 +414,9 @@ export class GeneticMatcher implements IMatchingStrategy {
   /**
    * Crossover two parent solutions to create offspring
    */
-  private crossover(parent1: number[], parent2: number[]): [number[], number[]] {
+  private crossover(parent1: number[], parent2: number[], random: RandomSource): [number[], number[]] {
     // Single-point crossover
-    const crossoverPoint = Math.floor(Math.random() * parent1.length);
+    const crossoverPoint = Math.floor(random() * parent1.length);
     
     const offspring1 = [
       ...parent1.slice(0, crossoverPoint),
@@ -275,10 +438,12 @@ export class GeneticMatcher implements IMatchingStrategy {
     solution: number[], 
     clusters: Cluster[], 
     vehicles: Vehicle[], 
-    constraints: { maxDetourKm: number }
+    constraints: MatchingConstraints
   ): void {
+    const random = constraints.random ?? Math.random;
+    
     for (let i = 0; i < solution.length; i++) {
-      if (Math.random() < this.MUTATION_RATE) {
+      if (random() < this.options.mutationRate) {
         // Either assign to a different vehicle or unassign
         const currentVehicle = solution[i];
         const clusterSize = clusters[i].requests.length;
@@ -312,7 +477,7 @@ export class GeneticMatcher implements IMatchingStrategy {
           continue;
         }
         
-        const randomIndex = Math.floor(Math.random() * options.length);
+        const randomIndex = Math.floor(random() * options.length);
         solution[i] = options[randomIndex];
       }
     }
@@ -325,7 +490,7 @@ export class GeneticMatcher implements IMatchingStrategy {
     solution: number[], 
     clusters: Cluster[], 
     vehicles: Vehicle[], 
-    constraints: { maxDetourKm: number }
+    constraints: MatchingConstraints
   ): void {
     // Clone vehicles to track capacity
     const availableSeats = vehicles.map(v => v.availableSeats);
@@ -367,109 +532,46 @@ export class GeneticMatcher implements IMatchingStrategy {
         solution[i] = -1;
       }
     }
+    
+    this.enforceTimeWindows(solution, clusters, vehicles, constraints);
   }
   
   /**
-   * Calculate fitness of a solution (higher is better)
+   * Unassign clusters, in cluster order, that would make a rider of their vehicle late
+   * or ride too long
    */
-  private calculateFitness(
-    solution: number[], 
-    clusters: Cluster[], 
-    vehicles: Vehicle[], 
-    constraints: { maxDetourKm: number }
-  ): number {
-    // Calculate various metrics
-    let totalAssigned = 0;
-    let totalDistance = 0;
-    let totalDetour = 0;
-    
-    // Track vehicle assignments
-    const vehicleAssignments = new Map<number, Cluster[]>();
+  private enforceTimeWindows(
+    solution: number[],
+    clusters: Cluster[],
+    vehicles: Vehicle[],
+    constraints: MatchingConstraints
+  ): void {
+    if (!constraints.timeWindows) return;
     
-    // Process assignments
+    const riders: RideRequest[][] = vehicles.map(() => []);
     for (let i = 0; i < solution.length; i++) {
       const vehicleIndex = solution[i];
-      
-      // Skip unassigned clusters
       if (vehicleIndex < 0) continue;
       
-      const cluster = clusters[i];
-      totalAssigned += cluster.requests.length;
-      
-      // Add to vehicle assignments
-      if (!vehicleAssignments.has(vehicleIndex)) {
-        vehicleAssignments.set(vehicleIndex, []);
-      }
-      const vehicleClusters = vehicleAssignments.get(vehicleIndex);
-      if (vehicleClusters) {
-        vehicleClusters.push(cluster);
-      }
-    }
-    
-    // Calculate route distances
-    for (const [vehicleIndex, assignedClusters] of Array.from(vehicleAssignments.entries())) {
-      const vehicle = vehicles[vehicleIndex];
-      
-      // Simple route: vehicle -> all pickups -> all dropoffs
-      let routePoints: Coordinates[] = [vehicle.location];
-      
-      // Add pickup points
-      const pickupPoints = assignedClusters.flatMap(
-        (cluster: Cluster) => cluster.requests.map((req: RideRequest) => req.pickupLocation)
-      );
-      routePoints = [...routePoints, ...pickupPoints];
-      
-      // Add dropoff points
-      const dropoffPoints = assignedClusters.flatMap(
-        (cluster: Cluster) => cluster.requests.map((req: RideRequest) => req.dropoffLocation)
-      );
-      routePoints = [...routePoints, ...dropoffPoints];
-      
-      // Calculate route distance
-      let routeDistance = 0;
-      for (let i = 0; i < routePoints.length - 1; i++) {
-        routeDistance += haversineDistance(routePoints[i], routePoints[i + 1]);
+      const candidate = [...riders[vehicleIndex], ...clusters[i].requests];
+      if (meetsTimeWindows(vehicles[vehicleIndex], serviceStops(candidate), constraints.timeWindows)) {
+        riders[vehicleIndex] = candidate;
+      } else {
+        solution[i] = -1;
       }
-      
-      totalDistance += routeDistance;
-      
-      // Calculate direct distances (for detour calculation)
-      const directDistances = assignedClusters.flatMap((cluster: Cluster) => 
-        cluster.requests.map((req: RideRequest) => 
-          haversineDistance(vehicle.location, req.dropoffLocation)
-        )
-      );
-      
-      const totalDirectDistance = directDistances.reduce(
-        (sum: number, dist: number) => sum + dist, 
-        0
-      );
-      totalDetour += routeDistance - totalDirectDistance;
     }
-    
-    // Calculate fitness score - weighted combination of objectives
-    const maxPossibleAssigned = clusters.reduce(
-      (sum, cluster) => sum + cluster.requests.length, 
-      0
-    );
-    
-    const assignmentRatio = totalAssigned / maxPossibleAssigned;
-    const normalizedDetour = Math.min(totalDetour / (totalAssigned || 1) / constraints.maxDetourKm, 1);
-    
-    // Calculate vehicle utilization penalty
-    const usedVehicles = vehicleAssignments.size;
-    const totalVehicles = vehicles.length;
-    const vehicleUtilization = usedVehicles / totalVehicles;
-    
-    // Strongly penalize unused vehicles
-    const unusedVehiclePenalty = (totalVehicles - usedVehicles) * 0.1;
-    
-    // Fitness function weights - prioritize assignment ratio and vehicle utilization
-    const w1 = 0.8; // Assignment ratio weight (increased from 0.7)
-    const w2 = 0.15; // Detour minimization weight (decreased from 0.3)
-    const w3 = 0.05; // Vehicle utilization weight (new)
-    
-    return w1 * assignmentRatio - w2 * normalizedDetour + w3 * vehicleUtilization - unusedVehiclePenalty;
+  }
+  
+  /**
+   * Calculate fitness of a solution (higher is better)
+   */
+  private calculateFitness(
+    solution: number[], 
+    clusters: Cluster[], 
+    vehicles: Vehicle[], 
+    constraints: MatchingConstraints
+  ): number {
+    return solutionFitness(solution, clusters, vehicles, constraints.maxDetourKm, this.weights);
   }
   
   /**
@@ -479,7 +581,7 @@ export class GeneticMatcher implements IMatchingStrategy {
     population: number[][],
     clusters: Cluster[], 
     vehicles: Vehicle[],
-    constraints: { maxDetourKm: number }
+    constraints: MatchingConstraints
   ): number[] {
     // Return any solution for an empty population
     if (population.length === 0) {
@@ -501,70 +603,6 @@ export class GeneticMatcher implements IMatchingStrategy {
     return [...bestSolution];
   }
   
-  /**
-   * Convert a solution to assignments
-   */
-  private solutionToAssignments(
-    solution: number[], 
-    clusters: Cluster[], 
-    vehicles: Vehicle[]
-  ): Assignment[] {
-    // Group clusters by vehicle
-    const vehicleToClusters = new Map<number, Cluster[]>();
-    
-    for (let i = 0; i < solution.length; i++) {
-      const vehicleIndex = solution[i];
-      
-      // Skip unassigned clusters
-      if (vehicleIndex < 0) continue;
-      
-      if (!vehicleToClusters.has(vehicleIndex)) {
-        vehicleToClusters.set(vehicleIndex, []);
-      }
-      
-      const vehicleClusters = vehicleToClusters.get(vehicleIndex);
-      if (vehicleClusters) {
-        vehicleClusters.push(clusters[i]);
-      }
-    }
-    
-    // Convert to assignments
-    const assignments: Assignment[] = [];
-    
-    for (const [vehicleIndex, assignedClusters] of Array.from(vehicleToClusters.entries())) {
-      const vehicle = vehicles[vehicleIndex];
-      
-      // Extract all request IDs
-      const requestIds = assignedClusters.flatMap(
-        cluster => cluster.requests.map(req => req.id)
-      );
-      
-      // Create simple route: vehicle -> pickups -> dropoffs
-      let route: Coordinates[] = [vehicle.location];
-      
-      // Add pickup locations
-      const pickupLocations = assignedClusters.flatMap(
-        cluster => cluster.requests.map(req => req.pickupLocation)
-      );
-      route = [...route, ...pickupLocations];
-      
-      // Add dropoff locations
-      const dropoffLocations = assignedClusters.flatMap(
-        cluster => cluster.requests.map(req => req.dropoffLocation)
-      );
-      route = [...route, ...dropoffLocations];
-      
-      // Create assignment
-      assignments.push({
-        vehicleId: vehicle.id,
-        requestIds,
-        route
-      });
-    }
-    
-    return assignments;
-  }
-
   /**
    * Post-process solution to assign idle vehicles to unassigned clusters
    * This improves passenger matching by utilizing all available vehicles
@@ -573,7 +611,7 @@ export class GeneticMatcher implements IMatchingStrategy {
     solution: number[], 
     clusters: Cluster[], 
     vehicles: Vehicle[], 
-    constraints: { maxDetourKm: number }
+    constraints: MatchingConstraints
   ): number[] {
     const improvedSolution = [...solution];
     
@@ -627,7 +665,11 @@ export class GeneticMatcher implements IMatchingStrategy {
         const distance = haversineDistance(vehicle.location, cluster.centroid);
         
         // Allow slightly longer distances for better matching (1.5x the constraint)
-        if (distance <= constraints.maxDetourKm * 1.5 && distance < bestDistance) {
+        if (
+          distance <= constraints.maxDetourKm * 1.5 &&
+          distance < bestDistance &&
+          fitsTimeWindows(improvedSolution, clusterIndex, vehicleIndex, clusters, vehicles, constraints)
+        ) {
           bestVehicleIndex = vehicleIndex;
           bestDistance = distance;
         }
@@ -667,7 +709,7 @@ export class GeneticMatcher implements IMatchingStrategy {
     vehicles: Vehicle[],
     availableSeats: number[],
     idleVehicles: number[],
-    constraints: { maxDetourKm: number }
+    constraints: MatchingConstraints
   ): void {
     // Find remaining unassigned clusters
     const unassignedClusters: number[] = [];
@@ -693,7 +735,10 @@ export class GeneticMatcher implements IMatchingStrategy {
         
         // Very relaxed distance constraint (2x the original)
         const distance = haversineDistance(vehicle.location, cluster.centroid);
-        if (distance <= constraints.maxDetourKm * 2.0) {
+        if (
+          distance <= constraints.maxDetourKm * 2.0 &&
+          fitsTimeWindows(solution, clusterIndex, vehicleIndex, clusters, vehicles, constraints)
+        ) {
           solution[clusterIndex] = vehicleIndex;
           availableSeats[vehicleIndex] -= clusterSize;
           
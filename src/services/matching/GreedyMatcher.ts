@@ -1,6 +1,8 @@
-import { IMatchingStrategy } from '../interfaces';
+import { IMatchingStrategy, MatchingConstraints } from '../interfaces';
 import { Cluster, Vehicle, Assignment, Coordinates } from '../../models/types';
 import { haversineDistance } from '../../utils/geo';
+import { meetsTimeWindows, serviceStops } from '../routing/serviceTimes';
+import { reportUnassigned } from './unassignedRequests';
 
 /**
  * Greedy matching strategy for MVP
@@ -8,7 +10,7 @@ import { haversineDistance } from '../../utils/geo';
  * TODO: Replace with genetic algorithm or reinforcement learning in future versions
  */
 export class GreedyMatcher implements IMatchingStrategy {
-  match(clusters: Cluster[], vehicles: Vehicle[], constraints: { maxDetourKm: number }): Assignment[] {
+  match(clusters: Cluster[], vehicles: Vehicle[], constraints: MatchingConstraints): Assignment[] {
     // Create a copy of vehicles to track availability
     const availableVehicles = [...vehicles].map(v => ({
       ...v,
@@ -44,7 +46,13 @@ export class GreedyMatcher implements IMatchingStrategy {
         const distance = haversineDistance(vehicle.location, cluster.centroid);
         
         // Check if this is within max detour constraint
-        if (distance <= constraints.maxDetourKm && distance < minDistance) {
+        if (distance > constraints.maxDetourKm || distance >= minDistance) {
+          continue;
+        }
+        
+        // Every rider already in the vehicle must still be picked up and dropped off in time
+        const riders = [...vehicle.assignedClusters.flatMap(assigned => assigned.requests), ...cluster.requests];
+        if (meetsTimeWindows(vehicle, serviceStops(riders), constraints.timeWindows)) {
           minDistance = distance;
           bestVehicleIndex = i;
         }
@@ -59,7 +67,7 @@ export class GreedyMatcher implements IMatchingStrategy {
     }
     
     // Convert the assignments to the Assignment interface
-    return availableVehicles
+    const assignments = availableVehicles
       .filter(vehicle => vehicle.assignedClusters.length > 0)
       .map(vehicle => {
         // Extract all request IDs from the assigned clusters
@@ -75,6 +83,9 @@ export class GreedyMatcher implements IMatchingStrategy {
           route
         };
       });
+    
+    reportUnassigned(clusters, vehicles, assignments, constraints);
+    return assignments;
   }
   
   /**
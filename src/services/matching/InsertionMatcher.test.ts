@@ -0,0 +1,135 @@
+import { InsertionMatcher } from './InsertionMatcher';
+import { routeLength, serviceRoute } from './matchingCost';
+import { Cluster, Coordinates, RideRequest, Vehicle } from '../../models/types';
+import { haversineDistance } from '../../utils/geo';
+
+const constraints = { maxDetourKm: 3 };
+
+const request = (id: string, pickup: Coordinates, dropoff: Coordinates): RideRequest => ({
+  id,
+  pickupLocation: pickup,
+  dropoffLocation: dropoff,
+  timestamp: new Date()
+});
+
+const vehicle = (id: string, location: Coordinates, seats: number): Vehicle => ({
+  id,
+  location,
+  capacity: seats,
+  availableSeats: seats,
+  currentRoute: []
+});
+
+const cluster = (id: string, requests: RideRequest[]): Cluster => ({
+  id,
+  centroid: requests[0].pickupLocation,
+  requests
+});
+
+/**
+ * Stop index of each request's pickup and dropoff in the route (index 0 is the vehicle)
+ */
+const stopIndices = (route: Coordinates[], req: RideRequest) => ({
+  pickup: route.findIndex(point => point === req.pickupLocation),
+  dropoff: route.findIndex(point => point === req.dropoffLocation)
+});
+
+describe('InsertionMatcher', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('returns no assignments without clusters or vehicles', () => {
+    const req = request('a', { lat: 40.75, lng: -73.98 }, { lat: 40.76, lng: -73.98 });
+    expect(new InsertionMatcher().match([], [vehicle('v', { lat: 40.75, lng: -73.98 }, 4)], constraints)).toEqual([]);
+    expect(new InsertionMatcher().match([cluster('c', [req])], [], constraints)).toEqual([]);
+  });
+
+  test('drops off a short trip before picking up the next one along the way', () => {
+    // Two consecutive trips heading north: serving them one after the other beats pickups-then-dropoffs
+    const first = request('first', { lat: 40.75, lng: -73.98 }, { lat: 40.755, lng: -73.98 });
+    const second = request('second', { lat: 40.76, lng: -73.98 }, { lat: 40.765, lng: -73.98 });
+    const v = vehicle('v', { lat: 40.749, lng: -73.98 }, 2);
+
+    const [assignment] = new InsertionMatcher().match([cluster('c', [first, second])], [v], constraints);
+
+    expect(assignment.requestIds).toEqual(['first', 'second']);
+    expect(assignment.route).toEqual([
+      v.location, first.pickupLocation, first.dropoffLocation, second.pickupLocation, second.dropoffLocation
+    ]);
+    expect(routeLength(assignment.route)).toBeLessThan(routeLength(serviceRoute(v, [first, second])));
+  });
+
+  test('respects seats at every stop and picks up before dropping off', () => {
+    const requests = Array.from({ length: 6 }, (_, i) =>
+      request(`r${i}`, { lat: 40.75 + i * 0.002, lng: -73.98 }, { lat: 40.752 + i * 0.002, lng: -73.975 }));
+    const vehicles = [vehicle('v1', { lat: 40.749, lng: -73.98 }, 2), vehicle('v2', { lat: 40.761, lng: -73.98 }, 2)];
+
+    const assignments = new InsertionMatcher().match([cluster('c', requests)], vehicles, constraints);
+
+    const assignedIds = assignments.flatMap(assignment => assignment.requestIds);
+    expect(new Set(assignedIds).size).toBe(assignedIds.length);
+    expect(assignedIds).toHaveLength(6);
+
+    assignments.forEach(assignment => {
+      const v = vehicles.find(candidate => candidate.id === assignment.vehicleId) as Vehicle;
+      const riders = requests.filter(req => assignment.requestIds.includes(req.id));
+
+      riders.forEach(req => {
+        const { pickup, dropoff } = stopIndices(assignment.route, req);
+        expect(pickup).toBeGreaterThan(0);
+        expect(dropoff).toBeGreaterThan(pickup);
+      });
+
+      // Riders on board after each stop
+      for (let stop = 1; stop < assignment.route.length; stop++) {
+        const onBoard = riders.filter(req => {
+          const { pickup, dropoff } = stopIndices(assignment.route, req);
+          return pickup <= stop && dropoff > stop;
+        }).length;
+        expect(onBoard).toBeLessThanOrEqual(v.availableSeats);
+      }
+    });
+  });
+
+  test('mixes riders of overlapping clusters in one vehicle', () => {
+    const a = request('a', { lat: 40.75, lng: -73.98 }, { lat: 40.77, lng: -73.98 });
+    const b = request('b', { lat: 40.751, lng: -73.98 }, { lat: 40.771, lng: -73.98 });
+    const v = vehicle('v', { lat: 40.749, lng: -73.98 }, 4);
+
+    const assignments = new InsertionMatcher().match([cluster('c1', [a]), cluster('c2', [b])], [v], constraints);
+
+    expect(assignments).toHaveLength(1);
+    expect(assignments[0].requestIds.sort()).toEqual(['a', 'b']);
+  });
+
+  test('leaves requests unassigned when no vehicle is within reach', () => {
+    const far = request('far', { lat: 41.2, lng: -73.5 }, { lat: 41.21, lng: -73.5 });
+    const near = request('near', { lat: 40.75, lng: -73.98 }, { lat: 40.76, lng: -73.98 });
+    const v = vehicle('v', { lat: 40.749, lng: -73.98 }, 4);
+
+    const assignments = new InsertionMatcher().match([cluster('c', [far, near])], [v], constraints);
+
+    expect(assignments.flatMap(assignment => assignment.requestIds)).toEqual(['near']);
+    expect(haversineDistance(v.location, far.pickupLocation)).toBeGreaterThan(constraints.maxDetourKm);
+  });
+
+  test('keeps every rider within their time windows', () => {
+    // Trips in different directions: sharing makes one rider ride far too long,
+    // serving them one after the other makes the second wait too long
+    const a = request('a', { lat: 40.75, lng: -73.98 }, { lat: 40.77, lng: -73.98 });
+    const b = request('b', { lat: 40.751, lng: -73.98 }, { lat: 40.751, lng: -73.96 });
+    const v = vehicle('v', { lat: 40.749, lng: -73.98 }, 4);
+    const timeWindows = { departureTime: a.timestamp, vehicleSpeedKmh: 30, maxWaitMinutes: 5, maxRideTimeRatio: 1.1 };
+
+    const unconstrained = new InsertionMatcher().match([cluster('c', [a, b])], [v], { maxDetourKm: 10 });
+    const constrained = new InsertionMatcher().match([cluster('c', [a, b])], [v], { maxDetourKm: 10, timeWindows });
+
+    expect(unconstrained[0].requestIds).toHaveLength(2);
+    expect(constrained.flatMap(assignment => assignment.requestIds)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,126 @@
+import { IMatchingStrategy, MatchingConstraints } from '../interfaces';
+import { Cluster, Vehicle, Assignment, RideRequest, Stop } from '../../models/types';
+import { haversineDistance } from '../../utils/geo';
+import { isFeasibleSchedule, scheduleLength, scheduleRoute } from '../routing/stopSchedule';
+import { meetsTimeWindows } from '../routing/serviceTimes';
+import { reportUnassigned } from './unassignedRequests';
+
+interface Insertion {
+  vehicleIndex: number;
+  stops: Stop[];
+  cost: number; // added route length in km
+}
+
+/**
+ * Request-level insertion heuristic.
+ *
+ * Instead of handing whole clusters to vehicles, each request is inserted into the vehicle
+ * schedule where its pickup and dropoff add the least route length, subject to seats at every
+ * stop, pickup before dropoff, each rider's detour staying within the max detour, and every
+ * rider of the vehicle still being picked up and dropped off within their time windows.
+ * Clusters only set the insertion order (largest first, earliest request first), so riders of
+ * overlapping clusters can share a vehicle and a cluster can be spread over several vehicles.
+ */
+export class InsertionMatcher implements IMatchingStrategy {
+  match(clusters: Cluster[], vehicles: Vehicle[], constraints: MatchingConstraints): Assignment[] {
+    if (clusters.length === 0 || vehicles.length === 0) {
+      this.reportRejectedRequests(clusters, vehicles, [], constraints);
+      return [];
+    }
+
+    const schedules: Stop[][] = vehicles.map(() => []);
+    const requests = this.insertionOrder(clusters);
+    let unassigned = 0;
+
+    for (const request of requests) {
+      const insertion = this.cheapestInsertion(request, vehicles, schedules, constraints);
+      if (!insertion) {
+        unassigned++;
+        continue;
+      }
+      schedules[insertion.vehicleIndex] = insertion.stops;
+    }
+
+    console.log(`Insertion matching: ${requests.length - unassigned}/${requests.length} requests inserted`);
+
+    const assignments = schedules
+      .map((stops, vehicleIndex) => ({ stops, vehicle: vehicles[vehicleIndex] }))
+      .filter(({ stops }) => stops.length > 0)
+      .map(({ stops, vehicle }) => ({
+        vehicleId: vehicle.id,
+        // Riders in the order they are picked up
+        requestIds: stops.filter(stop => stop.type === 'pickup').map(stop => stop.request.id),
+        route: scheduleRoute(vehicle, stops)
+      }));
+
+    this.reportRejectedRequests(clusters, vehicles, assignments, constraints);
+    return assignments;
+  }
+
+  /**
+   * Requests are inserted one at a time, so each is judged on its own from its pickup
+   */
+  private reportRejectedRequests(
+    clusters: Cluster[],
+    vehicles: Vehicle[],
+    assignments: Assignment[],
+    constraints: MatchingConstraints
+  ): void {
+    const requestClusters = clusters.flatMap(cluster =>
+      cluster.requests.map(request => ({ id: cluster.id, centroid: request.pickupLocation, requests: [request] })));
+    reportUnassigned(requestClusters, vehicles, assignments, constraints);
+  }
+
+  /**
+   * Requests of the largest clusters first, each cluster's earliest request first
+   */
+  private insertionOrder(clusters: Cluster[]): RideRequest[] {
+    const seen = new Set<string>();
+
+    return [...clusters]
+      .sort((a, b) => b.requests.length - a.requests.length)
+      .flatMap(cluster => [...cluster.requests].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()))
+      .filter(request => {
+        if (seen.has(request.id)) return false;
+        seen.add(request.id);
+        return true;
+      });
+  }
+
+  /**
+   * Try every pickup and dropoff position in every vehicle within reach of the pickup
+   */
+  private cheapestInsertion(
+    request: RideRequest,
+    vehicles: Vehicle[],
+    schedules: Stop[][],
+    constraints: MatchingConstraints
+  ): Insertion | null {
+    const pickup: Stop = { request, type: 'pickup' };
+    const dropoff: Stop = { request, type: 'dropoff' };
+    let best: Insertion | null = null;
+
+    vehicles.forEach((vehicle, vehicleIndex) => {
+      if (vehicle.availableSeats <= 0) return;
+      if (haversineDistance(vehicle.location, request.pickupLocation) > constraints.maxDetourKm) return;
+
+      const stops = schedules[vehicleIndex];
+      const currentLength = scheduleLength(vehicle, stops);
+
+      for (let i = 0; i <= stops.length; i++) {
+        for (let j = i; j <= stops.length; j++) {
+          const candidate = [...stops.slice(0, i), pickup, ...stops.slice(i, j), dropoff, ...stops.slice(j)];
+          const cost = scheduleLength(vehicle, candidate) - currentLength;
+
+          if (best && cost >= best.cost) continue;
+          if (!isFeasibleSchedule(vehicle, candidate, constraints.maxDetourKm)) continue;
+          if (!meetsTimeWindows(vehicle, candidate, constraints.timeWindows)) continue;
+
+          best = { vehicleIndex, stops: candidate, cost };
+        }
+      }
+    });
+
+    return best;
+  }
+}
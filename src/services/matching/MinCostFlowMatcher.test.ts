@@ -0,0 +1,123 @@
+import { MinCostFlowMatcher } from './MinCostFlowMatcher';
+import { GeneticMatcher } from './GeneticMatcher';
+import { assignmentFitness } from './matchingCost';
+import { Assignment, Cluster, RideRequest, Vehicle } from '../../models/types';
+import { createSeededRandom, RandomSource } from '../../utils/random';
+
+const constraints = { maxDetourKm: 5 };
+
+const makeCluster = (id: string, lat: number, lng: number, size: number, random: RandomSource): Cluster => {
+  const requests: RideRequest[] = Array.from({ length: size }, (_, i) => ({
+    id: `${id}-${i}`,
+    pickupLocation: { lat: lat + (random() - 0.5) * 0.004, lng: lng + (random() - 0.5) * 0.004 },
+    dropoffLocation: { lat: lat + 0.01 + (random() - 0.5) * 0.004, lng: lng + (random() - 0.5) * 0.004 },
+    timestamp: new Date()
+  }));
+  return { id, centroid: { lat, lng }, requests };
+};
+
+const makeVehicle = (id: string, lat: number, lng: number, seats: number): Vehicle => ({
+  id,
+  location: { lat, lng },
+  capacity: seats,
+  availableSeats: seats,
+  currentRoute: []
+});
+
+/**
+ * Fitness of assignments, with each vehicle's requests grouped like the matcher's input
+ */
+const fitnessOf = (assignments: Assignment[], clusters: Cluster[], vehicles: Vehicle[]) => {
+  const requestsById = new Map(clusters.flatMap(cluster => cluster.requests).map(request => [request.id, request]));
+  const groups = vehicles.map(vehicle => {
+    const assignment = assignments.find(a => a.vehicleId === vehicle.id);
+    return assignment ? assignment.requestIds.map(id => requestsById.get(id) as RideRequest) : [];
+  });
+  const totalRequests = clusters.reduce((sum, cluster) => sum + cluster.requests.length, 0);
+  return assignmentFitness(groups, vehicles, totalRequests, constraints.maxDetourKm);
+};
+
+/**
+ * Best fitness over every way to give each cluster its own vehicle
+ */
+const bruteForceFitness = (clusters: Cluster[], vehicles: Vehicle[]) => {
+  const totalRequests = clusters.reduce((sum, cluster) => sum + cluster.requests.length, 0);
+  let best = -Infinity;
+
+  const search = (c: number, groups: RideRequest[][]) => {
+    if (c === clusters.length) {
+      best = Math.max(best, assignmentFitness(groups, vehicles, totalRequests, constraints.maxDetourKm));
+      return;
+    }
+    groups.forEach((group, v) => {
+      if (group.length > 0) return;
+      search(c + 1, groups.map((other, w) => (w === v ? clusters[c].requests : other)));
+    });
+  };
+
+  search(0, vehicles.map(() => []));
+  return best;
+};
+
+describe('MinCostFlowMatcher', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('returns no assignments without clusters or vehicles', () => {
+    const random = createSeededRandom(1);
+    expect(new MinCostFlowMatcher().match([], [makeVehicle('v', 40.75, -73.98, 4)], constraints)).toEqual([]);
+    expect(new MinCostFlowMatcher().match([makeCluster('a', 40.75, -73.98, 2, random)], [], constraints)).toEqual([]);
+  });
+
+  test('keeps clusters whole and within seats and max detour', () => {
+    const random = createSeededRandom(2);
+    const clusters = [
+      makeCluster('a', 40.75, -73.98, 3, random),
+      makeCluster('b', 40.752, -73.982, 2, random),
+      makeCluster('c', 40.9, -73.7, 2, random) // far from every vehicle
+    ];
+    const vehicles = [makeVehicle('v1', 40.751, -73.981, 4), makeVehicle('v2', 40.749, -73.979, 2)];
+
+    const assignments = new MinCostFlowMatcher().match(clusters, vehicles, constraints);
+
+    const assignedIds = assignments.flatMap(assignment => assignment.requestIds);
+    expect(new Set(assignedIds).size).toBe(assignedIds.length);
+    expect(assignedIds.some(id => id.startsWith('c-'))).toBe(false);
+
+    assignments.forEach(assignment => {
+      const vehicle = vehicles.find(v => v.id === assignment.vehicleId) as Vehicle;
+      expect(assignment.requestIds.length).toBeLessThanOrEqual(vehicle.availableSeats);
+      // Each cluster is served entirely by one vehicle or not at all
+      const clusterIds = new Set(assignment.requestIds.map(id => id.split('-')[0]));
+      clusterIds.forEach(clusterId => {
+        const cluster = clusters.find(c => c.id === clusterId) as Cluster;
+        expect(assignment.requestIds.filter(id => id.startsWith(`${clusterId}-`))).toHaveLength(cluster.requests.length);
+      });
+    });
+
+    expect(assignedIds).toHaveLength(5);
+  });
+
+  test.each([3, 4, 5])('matches the brute-force optimum and is at least as fit as the GA (seed %i)', (seed) => {
+    const random = createSeededRandom(seed);
+    const clusters = Array.from({ length: 4 }, (_, i) =>
+      makeCluster(`c${i}`, 40.74 + random() * 0.03, -73.99 + random() * 0.03, 3, random));
+    const vehicles = Array.from({ length: 5 }, (_, i) =>
+      makeVehicle(`v${i}`, 40.74 + random() * 0.03, -73.99 + random() * 0.03, 3));
+
+    const fitness = fitnessOf(new MinCostFlowMatcher().match(clusters, vehicles, constraints), clusters, vehicles);
+    const gaFitness = fitnessOf(
+      new GeneticMatcher().match(clusters, vehicles, { ...constraints, random: createSeededRandom(seed) }),
+      clusters,
+      vehicles
+    );
+
+    expect(fitness).toBeCloseTo(bruteForceFitness(clusters, vehicles), 9);
+    expect(fitness).toBeGreaterThanOrEqual(gaFitness - 1e-9);
+  });
+});
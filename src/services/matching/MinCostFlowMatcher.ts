@@ -0,0 +1,240 @@
+import { IMatchingStrategy, MatchingConstraints } from '../interfaces';
+import { Cluster, Vehicle, Assignment } from '../../models/types';
+import { haversineDistance } from '../../utils/geo';
+import { MinCostFlow } from '../../utils/minCostFlow';
+import { FITNESS_WEIGHTS, assignmentFitness, routeDetour, serviceRoute } from './matchingCost';
+import { ClusterSolution, fitsTimeWindows, greedySolution, solutionFitness, solutionGroups } from './clusterSolution';
+import { meetsTimeWindows, serviceStops } from '../routing/serviceTimes';
+import { reportUnassigned } from './unassignedRequests';
+
+// Bounds within this of the best solution found cannot improve on it
+const BOUND_TOLERANCE = 1e-9;
+
+/**
+ * Cluster-to-vehicle assignment problem, with what the bounds need precomputed
+ */
+interface MatchingProblem {
+  clusters: Cluster[];
+  vehicles: Vehicle[];
+  constraints: MatchingConstraints;
+  totalRequests: number;
+  allowed: boolean[][]; // [cluster][vehicle] within the max detour and serving the riders in time on its own
+  farthestDropoffs: number[][]; // [cluster][vehicle] distance from the vehicle to the cluster's farthest dropoff
+}
+
+/**
+ * Optimal whole-cluster matching by branch and bound, with a min-cost flow as the bound.
+ *
+ * The search gives clusters, largest first, to a vehicle or to none, and scores each complete
+ * solution with the matching objective itself (assignmentFitness). At every node a min-cost flow
+ * over the undecided clusters, with every seat one unit of supply and every request one unit of
+ * demand, bounds the share of requests assigned and of vehicles in service; it may split clusters,
+ * so it never undershoots. For the detour, adding a rider lengthens a route by no less than
+ * nothing and saves at most the rider's direct drive, so the average detour of any completion is
+ * at least that of the decided riders joined by the undecided riders that could save the most.
+ * Subtrees whose bound cannot beat the best solution found are skipped.
+ *
+ * The detour bound is loose for shared rides, so only small instances are searched to the end.
+ * The search stops after maxBranchNodes relaxations and then returns the best solution found,
+ * which starts from the greedy solution.
+ */
+export class MinCostFlowMatcher implements IMatchingStrategy {
+  /**
+   * @param maxBranchNodes Relaxations to solve before settling for the best solution found
+   */
+  constructor(private readonly maxBranchNodes = 2000) {}
+
+  match(clusters: Cluster[], vehicles: Vehicle[], constraints: MatchingConstraints): Assignment[] {
+    if (clusters.length === 0 || vehicles.length === 0) {
+      reportUnassigned(clusters, vehicles, [], constraints);
+      return [];
+    }
+
+    const problem = this.buildProblem(clusters, vehicles, constraints);
+    const { solution, optimal, bound } = this.branchAndBound(problem);
+
+    const groups = solutionGroups(solution, clusters, vehicles);
+    const assigned = groups.reduce((sum, group) => sum + group.length, 0);
+    const fitness = assignmentFitness(groups, vehicles, problem.totalRequests, constraints.maxDetourKm);
+    const status = optimal
+      ? 'optimal'
+      : `stopped after ${this.maxBranchNodes} relaxations, within ${(bound - fitness).toFixed(4)} of the bound`;
+    console.log(
+      `Min-cost flow matching (${status}): ${assigned}/${problem.totalRequests} requests, fitness ${fitness.toFixed(4)}`
+    );
+
+    const assignments = groups
+      .map((requests, vehicleIndex) => ({ requests, vehicle: vehicles[vehicleIndex] }))
+      .filter(({ requests }) => requests.length > 0)
+      .map(({ requests, vehicle }) => ({
+        vehicleId: vehicle.id,
+        requestIds: requests.map(request => request.id),
+        route: serviceRoute(vehicle, requests)
+      }));
+
+    reportUnassigned(clusters, vehicles, assignments, constraints);
+    return assignments;
+  }
+
+  /**
+   * Cluster-vehicle pairs beyond the max detour or that cannot serve the cluster's riders in time
+   * are not allowed
+   */
+  private buildProblem(clusters: Cluster[], vehicles: Vehicle[], constraints: MatchingConstraints): MatchingProblem {
+    return {
+      clusters,
+      vehicles,
+      constraints,
+      totalRequests: clusters.reduce((sum, cluster) => sum + cluster.requests.length, 0),
+      allowed: clusters.map(cluster => vehicles.map(vehicle =>
+        haversineDistance(vehicle.location, cluster.centroid) <= constraints.maxDetourKm &&
+        meetsTimeWindows(vehicle, serviceStops(cluster.requests), constraints.timeWindows)
+      )),
+      farthestDropoffs: clusters.map(cluster => vehicles.map(vehicle =>
+        Math.max(...cluster.requests.map(request => haversineDistance(vehicle.location, request.dropoffLocation)))
+      ))
+    };
+  }
+
+  /**
+   * Depth-first branch and bound over the clusters, largest first
+   * @returns Vehicle index per cluster (-1 for unassigned), whether it is proven optimal,
+   * and an upper bound on the optimal fitness
+   */
+  private branchAndBound(problem: MatchingProblem): { solution: ClusterSolution; optimal: boolean; bound: number } {
+    const { clusters, vehicles, constraints } = problem;
+    const order = clusters.map((_, c) => c).sort((a, b) => clusters[b].requests.length - clusters[a].requests.length);
+    const solution: ClusterSolution = clusters.map(() => -1);
+    const seats = vehicles.map(vehicle => Math.max(vehicle.availableSeats, 0));
+
+    let best = greedySolution(clusters, vehicles, constraints);
+    let bestFitness = solutionFitness(best, clusters, vehicles, constraints.maxDetourKm);
+    let nodes = 0;
+    // Highest bound of a subtree left unexplored when the relaxations ran out
+    let openBound = -Infinity;
+
+    const search = (depth: number, parentBound: number) => {
+      if (depth === order.length) {
+        const fitness = solutionFitness(solution, clusters, vehicles, constraints.maxDetourKm);
+        if (fitness > bestFitness) {
+          best = [...solution];
+          bestFitness = fitness;
+        }
+        return;
+      }
+
+      if (nodes >= this.maxBranchNodes) {
+        openBound = Math.max(openBound, parentBound);
+        return;
+      }
+      nodes++;
+
+      const bound = this.relax(problem, solution, seats, order.slice(depth));
+      if (bound <= bestFitness + BOUND_TOLERANCE) return;
+
+      // Try the vehicles (and leaving the cluster unassigned) in order of the fitness they give
+      // the decided clusters, so the first dive is a greedy solution
+      const c = order[depth];
+      const size = clusters[c].requests.length;
+      const candidates = [-1, ...vehicles.map((_, v) => v).filter(v => problem.allowed[c][v] && seats[v] >= size)]
+        .filter(v => {
+          solution[c] = v;
+          return v < 0 || fitsTimeWindows(solution, c, v, clusters, vehicles, constraints);
+        })
+        .map(v => {
+          solution[c] = v;
+          return { v, fitness: solutionFitness(solution, clusters, vehicles, constraints.maxDetourKm) };
+        })
+        .sort((a, b) => b.fitness - a.fitness);
+
+      for (const { v } of candidates) {
+        solution[c] = v;
+        if (v >= 0) seats[v] -= size;
+        search(depth + 1, bound);
+        if (v >= 0) seats[v] += size;
+      }
+      solution[c] = -1;
+    };
+
+    search(0, Infinity);
+
+    return { solution: best, optimal: openBound <= bestFitness + BOUND_TOLERANCE, bound: Math.max(openBound, bestFitness) };
+  }
+
+  /**
+   * Upper bound on the fitness of every solution that keeps the decided clusters where they are
+   * and gives the undecided ones (next one first) to vehicles with the seats left
+   */
+  private relax(problem: MatchingProblem, solution: ClusterSolution, seats: number[], undecided: number[]): number {
+    const { clusters, vehicles, constraints, totalRequests } = problem;
+    const vehicleBonus = FITNESS_WEIGHTS.UTILIZATION / vehicles.length + FITNESS_WEIGHTS.UNUSED_VEHICLE_PENALTY;
+
+    // Decided part
+    let assigned = 0;
+    let detour = 0;
+    const used = new Set<number>();
+    solutionGroups(solution, clusters, vehicles).forEach((group, v) => {
+      if (group.length === 0) return;
+      assigned += group.length;
+      detour += routeDetour(vehicles[v], group);
+      used.add(v);
+    });
+    // Longest direct drive each undecided rider could save
+    const savings: number[] = [];
+
+    // Undecided part as a flow: each assigned request and each vehicle put into service lowers the cost
+    const source = 0;
+    const sink = undecided.length + vehicles.length + 1;
+    const network = new MinCostFlow(sink + 1);
+    const edges: number[][] = undecided.map(() => new Array(vehicles.length).fill(-1));
+
+    undecided.forEach((c, i) => {
+      const size = clusters[c].requests.length;
+      network.addEdge(source, 1 + i, size, 0);
+
+      let saving = -Infinity;
+      vehicles.forEach((_, v) => {
+        if (!problem.allowed[c][v] || seats[v] < size) return;
+        edges[i][v] = network.addEdge(1 + i, 1 + undecided.length + v, size, -FITNESS_WEIGHTS.ASSIGNED / totalRequests);
+        saving = Math.max(saving, problem.farthestDropoffs[c][v]);
+      });
+      if (saving > -Infinity) savings.push(...new Array(size).fill(saving));
+    });
+
+    seats.forEach((free, v) => {
+      if (free <= 0) return;
+      const node = 1 + undecided.length + v;
+      if (used.has(v)) {
+        network.addEdge(node, sink, free, 0);
+        return;
+      }
+      // The first seat used also puts the vehicle into service
+      network.addEdge(node, sink, 1, -vehicleBonus);
+      if (free > 1) network.addEdge(node, sink, free - 1, 0);
+    });
+
+    network.minimizeCost(source, sink);
+
+    // Lowest average detour: add the riders saving the most while that lowers the average
+    let lowestDetour = assigned > 0 ? detour / assigned : 0;
+    let riders = assigned;
+    savings.sort((a, b) => b - a).slice(0, seats.reduce((sum, free) => sum + free, 0)).forEach(saving => {
+      if (-saving >= lowestDetour) return;
+      detour -= saving;
+      riders++;
+      lowestDetour = detour / riders;
+    });
+
+    edges.forEach(row => row.forEach((edgeId, v) => {
+      const flow = edgeId >= 0 ? network.getFlow(edgeId) : 0;
+      if (flow <= 0) return;
+      assigned += flow;
+      used.add(v);
+    }));
+
+    return FITNESS_WEIGHTS.ASSIGNED * assigned / totalRequests
+      - FITNESS_WEIGHTS.DETOUR * Math.min(lowestDetour / constraints.maxDetourKm, 1)
+      + FITNESS_WEIGHTS.UTILIZATION * used.size / vehicles.length
+      - FITNESS_WEIGHTS.UNUSED_VEHICLE_PENALTY * (vehicles.length - used.size);
+  }
+}
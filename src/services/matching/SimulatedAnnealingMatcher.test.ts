@@ -0,0 +1,102 @@
+import { SimulatedAnnealingMatcher } from './SimulatedAnnealingMatcher';
+import { greedySolution, solutionFitness } from './clusterSolution';
+import { Assignment, Cluster, RideRequest, Vehicle } from '../../models/types';
+import { createSeededRandom, RandomSource } from '../../utils/random';
+import { haversineDistance } from '../../utils/geo';
+
+const KM = 1 / 111.195; // degrees of latitude per kilometre
+const constraints = { maxDetourKm: 3.5 };
+
+const makeCluster = (id: string, lat: number, lng: number, size: number, random?: RandomSource): Cluster => {
+  const jitter = () => (random ? (random() - 0.5) * 0.004 : 0);
+  const requests: RideRequest[] = Array.from({ length: size }, (_, i) => ({
+    id: `${id}-${i}`,
+    pickupLocation: { lat: lat + jitter(), lng: lng + jitter() },
+    dropoffLocation: { lat: lat + 0.01 + jitter(), lng: lng + jitter() },
+    timestamp: new Date()
+  }));
+  return { id, centroid: { lat, lng }, requests };
+};
+
+const makeVehicle = (id: string, lat: number, lng: number, seats: number): Vehicle => ({
+  id,
+  location: { lat, lng },
+  capacity: seats,
+  availableSeats: seats,
+  currentRoute: []
+});
+
+/**
+ * Greedy gives the larger cluster to the vehicle nearest to both clusters, leaving the smaller
+ * one without a vehicle in reach; the optimum serves both
+ */
+const greedyTrap = () => ({
+  clusters: [makeCluster('small', 0, 0, 2), makeCluster('large', 3 * KM, 0, 3)],
+  vehicles: [makeVehicle('between', 2 * KM, 0, 3), makeVehicle('far', 4.5 * KM, 0, 3)]
+});
+
+const expectFeasible = (assignments: Assignment[], clusters: Cluster[], vehicles: Vehicle[]) => {
+  const assignedIds = assignments.flatMap(assignment => assignment.requestIds);
+  expect(new Set(assignedIds).size).toBe(assignedIds.length);
+
+  assignments.forEach(assignment => {
+    const vehicle = vehicles.find(v => v.id === assignment.vehicleId) as Vehicle;
+    expect(assignment.requestIds.length).toBeLessThanOrEqual(vehicle.availableSeats);
+    clusters
+      .filter(cluster => cluster.requests.some(request => assignment.requestIds.includes(request.id)))
+      .forEach(cluster => {
+        expect(cluster.requests.every(request => assignment.requestIds.includes(request.id))).toBe(true);
+        expect(haversineDistance(vehicle.location, cluster.centroid)).toBeLessThanOrEqual(constraints.maxDetourKm);
+      });
+  });
+};
+
+describe('SimulatedAnnealingMatcher', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('escapes the greedy solution to serve every cluster', () => {
+    const { clusters, vehicles } = greedyTrap();
+    expect(greedySolution(clusters, vehicles, constraints)).toEqual([-1, 0]);
+
+    const assignments = new SimulatedAnnealingMatcher({ maxIterations: 500 })
+      .match(clusters, vehicles, { ...constraints, random: createSeededRandom(1) });
+
+    expect(assignments).toHaveLength(2);
+    expect(assignments.find(a => a.vehicleId === 'between')?.requestIds).toEqual(['small-0', 'small-1']);
+    expect(assignments.find(a => a.vehicleId === 'far')?.requestIds).toEqual(['large-0', 'large-1', 'large-2']);
+  });
+
+  test('keeps whole clusters within capacity and detour, never below the greedy fitness', () => {
+    const random = createSeededRandom(7);
+    const clusters = Array.from({ length: 12 }, (_, i) =>
+      makeCluster(`c${i}`, random() * 0.05, random() * 0.05, 1 + Math.floor(random() * 4), random));
+    const vehicles = Array.from({ length: 6 }, (_, i) => makeVehicle(`v${i}`, random() * 0.05, random() * 0.05, 4));
+    const progress: number[] = [];
+
+    const assignments = new SimulatedAnnealingMatcher({ maxIterations: 1000 }).match(clusters, vehicles, {
+      ...constraints,
+      random: createSeededRandom(2),
+      onProgress: ({ bestFitness }) => progress.push(bestFitness)
+    });
+
+    expectFeasible(assignments, clusters, vehicles);
+    const greedyFitness = solutionFitness(greedySolution(clusters, vehicles, constraints), clusters, vehicles, constraints.maxDetourKm);
+    expect(progress[0]).toBeCloseTo(greedyFitness, 10);
+    progress.slice(1).forEach((fitness, index) => expect(fitness).toBeGreaterThanOrEqual(progress[index]));
+    expect(progress).toHaveLength(101);
+  });
+
+  test('is reproducible with a seeded random source', () => {
+    const { clusters, vehicles } = greedyTrap();
+    const run = () => new SimulatedAnnealingMatcher({ maxIterations: 200 })
+      .match(clusters, vehicles, { ...constraints, random: createSeededRandom(5) });
+
+    expect(run()).toEqual(run());
+  });
+});
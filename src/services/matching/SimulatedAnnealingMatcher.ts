@@ -0,0 +1,164 @@
+import { IMatchingStrategy, MatchingConstraints } from '../interfaces';
+import { Cluster, Vehicle, Assignment } from '../../models/types';
+import { DEFAULT_SIMULATION_CONFIG } from '../../config/simulationConfig';
+import { RandomSource } from '../../utils/random';
+import { ClusterSolution, greedySolution, isVehicleFeasible, solutionFitness, solutionToAssignments } from './clusterSolution';
+import { reportUnassigned } from './unassignedRequests';
+
+export interface SimulatedAnnealingOptions {
+  maxIterations?: number;
+  initialTemperature?: number; // in fitness units
+  coolingRate?: number; // temperature multiplier per iteration
+  swapRate?: number; // share of moves that swap the vehicles of two clusters
+  timeLimitMs?: number; // stop early once this much time has passed
+}
+
+/**
+ * Simulated annealing over cluster-to-vehicle assignments, starting from the greedy solution.
+ * Uses the genetic matcher's solution encoding and fitness.
+ *
+ * Each iteration moves a random cluster to another vehicle (or unassigns it), or swaps the
+ * vehicles of two clusters. Better moves are always kept and worse ones with probability
+ * exp(Δfitness / temperature), so the search can leave local optima while the temperature is high.
+ */
+export class SimulatedAnnealingMatcher implements IMatchingStrategy {
+  private readonly options: Required<SimulatedAnnealingOptions>;
+
+  constructor(options: SimulatedAnnealingOptions = {}) {
+    const { ANNEALING } = DEFAULT_SIMULATION_CONFIG;
+    this.options = {
+      maxIterations: options.maxIterations ?? ANNEALING.MAX_ITERATIONS,
+      initialTemperature: options.initialTemperature ?? ANNEALING.INITIAL_TEMPERATURE,
+      coolingRate: options.coolingRate ?? ANNEALING.COOLING_RATE,
+      swapRate: options.swapRate ?? ANNEALING.SWAP_RATE,
+      timeLimitMs: options.timeLimitMs ?? Infinity
+    };
+  }
+
+  match(clusters: Cluster[], vehicles: Vehicle[], constraints: MatchingConstraints): Assignment[] {
+    if (clusters.length === 0 || vehicles.length === 0) {
+      reportUnassigned(clusters, vehicles, [], constraints);
+      return [];
+    }
+
+    const random = constraints.random ?? Math.random;
+    const fitness = (solution: ClusterSolution) => solutionFitness(solution, clusters, vehicles, constraints.maxDetourKm);
+    const startTime = Date.now();
+    // About a hundred progress reports per run
+    const progressInterval = Math.max(1, Math.floor(this.options.maxIterations / 100));
+
+    let current = greedySolution(clusters, vehicles, constraints);
+    let currentFitness = fitness(current);
+    let best = current;
+    let bestFitness = currentFitness;
+    let temperature = this.options.initialTemperature;
+    let iteration = 0;
+    this.reportProgress(iteration, bestFitness, currentFitness, constraints);
+
+    while (iteration < this.options.maxIterations && Date.now() - startTime < this.options.timeLimitMs) {
+      iteration++;
+
+      const candidate = random() < this.options.swapRate
+        ? this.swapMove(current, clusters, vehicles, constraints, random)
+        : this.relocateMove(current, clusters, vehicles, constraints, random);
+
+      if (candidate) {
+        const candidateFitness = fitness(candidate);
+        const delta = candidateFitness - currentFitness;
+
+        if (delta >= 0 || random() < Math.exp(delta / temperature)) {
+          current = candidate;
+          currentFitness = candidateFitness;
+
+          if (currentFitness > bestFitness) {
+            best = current;
+            bestFitness = currentFitness;
+          }
+        }
+      }
+
+      temperature *= this.options.coolingRate;
+      if (iteration % progressInterval === 0) {
+        this.reportProgress(iteration, bestFitness, currentFitness, constraints);
+      }
+    }
+
+    console.log(
+      `Simulated annealing matching: ${iteration} iterations in ${Date.now() - startTime} ms, ` +
+      `fitness ${bestFitness.toFixed(4)}`
+    );
+
+    const assignments = solutionToAssignments(best, clusters, vehicles);
+    reportUnassigned(clusters, vehicles, assignments, constraints);
+    return assignments;
+  }
+
+  /**
+   * Best fitness so far and the fitness of the current solution
+   */
+  private reportProgress(
+    iteration: number,
+    bestFitness: number,
+    currentFitness: number,
+    constraints: MatchingConstraints
+  ): void {
+    constraints.onProgress?.({
+      iteration,
+      maxIterations: this.options.maxIterations,
+      bestFitness,
+      meanFitness: currentFitness
+    });
+  }
+
+  /**
+   * Move a random cluster to another random vehicle, or unassign it
+   * @returns null when the vehicle cannot take the cluster
+   */
+  private relocateMove(
+    solution: ClusterSolution,
+    clusters: Cluster[],
+    vehicles: Vehicle[],
+    constraints: MatchingConstraints,
+    random: RandomSource
+  ): ClusterSolution | null {
+    const clusterIndex = Math.floor(random() * clusters.length);
+
+    // Uniform over the vehicles and -1 (unassigned), skipping the cluster's current vehicle
+    let vehicleIndex = Math.floor(random() * vehicles.length) - 1;
+    if (vehicleIndex >= solution[clusterIndex]) vehicleIndex++;
+
+    const candidate = [...solution];
+    candidate[clusterIndex] = vehicleIndex;
+
+    return vehicleIndex < 0 || isVehicleFeasible(candidate, vehicleIndex, clusters, vehicles, constraints)
+      ? candidate
+      : null;
+  }
+
+  /**
+   * Swap the vehicles of two random clusters; swapping with an unassigned cluster
+   * replaces one cluster by the other
+   * @returns null when the clusters share a vehicle or either vehicle cannot take its new cluster
+   */
+  private swapMove(
+    solution: ClusterSolution,
+    clusters: Cluster[],
+    vehicles: Vehicle[],
+    constraints: MatchingConstraints,
+    random: RandomSource
+  ): ClusterSolution | null {
+    const first = Math.floor(random() * clusters.length);
+    const second = Math.floor(random() * clusters.length);
+    if (solution[first] === solution[second]) return null;
+
+    const candidate = [...solution];
+    candidate[first] = solution[second];
+    candidate[second] = solution[first];
+
+    const feasible = [solution[first], solution[second]]
+      .filter(vehicleIndex => vehicleIndex >= 0)
+      .every(vehicleIndex => isVehicleFeasible(candidate, vehicleIndex, clusters, vehicles, constraints));
+
+    return feasible ? candidate : null;
+  }
+}
@@ -0,0 +1,124 @@
+import { MatchingConstraints } from '../interfaces';
+import { Assignment, Cluster, RideRequest, Vehicle } from '../../models/types';
+import { haversineDistance } from '../../utils/geo';
+import { FITNESS_WEIGHTS, assignmentFitness, serviceRoute } from './matchingCost';
+import { meetsTimeWindows, serviceStops } from '../routing/serviceTimes';
+
+/**
+ * Solution encoding shared by the metaheuristic matchers: index = cluster index,
+ * value = index of the vehicle serving the cluster, -1 for an unassigned cluster
+ */
+export type ClusterSolution = number[];
+
+/**
+ * Requests served by each vehicle, indexed like vehicles, in cluster order
+ */
+export function solutionGroups(solution: ClusterSolution, clusters: Cluster[], vehicles: Vehicle[]): RideRequest[][] {
+  const groups: RideRequest[][] = vehicles.map(() => []);
+  solution.forEach((vehicleIndex, clusterIndex) => {
+    if (vehicleIndex >= 0) groups[vehicleIndex].push(...clusters[clusterIndex].requests);
+  });
+  return groups;
+}
+
+/**
+ * Matching objective of a solution (higher is better), see assignmentFitness
+ */
+export function solutionFitness(
+  solution: ClusterSolution,
+  clusters: Cluster[],
+  vehicles: Vehicle[],
+  maxDetourKm: number,
+  weights: typeof FITNESS_WEIGHTS = FITNESS_WEIGHTS
+): number {
+  const totalRequests = clusters.reduce((sum, cluster) => sum + cluster.requests.length, 0);
+  return assignmentFitness(solutionGroups(solution, clusters, vehicles), vehicles, totalRequests, maxDetourKm, weights);
+}
+
+/**
+ * Whether the vehicle still serves every rider in time when the cluster is added to it.
+ * Riders are checked in the order solutionToAssignments routes them: by cluster index.
+ */
+export function fitsTimeWindows(
+  solution: ClusterSolution,
+  clusterIndex: number,
+  vehicleIndex: number,
+  clusters: Cluster[],
+  vehicles: Vehicle[],
+  constraints: MatchingConstraints
+): boolean {
+  if (!constraints.timeWindows) return true;
+
+  const riders = solution.flatMap((assigned, i) =>
+    i === clusterIndex || assigned === vehicleIndex ? clusters[i].requests : []
+  );
+  return meetsTimeWindows(vehicles[vehicleIndex], serviceStops(riders), constraints.timeWindows);
+}
+
+/**
+ * Whether the clusters the solution gives a vehicle fit its seats, lie within the max detour
+ * of it and leave every rider served in time
+ */
+export function isVehicleFeasible(
+  solution: ClusterSolution,
+  vehicleIndex: number,
+  clusters: Cluster[],
+  vehicles: Vehicle[],
+  constraints: MatchingConstraints
+): boolean {
+  const vehicle = vehicles[vehicleIndex];
+  const riders: RideRequest[] = [];
+
+  for (let i = 0; i < solution.length; i++) {
+    if (solution[i] !== vehicleIndex) continue;
+    if (haversineDistance(vehicle.location, clusters[i].centroid) > constraints.maxDetourKm) return false;
+    riders.push(...clusters[i].requests);
+  }
+
+  return riders.length <= vehicle.availableSeats &&
+    meetsTimeWindows(vehicle, serviceStops(riders), constraints.timeWindows);
+}
+
+/**
+ * Greedy starting solution: each cluster, largest first, goes to the nearest vehicle that can still take it
+ */
+export function greedySolution(clusters: Cluster[], vehicles: Vehicle[], constraints: MatchingConstraints): ClusterSolution {
+  const solution: ClusterSolution = clusters.map(() => -1);
+  const order = clusters.map((_, index) => index).sort((a, b) => clusters[b].requests.length - clusters[a].requests.length);
+
+  for (const clusterIndex of order) {
+    const byDistance = vehicles
+      .map((vehicle, index) => ({ index, distance: haversineDistance(vehicle.location, clusters[clusterIndex].centroid) }))
+      .sort((a, b) => a.distance - b.distance);
+
+    for (const { index } of byDistance) {
+      solution[clusterIndex] = index;
+      if (isVehicleFeasible(solution, index, clusters, vehicles, constraints)) break;
+      solution[clusterIndex] = -1;
+    }
+  }
+
+  return solution;
+}
+
+/**
+ * Assignments of a solution, one per vehicle in use, with the simple
+ * vehicle -> pickups -> dropoffs route in cluster order
+ */
+export function solutionToAssignments(solution: ClusterSolution, clusters: Cluster[], vehicles: Vehicle[]): Assignment[] {
+  // Requests per vehicle, with vehicles in order of their first cluster
+  const vehicleRequests = new Map<number, RideRequest[]>();
+
+  solution.forEach((vehicleIndex, clusterIndex) => {
+    if (vehicleIndex < 0) return;
+    const requests = vehicleRequests.get(vehicleIndex) ?? [];
+    requests.push(...clusters[clusterIndex].requests);
+    vehicleRequests.set(vehicleIndex, requests);
+  });
+
+  return Array.from(vehicleRequests.entries()).map(([vehicleIndex, requests]) => ({
+    vehicleId: vehicles[vehicleIndex].id,
+    requestIds: requests.map(request => request.id),
+    route: serviceRoute(vehicles[vehicleIndex], requests)
+  }));
+}
@@ -0,0 +1,40 @@
+import { findGeneticPreset, fitnessWeights, geneticPreset, resolveGeneticOptions, validateGeneticOptions } from './geneticOptions';
+import { FITNESS_WEIGHTS } from './matchingCost';
+import { GeneticMatcher } from './GeneticMatcher';
+import { DEFAULT_SIMULATION_CONFIG } from '../../config/simulationConfig';
+
+describe('geneticOptions', () => {
+  test('fills omitted options from the balanced preset and the default fitness weights', () => {
+    const resolved = resolveGeneticOptions({ populationSize: 80, detourWeight: 0.3 });
+
+    expect(resolved.populationSize).toBe(80);
+    expect(resolved.maxGenerations).toBe(DEFAULT_SIMULATION_CONFIG.GENETIC.PRESETS.balanced.MAX_GENERATIONS);
+    expect(resolved.stallGenerations).toBe(DEFAULT_SIMULATION_CONFIG.GENETIC.PRESETS.balanced.STALL_GENERATIONS);
+    expect(fitnessWeights(resolved)).toEqual({ ...FITNESS_WEIGHTS, DETOUR: 0.3 });
+  });
+
+  test('recognizes presets by their hyperparameters only', () => {
+    expect(findGeneticPreset({})).toBe('balanced');
+    expect(findGeneticPreset({ ...geneticPreset('thorough'), assignedWeight: 0.5 })).toBe('thorough');
+    expect(findGeneticPreset({ ...geneticPreset('fast'), mutationRate: 0.5 })).toBeNull();
+  });
+
+  test('every preset is valid', () => {
+    (['fast', 'balanced', 'thorough'] as const).forEach(preset => {
+      expect(validateGeneticOptions(geneticPreset(preset))).toEqual([]);
+    });
+  });
+
+  test('reports options the algorithm cannot run with', () => {
+    expect(validateGeneticOptions({ populationSize: 1.5 })).toEqual(['Population size must be a whole number of at least 2']);
+    expect(validateGeneticOptions({ mutationRate: 1.2 })).toEqual(['Mutation and crossover rates must be between 0 and 1']);
+    expect(validateGeneticOptions({ elitismRate: 1 })).toEqual(['Elitism rate must be at least 0 and below 1']);
+    expect(validateGeneticOptions({ unusedVehiclePenalty: -0.1 })).toHaveLength(1);
+    expect(validateGeneticOptions({ assignedWeight: 0 })).toHaveLength(1);
+  });
+
+  test('the genetic matcher rejects invalid options', () => {
+    expect(() => new GeneticMatcher({ mutationRate: 1.2 })).toThrow(/Mutation and crossover rates/);
+    expect(() => new GeneticMatcher(geneticPreset('fast'))).not.toThrow();
+  });
+});
@@ -0,0 +1,112 @@
+import { GeneticMatcherOptions, GeneticPreset } from '../../models/types';
+import { DEFAULT_SIMULATION_CONFIG } from '../../config/simulationConfig';
+import { FITNESS_WEIGHTS } from './matchingCost';
+
+export const GENETIC_PRESETS: GeneticPreset[] = ['fast', 'balanced', 'thorough'];
+
+/**
+ * Hyperparameters of a preset, with the default fitness weights and objective
+ */
+export function geneticPreset(preset: GeneticPreset): Required<GeneticMatcherOptions> {
+  const values = DEFAULT_SIMULATION_CONFIG.GENETIC.PRESETS[preset];
+
+  return {
+    populationSize: values.POPULATION_SIZE,
+    maxGenerations: values.MAX_GENERATIONS,
+    mutationRate: values.MUTATION_RATE,
+    elitismRate: values.ELITISM_RATE,
+    crossoverRate: values.CROSSOVER_RATE,
+    stallGenerations: values.STALL_GENERATIONS,
+    assignedWeight: FITNESS_WEIGHTS.ASSIGNED,
+    detourWeight: FITNESS_WEIGHTS.DETOUR,
+    utilizationWeight: FITNESS_WEIGHTS.UTILIZATION,
+    unusedVehiclePenalty: FITNESS_WEIGHTS.UNUSED_VEHICLE_PENALTY,
+    objective: DEFAULT_SIMULATION_CONFIG.GENETIC.DEFAULT_OBJECTIVE
+  };
+}
+
+/**
+ * Genetic matcher options with every knob filled in from the default preset
+ */
+export function resolveGeneticOptions(options: GeneticMatcherOptions = {}): Required<GeneticMatcherOptions> {
+  const defaults = geneticPreset(DEFAULT_SIMULATION_CONFIG.GENETIC.DEFAULT_PRESET);
+
+  return {
+    populationSize: options.populationSize ?? defaults.populationSize,
+    maxGenerations: options.maxGenerations ?? defaults.maxGenerations,
+    mutationRate: options.mutationRate ?? defaults.mutationRate,
+    elitismRate: options.elitismRate ?? defaults.elitismRate,
+    crossoverRate: options.crossoverRate ?? defaults.crossoverRate,
+    stallGenerations: options.stallGenerations ?? defaults.stallGenerations,
+    assignedWeight: options.assignedWeight ?? defaults.assignedWeight,
+    detourWeight: options.detourWeight ?? defaults.detourWeight,
+    utilizationWeight: options.utilizationWeight ?? defaults.utilizationWeight,
+    unusedVehiclePenalty: options.unusedVehiclePenalty ?? defaults.unusedVehiclePenalty,
+    objective: options.objective ?? defaults.objective
+  };
+}
+
+/**
+ * Preset whose hyperparameters the options use, ignoring fitness weights; null for custom values
+ */
+export function findGeneticPreset(options: GeneticMatcherOptions): GeneticPreset | null {
+  const resolved = resolveGeneticOptions(options);
+  const hyperparameters: (keyof GeneticMatcherOptions)[] = [
+    'populationSize', 'maxGenerations', 'mutationRate', 'elitismRate', 'crossoverRate', 'stallGenerations'
+  ];
+
+  return GENETIC_PRESETS.find(preset => {
+    const values = geneticPreset(preset);
+    return hyperparameters.every(key => values[key] === resolved[key]);
+  }) ?? null;
+}
+
+/**
+ * Fitness weights in the form assignmentFitness takes them
+ */
+export function fitnessWeights(options: Required<GeneticMatcherOptions>): typeof FITNESS_WEIGHTS {
+  return {
+    ASSIGNED: options.assignedWeight,
+    DETOUR: options.detourWeight,
+    UTILIZATION: options.utilizationWeight,
+    UNUSED_VEHICLE_PENALTY: options.unusedVehiclePenalty
+  };
+}
+
+/**
+ * Check genetic matcher options for values the algorithm cannot run with.
+ * @returns One message per problem, empty when the options are valid
+ */
+export function validateGeneticOptions(options: GeneticMatcherOptions = {}): string[] {
+  const {
+    populationSize, maxGenerations, mutationRate, elitismRate, crossoverRate, stallGenerations,
+    assignedWeight, detourWeight, utilizationWeight, unusedVehiclePenalty
+  } = resolveGeneticOptions(options);
+  const errors: string[] = [];
+  const isRate = (value: number) => value >= 0 && value <= 1;
+
+  if (!Number.isInteger(populationSize) || populationSize < 2) {
+    errors.push('Population size must be a whole number of at least 2');
+  }
+  if (!Number.isInteger(maxGenerations) || maxGenerations < 1) {
+    errors.push('Max generations must be a whole number of at least 1');
+  }
+  if (!Number.isInteger(stallGenerations) || stallGenerations < 1) {
+    errors.push('Stall generations must be a whole number of at least 1');
+  }
+  if (!isRate(mutationRate) || !isRate(crossoverRate)) {
+    errors.push('Mutation and crossover rates must be between 0 and 1');
+  }
+  // Elites are copied over unchanged, so at least one offspring must be bred each generation
+  if (!(elitismRate >= 0 && elitismRate < 1)) {
+    errors.push('Elitism rate must be at least 0 and below 1');
+  }
+  if (![assignedWeight, detourWeight, utilizationWeight, unusedVehiclePenalty].every(weight => weight >= 0)) {
+    errors.push('Fitness weights and the unused vehicle penalty must be non-negative');
+  }
+  if (assignedWeight <= 0) {
+    errors.push('Assigned weight must be greater than zero, or matching riders earns nothing');
+  }
+
+  return errors;
+}
@@ -0,0 +1,79 @@
+import {
+  BENCHMARK_MATCHERS,
+  BENCHMARK_SUITE,
+  createBenchmarkInstance,
+  formatBenchmarkTable,
+  optimalFitness,
+  runMatcherBenchmark
+} from './matcherBenchmark';
+
+// The full suite takes minutes, so it only runs on request: npm run benchmark
+const fullSuite = process.env.RUN_BENCHMARKS ? test : test.skip;
+
+describe('matcherBenchmark', () => {
+  // Printing the table bypasses the mocked console.log
+  const print = console.log;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('suite covers every size, density and detour limit with distinct seeds', () => {
+    expect(BENCHMARK_SUITE).toHaveLength(12);
+    expect(new Set(BENCHMARK_SUITE.map(spec => spec.name)).size).toBe(12);
+    expect(new Set(BENCHMARK_SUITE.map(spec => spec.seed)).size).toBe(12);
+    expect(BENCHMARK_SUITE.map(spec => spec.name)).toContain('large-sparse-tight');
+  });
+
+  test('generates the same instance from the same spec', () => {
+    const [spec] = BENCHMARK_SUITE;
+    const first = createBenchmarkInstance(spec);
+    const second = createBenchmarkInstance(spec);
+
+    expect(first.clusters.length).toBeGreaterThan(0);
+    expect(second.clusters).toEqual(first.clusters);
+    expect(second.vehicles).toEqual(first.vehicles);
+  });
+
+  test('measures every matcher on the small instances, mostly against the exhaustive optimum', () => {
+    const specs = BENCHMARK_SUITE.filter(spec => spec.name.startsWith('small-'));
+    const results = runMatcherBenchmark(specs);
+
+    expect(results).toHaveLength(specs.length * Object.keys(BENCHMARK_MATCHERS).length);
+    expect(new Set(results.filter(result => result.reference === 'optimal').map(result => result.instance)).size)
+      .toBeGreaterThanOrEqual(3);
+    results.forEach(result => {
+      expect(result.matchedPercent).toBeGreaterThanOrEqual(0);
+      expect(result.matchedPercent).toBeLessThanOrEqual(100);
+      expect(result.runtimeMs).toBeGreaterThanOrEqual(0);
+    });
+
+    // Matchers that keep clusters whole within the detour limit cannot beat the optimum
+    results
+      .filter(result => result.reference === 'optimal')
+      .filter(result => ['greedy', 'min-cost flow', 'annealing', 'alns'].includes(result.matcher))
+      .forEach(result => expect(result.optimalityGap).toBeGreaterThanOrEqual(-1e-9));
+
+    // Branch and bound finishes on instances small enough to enumerate
+    results
+      .filter(result => result.reference === 'optimal' && result.matcher === 'min-cost flow')
+      .forEach(result => expect(result.optimalityGap).toBeCloseTo(0, 9));
+
+    const table = formatBenchmarkTable(results);
+    Object.keys(BENCHMARK_MATCHERS).forEach(matcher => expect(table).toContain(matcher));
+    expect(table.split('\n')).toHaveLength(results.length + 3);
+  }, 60 * 1000);
+
+  test('compares to the best matcher when the instance is too large to enumerate', () => {
+    const [spec] = BENCHMARK_SUITE;
+    expect(optimalFitness(createBenchmarkInstance(spec), 1)).toBeNull();
+  });
+
+  fullSuite('prints the full benchmark table', () => {
+    print(`\n${formatBenchmarkTable(runMatcherBenchmark())}`);
+  }, 30 * 60 * 1000);
+});
@@ -0,0 +1,257 @@
+import { IMatchingStrategy, MatchingConstraints } from '../interfaces';
+import { Cluster, RideRequest, Vehicle } from '../../models/types';
+import { DEFAULT_SIMULATION_CONFIG } from '../../config/simulationConfig';
+import { haversineDistance } from '../../utils/geo';
+import { createSeededRandom } from '../../utils/random';
+import { RandomDataGenerator } from '../../data/RandomDataGenerator';
+import { DBSCANClustering } from '../clustering/DBSCANClustering';
+import { CapacityClusterSplitter } from '../clustering/CapacityClusterSplitter';
+import { GreedyMatcher } from './GreedyMatcher';
+import { GeneticMatcher } from './GeneticMatcher';
+import { MinCostFlowMatcher } from './MinCostFlowMatcher';
+import { InsertionMatcher } from './InsertionMatcher';
+import { SimulatedAnnealingMatcher } from './SimulatedAnnealingMatcher';
+import { AlnsMatcher } from './AlnsMatcher';
+import { assignmentFitness, routeDetour, routeLength } from './matchingCost';
+import { isVehicleFeasible, solutionFitness } from './clusterSolution';
+
+/**
+ * Matchers the benchmark compares; register new matching strategies here
+ */
+export const BENCHMARK_MATCHERS: Record<string, () => IMatchingStrategy> = {
+  greedy: () => new GreedyMatcher(),
+  genetic: () => new GeneticMatcher(),
+  'min-cost flow': () => new MinCostFlowMatcher(),
+  insertion: () => new InsertionMatcher(),
+  annealing: () => new SimulatedAnnealingMatcher(),
+  alns: () => new AlnsMatcher()
+};
+
+export interface BenchmarkInstanceSpec {
+  name: string;
+  seed: number;
+  passengerCount: number;
+  vehicleCount: number;
+  areaKm: number; // side of the square the requests are spread over
+  maxDetourKm: number;
+}
+
+export interface BenchmarkInstance {
+  spec: BenchmarkInstanceSpec;
+  clusters: Cluster[];
+  vehicles: Vehicle[];
+  constraints: MatchingConstraints; // each run adds its own seeded random source
+}
+
+export interface BenchmarkResult {
+  instance: string;
+  matcher: string;
+  requests: number; // clustered requests a matcher could assign
+  matchedPercent: number;
+  totalDistanceKm: number; // length of every assignment route
+  detourKm: number; // average detour per matched request
+  runtimeMs: number;
+  fitness: number; // matching objective, see assignmentFitness
+  optimalityGap: number; // reference fitness minus this matcher's, in fitness units
+  reference: 'optimal' | 'best found';
+}
+
+const SIZES = {
+  small: { passengerCount: 16, vehicleCount: 4 },
+  medium: { passengerCount: 60, vehicleCount: 12 },
+  large: { passengerCount: 150, vehicleCount: 30 }
+};
+
+// Side of the area the requests are spread over, in km
+const DENSITIES = { dense: 3, sparse: 12 };
+
+const DETOUR_LIMITS = { tight: 1, loose: 4 };
+
+/**
+ * Every combination of size, density and detour limit, each with its own fixed seed
+ */
+export const BENCHMARK_SUITE: BenchmarkInstanceSpec[] = Object.entries(SIZES)
+  .flatMap(([size, counts]) => Object.entries(DENSITIES)
+    .flatMap(([density, areaKm]) => Object.entries(DETOUR_LIMITS)
+      .map(([detour, maxDetourKm]) => ({ name: `${size}-${density}-${detour}`, ...counts, areaKm, maxDetourKm }))))
+  .map((spec, index) => ({ ...spec, seed: 1000 + index }));
+
+// Fixed "now" so instances don't depend on when the benchmark runs
+const BENCHMARK_START_TIME = '2024-03-04T08:00:00Z';
+
+// Instances with more candidate solutions than this are compared to the best matcher instead of the optimum
+const EXACT_SEARCH_LIMIT = 2e6;
+
+const KM_PER_DEGREE = 111.32;
+
+/**
+ * Square of the given side centred on the simulation map
+ */
+function areaBounds(areaKm: number) {
+  const { MAP_BOUNDS } = DEFAULT_SIMULATION_CONFIG;
+  const lat = (MAP_BOUNDS.minLat + MAP_BOUNDS.maxLat) / 2;
+  const lng = (MAP_BOUNDS.minLng + MAP_BOUNDS.maxLng) / 2;
+  const halfLat = areaKm / 2 / KM_PER_DEGREE;
+  const halfLng = halfLat / Math.cos(lat * Math.PI / 180);
+
+  return { minLat: lat - halfLat, maxLat: lat + halfLat, minLng: lng - halfLng, maxLng: lng + halfLng };
+}
+
+/**
+ * Requests, vehicles and clusters of an instance, generated and clustered like a simulation run
+ * with the instance's seed.
+ *
+ * Instances constrain capacity and detour only. Generated request times spread over the whole
+ * time window, so with time windows a vehicle waiting at a later rider's pickup makes almost
+ * every shared ride too long, leaving nothing to compare.
+ */
+export function createBenchmarkInstance(spec: BenchmarkInstanceSpec): BenchmarkInstance {
+  const random = createSeededRandom(spec.seed);
+  const referenceTime = new Date(BENCHMARK_START_TIME);
+  const bounds = areaBounds(spec.areaKm);
+  const generator = new RandomDataGenerator();
+
+  const requests = generator.generateRequests(spec.passengerCount, bounds, { random, referenceTime });
+  const vehicles = generator.generateVehiclesNearPassengers(spec.vehicleCount, requests, bounds, { random, referenceTime });
+  const densityClusters = new DBSCANClustering().cluster(requests, {
+    timeWindowMinutes: DEFAULT_SIMULATION_CONFIG.DEFAULT_TIME_WINDOW,
+    maxDistanceKm: spec.maxDetourKm,
+    referenceTime,
+    random
+  });
+
+  return {
+    spec,
+    clusters: new CapacityClusterSplitter().split(densityClusters, vehicles, random),
+    vehicles,
+    constraints: { maxDetourKm: spec.maxDetourKm }
+  };
+}
+
+/**
+ * Best fitness of any whole-cluster solution that respects the instance's constraints,
+ * by exhaustive search; null when the instance has too many candidate solutions
+ */
+export function optimalFitness(instance: BenchmarkInstance, maxSolutions = EXACT_SEARCH_LIMIT): number | null {
+  const { clusters, vehicles, constraints } = instance;
+  if (Math.pow(vehicles.length + 1, clusters.length) > maxSolutions) return null;
+
+  const solution = clusters.map(() => -1);
+  const seats = vehicles.map(vehicle => vehicle.availableSeats);
+  const inReach = clusters.map(cluster =>
+    vehicles.map(vehicle => haversineDistance(vehicle.location, cluster.centroid) <= constraints.maxDetourKm));
+  let best = -Infinity;
+
+  const search = (clusterIndex: number) => {
+    if (clusterIndex === clusters.length) {
+      best = Math.max(best, solutionFitness(solution, clusters, vehicles, constraints.maxDetourKm));
+      return;
+    }
+
+    const size = clusters[clusterIndex].requests.length;
+    solution[clusterIndex] = -1;
+    search(clusterIndex + 1);
+
+    for (let vehicleIndex = 0; vehicleIndex < vehicles.length; vehicleIndex++) {
+      if (!inReach[clusterIndex][vehicleIndex] || seats[vehicleIndex] < size) continue;
+
+      solution[clusterIndex] = vehicleIndex;
+      if (!constraints.timeWindows || isVehicleFeasible(solution, vehicleIndex, clusters, vehicles, constraints)) {
+        seats[vehicleIndex] -= size;
+        search(clusterIndex + 1);
+        seats[vehicleIndex] += size;
+      }
+    }
+    solution[clusterIndex] = -1;
+  };
+
+  search(0);
+  return best;
+}
+
+/**
+ * Run every matcher on every instance, each with a random source seeded by the instance.
+ *
+ * The optimality gap is measured against the exhaustive optimum where the instance is small
+ * enough, otherwise against the best matcher on the instance. Matchers that split clusters or
+ * relax the detour limit can beat the whole-cluster optimum, giving a negative gap.
+ */
+export function runMatcherBenchmark(
+  specs: BenchmarkInstanceSpec[] = BENCHMARK_SUITE,
+  matchers: Record<string, () => IMatchingStrategy> = BENCHMARK_MATCHERS
+): BenchmarkResult[] {
+  return specs.flatMap(spec => {
+    const instance = createBenchmarkInstance(spec);
+    const { clusters, vehicles, constraints } = instance;
+    const requestsById = new Map(clusters.flatMap(cluster => cluster.requests).map(request => [request.id, request]));
+    const vehicleIndexById = new Map(vehicles.map((vehicle, index) => [vehicle.id, index]));
+    const totalRequests = requestsById.size;
+
+    const runs = Object.entries(matchers).map(([matcher, createMatcher]) => {
+      const strategy = createMatcher();
+      const start = performance.now();
+      const assignments = strategy.match(clusters, vehicles, { ...constraints, random: createSeededRandom(spec.seed) });
+      const runtimeMs = performance.now() - start;
+
+      const groups: RideRequest[][] = vehicles.map(() => []);
+      assignments.forEach(assignment => {
+        const vehicleIndex = vehicleIndexById.get(assignment.vehicleId);
+        if (vehicleIndex === undefined) return;
+        groups[vehicleIndex].push(...assignment.requestIds.flatMap(id => requestsById.get(id) ?? []));
+      });
+      const matched = groups.reduce((sum, group) => sum + group.length, 0);
+      const totalDetour = groups.reduce((sum, group, vehicleIndex) =>
+        sum + (group.length > 0 ? routeDetour(vehicles[vehicleIndex], group) : 0), 0);
+
+      return {
+        instance: spec.name,
+        matcher,
+        requests: totalRequests,
+        matchedPercent: totalRequests > 0 ? (matched / totalRequests) * 100 : 0,
+        totalDistanceKm: assignments.reduce((sum, assignment) => sum + routeLength(assignment.route), 0),
+        detourKm: matched > 0 ? totalDetour / matched : 0,
+        runtimeMs,
+        fitness: totalRequests > 0 ? assignmentFitness(groups, vehicles, totalRequests, constraints.maxDetourKm) : 0
+      };
+    });
+
+    const optimum = totalRequests > 0 ? optimalFitness(instance) : null;
+    const reference = optimum ?? Math.max(...runs.map(run => run.fitness));
+
+    return runs.map((run): BenchmarkResult => ({
+      ...run,
+      optimalityGap: reference - run.fitness,
+      reference: optimum !== null ? 'optimal' : 'best found'
+    }));
+  });
+}
+
+/**
+ * Plain-text table of benchmark results, one row per instance and matcher
+ */
+export function formatBenchmarkTable(results: BenchmarkResult[]): string {
+  const header = ['Instance', 'Matcher', 'Matched %', 'Distance km', 'Detour km', 'Runtime ms', 'Fitness', 'Gap'];
+  const rows = results.map(result => [
+    result.instance,
+    result.matcher,
+    result.matchedPercent.toFixed(1),
+    result.totalDistanceKm.toFixed(2),
+    result.detourKm.toFixed(2),
+    result.runtimeMs.toFixed(1),
+    result.fitness.toFixed(4),
+    `${result.optimalityGap.toFixed(4)}${result.reference === 'optimal' ? '' : '*'}`
+  ]);
+
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  // Names are left aligned, numbers right aligned
+  const line = (cells: string[]) => cells
+    .map((cell, column) => (column < 2 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])))
+    .join('  ');
+
+  return [
+    line(header),
+    widths.map(width => '-'.repeat(width)).join('  '),
+    ...rows.map(line),
+    '* gap to the best matcher on the instance; otherwise to the exhaustive optimum'
+  ].join('\n');
+}
@@ -0,0 +1,77 @@
+import { Vehicle, Coordinates, RideRequest } from '../../models/types';
+import { haversineDistance } from '../../utils/geo';
+
+/**
+ * Weights of the matching objective shared by the matchers
+ */
+export const FITNESS_WEIGHTS = {
+  ASSIGNED: 0.8, // share of requests assigned to a vehicle
+  DETOUR: 0.15, // average detour per assigned request, relative to the max detour
+  UTILIZATION: 0.05, // share of vehicles in use
+  UNUSED_VEHICLE_PENALTY: 0.1 // subtracted per idle vehicle
+};
+
+/**
+ * Simple route serving the requests: vehicle -> all pickups -> all dropoffs
+ */
+export function serviceRoute(vehicle: Vehicle, requests: RideRequest[]): Coordinates[] {
+  return [
+    vehicle.location,
+    ...requests.map(request => request.pickupLocation),
+    ...requests.map(request => request.dropoffLocation)
+  ];
+}
+
+export function routeLength(points: Coordinates[]): number {
+  let distance = 0;
+  for (let i = 0; i < points.length - 1; i++) {
+    distance += haversineDistance(points[i], points[i + 1]);
+  }
+  return distance;
+}
+
+/**
+ * Detour of the vehicle's route over driving straight from the vehicle to each dropoff
+ */
+export function routeDetour(vehicle: Vehicle, requests: RideRequest[]): number {
+  const directDistance = requests.reduce((sum, request) => sum + haversineDistance(vehicle.location, request.dropoffLocation), 0);
+  return routeLength(serviceRoute(vehicle, requests)) - directDistance;
+}
+
+/**
+ * Matching objective (higher is better): a weighted combination of the share of requests
+ * assigned, the average detour and vehicle utilization.
+ *
+ * @param groups Requests served by each vehicle, indexed like vehicles; empty for idle vehicles
+ * @param totalRequests Number of requests that could have been assigned
+ * @param weights Objective weights, FITNESS_WEIGHTS by default
+ */
+export function assignmentFitness(
+  groups: RideRequest[][],
+  vehicles: Vehicle[],
+  totalRequests: number,
+  maxDetourKm: number,
+  weights: typeof FITNESS_WEIGHTS = FITNESS_WEIGHTS
+): number {
+  let totalAssigned = 0;
+  let totalDetour = 0;
+  let usedVehicles = 0;
+
+  groups.forEach((requests, vehicleIndex) => {
+    if (requests.length === 0) return;
+
+    totalAssigned += requests.length;
+    totalDetour += routeDetour(vehicles[vehicleIndex], requests);
+    usedVehicles++;
+  });
+
+  const assignmentRatio = totalAssigned / totalRequests;
+  const normalizedDetour = Math.min(totalDetour / (totalAssigned || 1) / maxDetourKm, 1);
+  const vehicleUtilization = usedVehicles / vehicles.length;
+  const unusedVehiclePenalty = (vehicles.length - usedVehicles) * weights.UNUSED_VEHICLE_PENALTY;
+
+  return weights.ASSIGNED * assignmentRatio
+    - weights.DETOUR * normalizedDetour
+    + weights.UTILIZATION * vehicleUtilization
+    - unusedVehiclePenalty;
+}
@@ -0,0 +1,91 @@
+import { crowdedCompare, crowdingDistances, dominates, nonDominatedSort, paretoRanking } from './pareto';
+import { GeneticMatcher } from './GeneticMatcher';
+import { routeLength } from './matchingCost';
+import { Assignment, Cluster, RideRequest, Vehicle } from '../../models/types';
+import { createSeededRandom } from '../../utils/random';
+
+const KM = 1 / 111.195; // degrees of latitude per kilometre
+
+const makeCluster = (id: string, lat: number, lng: number, size: number): Cluster => {
+  const requests: RideRequest[] = Array.from({ length: size }, (_, i) => ({
+    id: `${id}-${i}`,
+    pickupLocation: { lat, lng: lng + i * 0.1 * KM },
+    dropoffLocation: { lat: lat + KM, lng },
+    timestamp: new Date()
+  }));
+  return { id, centroid: { lat, lng }, requests };
+};
+
+const makeVehicle = (id: string, lat: number, lng: number, seats: number): Vehicle => ({
+  id,
+  location: { lat, lng },
+  capacity: seats,
+  availableSeats: seats,
+  currentRoute: []
+});
+
+describe('pareto', () => {
+  test('a vector dominates another only when no worse anywhere and better somewhere', () => {
+    expect(dominates([3, -10], [2, -10])).toBe(true);
+    expect(dominates([3, -10], [3, -10])).toBe(false);
+    expect(dominates([3, -12], [2, -10])).toBe(false);
+  });
+
+  test('sorts into fronts, each dominated only by earlier ones', () => {
+    // Matched riders and negated kilometres
+    const objectives = [[4, -20], [2, -10], [3, -15], [2, -15], [1, -30], [4, -25]];
+
+    const fronts = nonDominatedSort(objectives).map(front => [...front].sort());
+    expect(fronts).toEqual([[0, 1, 2], [3, 5], [4]]);
+  });
+
+  test('keeps the extremes of a front and prefers the less crowded middle', () => {
+    const objectives = [[0, -0], [1, -1], [1.1, -1.1], [3, -3]];
+    const distances = crowdingDistances([0, 1, 2, 3], objectives);
+
+    expect(distances[0]).toBe(Infinity);
+    expect(distances[3]).toBe(Infinity);
+    // Point 1 sits between 0 and 2, point 2 between 1 and 3
+    expect(distances[1]).toBeCloseTo(2 * 1.1 / 3, 10);
+    expect(distances[2]).toBeCloseTo(2 * 2 / 3, 10);
+
+    const { ranks, crowding } = paretoRanking(objectives);
+    expect(ranks).toEqual([0, 0, 0, 0]);
+    expect([0, 1, 2, 3].sort((a, b) => crowdedCompare(a, b, ranks, crowding))).toEqual([0, 3, 2, 1]);
+  });
+});
+
+describe('GeneticMatcher pareto objective', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('reports non-dominated assignment sets and returns the first', () => {
+    // Clusters ever further from the vehicles: each extra rider costs more kilometres
+    const clusters = [0, 1, 2, 3].map(i => makeCluster(`c${i}`, i * 0.8 * KM, 0, 2));
+    const vehicles = [0, 1, 2, 3].map(i => makeVehicle(`v${i}`, 0, i * 0.1 * KM, 2));
+    let front: Assignment[][] = [];
+
+    const assignments = new GeneticMatcher({ objective: 'pareto', maxGenerations: 30 }).match(clusters, vehicles, {
+      maxDetourKm: 3,
+      random: createSeededRandom(7),
+      onParetoFront: reported => { front = reported; }
+    });
+
+    expect(front.length).toBeGreaterThan(1);
+    expect(front[0]).toEqual(assignments);
+
+    const objectives = front.map(set => [
+      set.reduce((sum, assignment) => sum + assignment.requestIds.length, 0),
+      -set.reduce((sum, assignment) => sum + routeLength(assignment.route), 0)
+    ]);
+    objectives.forEach(a => {
+      expect(a[0]).toBeGreaterThan(0);
+      expect(objectives.some(b => dominates(b, a))).toBe(false);
+    });
+  });
+});
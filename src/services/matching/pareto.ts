@@ -0,0 +1,103 @@
+/**
+ * Whether a is at least as good as b in every objective and better in at least one.
+ * Objectives here are all maximized; negate those that should be minimized.
+ */
+export function dominates(a: number[], b: number[]): boolean {
+  let better = false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] < b[i]) return false;
+    if (a[i] > b[i]) better = true;
+  }
+  return better;
+}
+
+/**
+ * Fast non-dominated sort: indices of the objective vectors grouped into fronts,
+ * the non-dominated front first and each later front dominated only by earlier ones
+ */
+export function nonDominatedSort(objectives: number[][]): number[][] {
+  const dominatedBy = objectives.map(() => 0);
+  const dominating: number[][] = objectives.map(() => []);
+
+  for (let i = 0; i < objectives.length; i++) {
+    for (let j = i + 1; j < objectives.length; j++) {
+      if (dominates(objectives[i], objectives[j])) {
+        dominating[i].push(j);
+        dominatedBy[j]++;
+      } else if (dominates(objectives[j], objectives[i])) {
+        dominating[j].push(i);
+        dominatedBy[i]++;
+      }
+    }
+  }
+
+  const fronts: number[][] = [];
+  let front = objectives.map((_, index) => index).filter(index => dominatedBy[index] === 0);
+
+  while (front.length > 0) {
+    fronts.push(front);
+    const next: number[] = [];
+    for (const index of front) {
+      for (const dominated of dominating[index]) {
+        if (--dominatedBy[dominated] === 0) next.push(dominated);
+      }
+    }
+    front = next;
+  }
+
+  return fronts;
+}
+
+/**
+ * Crowding distance of each member of a front, in front order: the normalized gap between its
+ * neighbours summed over the objectives, Infinity for the extremes. Larger means less crowded.
+ */
+export function crowdingDistances(front: number[], objectives: number[][]): number[] {
+  const distances = front.map(() => 0);
+  if (front.length === 0) return distances;
+
+  for (let objective = 0; objective < objectives[front[0]].length; objective++) {
+    const order = front.map((_, position) => position)
+      .sort((a, b) => objectives[front[a]][objective] - objectives[front[b]][objective]);
+    const min = objectives[front[order[0]]][objective];
+    const max = objectives[front[order[order.length - 1]]][objective];
+
+    distances[order[0]] = Infinity;
+    distances[order[order.length - 1]] = Infinity;
+    if (max === min) continue;
+
+    for (let i = 1; i < order.length - 1; i++) {
+      const gap = objectives[front[order[i + 1]]][objective] - objectives[front[order[i - 1]]][objective];
+      distances[order[i]] += gap / (max - min);
+    }
+  }
+
+  return distances;
+}
+
+/**
+ * Front number (0 for non-dominated) and crowding distance of every objective vector
+ */
+export function paretoRanking(objectives: number[][]): { ranks: number[]; crowding: number[] } {
+  const ranks = objectives.map(() => 0);
+  const crowding = objectives.map(() => 0);
+
+  nonDominatedSort(objectives).forEach((front, rank) => {
+    const distances = crowdingDistances(front, objectives);
+    front.forEach((index, position) => {
+      ranks[index] = rank;
+      crowding[index] = distances[position];
+    });
+  });
+
+  return { ranks, crowding };
+}
+
+/**
+ * NSGA-II's crowded comparison for sorting: lower front first, then less crowded first
+ */
+export function crowdedCompare(a: number, b: number, ranks: number[], crowding: number[]): number {
+  if (ranks[a] !== ranks[b]) return ranks[a] - ranks[b];
+  if (crowding[a] === crowding[b]) return 0;
+  return crowding[a] > crowding[b] ? -1 : 1;
+}
@@ -0,0 +1,104 @@
+import { explainUnassigned, rejectionReason } from './unassignedRequests';
+import { BENCHMARK_MATCHERS, BENCHMARK_SUITE, createBenchmarkInstance } from './matcherBenchmark';
+import { GreedyMatcher } from './GreedyMatcher';
+import { Cluster, RideRequest, UnassignedRequest, Vehicle } from '../../models/types';
+import { createSeededRandom } from '../../utils/random';
+
+const KM = 1 / 111.195; // degrees of latitude per kilometre
+const departureTime = new Date('2024-03-04T08:00:00Z');
+
+const makeCluster = (id: string, lat: number, size: number, timestamp = departureTime): Cluster => {
+  const requests: RideRequest[] = Array.from({ length: size }, (_, i) => ({
+    id: `${id}-${i}`,
+    pickupLocation: { lat, lng: 0 },
+    dropoffLocation: { lat: lat + KM, lng: 0 },
+    timestamp
+  }));
+  return { id, centroid: { lat, lng: 0 }, requests };
+};
+
+const makeVehicle = (id: string, lat: number, seats: number): Vehicle => ({
+  id,
+  location: { lat, lng: 0 },
+  capacity: seats,
+  availableSeats: seats,
+  currentRoute: []
+});
+
+describe('unassignedRequests', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('names the first rule that rules out every vehicle', () => {
+    const vehicles = [makeVehicle('near', 0, 2), makeVehicle('far', 5 * KM, 4)];
+    const constraints = { maxDetourKm: 2 };
+    const reason = (cluster: Cluster, timeWindows?: { maxWaitMinutes: number }) => rejectionReason(
+      cluster.requests,
+      cluster.centroid,
+      vehicles,
+      { ...constraints, timeWindows: timeWindows && { departureTime, vehicleSpeedKmh: 30, ...timeWindows } }
+    );
+
+    expect(reason(makeCluster('remote', 10 * KM, 1))).toBe('no-vehicle-in-reach');
+    expect(reason(makeCluster('large', 0.5 * KM, 3))).toBe('exceeds-capacity');
+    // One kilometre at 30 km/h is two minutes to the pickup
+    expect(reason(makeCluster('waiting', KM, 2), { maxWaitMinutes: 1 })).toBe('outside-time-window');
+    expect(reason(makeCluster('waiting', KM, 2), { maxWaitMinutes: 5 })).toBe('lost-in-optimization');
+  });
+
+  test('explains each left-out request once, by its first cluster', () => {
+    const served = makeCluster('served', 0, 2);
+    const remote = makeCluster('remote', 10 * KM, 2);
+    const overlapping = { ...remote, id: 'overlapping', centroid: { lat: 0, lng: 0 } };
+    const vehicles = [makeVehicle('v', 0, 4)];
+    const assignments = [{ vehicleId: 'v', requestIds: served.requests.map(request => request.id), route: [] }];
+
+    const unassigned = explainUnassigned([served, remote, overlapping], vehicles, assignments, { maxDetourKm: 2 });
+
+    expect(unassigned.map(({ request, reason }) => [request.id, reason])).toEqual([
+      ['remote-0', 'no-vehicle-in-reach'],
+      ['remote-1', 'no-vehicle-in-reach']
+    ]);
+  });
+
+  test('greedy reports clusters whose vehicle went to a larger cluster', () => {
+    // The large cluster takes the only vehicle; the small one could have had it
+    const clusters = [makeCluster('small', 0, 2), makeCluster('large', KM, 3)];
+    let unassigned: UnassignedRequest[] = [];
+
+    new GreedyMatcher().match(clusters, [makeVehicle('v', 0.5 * KM, 3)], {
+      maxDetourKm: 2,
+      onUnassigned: reported => { unassigned = reported; }
+    });
+
+    expect(unassigned.map(({ request, reason }) => [request.id, reason])).toEqual([
+      ['small-0', 'lost-in-optimization'],
+      ['small-1', 'lost-in-optimization']
+    ]);
+  });
+
+  test('every matcher accounts for each clustered request as assigned or unassigned', () => {
+    const instance = createBenchmarkInstance(BENCHMARK_SUITE.find(spec => spec.name === 'small-sparse-tight')!);
+    const clusteredIds = instance.clusters.flatMap(cluster => cluster.requests.map(request => request.id)).sort();
+
+    Object.entries(BENCHMARK_MATCHERS).forEach(([name, createMatcher]) => {
+      let unassigned: UnassignedRequest[] = [];
+      const assignments = createMatcher().match(instance.clusters, instance.vehicles, {
+        ...instance.constraints,
+        random: createSeededRandom(instance.spec.seed),
+        onUnassigned: reported => { unassigned = reported; }
+      });
+
+      const accountedIds = [
+        ...assignments.flatMap(assignment => assignment.requestIds),
+        ...unassigned.map(({ request }) => request.id)
+      ].sort();
+      expect({ name, ids: accountedIds }).toEqual({ name, ids: clusteredIds });
+    });
+  });
+});
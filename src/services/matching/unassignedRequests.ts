@@ -0,0 +1,70 @@
+import { MatchingConstraints } from '../interfaces';
+import { Assignment, Cluster, Coordinates, MatchingRejectionReason, RideRequest, UnassignedRequest, Vehicle } from '../../models/types';
+import { haversineDistance } from '../../utils/geo';
+import { meetsTimeWindows, serviceStops } from '../routing/serviceTimes';
+
+/**
+ * Why no vehicle took riders that must share a vehicle, checking each vehicle as if it served
+ * only them: no vehicle within the max detour of their location, none of those with the seats,
+ * none of those serving them in time, or else the vehicles that could were given to other riders
+ */
+export function rejectionReason(
+  riders: RideRequest[],
+  location: Coordinates,
+  vehicles: Vehicle[],
+  constraints: MatchingConstraints
+): MatchingRejectionReason {
+  const inReach = vehicles.filter(vehicle => haversineDistance(vehicle.location, location) <= constraints.maxDetourKm);
+  if (inReach.length === 0) return 'no-vehicle-in-reach';
+
+  const withSeats = inReach.filter(vehicle => vehicle.availableSeats >= riders.length);
+  if (withSeats.length === 0) return 'exceeds-capacity';
+
+  const stops = serviceStops(riders);
+  if (!withSeats.some(vehicle => meetsTimeWindows(vehicle, stops, constraints.timeWindows))) return 'outside-time-window';
+
+  return 'lost-in-optimization';
+}
+
+/**
+ * Every clustered request the assignments leave out, with the reason its cluster was rejected.
+ * A request in several clusters is judged by the first.
+ *
+ * Matchers that place requests one at a time pass one single-request cluster per request,
+ * located at its pickup.
+ */
+export function explainUnassigned(
+  clusters: Cluster[],
+  vehicles: Vehicle[],
+  assignments: Assignment[],
+  constraints: MatchingConstraints
+): UnassignedRequest[] {
+  const handled = new Set(assignments.flatMap(assignment => assignment.requestIds));
+  const unassigned: UnassignedRequest[] = [];
+
+  for (const cluster of clusters) {
+    const left = cluster.requests.filter(request => !handled.has(request.id));
+    if (left.length === 0) continue;
+
+    const reason = rejectionReason(cluster.requests, cluster.centroid, vehicles, constraints);
+    left.forEach(request => {
+      handled.add(request.id);
+      unassigned.push({ request, reason });
+    });
+  }
+
+  return unassigned;
+}
+
+/**
+ * Pass the requests the assignments leave out to constraints.onUnassigned, if set
+ */
+export function reportUnassigned(
+  clusters: Cluster[],
+  vehicles: Vehicle[],
+  assignments: Assignment[],
+  constraints: MatchingConstraints
+): void {
+  if (!constraints.onUnassigned) return;
+  constraints.onUnassigned(explainUnassigned(clusters, vehicles, assignments, constraints));
+}
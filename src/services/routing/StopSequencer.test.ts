@@ -0,0 +1,120 @@
+import { StopSequencer } from './StopSequencer';
+import { isFeasibleSchedule, scheduleLength } from './stopSchedule';
+import { RideRequest, Stop, Vehicle } from '../../models/types';
+import { createSeededRandom } from '../../utils/random';
+
+const vehicle = (seats: number): Vehicle => ({
+  id: 'v',
+  location: { lat: 40.75, lng: -73.98 },
+  capacity: seats,
+  availableSeats: seats,
+  currentRoute: []
+});
+
+const randomRequests = (count: number, seed: number): RideRequest[] => {
+  const random = createSeededRandom(seed);
+  return Array.from({ length: count }, (_, i) => ({
+    id: `r${i}`,
+    pickupLocation: { lat: 40.74 + random() * 0.03, lng: -73.99 + random() * 0.03 },
+    dropoffLocation: { lat: 40.74 + random() * 0.03, lng: -73.99 + random() * 0.03 },
+    timestamp: new Date()
+  }));
+};
+
+// The matchers' default order: every pickup, then every dropoff
+const pickupsThenDropoffs = (requests: RideRequest[]): Stop[] => [
+  ...requests.map((request): Stop => ({ request, type: 'pickup' })),
+  ...requests.map((request): Stop => ({ request, type: 'dropoff' }))
+];
+
+/**
+ * Shortest feasible order by trying every one
+ */
+const bruteForceLength = (v: Vehicle, requests: RideRequest[]): number => {
+  let best = Infinity;
+
+  const extend = (stops: Stop[], onBoard: number) => {
+    if (stops.length === requests.length * 2) {
+      best = Math.min(best, scheduleLength(v, stops));
+      return;
+    }
+    requests.forEach(request => {
+      const picked = stops.some(stop => stop.request === request && stop.type === 'pickup');
+      const dropped = stops.some(stop => stop.request === request && stop.type === 'dropoff');
+      if (dropped || (!picked && onBoard >= v.availableSeats)) return;
+      extend([...stops, { request, type: picked ? 'dropoff' : 'pickup' }], picked ? onBoard - 1 : onBoard + 1);
+    });
+  };
+
+  extend([], 0);
+  return best;
+};
+
+describe('StopSequencer', () => {
+  test.each([
+    [2, 1],
+    [2, 2],
+    [4, 3]
+  ])('finds the shortest feasible order of 4 riders with %i seats (seed %i)', (seats, seed) => {
+    const requests = randomRequests(4, seed);
+    const v = vehicle(seats);
+
+    const stops = new StopSequencer().sequence(v, pickupsThenDropoffs(requests));
+
+    expect(isFeasibleSchedule(v, stops, Infinity)).toBe(true);
+    expect(scheduleLength(v, stops)).toBeCloseTo(bruteForceLength(v, requests), 9);
+  });
+
+  test('serves riders one at a time with a single seat', () => {
+    const requests = randomRequests(3, 4);
+    const stops = new StopSequencer().sequence(vehicle(1), pickupsThenDropoffs(requests));
+
+    stops.forEach((stop, i) => expect(stop.type).toBe(i % 2 === 0 ? 'pickup' : 'dropoff'));
+    expect(stops.filter((_, i) => i % 2 === 0).map(stop => stop.request.id).sort()).toEqual(['r0', 'r1', 'r2']);
+  });
+
+  test('improves larger schedules by local search without breaking precedence or capacity', () => {
+    const requests = randomRequests(12, 5);
+    const v = vehicle(4);
+    // Riders in pairs, which fits in 4 seats
+    const start = [0, 2, 4, 6, 8, 10].flatMap(i => [
+      { request: requests[i], type: 'pickup' },
+      { request: requests[i + 1], type: 'pickup' },
+      { request: requests[i], type: 'dropoff' },
+      { request: requests[i + 1], type: 'dropoff' }
+    ] as Stop[]);
+
+    const stops = new StopSequencer().sequence(v, start);
+
+    expect(stops).toHaveLength(start.length);
+    expect(isFeasibleSchedule(v, stops, Infinity)).toBe(true);
+    expect(scheduleLength(v, stops)).toBeLessThan(scheduleLength(v, start));
+  });
+
+  test('keeps every rider within the max detour', () => {
+    const KM = 1 / 111.195; // degrees of latitude per kilometre
+    const onLine = (id: string, pickupKm: number, dropoffKm: number): RideRequest => ({
+      id,
+      pickupLocation: { lat: pickupKm * KM, lng: 0 },
+      dropoffLocation: { lat: dropoffKm * KM, lng: 0 },
+      timestamp: new Date()
+    });
+    const v = { ...vehicle(4), location: { lat: 0, lng: 0 } };
+    const requests = [onLine('a', 0, 4), onLine('b', 1, 0.5)];
+
+    // Dropping b off on the way is shortest, but a then rides 1 km more than their direct trip
+    const shortest = new StopSequencer().sequence(v, pickupsThenDropoffs(requests));
+    expect(scheduleLength(v, shortest)).toBeCloseTo(5, 4);
+
+    const stops = new StopSequencer().sequence(v, pickupsThenDropoffs(requests), 0.5);
+    expect(isFeasibleSchedule(v, stops, 0.5)).toBe(true);
+    expect(stops.map(stop => `${stop.type} ${stop.request.id}`)).toEqual(['pickup b', 'dropoff b', 'pickup a', 'dropoff a']);
+  });
+
+  test('keeps a single rider as pickup then dropoff', () => {
+    const [request] = randomRequests(1, 6);
+    const stops: Stop[] = [{ request, type: 'pickup' }, { request, type: 'dropoff' }];
+
+    expect(new StopSequencer().sequence(vehicle(4), stops)).toEqual(stops);
+  });
+});
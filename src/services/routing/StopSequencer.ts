@@ -0,0 +1,170 @@
+import { IStopSequencer } from '../interfaces';
+import { Vehicle, RideRequest, Stop, Coordinates } from '../../models/types';
+import { haversineDistance } from '../../utils/geo';
+import { DEFAULT_SIMULATION_CONFIG } from '../../config/simulationConfig';
+import { isFeasibleSchedule, scheduleLength } from './stopSchedule';
+
+// Shorter by less than this (km) does not count as an improvement
+const IMPROVEMENT_EPSILON = 1e-9;
+
+// Longest run of consecutive stops that Or-opt moves at once
+const MAX_OR_OPT_SEGMENT = 3;
+
+/**
+ * Orders the pickups and dropoffs of one vehicle as a dial-a-ride TSP: the shortest route
+ * from the vehicle's location through every stop, with each pickup before its dropoff,
+ * never more riders on board than available seats and no rider riding more than the max
+ * detour beyond their direct trip.
+ *
+ * Small schedules are solved exactly by dynamic programming over rider states
+ * (waiting, on board, dropped off). Larger ones, and small ones whose shortest order makes a
+ * rider detour too far, start from the given order and are improved with 2-opt (reversing
+ * a run of stops) and Or-opt (moving a run of up to three stops).
+ */
+export class StopSequencer implements IStopSequencer {
+  constructor(
+    private readonly exactMaxRequests = DEFAULT_SIMULATION_CONFIG.STOP_SEQUENCING.EXACT_MAX_REQUESTS,
+    private readonly maxLocalSearchPasses = DEFAULT_SIMULATION_CONFIG.STOP_SEQUENCING.MAX_LOCAL_SEARCH_PASSES
+  ) {}
+
+  sequence(vehicle: Vehicle, stops: Stop[], maxDetourKm = Infinity): Stop[] {
+    const requests = stops.filter(stop => stop.type === 'pickup').map(stop => stop.request);
+    // A single rider can only be picked up and then dropped off
+    if (requests.length <= 1 || vehicle.availableSeats <= 0) {
+      return stops;
+    }
+
+    if (requests.length <= this.exactMaxRequests) {
+      // The dynamic program only tracks seats, so ride detours are checked afterwards
+      const exact = this.solveExact(vehicle, requests);
+      if (exact && isFeasibleSchedule(vehicle, exact, maxDetourKm)) return exact;
+    }
+
+    // One rider at a time is always feasible, so local search has a valid start
+    const start = isFeasibleSchedule(vehicle, stops, maxDetourKm)
+      ? stops
+      : requests.flatMap((request): Stop[] => [{ request, type: 'pickup' }, { request, type: 'dropoff' }]);
+    return this.localSearch(vehicle, start, maxDetourKm);
+  }
+
+  /**
+   * Shortest feasible order by dynamic programming. A state records each rider as waiting (0),
+   * on board (1) or dropped off (2) in base 3, together with the last stop visited;
+   * stop 2r is rider r's pickup and stop 2r + 1 their dropoff.
+   * @returns null when no order is feasible
+   */
+  private solveExact(vehicle: Vehicle, requests: RideRequest[]): Stop[] | null {
+    const n = requests.length;
+    const stopCount = 2 * n;
+    const locations: Coordinates[] = requests.flatMap(request => [request.pickupLocation, request.dropoffLocation]);
+    const distances = locations.map(from => locations.map(to => haversineDistance(from, to)));
+
+    const powers = [1];
+    for (let r = 1; r <= n; r++) powers.push(powers[r - 1] * 3);
+    const stateCount = powers[n];
+
+    // Riders on board in each state
+    const onBoard = new Array(stateCount).fill(0);
+    for (let state = 0; state < stateCount; state++) {
+      for (let r = 0; r < n; r++) {
+        if (Math.floor(state / powers[r]) % 3 === 1) onBoard[state]++;
+      }
+    }
+
+    // Indexed by state * stopCount + last stop; parent -1 marks the first stop after the vehicle
+    const cost: number[] = new Array(stateCount * stopCount).fill(Infinity);
+    const parent: number[] = new Array(stateCount * stopCount).fill(-1);
+
+    for (let r = 0; r < n; r++) {
+      cost[powers[r] * stopCount + 2 * r] = haversineDistance(vehicle.location, requests[r].pickupLocation);
+    }
+
+    // Every move raises the state number, so states can be processed in increasing order
+    for (let state = 0; state < stateCount; state++) {
+      for (let last = 0; last < stopCount; last++) {
+        const current = cost[state * stopCount + last];
+        if (!Number.isFinite(current)) continue;
+
+        for (let r = 0; r < n; r++) {
+          const riderState = Math.floor(state / powers[r]) % 3;
+          if (riderState === 2 || (riderState === 0 && onBoard[state] >= vehicle.availableSeats)) continue;
+
+          const stop = 2 * r + riderState;
+          const next = (state + powers[r]) * stopCount + stop;
+          const candidate = current + distances[last][stop];
+          if (candidate < cost[next]) {
+            cost[next] = candidate;
+            parent[next] = state * stopCount + last;
+          }
+        }
+      }
+    }
+
+    const finalState = stateCount - 1;
+    let bestIndex = -1;
+    for (let last = 0; last < stopCount; last++) {
+      const index = finalState * stopCount + last;
+      if (Number.isFinite(cost[index]) && (bestIndex < 0 || cost[index] < cost[bestIndex])) {
+        bestIndex = index;
+      }
+    }
+    if (bestIndex < 0) return null;
+
+    const order: Stop[] = [];
+    for (let index = bestIndex; index >= 0; index = parent[index]) {
+      const stop = index % stopCount;
+      order.unshift({ request: requests[Math.floor(stop / 2)], type: stop % 2 === 0 ? 'pickup' : 'dropoff' });
+    }
+    return order;
+  }
+
+  /**
+   * Apply improving 2-opt and Or-opt moves until none is left or the pass limit is reached
+   */
+  private localSearch(vehicle: Vehicle, stops: Stop[], maxDetourKm: number): Stop[] {
+    let best = stops;
+    let bestLength = scheduleLength(vehicle, stops);
+
+    for (let pass = 0; pass < this.maxLocalSearchPasses; pass++) {
+      const improved = this.firstImprovement(vehicle, best, bestLength, maxDetourKm);
+      if (!improved) break;
+      best = improved;
+      bestLength = scheduleLength(vehicle, improved);
+    }
+
+    return best;
+  }
+
+  /**
+   * First feasible 2-opt or Or-opt move that shortens the route
+   */
+  private firstImprovement(vehicle: Vehicle, stops: Stop[], length: number, maxDetourKm: number): Stop[] | null {
+    const isBetter = (candidate: Stop[]) =>
+      scheduleLength(vehicle, candidate) < length - IMPROVEMENT_EPSILON
+      && isFeasibleSchedule(vehicle, candidate, maxDetourKm);
+
+    // 2-opt: reverse stops i..j
+    for (let i = 0; i < stops.length - 1; i++) {
+      for (let j = i + 1; j < stops.length; j++) {
+        const candidate = [...stops.slice(0, i), ...stops.slice(i, j + 1).reverse(), ...stops.slice(j + 1)];
+        if (isBetter(candidate)) return candidate;
+      }
+    }
+
+    // Or-opt: move a run of stops starting at i to another position
+    for (let segmentLength = 1; segmentLength <= MAX_OR_OPT_SEGMENT; segmentLength++) {
+      for (let i = 0; i + segmentLength <= stops.length; i++) {
+        const segment = stops.slice(i, i + segmentLength);
+        const rest = [...stops.slice(0, i), ...stops.slice(i + segmentLength)];
+
+        for (let position = 0; position <= rest.length; position++) {
+          if (position === i) continue;
+          const candidate = [...rest.slice(0, position), ...segment, ...rest.slice(position)];
+          if (isBetter(candidate)) return candidate;
+        }
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,90 @@
+import { meetsTimeWindows, serviceStops, serviceTimes } from './serviceTimes';
+import { RideRequest, Vehicle } from '../../models/types';
+import { haversineDistance } from '../../utils/geo';
+
+const departureTime = new Date('2024-03-01T08:00:00Z');
+const minutes = (count: number) => new Date(departureTime.getTime() + count * 60 * 1000);
+
+const v: Vehicle = {
+  id: 'v',
+  location: { lat: 40.75, lng: -73.98 },
+  capacity: 4,
+  availableSeats: 4,
+  currentRoute: []
+};
+
+const request = (id: string, offsetLat: number, tripLat: number, extra: Partial<RideRequest> = {}): RideRequest => ({
+  id,
+  pickupLocation: { lat: 40.75 + offsetLat, lng: -73.98 },
+  dropoffLocation: { lat: 40.75 + offsetLat + tripLat, lng: -73.98 },
+  timestamp: departureTime,
+  ...extra
+});
+
+// 60 km/h makes minutes equal to kilometres
+const timeWindows = { departureTime, vehicleSpeedKmh: 60 };
+
+describe('serviceTimes', () => {
+  test('times each stop by the distance driven from the departure time', () => {
+    const rider = request('a', 0.01, 0.02);
+
+    const [report] = serviceTimes(v, serviceStops([rider]), timeWindows);
+
+    const toPickup = haversineDistance(v.location, rider.pickupLocation);
+    const solo = haversineDistance(rider.pickupLocation, rider.dropoffLocation);
+    expect(report.requestId).toBe('a');
+    expect(report.vehicleId).toBe('v');
+    expect(report.waitMinutes).toBeCloseTo(toPickup, 4);
+    expect(report.rideMinutes).toBeCloseTo(solo, 4);
+    expect(report.soloRideMinutes).toBeCloseTo(solo, 9);
+    expect(Math.abs(report.dropoffTime.getTime() - minutes(toPickup + solo).getTime())).toBeLessThan(1);
+  });
+
+  test('waits at the pickup for a pre-booked rider', () => {
+    const rider = request('a', 0.001, 0.01, { timestamp: minutes(20) });
+
+    const [report] = serviceTimes(v, serviceStops([rider]), timeWindows);
+
+    expect(report.pickupTime).toEqual(minutes(20));
+    expect(report.waitMinutes).toBe(0);
+  });
+
+  test('starts vehicles with a departure time of their own at that time', () => {
+    const rider = request('a', 0.001, 0.01);
+
+    const [report] = serviceTimes(v, serviceStops([rider]), { ...timeWindows, vehicleDepartureTimes: { v: minutes(10) } });
+
+    expect(report.waitMinutes).toBeCloseTo(10 + haversineDistance(v.location, rider.pickupLocation), 4);
+  });
+
+  test('flags late pickups against the request time plus the max wait or the rider own latest pickup', () => {
+    // About 5.6 km away, so picked up after about 5.6 minutes
+    const rider = request('a', 0.05, 0.01);
+
+    expect(meetsTimeWindows(v, serviceStops([rider]), { ...timeWindows, maxWaitMinutes: 10 })).toBe(true);
+    expect(meetsTimeWindows(v, serviceStops([rider]), { ...timeWindows, maxWaitMinutes: 5 })).toBe(false);
+
+    const patient = { ...rider, latestPickupTime: minutes(10) };
+    const [report] = serviceTimes(v, serviceStops([patient]), { ...timeWindows, maxWaitMinutes: 5 });
+    expect(report.latePickup).toBe(false);
+  });
+
+  test('flags rides that take too long compared to riding alone', () => {
+    // The first rider rides along while the second, further north, is picked up and dropped off
+    const first = request('first', 0.001, 0.02);
+    const second = request('second', 0.01, 0.001);
+    const stops = serviceStops([first, second]);
+
+    const reports = serviceTimes(v, stops, { ...timeWindows, maxRideTimeRatio: 1.2 });
+    expect(reports.find(report => report.requestId === 'first')?.rideTooLong).toBe(false);
+    expect(reports.find(report => report.requestId === 'second')?.rideTooLong).toBe(true);
+
+    const tolerant = { ...second, maxRideTimeRatio: 100 };
+    expect(meetsTimeWindows(v, serviceStops([first, tolerant]), { ...timeWindows, maxRideTimeRatio: 1.2 })).toBe(true);
+  });
+
+  test('accepts any schedule without time windows', () => {
+    const rider = request('a', 0.5, 0.01, { latestPickupTime: departureTime });
+    expect(meetsTimeWindows(v, serviceStops([rider]))).toBe(true);
+  });
+});
@@ -0,0 +1,98 @@
+import { TimeWindowConstraints } from '../interfaces';
+import { Vehicle, RideRequest, Stop, PassengerServiceReport } from '../../models/types';
+import { haversineDistance } from '../../utils/geo';
+import { stopLocation } from './stopSchedule';
+
+const MINUTE_MS = 60 * 1000;
+
+// Ride time ratios within this of the limit still count as meeting it
+const RATIO_TOLERANCE = 1e-9;
+
+/**
+ * Latest acceptable pickup: the request's own, else the request time plus the default max wait
+ */
+export function latestPickupTime(request: RideRequest, timeWindows: TimeWindowConstraints): Date | undefined {
+  if (request.latestPickupTime) return request.latestPickupTime;
+  if (timeWindows.maxWaitMinutes === undefined) return undefined;
+  return new Date(request.timestamp.getTime() + timeWindows.maxWaitMinutes * MINUTE_MS);
+}
+
+export function maxRideTimeRatio(request: RideRequest, timeWindows: TimeWindowConstraints): number | undefined {
+  return request.maxRideTimeRatio ?? timeWindows.maxRideTimeRatio;
+}
+
+function drivingMinutes(distanceKm: number, timeWindows: TimeWindowConstraints): number {
+  return distanceKm / timeWindows.vehicleSpeedKmh * 60;
+}
+
+/**
+ * When a vehicle starts driving its new route
+ */
+function vehicleDepartureTime(vehicle: Vehicle, timeWindows: TimeWindowConstraints): Date {
+  return timeWindows.vehicleDepartureTimes?.[vehicle.id] ?? timeWindows.departureTime;
+}
+
+/**
+ * Pickup and dropoff times of every rider in a schedule driven from the vehicle's departure time.
+ * A vehicle that reaches a pickup before the rider's request time waits for them.
+ */
+export function serviceTimes(vehicle: Vehicle, stops: Stop[], timeWindows: TimeWindowConstraints): PassengerServiceReport[] {
+  const pickupTimes = new Map<string, number>();
+  const reports: PassengerServiceReport[] = [];
+  let previous = vehicle.location;
+  let time = vehicleDepartureTime(vehicle, timeWindows).getTime();
+
+  for (const stop of stops) {
+    const { request, type } = stop;
+    const location = stopLocation(stop);
+    time += drivingMinutes(haversineDistance(previous, location), timeWindows) * MINUTE_MS;
+    previous = location;
+
+    if (type === 'pickup') {
+      time = Math.max(time, request.timestamp.getTime());
+      pickupTimes.set(request.id, time);
+      continue;
+    }
+
+    const pickupTime = pickupTimes.get(request.id);
+    if (pickupTime === undefined) continue;
+
+    const rideMinutes = (time - pickupTime) / MINUTE_MS;
+    const soloRideMinutes = drivingMinutes(haversineDistance(request.pickupLocation, request.dropoffLocation), timeWindows);
+    const latest = latestPickupTime(request, timeWindows);
+    const ratio = maxRideTimeRatio(request, timeWindows);
+
+    reports.push({
+      requestId: request.id,
+      vehicleId: vehicle.id,
+      pickupTime: new Date(pickupTime),
+      dropoffTime: new Date(time),
+      waitMinutes: (pickupTime - request.timestamp.getTime()) / MINUTE_MS,
+      rideMinutes,
+      soloRideMinutes,
+      latePickup: latest !== undefined && pickupTime > latest.getTime(),
+      rideTooLong: ratio !== undefined && rideMinutes > soloRideMinutes * (ratio + RATIO_TOLERANCE)
+    });
+  }
+
+  return reports;
+}
+
+/**
+ * Whether every rider of a schedule is picked up in time and rides no longer than allowed.
+ * Always true without time windows.
+ */
+export function meetsTimeWindows(vehicle: Vehicle, stops: Stop[], timeWindows?: TimeWindowConstraints): boolean {
+  if (!timeWindows) return true;
+  return serviceTimes(vehicle, stops, timeWindows).every(report => !report.latePickup && !report.rideTooLong);
+}
+
+/**
+ * Stops of the matchers' simple route: every pickup, then every dropoff
+ */
+export function serviceStops(requests: RideRequest[]): Stop[] {
+  return [
+    ...requests.map((request): Stop => ({ request, type: 'pickup' })),
+    ...requests.map((request): Stop => ({ request, type: 'dropoff' }))
+  ];
+}
@@ -0,0 +1,96 @@
+import { Vehicle, Coordinates, RideRequest, Stop } from '../../models/types';
+import { haversineDistance } from '../../utils/geo';
+
+export function stopLocation(stop: Stop): Coordinates {
+  return stop.type === 'pickup' ? stop.request.pickupLocation : stop.request.dropoffLocation;
+}
+
+/**
+ * Route driven by the vehicle: its location followed by each stop in order
+ */
+export function scheduleRoute(vehicle: Vehicle, stops: Stop[]): Coordinates[] {
+  return [vehicle.location, ...stops.map(stopLocation)];
+}
+
+/**
+ * Distance driven from the vehicle's location to each stop
+ */
+export function cumulativeDistances(vehicle: Vehicle, stops: Stop[]): number[] {
+  const distances: number[] = [];
+  let previous = vehicle.location;
+  let total = 0;
+
+  for (const stop of stops) {
+    const location = stopLocation(stop);
+    total += haversineDistance(previous, location);
+    distances.push(total);
+    previous = location;
+  }
+
+  return distances;
+}
+
+export function scheduleLength(vehicle: Vehicle, stops: Stop[]): number {
+  const distances = cumulativeDistances(vehicle, stops);
+  return distances.length > 0 ? distances[distances.length - 1] : 0;
+}
+
+/**
+ * Whether a schedule can be driven: every pickup comes before its dropoff, no more riders are
+ * on board than the vehicle has seats, and no rider rides more than maxDetourKm beyond the direct trip
+ */
+export function isFeasibleSchedule(vehicle: Vehicle, stops: Stop[], maxDetourKm: number): boolean {
+  const distances = cumulativeDistances(vehicle, stops);
+  const pickedUpAt = new Map<string, number>();
+  let onBoard = 0;
+
+  for (let i = 0; i < stops.length; i++) {
+    const { request, type } = stops[i];
+
+    if (type === 'pickup') {
+      if (pickedUpAt.has(request.id)) return false;
+      pickedUpAt.set(request.id, distances[i]);
+      onBoard++;
+      if (onBoard > vehicle.availableSeats) return false;
+      continue;
+    }
+
+    const pickupDistance = pickedUpAt.get(request.id);
+    if (pickupDistance === undefined) return false;
+
+    const rideDistance = distances[i] - pickupDistance;
+    if (rideDistance - haversineDistance(request.pickupLocation, request.dropoffLocation) > maxDetourKm) return false;
+    onBoard--;
+  }
+
+  // Every rider picked up must also be dropped off
+  return onBoard === 0;
+}
+
+/**
+ * Recover the stops behind a route of the form [vehicle location, ...stop locations]
+ * @returns null when a point is not the next pickup or dropoff of one of the requests
+ */
+export function stopsFromRoute(route: Coordinates[], requests: RideRequest[]): Stop[] | null {
+  const sameLocation = (a: Coordinates, b: Coordinates) => a.lat === b.lat && a.lng === b.lng;
+  const pickedUp = new Set<string>();
+  const droppedOff = new Set<string>();
+  const stops: Stop[] = [];
+
+  for (const point of route.slice(1)) {
+    const pickup = requests.find(request => !pickedUp.has(request.id) && sameLocation(request.pickupLocation, point));
+    if (pickup) {
+      pickedUp.add(pickup.id);
+      stops.push({ request: pickup, type: 'pickup' });
+      continue;
+    }
+
+    const dropoff = requests.find(request =>
+      pickedUp.has(request.id) && !droppedOff.has(request.id) && sameLocation(request.dropoffLocation, point));
+    if (!dropoff) return null;
+    droppedOff.add(dropoff.id);
+    stops.push({ request: dropoff, type: 'dropoff' });
+  }
+
+  return stops.length === requests.length * 2 ? stops : null;
+}
@@ -0,0 +1,89 @@
+import { IDataAdapter, IClusterStrategy, IIncrementalClusterStrategy } from './interfaces';
+import { ClusteringAlgorithm, GeneticMatcherOptions, RideRequest, Vehicle } from '../models/types';
+import { DEFAULT_SIMULATION_CONFIG } from '../config/simulationConfig';
+import { RandomDataGenerator } from '../data/RandomDataGenerator';
+import { TripFileDataAdapter } from '../data/TripFileDataAdapter';
+import { TLCTripDataAdapter, TLCImportResult } from '../data/TLCTripDataAdapter';
+import { DBSCANClustering } from './clustering/DBSCANClustering';
+import { IncrementalDBSCANClustering } from './clustering/IncrementalDBSCANClustering';
+import { HDBSCANClustering } from './clustering/HDBSCANClustering';
+import { OPTICSClustering } from './clustering/OPTICSClustering';
+import { KMeansClustering } from './clustering/KMeansClustering';
+import { GeneticMatcher } from './matching/GeneticMatcher';
+import { StraightLineRouter } from './routing/StraightLineRouter';
+import { SimulationService } from './SimulationService';
+import { SimulationEngine } from './SimulationEngine';
+
+/**
+ * Where a run's requests and vehicles come from. Plain data, so it can be posted to a worker.
+ */
+export type SimulationDataSource =
+  | { kind: 'random' }
+  | { kind: 'trips'; requests: RideRequest[]; vehicles: Vehicle[] } // trip and vehicle files
+  | { kind: 'tlc'; slice: TLCImportResult; vehicles: Vehicle[] }; // a TLC trip record time slice
+
+// Clustering strategies selectable from the control panel
+const clusteringStrategies: Record<ClusteringAlgorithm, () => IClusterStrategy> = {
+  dbscan: () => new DBSCANClustering(),
+  hdbscan: () => new HDBSCANClustering(),
+  optics: () => new OPTICSClustering(),
+  kmeans: () => new KMeansClustering() // baseline for comparison
+};
+
+// Versions the time-stepped engine keeps up to date between dispatch rounds, so cluster IDs stay stable
+const incrementalClusteringStrategies: Partial<Record<ClusteringAlgorithm, () => IIncrementalClusterStrategy>> = {
+  dbscan: () => new IncrementalDBSCANClustering()
+};
+
+export function createDataAdapter(source: SimulationDataSource): IDataAdapter {
+  switch (source.kind) {
+    case 'tlc':
+      return new TLCTripDataAdapter(source.slice, source.vehicles);
+    case 'trips':
+      return new TripFileDataAdapter(source.requests, source.vehicles);
+    default:
+      return new RandomDataGenerator();
+  }
+}
+
+/**
+ * Simulation service with the advanced algorithms (the chosen clustering strategy and the
+ * genetic matcher) for the given data source
+ */
+export function createSimulationService(
+  source: SimulationDataSource = { kind: 'random' },
+  algorithm: ClusteringAlgorithm = DEFAULT_SIMULATION_CONFIG.DEFAULT_CLUSTERING_ALGORITHM,
+  geneticOptions: GeneticMatcherOptions = {}
+): SimulationService {
+  return new SimulationService(
+    createDataAdapter(source),
+    clusteringStrategies[algorithm](),
+    new GeneticMatcher(geneticOptions),
+    new StraightLineRouter()
+  );
+}
+
+/**
+ * Time-stepped simulation engine with the same algorithms for the given data source.
+ * DBSCAN runs incrementally, updating its clusters as requests arrive and leave between
+ * dispatch rounds instead of re-clustering every waiting request. TLC time slices are replayed at their real arrival times; other sources generate
+ * requests at the configured arrival rate.
+ *
+ * The app runs one-shot simulations through createSimulationService; the engine is for
+ * headless runs that follow vehicles and passengers over time.
+ */
+export function createSimulationEngine(
+  source: SimulationDataSource = { kind: 'random' },
+  algorithm: ClusteringAlgorithm = DEFAULT_SIMULATION_CONFIG.DEFAULT_CLUSTERING_ALGORITHM,
+  geneticOptions: GeneticMatcherOptions = {}
+): SimulationEngine {
+  const dataAdapter = createDataAdapter(source);
+
+  return new SimulationEngine(
+    dataAdapter,
+    (incrementalClusteringStrategies[algorithm] ?? clusteringStrategies[algorithm])(),
+    new GeneticMatcher(geneticOptions),
+    new StraightLineRouter(),
+    dataAdapter instanceof TLCTripDataAdapter ? dataAdapter : undefined
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * Parses CSV text into rows of string cells.
+ * Supports quoted cells (including embedded commas, quotes and line breaks) and CRLF line endings.
+ * Blank lines are skipped.
+ * @param text Raw CSV content
+ * @param delimiter Cell separator, defaults to a comma
+ * @returns Array of rows, each an array of cell values
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  return parseCsvLines(text, delimiter).map(({ cells }) => cells);
+}
+
+/**
+ * Same as parseCsv, along with the 1-based line of the text each row starts on.
+ * Blank lines and line breaks inside quoted cells still count as lines.
+ */
+function parseCsvLines(text: string, delimiter: string): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    row.push(cell);
+    // Skip blank lines
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push({ line: rowLine, cells: row });
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\n') line++;
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRow();
+      rowLine = line;
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+
+  // Last row without a trailing newline
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Parses CSV text with a header row into records keyed by column name.
+ * Returns the (trimmed) header and each data row along with the 1-based line of the file it starts on.
+ */
+export function parseCsvRecords(text: string, delimiter = ','): {
+  header: string[];
+  records: { row: number; values: Record<string, string> }[];
+} {
+  const rows = parseCsvLines(text, delimiter);
+
+  if (rows.length === 0) {
+    return { header: [], records: [] };
+  }
+
+  const header = rows[0].cells.map(column => column.trim());
+  const records = rows.slice(1).map(({ line, cells }) => {
+    const values: Record<string, string> = {};
+    header.forEach((column, columnIndex) => {
+      values[column] = (cells[columnIndex] ?? '').trim();
+    });
+    return { row: line, values };
+  });
+
+  return { header, records };
+}
@@ -1,4 +1,5 @@
 import { Coordinates } from '../models/types';
+import { RandomSource } from './random';
 
 // Earth radius in kilometers
 const EARTH_RADIUS_KM = 6371;
@@ -22,6 +23,28 @@ export function haversineDistance(coord1: Coordinates, coord2: Coordinates): num
   return EARTH_RADIUS_KM * c;
 }
 
+/**
+ * Calculates the initial bearing (compass heading) from one point to another.
+ * @returns Bearing in degrees, 0 = north, clockwise in [0, 360)
+ */
+export function bearing(from: Coordinates, to: Coordinates): number {
+  const dLng = toRadians(to.lng - from.lng);
+  const y = Math.sin(dLng) * Math.cos(toRadians(to.lat));
+  const x =
+    Math.cos(toRadians(from.lat)) * Math.sin(toRadians(to.lat)) -
+    Math.sin(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.cos(dLng);
+
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
+/**
+ * Smallest angle between two bearings, in degrees [0, 180]
+ */
+export function bearingDifference(bearing1: number, bearing2: number): number {
+  const difference = Math.abs(bearing1 - bearing2) % 360;
+  return difference > 180 ? 360 - difference : difference;
+}
+
 /**
  * Converts degrees to radians
  */
@@ -32,10 +55,13 @@ function toRadians(degrees: number): number {
 /**
  * Generates a random location within the given bounds
  */
-export function randomLocation(bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number }): Coordinates {
+export function randomLocation(
+  bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number },
+  random: RandomSource = Math.random
+): Coordinates {
   return {
-    lat: bounds.minLat + Math.random() * (bounds.maxLat - bounds.minLat),
-    lng: bounds.minLng + Math.random() * (bounds.maxLng - bounds.minLng)
+    lat: bounds.minLat + random() * (bounds.maxLat - bounds.minLat),
+    lng: bounds.minLng + random() * (bounds.maxLng - bounds.minLng)
   };
 }
 
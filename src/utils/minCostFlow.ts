@@ -0,0 +1,116 @@
+// Costs closer to zero than this count as zero, so rounding noise cannot cause endless augmentation
+const COST_EPSILON = 1e-12;
+
+interface FlowEdge {
+  to: number;
+  capacity: number;
+  cost: number;
+  flow: number;
+  reverse: number; // index of the paired residual edge in graph[to]
+}
+
+/**
+ * Min-cost flow network solved by successive shortest paths.
+ *
+ * Edge costs may be negative as long as the network has no negative cycles
+ * (any network whose edges all point "forward", such as a bipartite assignment, qualifies).
+ * Shortest paths use Bellman-Ford (queue-based), so no potentials are needed.
+ */
+export class MinCostFlow {
+  private readonly graph: FlowEdge[][];
+  private readonly edgeRefs: [number, number][] = []; // edge id -> [from node, index in graph[from]]
+
+  constructor(nodeCount: number) {
+    this.graph = Array.from({ length: nodeCount }, () => []);
+  }
+
+  /**
+   * Add a directed edge and return its id for reading the flow later
+   */
+  addEdge(from: number, to: number, capacity: number, cost: number): number {
+    this.graph[from].push({ to, capacity, cost, flow: 0, reverse: this.graph[to].length });
+    this.graph[to].push({ to: from, capacity: 0, cost: -cost, flow: 0, reverse: this.graph[from].length - 1 });
+    this.edgeRefs.push([from, this.graph[from].length - 1]);
+    return this.edgeRefs.length - 1;
+  }
+
+  getFlow(edgeId: number): number {
+    const [from, index] = this.edgeRefs[edgeId];
+    return this.graph[from][index].flow;
+  }
+
+  /**
+   * Send flow from source to sink along the cheapest paths for as long as they have negative cost,
+   * which yields the cheapest flow of any amount (not necessarily the maximum flow)
+   */
+  minimizeCost(source: number, sink: number): { flow: number; cost: number } {
+    let totalFlow = 0;
+    let totalCost = 0;
+
+    for (;;) {
+      const path = this.shortestPath(source, sink);
+      if (!path || path.cost >= -COST_EPSILON) break;
+
+      // Push as much as the narrowest edge on the path allows
+      let amount = Infinity;
+      for (const [node, index] of path.edges) {
+        const edge = this.graph[node][index];
+        amount = Math.min(amount, edge.capacity - edge.flow);
+      }
+
+      for (const [node, index] of path.edges) {
+        const edge = this.graph[node][index];
+        edge.flow += amount;
+        this.graph[edge.to][edge.reverse].flow -= amount;
+      }
+
+      totalFlow += amount;
+      totalCost += amount * path.cost;
+    }
+
+    return { flow: totalFlow, cost: totalCost };
+  }
+
+  /**
+   * Cheapest source-to-sink path in the residual network, as [node, edge index] pairs
+   */
+  private shortestPath(source: number, sink: number): { cost: number; edges: [number, number][] } | null {
+    const n = this.graph.length;
+    const distance = new Array(n).fill(Infinity);
+    const previous: ([number, number] | null)[] = new Array(n).fill(null);
+    const queued = new Array(n).fill(false);
+    const queue = [source];
+    distance[source] = 0;
+    queued[source] = true;
+
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head];
+      queued[node] = false;
+
+      this.graph[node].forEach((edge, index) => {
+        if (edge.capacity - edge.flow <= 0) return;
+
+        const candidate = distance[node] + edge.cost;
+        if (candidate < distance[edge.to] - COST_EPSILON) {
+          distance[edge.to] = candidate;
+          previous[edge.to] = [node, index];
+          if (!queued[edge.to]) {
+            queued[edge.to] = true;
+            queue.push(edge.to);
+          }
+        }
+      });
+    }
+
+    if (!Number.isFinite(distance[sink])) return null;
+
+    const edges: [number, number][] = [];
+    for (let node = sink; node !== source; ) {
+      const step = previous[node] as [number, number];
+      edges.unshift(step);
+      node = step[0];
+    }
+
+    return { cost: distance[sink], edges };
+  }
+}
@@ -0,0 +1,49 @@
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
+
+/**
+ * A source of uniformly distributed numbers in [0, 1), compatible with Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32).
+ * The same seed always produces the same sequence of numbers.
+ * @param seed Any integer seed
+ * @returns Random source returning numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generates a v4 UUID, drawing its random bytes from the given source when provided
+ * so that seeded runs produce identical IDs
+ */
+export function createId(random?: RandomSource): string {
+  if (!random) {
+    return uuidv4();
+  }
+
+  const bytes = new Uint8Array(16);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Math.floor(random() * 256);
+  }
+
+  return uuidv4({ random: bytes });
+}
+
+/**
+ * Label for an ID in the UI: generated UUIDs are cut to their first characters, which tell
+ * them apart; other IDs, such as tlc-yellow-1234 from trip files, are shown in full
+ */
+export function shortId(id: string): string {
+  return isUuid(id) ? id.substring(0, 6) : id;
+}
@@ -0,0 +1,140 @@
+import { Coordinates } from '../models/types';
+
+// Kilometres per degree of latitude
+const KM_PER_DEGREE = 111.32;
+
+// Safety margin for the flat-earth cell approximation, so no true neighbor is ever missed
+const RADIUS_MARGIN = 1.05;
+
+export interface SpatialIndexOptions {
+  cellSizeKm: number;
+  // Width of the time buckets in minutes; omit to index by location only
+  timeBucketMinutes?: number;
+  // Latitude furthest from the equator that indexed items may have; defaults to that of the initial items
+  maxAbsLatitude?: number;
+}
+
+/**
+ * Uniform grid index over points in space and (optionally) time.
+ *
+ * Items are bucketed by their location on an equirectangular grid and by time bucket,
+ * so a neighborhood query only needs to inspect the surrounding cells instead of every item.
+ * Queries return a superset of the true neighbors; callers apply the exact distance afterwards.
+ */
+export class SpatialGridIndex<T> {
+  // Grid cell key -> time bucket -> item indices
+  private readonly cells = new Map<string, Map<number, number[]>>();
+  private readonly kmPerDegreeLng: number;
+  readonly maxAbsLatitude: number;
+
+  constructor(
+    items: T[],
+    private readonly getLocation: (item: T) => Coordinates,
+    private readonly options: SpatialIndexOptions,
+    private readonly getTime?: (item: T) => Date
+  ) {
+    if (options.cellSizeKm <= 0) {
+      throw new Error('Spatial index cell size must be greater than zero');
+    }
+
+    // Scale longitude at the latitude furthest from the equator, so grid distances
+    // never overestimate true distances anywhere in the indexed area
+    this.maxAbsLatitude = options.maxAbsLatitude
+      ?? items.reduce((max, item) => Math.max(max, Math.abs(getLocation(item).lat)), 0);
+    this.kmPerDegreeLng = KM_PER_DEGREE * Math.max(Math.cos(this.maxAbsLatitude * Math.PI / 180), 0.01);
+
+    items.forEach((item, index) => this.insert(item, index));
+  }
+
+  /**
+   * Add an item under the given index, which queries will return for it
+   */
+  insert(item: T, index: number): void {
+    if (Math.abs(this.getLocation(item).lat) > this.maxAbsLatitude) {
+      throw new Error(`Latitude ${this.getLocation(item).lat} lies beyond the indexed range of ±${this.maxAbsLatitude}`);
+    }
+
+    const key = this.keyOf(item);
+    const bucket = this.bucketOf(this.getTime ? this.getTime(item) : undefined);
+
+    let buckets = this.cells.get(key);
+    if (!buckets) {
+      buckets = new Map();
+      this.cells.set(key, buckets);
+    }
+
+    const indices = buckets.get(bucket);
+    if (indices) {
+      indices.push(index);
+    } else {
+      buckets.set(bucket, [index]);
+    }
+  }
+
+  /**
+   * Remove an item previously inserted under the given index
+   */
+  remove(item: T, index: number): void {
+    const key = this.keyOf(item);
+    const bucket = this.bucketOf(this.getTime ? this.getTime(item) : undefined);
+    const buckets = this.cells.get(key);
+    const indices = buckets?.get(bucket);
+    if (!buckets || !indices) return;
+
+    const position = indices.indexOf(index);
+    if (position >= 0) indices.splice(position, 1);
+
+    // Drop empty buckets and cells so long-running indexes do not accumulate them
+    if (indices.length === 0) buckets.delete(bucket);
+    if (buckets.size === 0) this.cells.delete(key);
+  }
+
+  /**
+   * Indices of items that may lie within radiusKm of the location and,
+   * when a time is given, within timeRadiusMinutes of it.
+   * Indices are returned in ascending order.
+   */
+  queryCandidates(location: Coordinates, radiusKm: number, time?: Date, timeRadiusMinutes?: number): number[] {
+    const [cellX, cellY] = this.cellOf(location);
+    const cellRange = Math.ceil(radiusKm * RADIUS_MARGIN / this.options.cellSizeKm);
+
+    // Restrict the time buckets only when the index and the query both carry time
+    const useTime = time !== undefined && timeRadiusMinutes !== undefined && Number.isFinite(timeRadiusMinutes);
+    const minBucket = useTime ? this.bucketOf(new Date((time as Date).getTime() - (timeRadiusMinutes as number) * 60 * 1000)) : 0;
+    const maxBucket = useTime ? this.bucketOf(new Date((time as Date).getTime() + (timeRadiusMinutes as number) * 60 * 1000)) : 0;
+
+    const candidates: number[] = [];
+
+    for (let x = cellX - cellRange; x <= cellX + cellRange; x++) {
+      for (let y = cellY - cellRange; y <= cellY + cellRange; y++) {
+        const buckets = this.cells.get(`${x},${y}`);
+        if (!buckets) continue;
+
+        buckets.forEach((indices, bucket) => {
+          if (!useTime || (bucket >= minBucket && bucket <= maxBucket)) {
+            candidates.push(...indices);
+          }
+        });
+      }
+    }
+
+    return candidates.sort((a, b) => a - b);
+  }
+
+  private keyOf(item: T): string {
+    const [x, y] = this.cellOf(this.getLocation(item));
+    return `${x},${y}`;
+  }
+
+  private cellOf(location: Coordinates): [number, number] {
+    return [
+      Math.floor(location.lng * this.kmPerDegreeLng / this.options.cellSizeKm),
+      Math.floor(location.lat * KM_PER_DEGREE / this.options.cellSizeKm)
+    ];
+  }
+
+  private bucketOf(time: Date | undefined): number {
+    if (!time || !this.options.timeBucketMinutes || !this.getTime) return 0;
+    return Math.floor(time.getTime() / (60 * 1000) / this.options.timeBucketMinutes);
+  }
+}
@@ -0,0 +1,99 @@
+import { SimulationCancelledError, SimulationWorkerClient } from './SimulationWorkerClient';
+import { SimulationWorkerRequest, SimulationWorkerResponse } from './simulationWorkerProtocol';
+import { SimulationRunResult } from '../services/interfaces';
+import { MatchingProgress, SimulationParams } from '../models/types';
+
+const params: SimulationParams = {
+  passengerCount: 20,
+  vehicleCount: 5,
+  maxDetourDistance: 2,
+  timeWindow: 15,
+  seed: 3,
+  startTime: new Date()
+};
+
+// What a worker posts back for a run with nothing to match
+const emptyResult: SimulationRunResult = {
+  requests: [],
+  vehicles: [],
+  clusters: [],
+  assignments: [],
+  clusterQuality: { clusterCount: 0, noiseCount: 0, silhouette: null, daviesBouldin: null, shareability: null },
+  filteredRequests: [],
+  routeSequencing: { distanceBeforeKm: 0, distanceAfterKm: 0, resequencedAssignments: 0 },
+  passengerService: [],
+  unassignedRequests: []
+};
+
+// Stands in for a Web Worker, letting the test post responses back to the client
+class FakeWorker {
+  onmessage: ((event: MessageEvent<SimulationWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  requests: SimulationWorkerRequest[] = [];
+  terminated = false;
+
+  postMessage(request: SimulationWorkerRequest) {
+    this.requests.push(request);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  respond(data: SimulationWorkerResponse) {
+    this.onmessage?.({ data } as MessageEvent<SimulationWorkerResponse>);
+  }
+}
+
+describe('SimulationWorkerClient', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('runs on the main thread without a worker factory, still reporting progress', async () => {
+    const progress: MatchingProgress[] = [];
+
+    const result = await new SimulationWorkerClient().run(params, { kind: 'random' }, entry => progress.push(entry));
+
+    expect(result.requests).toHaveLength(20);
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress.map(entry => entry.iteration)).toEqual(progress.map((_, index) => index));
+    // The best fitness found so far never gets worse and is never below the population mean
+    progress.forEach(entry => expect(entry.bestFitness).toBeGreaterThanOrEqual(entry.meanFitness - 1e-12));
+    progress.slice(1).forEach((entry, index) => {
+      expect(entry.bestFitness).toBeGreaterThanOrEqual(progress[index].bestFitness);
+    });
+  });
+
+  test('forwards worker progress and terminates the worker once the result arrives', async () => {
+    const worker = new FakeWorker();
+    const client = new SimulationWorkerClient(() => worker as unknown as Worker);
+    const progress: MatchingProgress[] = [];
+
+    const run = client.run(params, { kind: 'random' }, entry => progress.push(entry));
+    expect(worker.requests).toEqual([{ type: 'run', params, source: { kind: 'random' } }]);
+
+    const entry = { iteration: 1, maxIterations: 10, bestFitness: 0.5, meanFitness: 0.4 };
+    worker.respond({ type: 'progress', progress: entry });
+    worker.respond({ type: 'result', result: emptyResult });
+
+    await expect(run).resolves.toBe(emptyResult);
+    expect(progress).toEqual([entry]);
+    expect(worker.terminated).toBe(true);
+  });
+
+  test('cancelling terminates the worker and rejects the run', async () => {
+    const worker = new FakeWorker();
+    const client = new SimulationWorkerClient(() => worker as unknown as Worker);
+
+    const run = client.run(params, { kind: 'random' });
+    client.cancel();
+
+    await expect(run).rejects.toBeInstanceOf(SimulationCancelledError);
+    expect(worker.terminated).toBe(true);
+  });
+});
@@ -0,0 +1,93 @@
+import { SimulationRunResult } from '../services/interfaces';
+import { SimulationDataSource, createSimulationService } from '../services/simulationFactory';
+import { MatchingProgress, SimulationParams } from '../models/types';
+import { SimulationWorkerRequest, SimulationWorkerResponse } from './simulationWorkerProtocol';
+
+/**
+ * Error a run rejects with when it is cancelled
+ */
+export class SimulationCancelledError extends Error {
+  constructor() {
+    super('Simulation cancelled');
+    this.name = 'SimulationCancelledError';
+  }
+}
+
+/**
+ * Runs simulations in a Web Worker so long genetic matching runs don't freeze the UI.
+ * Each run gets its own worker, which is terminated when the run ends or is cancelled.
+ * Without a worker factory runs happen on the main thread and cannot be cancelled.
+ */
+export class SimulationWorkerClient {
+  private worker: Worker | null = null;
+  private rejectRun: ((error: Error) => void) | null = null;
+
+  /**
+   * @param createWorker Starts a worker running simulation.worker.ts
+   */
+  constructor(private readonly createWorker?: () => Worker) {}
+
+  /**
+   * Start a run, cancelling the one in progress
+   */
+  run(
+    params: SimulationParams,
+    source: SimulationDataSource,
+    onProgress?: (progress: MatchingProgress) => void
+  ): Promise<SimulationRunResult> {
+    this.cancel();
+
+    const { createWorker } = this;
+    if (!createWorker) {
+      return createSimulationService(source, params.clusterTuning?.algorithm, params.geneticOptions)
+        .runSimulation(params, { onMatchingProgress: onProgress });
+    }
+
+    return new Promise((resolve, reject) => {
+      const worker = createWorker();
+      this.worker = worker;
+      this.rejectRun = reject;
+
+      worker.onmessage = ({ data }: MessageEvent<SimulationWorkerResponse>) => {
+        if (data.type === 'progress') {
+          onProgress?.(data.progress);
+          return;
+        }
+
+        this.release(worker);
+        if (data.type === 'result') {
+          resolve(data.result);
+        } else {
+          reject(new Error(data.message));
+        }
+      };
+
+      worker.onerror = event => {
+        this.release(worker);
+        reject(new Error(event.message || 'Simulation worker failed'));
+      };
+
+      const request: SimulationWorkerRequest = { type: 'run', params, source };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Abort the run in progress, rejecting it with a SimulationCancelledError
+   */
+  cancel(): void {
+    if (!this.worker) return;
+
+    const reject = this.rejectRun;
+    this.release(this.worker);
+    reject?.(new SimulationCancelledError());
+  }
+
+  private release(worker: Worker): void {
+    worker.terminate();
+    if (this.worker === worker) {
+      this.worker = null;
+      this.rejectRun = null;
+    }
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Starts a Web Worker running simulation.worker.ts; undefined where workers don't exist.
+ * Kept in its own module because the bundler's worker syntax (import.meta) does not run under jest.
+ */
+export const createSimulationWorker: (() => Worker) | undefined = typeof Worker === 'undefined'
+  ? undefined
+  : () => new Worker(new URL('./simulation.worker.ts', import.meta.url));
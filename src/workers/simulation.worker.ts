@@ -0,0 +1,24 @@
+import { createSimulationService } from '../services/simulationFactory';
+import { SimulationWorkerRequest, SimulationWorkerResponse } from './simulationWorkerProtocol';
+
+/**
+ * Runs the clustering and matching pipeline off the main thread, streaming matching progress back.
+ * One worker serves one run; the main thread terminates it to cancel.
+ */
+// eslint-disable-next-line no-restricted-globals
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<SimulationWorkerRequest>) => void) | null;
+  postMessage: (message: SimulationWorkerResponse) => void;
+};
+
+scope.onmessage = async ({ data: { params, source } }) => {
+  try {
+    const service = createSimulationService(source, params.clusterTuning?.algorithm, params.geneticOptions);
+    const result = await service.runSimulation(params, {
+      onMatchingProgress: progress => scope.postMessage({ type: 'progress', progress })
+    });
+    scope.postMessage({ type: 'result', result });
+  } catch (error) {
+    scope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,16 @@
+import { SimulationRunResult } from '../services/interfaces';
+import { SimulationDataSource } from '../services/simulationFactory';
+import { MatchingProgress, SimulationParams } from '../models/types';
+
+// Main thread -> worker: start a run
+export interface SimulationWorkerRequest {
+  type: 'run';
+  params: SimulationParams;
+  source: SimulationDataSource;
+}
+
+// Worker -> main thread: matching progress while the run goes on, then its result or error
+export type SimulationWorkerResponse =
+  | { type: 'progress'; progress: MatchingProgress }
+  | { type: 'result'; result: SimulationRunResult }
+  | { type: 'error'; message: string };